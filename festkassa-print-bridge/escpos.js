@@ -0,0 +1,135 @@
+// ====== ESC/POS ======
+// Baut aus Bon-Text bzw. Beleg-Dokument einen Byte-Stream für Thermodrucker (Epson-kompatibel).
+// Zeichensatz: Codepage 858 (= 850 mit €), damit Umlaute, ß und € korrekt gedruckt werden.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+const CODEPAGE_858 = 19; // ESC t n
+
+// Unicode → CP858 (nur was auf Bons vorkommt; ASCII bleibt wie es ist)
+const CP858 = new Map([
+  ["Ç", 0x80], ["ü", 0x81], ["é", 0x82], ["â", 0x83], ["ä", 0x84], ["à", 0x85], ["å", 0x86], ["ç", 0x87],
+  ["ê", 0x88], ["ë", 0x89], ["è", 0x8a], ["ï", 0x8b], ["î", 0x8c], ["ì", 0x8d], ["Ä", 0x8e], ["Å", 0x8f],
+  ["É", 0x90], ["ô", 0x93], ["ö", 0x94], ["ò", 0x95], ["û", 0x96], ["ù", 0x97], ["Ö", 0x99], ["Ü", 0x9a],
+  ["×", 0x9e], ["á", 0xa0], ["í", 0xa1], ["ó", 0xa2], ["ú", 0xa3], ["ñ", 0xa4], ["Ñ", 0xa5], ["½", 0xab],
+  ["€", 0xd5], ["ß", 0xe1], ["µ", 0xe6], ["±", 0xf1], ["°", 0xf8], ["·", 0xfa],
+]);
+
+// Zeichen ohne Entsprechung in CP858
+const FALLBACK = new Map([
+  ["–", "-"], ["—", "-"], ["•", "*"], ["✓", "v"], ["„", '"'], ["“", '"'], ["”", '"'], ["‚", "'"], ["‘", "'"], ["’", "'"],
+  ["…", "..."], [" ", " "], [" ", " "],
+]);
+
+/** Text → CP858-Bytes (unbekannte Zeichen werden zu "?"). */
+export function encodeText(text) {
+  const out = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0);
+    if (code < 0x80) out.push(code);
+    else if (CP858.has(ch)) out.push(CP858.get(ch));
+    else if (FALLBACK.has(ch)) out.push(...encodeText(FALLBACK.get(ch)));
+    else out.push(0x3f);
+  }
+  return out;
+}
+
+export class EscPos {
+  constructor() {
+    this.bytes = [ESC, 0x40, ESC, 0x74, CODEPAGE_858]; // Init + Codepage
+  }
+
+  raw(...bytes) {
+    this.bytes.push(...bytes);
+    return this;
+  }
+
+  text(s) {
+    return this.raw(...encodeText(s));
+  }
+
+  line(s = "") {
+    return this.text(s).raw(0x0a);
+  }
+
+  bold(on) {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /** 0 = links, 1 = mittig, 2 = rechts */
+  align(n) {
+    return this.raw(ESC, 0x61, n);
+  }
+
+  /** Zeichengröße 1–8 in Breite und Höhe */
+  size(width, height) {
+    return this.raw(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  feed(lines = 1) {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  /** Natives QR (Modell 2, Fehlerkorrektur M). size = Modulgröße 1–16. */
+  qr(data, size = 6) {
+    const payload = encodeText(data);
+    const len = payload.length + 3;
+    return this.raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00) // Modell 2
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, size) // Modulgröße
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31) // Fehlerkorrektur M
+      .raw(GS, 0x28, 0x6b, len & 0xff, (len >> 8) & 0xff, 0x31, 0x50, 0x30, ...payload) // Daten speichern
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30); // drucken
+  }
+
+  /** Kassenlade öffnen (Pin 2, 50 ms an / 500 ms aus) */
+  openDrawer() {
+    return this.raw(ESC, 0x70, 0x00, 0x19, 0xfa);
+  }
+
+  /** Vorschub + Teilschnitt */
+  cut() {
+    return this.raw(GS, 0x56, 0x42, 0x00);
+  }
+
+  toBuffer() {
+    return Buffer.from(this.bytes);
+  }
+}
+
+const SEPARATOR = /^-{5,}$/;
+const RKSV_CODE = /^_R1-/;
+
+/**
+ * ✅ Bon-Text (print_jobs.payload) → ESC/POS. Fallback für Jobs ohne Beleg-Dokument, siehe templates.js.
+ * - 1. Zeile (Bar-Name) fett + doppelt groß, mittig
+ * - "GESAMT" fett
+ * - RKSV-Code (_R1-…) als QR statt als Text
+ * - optional QR mit Link zum digitalen Beleg
+ */
+export function renderReceipt(payload, { receiptUrl = null } = {}) {
+  const p = new EscPos();
+  const lines = String(payload ?? "").replace(/\r/g, "").replace(/\n+$/, "").split("\n");
+
+  lines.forEach((l, i) => {
+    if (i === 0) {
+      p.align(1).bold(true).size(2, 2).line(l).size(1, 1).bold(false).align(0);
+    } else if (RKSV_CODE.test(l)) {
+      p.align(1).qr(l, 4).feed(1).align(0);
+    } else if (SEPARATOR.test(l)) {
+      p.line(l);
+    } else if (l.startsWith("GESAMT")) {
+      p.bold(true).line(l).bold(false);
+    } else {
+      p.line(l);
+    }
+  });
+
+  if (receiptUrl) {
+    p.feed(1).align(1).line("Digitaler Beleg:").qr(receiptUrl, 6).feed(1).align(0);
+  }
+
+  p.feed(4).cut();
+
+  return p.toBuffer();
+}
@@ -1,8 +1,21 @@
 import "dotenv/config";
+import os from "node:os";
 import { createClient } from "@supabase/supabase-js";
+import { EscPos, renderReceipt } from "./escpos.js";
+import { createPrinter } from "./printer.js";
+import { createDocumentRenderer } from "./templates.js";
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const serviceKey = process.env.SUPABASE_SERVICE_KEY;
+const receiptBaseUrl = process.env.RECEIPT_BASE_URL; // z.B. https://kassa.example.at → QR auf /r/<token>
+const printerId = process.env.PRINTER_ID || null; // printers.id aus dem Admin-Tab "Drucker"; leer = Jobs ohne Drucker
+const bridgeId = process.env.BRIDGE_ID ?? `${os.hostname()}:${process.pid}`;
+
+const LEASE_SECONDS = 60; // länger als der TCP-Timeout des Druckers
+const MAX_ATTEMPTS = Number(process.env.PRINT_MAX_ATTEMPTS ?? 5);
+const HEARTBEAT_MS = 10000;
+const POLL_MS = 3000; // ohne Realtime-Verbindung
+const POLL_MS_REALTIME = 15000; // mit Realtime nur noch für fällige Retries
 
 if (!supabaseUrl || !serviceKey) {
   console.error("❌ SUPABASE_URL oder SERVICE_KEY fehlt");
@@ -10,47 +23,168 @@ if (!supabaseUrl || !serviceKey) {
 }
 
 const supabase = createClient(supabaseUrl, serviceKey);
+const printer = createPrinter();
+const renderDocument = createDocumentRenderer();
+
+console.log(`🖨️ Festkassa Print-Bridge gestartet… (Drucker: ${printer.name}, PRINTER_ID: ${printerId ?? "—"}, Bridge: ${bridgeId}, Vorlage: ${process.env.PRINTER_TEMPLATE ?? "80mm"})`);
+
+// Beleg-Link zum Job (QR auf dem Bon); die Kassenlade öffnen eigene Jobs (kind = 'drawer'), nicht der Bon
+async function loadJobContext(job) {
+  if (!job.order_id || job.kind === "ticket") return { receiptUrl: null };
+
+  const { data: order, error } = await supabase.from("orders").select("public_token").eq("id", job.order_id).maybeSingle();
+  if (error) throw new Error(error.message);
 
-console.log("🖨️ Festkassa Print-Bridge gestartet…");
+  return { receiptUrl: receiptBaseUrl && order?.public_token ? `${receiptBaseUrl.replace(/\/$/, "")}/r/${order.public_token}` : null };
+}
+
+// ====== Heartbeat + Druckerstatus ======
+let printerState = { status: "online", message: null };
+
+async function reportStatus(next) {
+  if (next.status !== printerState.status || next.message !== printerState.message) {
+    console.log(`${next.status === "online" ? "🟢" : "🔴"} Drucker: ${next.status}${next.message ? ` (${next.message})` : ""}`);
+  }
+  printerState = next;
 
+  const { error } = await supabase.from("print_bridges").upsert({
+    id: bridgeId,
+    printer_id: printerId,
+    status: next.status,
+    message: next.message,
+    last_seen_at: new Date().toISOString(),
+  });
+  if (error) console.error("❌ Heartbeat fehlgeschlagen:", error.message);
+}
+
+async function heartbeat() {
+  try {
+    const next = await printer.status();
+    await reportStatus(next);
+    if (next.status === "online") void drain(); // z.B. Papier wieder eingelegt
+  } catch (e) {
+    console.error("❌ Heartbeat fehlgeschlagen:", e instanceof Error ? e.message : e);
+  }
+}
+
+/** Einen Job drucken; true = weiter (nächsten Job holen), false = Queue leer oder Drucker gestört. */
 async function pollPrintJobs() {
-  const { data, error } = await supabase
-    .from("print_jobs")
-    .select("*")
-    .eq("status", "queued")
-    .order("created_at", { ascending: true })
-    .limit(1);
+  if (printerState.status === "paper_out") return false; // Jobs bleiben queued, bis Papier eingelegt ist
+
+  // ✅ Job atomar übernehmen (queued → printing, Lease auf diese Bridge) – zwei Bridges drucken nie denselben Bon
+  const { data, error } = await supabase.rpc("claim_print_job", {
+    p_printer_id: printerId,
+    p_bridge_id: bridgeId,
+    p_lease_seconds: LEASE_SECONDS,
+    p_max_attempts: MAX_ATTEMPTS,
+  });
 
   if (error) {
     console.error("❌ Fehler beim Lesen der Queue:", error.message);
-    return;
+    return false;
   }
 
-  if (!data || data.length === 0) {
-    console.log("⏳ Keine Druckjobs");
-    return;
-  }
+  if (!data || data.length === 0) return false;
 
   const job = data[0];
 
-  console.log("🧾 Neuer Druckjob:");
+  console.log(`${job.kind === "drawer" ? "💶 Kassenlade" : "🧾 Neuer Druckjob"} (Versuch ${job.attempts}/${MAX_ATTEMPTS}):`);
   console.log("--------------------------------");
   console.log(job.payload);
   console.log("--------------------------------");
 
-  // 👉 später: hier kommt der echte Druck
+  try {
+    if (job.kind === "drawer") {
+      // Kassenlade öffnen, ohne Papier
+      await printer.print(job, new EscPos().openDrawer().toBuffer());
+    } else {
+      // Beleg-Dokument nach Vorlage; Jobs ohne document (ältere Kassen) als Text
+      const ctx = await loadJobContext(job);
+      const bytes = job.document ? renderDocument(job.document, ctx) : renderReceipt(job.payload, ctx);
+      await printer.print(job, bytes);
+    }
+  } catch (e) {
+    // Retry mit Backoff (z.B. Drucker aus / Papier leer), nach MAX_ATTEMPTS Versuchen 'failed'
+    const message = e instanceof Error ? e.message : String(e);
+    console.error("❌ Druck fehlgeschlagen:", message);
+
+    const { data: status, error: failErr } = await supabase.rpc("fail_print_job", {
+      p_job_id: job.id,
+      p_bridge_id: bridgeId,
+      p_error: message,
+      p_max_attempts: MAX_ATTEMPTS,
+    });
+    if (failErr) console.error("❌ Konnte Fehler nicht speichern:", failErr.message);
+    else console.log(status === "failed" ? "🛑 Job endgültig fehlgeschlagen" : "🔁 Job wird später erneut versucht");
+
+    await reportStatus({ status: "error", message });
+    return false;
+  }
 
-  const { error: updErr } = await supabase
-    .from("print_jobs")
-    .update({ status: "printed", printed_at: new Date().toISOString() })
-    .eq("id", job.id);
+  const { data: done, error: updErr } = await supabase.rpc("complete_print_job", { p_job_id: job.id, p_bridge_id: bridgeId });
 
   if (updErr) {
     console.error("❌ Konnte Job nicht abschließen:", updErr.message);
+  } else if (!done) {
+    console.warn("⚠️ Lease war abgelaufen – Job gehört inzwischen einer anderen Bridge");
   } else {
     console.log("✅ Job als gedruckt markiert");
   }
+  if (printerState.status === "error") await reportStatus({ status: "online", message: null });
+  return true;
 }
 
-// alle 3 Sekunden prüfen
-setInterval(pollPrintJobs, 3000);
\ No newline at end of file
+// Queue abarbeiten – nie zwei Durchläufe gleichzeitig (Druck über TCP kann länger dauern).
+// Kommt währenddessen ein neuer Job, läuft danach noch ein Durchlauf.
+let draining = false;
+let drainAgain = false;
+
+async function drain() {
+  if (draining) {
+    drainAgain = true;
+    return;
+  }
+  draining = true;
+  try {
+    do {
+      drainAgain = false;
+      while (await pollPrintJobs());
+    } while (drainAgain);
+  } catch (e) {
+    console.error("❌ Fehler in der Druck-Queue:", e instanceof Error ? e.message : e);
+  } finally {
+    draining = false;
+  }
+}
+
+// ✅ Realtime: neue bzw. wieder eingereihte Jobs sofort drucken
+let realtime = false;
+supabase
+  .channel("print-jobs")
+  .on("postgres_changes", { event: "*", schema: "public", table: "print_jobs" }, (change) => {
+    if (change.new?.status === "queued") void drain();
+  })
+  .subscribe((status) => {
+    const connected = status === "SUBSCRIBED";
+    if (connected !== realtime) console.log(connected ? "📡 Realtime verbunden" : `📡 Realtime getrennt (${status}) – Polling alle ${POLL_MS / 1000} s`);
+    realtime = connected;
+  });
+
+// Fallback-Polling (ohne Realtime) und fällige Retries
+let lastPoll = 0;
+setInterval(() => {
+  if (Date.now() - lastPoll < (realtime ? POLL_MS_REALTIME : POLL_MS)) return;
+  lastPoll = Date.now();
+  void drain();
+}, 1000);
+
+setInterval(() => void heartbeat(), HEARTBEAT_MS);
+void heartbeat();
+
+// Beim Beenden abmelden, damit die Kassa nicht bis zum Heartbeat-Timeout wartet
+async function shutdown() {
+  await reportStatus({ status: "error", message: "Bridge beendet" });
+  process.exit(0);
+}
+process.on("SIGINT", () => void shutdown());
+process.on("SIGTERM", () => void shutdown());
@@ -0,0 +1,96 @@
+import net from "node:net";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// ====== Drucker-Ausgabe ======
+// PRINTER_BACKEND=tcp    → Netzwerkdrucker, Raw-TCP (PRINTER_HOST, PRINTER_PORT=9100)
+// PRINTER_BACKEND=device → Gerätedatei, z.B. USB (PRINTER_DEVICE=/dev/usb/lp0)
+// PRINTER_BACKEND=file   → Byte-Stream als .bin in PRINTER_DUMP_DIR (Test ohne Hardware)
+// status() liefert { status: "online" | "paper_out" | "error", message } für den Heartbeat.
+
+const TCP_TIMEOUT_MS = 10000;
+const STATUS_TIMEOUT_MS = 3000;
+
+// DLE EOT 1 (Druckerstatus) + DLE EOT 4 (Papiersensor) → je 1 Byte Antwort
+const STATUS_REQUEST = Buffer.from([0x10, 0x04, 0x01, 0x10, 0x04, 0x04]);
+
+function sendTcp(host, port, data) {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(TCP_TIMEOUT_MS);
+
+    socket.on("connect", () => socket.end(data));
+    socket.on("close", (hadError) => {
+      if (!hadError) resolve();
+    });
+    socket.on("timeout", () => socket.destroy(new Error(`Drucker ${host}:${port} antwortet nicht`)));
+    socket.on("error", reject);
+  });
+}
+
+function queryTcpStatus(host, port) {
+  return new Promise((resolve) => {
+    const socket = net.createConnection({ host, port });
+    const answer = [];
+    const done = (result) => {
+      socket.destroy();
+      resolve(result);
+    };
+
+    socket.setTimeout(STATUS_TIMEOUT_MS);
+    socket.on("connect", () => socket.write(STATUS_REQUEST));
+    socket.on("data", (chunk) => {
+      answer.push(...chunk);
+      if (answer.length < 2) return;
+
+      const [printerByte, paperByte] = answer;
+      if (paperByte & 0x60) done({ status: "paper_out", message: "Papier leer" });
+      else if (printerByte & 0x08) done({ status: "error", message: "Drucker offline (Deckel offen?)" });
+      else done({ status: "online", message: paperByte & 0x0c ? "Papier fast leer" : null });
+    });
+    // Drucker ohne Statusantwort, aber erreichbar → als online werten
+    socket.on("timeout", () => done(answer.length === 0 && socket.readyState === "open" ? { status: "online", message: null } : { status: "error", message: `Drucker ${host}:${port} antwortet nicht` }));
+    socket.on("error", (e) => done({ status: "error", message: e.message }));
+  });
+}
+
+/** Liefert print(job, bytes) und status() für das konfigurierte Backend. */
+export function createPrinter(env = process.env) {
+  const backend = (env.PRINTER_BACKEND ?? "file").toLowerCase();
+
+  if (backend === "tcp") {
+    const host = env.PRINTER_HOST;
+    const port = Number(env.PRINTER_PORT ?? 9100);
+    if (!host) throw new Error("PRINTER_HOST fehlt");
+    return { name: `tcp://${host}:${port}`, print: (_job, data) => sendTcp(host, port, data), status: () => queryTcpStatus(host, port) };
+  }
+
+  if (backend === "device") {
+    const device = env.PRINTER_DEVICE ?? "/dev/usb/lp0";
+    return {
+      name: device,
+      print: (_job, data) => fs.writeFile(device, data, { flag: "a" }),
+      status: () =>
+        fs.access(device, fs.constants.W_OK).then(
+          () => ({ status: "online", message: null }),
+          (e) => ({ status: "error", message: e.message })
+        ),
+    };
+  }
+
+  if (backend === "file") {
+    const dir = env.PRINTER_DUMP_DIR ?? "./print-dumps";
+    return {
+      name: `Datei (${dir})`,
+      print: async (job, data) => {
+        await fs.mkdir(dir, { recursive: true });
+        const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${job.id}.bin`);
+        await fs.writeFile(file, data);
+        console.log(`💾 ESC/POS gespeichert: ${file}`);
+      },
+      status: async () => ({ status: "online", message: null }),
+    };
+  }
+
+  throw new Error(`Unbekanntes PRINTER_BACKEND: ${backend}`);
+}
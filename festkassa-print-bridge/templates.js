@@ -0,0 +1,139 @@
+import { EscPos } from "./escpos.js";
+
+// ====== Bon-Vorlagen ======
+// Legt das Beleg-Dokument (print_jobs.document, siehe src/lib/receipt.ts der Kassa) bzw. Stations-Tickets
+// (kind = "ticket", aus create_order) je Papierbreite aus.
+// PRINTER_TEMPLATE=58mm | 80mm, optional PRINTER_HEADER (Zeilen mit "|" getrennt) und
+// PRINTER_LOGO=1 (im Drucker hinterlegtes NV-Logo Nr. 1 drucken).
+
+export const TEMPLATES = {
+  "58mm": { width: 32, rksvQrSize: 4, linkQrSize: 5 },
+  "80mm": { width: 48, rksvQrSize: 5, linkQrSize: 6 },
+};
+
+const num = (v) => new Intl.NumberFormat("de-AT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(v);
+const euro = (v) => `${num(v)} €`;
+const rateLabel = (rate) => `${Math.round(rate * 100)}%`;
+
+/** Links/rechts bündig auf eine Zeile; zu langer linker Text wird gekürzt. */
+function cols(left, right, width) {
+  const room = width - right.length - 1;
+  const l = left.length > room ? left.slice(0, Math.max(room, 0)) : left;
+  return l.padEnd(width - right.length) + right;
+}
+
+function templateFromEnv(env) {
+  const name = env.PRINTER_TEMPLATE ?? "80mm";
+  const template = TEMPLATES[name];
+  if (!template) throw new Error(`Unbekannte PRINTER_TEMPLATE: ${name}`);
+  return {
+    ...template,
+    header: (env.PRINTER_HEADER ?? "").split("|").map((s) => s.trim()).filter(Boolean),
+    logo: env.PRINTER_LOGO === "1",
+  };
+}
+
+const PAYMENT_LABEL = { cash: "Bar", sumup: "Karte (SumUp)", split: "Bar + Karte" };
+
+/**
+ * ✅ Beleg-Dokument → ESC/POS.
+ * Kopf (Logo, Bar, Kopfzeilen) · Positionen (+ Rabatte) · Pfand je Art · Steuer je Satz · GESAMT · RKSV-QR · Beleg-Link-QR
+ */
+export function createDocumentRenderer(env = process.env) {
+  const t = templateFromEnv(env);
+  const sep = "-".repeat(t.width);
+
+  return function renderDocument(doc, { receiptUrl = null } = {}) {
+    if (doc.kind === "ticket") return renderTicket(doc, t);
+
+    const p = new EscPos();
+
+    // Kopf
+    p.align(1);
+    if (t.logo) p.raw(0x1c, 0x70, 0x01, 0x00); // FS p: NV-Bild 1, normal
+    p.bold(true).size(2, 2).line(doc.bar_name.toUpperCase()).size(1, 1).bold(false);
+    t.header.forEach((h) => p.line(h));
+    if (doc.kind === "storno") p.feed(1).bold(true).line(`STORNO zu Bon ${doc.storno_of_receipt_no ?? "-"}`).bold(false);
+    p.align(0).feed(1);
+
+    p.line(cols("Bon-Nr:", doc.receipt_no, t.width));
+    p.line(cols("Datum:", new Date(doc.created_at).toLocaleString("de-AT"), t.width));
+    p.line(cols("Kassier:", doc.cashier ? doc.cashier.name : "-", t.width));
+    p.line(cols("Zahlung:", PAYMENT_LABEL[doc.payment_method] ?? doc.payment_method, t.width));
+    p.line(sep);
+
+    // Positionen
+    doc.lines.forEach((l) => {
+      // Mit Rabatt: Betrag vor Rabatt, darunter der Rabatt (l.total ist schon rabattiert)
+      p.line(cols(`${l.qty}x ${l.name}`, num(l.discount ? l.total + l.discount.amount : l.total), t.width));
+      if (Math.abs(l.qty) !== 1) p.line(`   à ${num(l.unit_price)}`);
+      if (l.discount) p.line(cols(`   ${l.discount.label}`, num(-l.discount.amount), t.width));
+    });
+    if (doc.discount) p.line(cols(`Rabatt ${doc.discount.label}`, num(-doc.discount.amount), t.width));
+    p.line(sep);
+
+    // Pfand
+    p.line(cols("Pfand (steuerfrei)", num(doc.deposit_total), t.width));
+    doc.deposits.forEach((d) => {
+      if (d.issued !== 0) p.line(cols(`  ${d.issued}x ${d.name} à ${num(d.value)}`, num(d.issued * d.value), t.width));
+      if (d.returned !== 0) p.line(cols(`  ${d.returned}x ${d.name} zurück`, num(-d.returned * d.value), t.width));
+    });
+    p.line(sep);
+
+    // Steuer je Satz (Spalten wachsen mit der Papierbreite)
+    const w = Math.floor((t.width - 5) / 3);
+    const row = (a, b, c, d) => `${a.padEnd(t.width - 3 * w)}${b.padStart(w)}${c.padStart(w)}${d.padStart(w)}`;
+    p.line(row("USt", "Netto", "USt", "Brutto"));
+    doc.taxes.forEach((x) => p.line(row(rateLabel(x.tax_rate), num(x.net), num(x.tax), num(x.gross))));
+    p.line(sep);
+
+    p.bold(true).size(1, 2).line(cols("GESAMT", euro(doc.total), t.width)).size(1, 1).bold(false);
+    if (doc.payments && doc.payments.length > 1) doc.payments.forEach((x) => p.line(cols(`  ${PAYMENT_LABEL[x.method] ?? x.method}`, num(x.amount), t.width)));
+    if (doc.cash) {
+      p.line(cols("Gegeben", num(doc.cash.tendered), t.width));
+      p.line(cols("Rückgeld", num(doc.cash.change), t.width));
+    }
+
+    // RKSV
+    if (doc.rksv) {
+      p.line(sep);
+      p.line(`Kassen-ID: ${doc.rksv.cash_register_id}`);
+      if (doc.rksv.signature_failed) p.line("Sicherheitseinrichtung ausgefallen");
+      p.align(1).qr(doc.rksv.code, t.rksvQrSize).feed(1).align(0);
+    }
+
+    const url = receiptUrl ?? doc.receipt_url;
+    if (url) {
+      p.feed(1).align(1).line("Digitaler Beleg:").qr(url, t.linkQrSize).feed(1).align(0);
+    }
+
+    p.feed(4).cut();
+
+    return p.toBuffer();
+  };
+}
+
+/**
+ * ✅ Stations-Ticket (Bonierung): Station + Abholnummer riesig, Positionen groß – für Küche/Ausgabe.
+ * Keine Beträge, kein QR, keine Kassenlade.
+ */
+function renderTicket(doc, t) {
+  const p = new EscPos();
+  const sep = "-".repeat(t.width);
+
+  p.align(1).bold(true).size(2, 2).line(doc.station_name.toUpperCase()).size(1, 1).bold(false);
+  p.line(doc.bar_name).feed(1);
+  p.line("Abholnummer");
+  p.bold(true).size(4, 4).line(String(doc.short_no ?? "-")).size(1, 1).bold(false);
+  p.align(0).line(sep);
+
+  // Doppelte Größe: lange Namen bricht der Drucker selbst um (nie kürzen – die Küche braucht den ganzen Namen)
+  doc.lines.forEach((l) => p.bold(true).size(2, 2).line(`${l.qty}x ${l.name}`).size(1, 1).bold(false));
+
+  p.line(sep);
+  p.line(cols(new Date(doc.created_at).toLocaleTimeString("de-AT"), `Bon ${doc.receipt_no}`, t.width));
+  if (doc.cashier) p.line(`Kassier: ${doc.cashier}`);
+
+  p.feed(4).cut();
+  return p.toBuffer();
+}
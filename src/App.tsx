@@ -1,68 +1,210 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import QRCode from "qrcode";
 import { supabase } from "./lib/supabase";
-
-type Bar = { id: string; name: string; sort_order: number };
+import {
+  countPending,
+  countReservedReceiptNos,
+  enqueueOrder,
+  flushOutbox,
+  isPending,
+  loadCatalog,
+  retryRejected,
+  saveCatalog,
+  startOutboxSync,
+  subscribeOutbox,
+  takeReceiptNumber,
+  topUpReceiptNumbers,
+  type OutboxState,
+} from "./lib/offline";
+import type { CreateOrderDiscount, CreateOrderPayment, ReceiptResponse } from "./lib/orders";
+import {
+  DISCOUNT_KIND_LABEL,
+  allocateDiscount,
+  discountAmount,
+  discountLabel,
+  loadDiscountReasons,
+  saveDiscountReason,
+  type Discount,
+  type DiscountKind,
+  type DiscountReason,
+} from "./lib/discounts";
+import { loadBarProducts, loadPriceHistory, moveId, reorder, saveBar, saveProduct, subscribeCatalog, type CatalogProduct, type ProductPrice } from "./lib/catalog";
+import { buildDepExport, loadRksvCertificates, verifyDepExport, type DepExport, type DepVerification, type RksvCertificate } from "./lib/dep";
+import { downloadFile } from "./lib/download";
+import {
+  DEFAULT_BOOKING_ACCOUNTS,
+  bookingJournalSheet,
+  itemsSheet,
+  loadExportData,
+  ordersSheet,
+  voidsSheet,
+  type BookingAccounts,
+} from "./lib/export";
+import { CARD_STATUS_LABEL, cardTerminalFromEnv, cardTerminalLabel, collectCardPayment, type CardPaymentResult, type CardPaymentStatus } from "./lib/sumup";
+import { buildCsv, buildXlsx } from "./lib/xlsx";
+import {
+  PRINTER_STATE_LABEL,
+  PRINT_JOB_STATUS_LABEL,
+  loadOpenPrintJobs,
+  loadOrderPrintJob,
+  loadPrinterStatus,
+  loadPrinters,
+  reprintReceipt,
+  retryPrintJob,
+  loadStations,
+  queueTextPrint,
+  savePrinter,
+  saveStation,
+  subscribePrintStatus,
+  type PrintJob,
+  type Printer,
+  type PrinterStatus,
+  type Station,
+} from "./lib/printers";
+import { EVENT_STATUS_LABEL, createEvent, formatEventDates, loadEvents, setEventAutoLock, setEventStatus, type EventStatus, type FestEvent } from "./lib/events";
+import { buildReceiptDocument, loadReceiptDocument, negateReceiptDocument, receiptUrlFor, renderReceiptText, type LoadedReceipt, type PaymentMethod } from "./lib/receipt";
+import { can, loadRoles, loadStaffPermissions, PERMISSIONS, saveRole, type Permission, type Role } from "./lib/permissions";
+import {
+  loadPinSecurity,
+  endStaffSession,
+  loadStaffMembers,
+  markNotificationsRead,
+  renewStaffSession,
+  saveStaffMember,
+  setStaffPin,
+  unlockPinLockout,
+  validateStaffSession,
+  type AdminNotification,
+  type PinLockout,
+  type StaffMember,
+} from "./lib/staff";
+import { buildRefundDocument, defaultRefundMethod, isEmptySelection, isFullyRefunded, loadRefundable, type Refundable, type RefundSelection } from "./lib/refunds";
+import { changePct, hourSeries, loadSalesAnalytics, productsByName, type HourSales, type SalesAnalytics } from "./lib/analytics";
+import {
+  REPORT_GROUPS,
+  businessDayOf,
+  businessDayRange,
+  createZReport,
+  formatSalesReport,
+  loadDiscountReport,
+  loadSalesReport,
+  loadZReports,
+  setEventDayCutoff,
+  type DiscountReport,
+  type SalesReport,
+  type ZReport,
+} from "./lib/reports";
+import {
+  EUR_DENOMINATIONS,
+  closeShift,
+  countTotal,
+  denominationLabel,
+  formatShiftReport,
+  loadOpenShift,
+  loadShiftSummary,
+  loadShifts,
+  localShift,
+  type Denominations,
+  type OpenShiftParams,
+  type Shift,
+  type ShiftSummary,
+} from "./lib/shifts";
+import { fromBase64, getRksvStatus, signReceipt, syncRksvRegistration, toBase64, utf8, type RksvChainWrite, type RksvSignedReceipt, type RksvStatus } from "./lib/rksv";
+import { depositLineTotal, depositLines, depositTotal as sumDeposits, type DepositAdjust, type DepositType } from "./lib/deposit";
+import { DEFAULT_TAX_RATE, TAX_RATES, rksvAmountsFromTaxLines, sumTaxLines, taxBreakdown, taxRateLabel } from "./lib/tax";
+
+type Bar = { id: string; event_id: string; name: string; sort_order: number };
 type Product = {
   id: string;
   bar_id: string;
   name: string;
   price_gross: number;
+  tax_rate: number; // Anteil, z.B. 0.2 = 20 %
+  deposit_type_id: string | null;
   sort_order: number;
   is_active: boolean;
 };
 
-type CartLine = { product: Product; qty: number };
+type CartLine = { product: Product; qty: number; discount?: Discount | null };
 
 type StaffAuth = {
   id: string;
   name: string;
-  role: "staff" | "admin";
+  role: string; // roles.key
+  permissions: Permission[];
+  session: { token: string; expiresAt: string }; // jede PIN-Eingabe startet eine Sitzung; RPCs bekommen nur das Token
 };
 
-type ReceiptResponse = {
-  order_id: string;
-  receipt_no: string;
-  short_no: number;
-  public_token: string;
-  receipt_url: string;
-  gross: number;
-  tax: number;
-  net: number;
-  deposit: number;
-  total_payable: number;
+type AdminTab = "void" | "reprint" | "report" | "rksv" | "dep" | "events" | "catalog" | "printers" | "shifts" | "analytics" | "export" | "roles" | "staff";
+
+// Welche Berechtigung ein Admin-Tab braucht (die RPCs prüfen zusätzlich selbst)
+const ADMIN_TAB_PERMISSION: Record<AdminTab, Permission> = {
+  void: "void_any",
+  reprint: "reprint",
+  report: "view_reports",
+  rksv: "view_reports",
+  dep: "view_reports",
+  export: "view_reports",
+  analytics: "view_reports",
+  shifts: "view_reports",
+  catalog: "manage_catalog",
+  events: "manage_catalog",
+  printers: "manage_catalog",
+  roles: "manage_staff",
+  staff: "manage_staff",
 };
 
-type ReceiptOrderRow = {
-  id: string;
-  receipt_no: string;
-  created_at: string;
-  payment_method: "cash" | "sumup";
-  gross_total: number;
-  tax_total: number;
-  net_total: number;
-  deposit_total: number;
-  status: "completed" | "voided";
+// Eingabeformular im Sortiment-Tab (Preis als Text, damit "2,50" tippbar bleibt)
+type ProductForm = {
+  id: string | null;
+  name: string;
+  price: string;
+  tax_rate: number;
+  deposit_type_id: string | null;
+  station_id: string | null;
+  is_active: boolean;
 };
 
-type ReceiptItemRow = {
-  order_id: string;
-  name_snapshot: string;
-  qty: number;
-  line_total_gross: number;
-};
+// Eingabeformular im Drucker-Tab
+type PrinterForm = { id: string | null; name: string; bar_ids: string[]; is_active: boolean };
+type StationForm = { id: string | null; name: string; printer_id: string | null; is_active: boolean };
+type ReasonForm = { id: string | null; name: string; kind: DiscountKind; value: string; is_active: boolean };
 
 // ====== KONFIG ======
-const EVENT_ID = "00000000-0000-0000-0000-000000000001";
-const VAT_RATE = 0.2;
+const STORAGE_KEY_EVENT = "festkassa:selectedEventId";
+
+const EMPTY_PRODUCT_FORM: ProductForm = {
+  id: null,
+  name: "",
+  price: "",
+  tax_rate: DEFAULT_TAX_RATE,
+  deposit_type_id: null,
+  station_id: null,
+  is_active: true,
+};
+const EMPTY_PRINTER_FORM: PrinterForm = { id: null, name: "", bar_ids: [], is_active: true };
+const EMPTY_STATION_FORM: StationForm = { id: null, name: "", printer_id: null, is_active: true };
+const EMPTY_REASON_FORM: ReasonForm = { id: null, name: "", kind: "percent", value: "", is_active: true };
 
 // Pfand
-const DEPOSIT_VALUE = 0.5; // 50 Cent
-const STORAGE_KEY_DEPOSIT_ADJUST = "festkassa:depositAdjust";
+const STORAGE_KEY_BOOKING_ACCOUNTS = "festkassa:bookingAccounts"; // JSON (Konten für das Buchungsjournal)
+const STORAGE_KEY_DEPOSIT_ADJUST = "festkassa:depositAdjustByType"; // JSON { [deposit_type_id]: Stück }
 
 const STORAGE_KEY_BAR = "festkassa:selectedBarId";
 const STORAGE_KEY_DEVICE = "festkassa:deviceId";
-const STORAGE_KEY_STAFF = "festkassa:staffSession"; // JSON
+const STORAGE_KEY_STAFF = "festkassa:staffSession"; // JSON (inkl. Sitzungs-Token, wird beim Start am Server geprüft)
+const STORAGE_KEY_OFFLINE_PIN = "festkassa:offlinePin"; // JSON (PIN-Hash des Kassiers, zum Entsperren ohne Verbindung)
+const OFFLINE_PIN_MAX_FAILURES = 5; // danach wird der gemerkte PIN verworfen, Entsperren nur noch online
+const SESSION_RENEW_MS = 30 * 60_000; // Sitzung so oft verlängern, solange die Kassa online ist
+const ADMIN_IDLE_MINUTES = 3; // Admin-Entsperrung läuft nach so vielen Minuten ohne Eingabe ab
+const STORAGE_KEY_SHIFT = "festkassa:openShift"; // JSON (offene Schicht dieses Geräts, auch offline bekannt)
+const STORAGE_KEY_CARD_PAID = "festkassa:cardPaid"; // JSON (Kartenzahlung freigegeben, Bon noch nicht gespeichert)
+
+/** Freigegebene Kartenzahlung, deren Bon noch nicht in der Outbox liegt – ein neuer Versuch übernimmt sie. */
+type PaidCard = { order_id: string; amount: number; result: CardPaymentResult; approved_at: string };
+
+/** PIN-Prüfung am Gerät für die Sitzung token (PBKDF2, nur solange die Sitzung gültig ist). */
+type OfflinePin = { staff_id: string; token: string; salt: string; hash: string; failures: number };
 
 // ====== HELPERS ======
 function euro(n: number) {
@@ -71,12 +213,12 @@ function euro(n: number) {
 function round2(n: number) {
   return Math.round((n + Number.EPSILON) * 100) / 100;
 }
-function netFromGross(gross: number) {
-  return round2(gross / (1 + VAT_RATE));
-}
-function taxFromGross(gross: number) {
-  return round2(gross - netFromGross(gross));
+/** Betrag aus einem Eingabefeld ("12,50" oder "12.5"); leer/ungültig → null. */
+function parseEuro(s: string) {
+  const v = Number(s.trim().replace(",", "."));
+  return s.trim() === "" || !Number.isFinite(v) ? null : round2(v);
 }
+
 function randomToken(len = 40) {
   const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
   const arr = new Uint32Array(len);
@@ -106,7 +248,8 @@ function loadStaffSession(): StaffAuth | null {
     if (!raw) return null;
     const parsed = JSON.parse(raw);
     if (!parsed?.id || !parsed?.name || !parsed?.role) return null;
-    if (parsed.role !== "staff" && parsed.role !== "admin") return null;
+    if (!Array.isArray(parsed.permissions)) return null; // Sitzung von vor den Berechtigungen → neu einloggen
+    if (!parsed.session?.token || !(Date.parse(parsed.session.expiresAt) > Date.now())) return null; // ohne/abgelaufene Sitzung → neu einloggen
     return parsed as StaffAuth;
   } catch {
     return null;
@@ -117,6 +260,66 @@ function saveStaffSession(s: StaffAuth) {
 }
 function clearStaffSession() {
   localStorage.removeItem(STORAGE_KEY_STAFF);
+  localStorage.removeItem(STORAGE_KEY_OFFLINE_PIN);
+}
+
+async function offlinePinHash(pin: string, salt: Uint8Array<ArrayBuffer>) {
+  const key = await crypto.subtle.importKey("raw", utf8(pin), "PBKDF2", false, ["deriveBits"]);
+  return toBase64(new Uint8Array(await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations: 200_000 }, key, 256)));
+}
+/** Nach einem Login am Server: PIN für das Entsperren ohne Verbindung merken (nur als Hash). */
+async function rememberOfflinePin(pin: string, auth: StaffAuth) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const entry: OfflinePin = { staff_id: auth.id, token: auth.session.token, salt: toBase64(salt), hash: await offlinePinHash(pin.trim(), salt), failures: 0 };
+  localStorage.setItem(STORAGE_KEY_OFFLINE_PIN, JSON.stringify(entry));
+}
+/**
+ * Entsperren ohne Server: nur der Kassier der gespeicherten, noch gültigen Sitzung. Andere Kassiere brauchen
+ * eine eigene Sitzung und damit Verbindung. "unavailable" = kein gemerkter PIN oder Sitzung abgelaufen.
+ */
+async function checkOfflinePin(pin: string, auth: StaffAuth): Promise<"ok" | "wrong" | "unavailable"> {
+  let entry: OfflinePin | null = null;
+  try {
+    entry = JSON.parse(localStorage.getItem(STORAGE_KEY_OFFLINE_PIN) ?? "null") as OfflinePin | null;
+  } catch {
+    entry = null;
+  }
+  if (!entry || entry.token !== auth.session.token || !(Date.parse(auth.session.expiresAt) > Date.now())) return "unavailable";
+
+  const salt = new Uint8Array(fromBase64(entry.salt));
+  if ((await offlinePinHash(pin.trim(), salt)) === entry.hash) {
+    localStorage.setItem(STORAGE_KEY_OFFLINE_PIN, JSON.stringify({ ...entry, failures: 0 }));
+    return "ok";
+  }
+  if (entry.failures + 1 >= OFFLINE_PIN_MAX_FAILURES) localStorage.removeItem(STORAGE_KEY_OFFLINE_PIN);
+  else localStorage.setItem(STORAGE_KEY_OFFLINE_PIN, JSON.stringify({ ...entry, failures: entry.failures + 1 }));
+  return "wrong";
+}
+
+function loadShiftCache(): Shift | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_SHIFT);
+    return raw ? (JSON.parse(raw) as Shift) : null;
+  } catch {
+    return null;
+  }
+}
+function saveShiftCache(s: Shift | null) {
+  if (s) localStorage.setItem(STORAGE_KEY_SHIFT, JSON.stringify(s));
+  else localStorage.removeItem(STORAGE_KEY_SHIFT);
+}
+
+function loadPaidCard(): PaidCard | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_CARD_PAID);
+    return raw ? (JSON.parse(raw) as PaidCard) : null;
+  } catch {
+    return null;
+  }
+}
+function savePaidCard(p: PaidCard | null) {
+  if (p) localStorage.setItem(STORAGE_KEY_CARD_PAID, JSON.stringify(p));
+  else localStorage.removeItem(STORAGE_KEY_CARD_PAID);
 }
 
 function useIsNarrow(breakpointPx = 900) {
@@ -131,24 +334,60 @@ function useIsNarrow(breakpointPx = 900) {
   return isNarrow;
 }
 
+type PinCheck =
+  | { status: "ok"; auth: StaffAuth }
+  | { status: "wrong" }
+  | { status: "expired" }
+  | { status: "offline" } // Server nicht erreichbar – PIN nicht geprüft
+  | { status: "locked"; lockedUntil: string | null };
+
 /**
- * ✅ PIN-Check via RPC (Hash in DB)
- * RPC: public.check_staff_pin(pin_input text) returns table (id uuid, name text, role text)
+ * ✅ PIN-Check via RPC (Hash in DB, Fehlversuche je Gerät/PIN und insgesamt werden gezählt) – bei Erfolg mit neuer Sitzung.
+ * RPC: public.start_staff_session(pin_input text, p_device_id text) returns table (id, name, role, status, locked_until, token, expires_at)
+ * Das Token weist den Mitarbeiter bei allen RPCs aus; Freigaben (Rabatt, Storno, Admin) beenden ihre Sitzung danach wieder.
+ * Danach die Berechtigungen der Rolle (staff_permissions).
  */
-async function checkPin(pin: string): Promise<StaffAuth | null> {
+async function checkPin(pin: string): Promise<PinCheck> {
   const clean = pin.trim();
-  if (!clean) return null;
+  if (!clean) return { status: "wrong" };
 
-  const { data, error } = await supabase.rpc("check_staff_pin", { pin_input: clean });
-  if (error) return null;
+  const { data, error } = await supabase.rpc("start_staff_session", { pin_input: clean, p_device_id: getDeviceId() });
+  // Netzwerkfehler haben keinen Code (DB-/PostgREST-Fehler schon)
+  if (error) return { status: !navigator.onLine || !error.code ? "offline" : "wrong" };
+
+  const row = (
+    data as Array<{ id: string | null; name: string | null; role: string | null; status: string; locked_until: string | null; token?: string | null; expires_at?: string | null }>
+  )?.[0];
+  if (!row) return { status: "wrong" };
+  if (row.status === "locked") return { status: "locked", lockedUntil: row.locked_until };
+  if (row.status === "expired") return { status: "expired" };
+
+  if (row.status !== "ok" || !row.id || !row.name || typeof row.role !== "string") return { status: "wrong" };
+
+  try {
+    const permissions = await loadStaffPermissions(row.id);
+    if (!row.token || !row.expires_at) return { status: "wrong" };
+    return { status: "ok", auth: { id: row.id, name: row.name, role: row.role, permissions, session: { token: row.token, expiresAt: row.expires_at } } };
+  } catch {
+    return { status: "offline" };
+  }
+}
 
-  const row = (data as any[])?.[0];
-  if (!row) return null;
+/** Sitzung einer PIN-Freigabe beenden (Fehler egal – sie läuft ohnehin ab). */
+function endSession(auth: StaffAuth | null) {
+  if (auth) void endStaffSession(auth.session.token).catch(() => undefined);
+}
 
-  const role = row.role as "staff" | "admin";
-  if (role !== "staff" && role !== "admin") return null;
+function toOrderDiscount(d: Discount): CreateOrderDiscount {
+  return { kind: d.kind, value: d.value, reason_id: d.reason_id };
+}
 
-  return { id: row.id, name: row.name, role };
+function pinErrorText(r: Exclude<PinCheck, { status: "ok" }>) {
+  if (r.status === "wrong") return "Falscher PIN.";
+  if (r.status === "expired") return "PIN abgelaufen – bitte beim Admin einen neuen PIN holen.";
+  if (r.status === "offline") return "Keine Verbindung zum Server – PIN kann gerade nicht geprüft werden.";
+  const until = r.lockedUntil ? new Date(r.lockedUntil).toLocaleTimeString("de-AT", { hour: "2-digit", minute: "2-digit" }) : null;
+  return `Zu viele Fehlversuche – PIN-Eingabe gesperrt${until ? ` bis ${until}` : ""}.`;
 }
 
 export default function App() {
@@ -159,25 +398,51 @@ export default function App() {
 function KassaPage() {
   const isNarrow = useIsNarrow(900);
 
+  const [events, setEvents] = useState<FestEvent[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY_EVENT));
   const [bars, setBars] = useState<Bar[]>([]);
   const [selectedBarId, setSelectedBarId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY_BAR));
   const [products, setProducts] = useState<Product[]>([]);
+  // Zähler für Live-Updates aus dem Sortiment (Realtime) → lädt Bars/Produkte neu
+  const [barsVersion, setBarsVersion] = useState(0);
+  const [productsVersion, setProductsVersion] = useState(0);
+  const loadedBarRef = useRef<string | null>(null);
   const [cart, setCart] = useState<Record<string, CartLine>>({});
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "sumup">("cash");
 
-  // ✅ Pfand-Korrektur (steuerfrei) in 0,50-Schritten: negativ = Rückgabe
-  const [depositAdjust, setDepositAdjust] = useState<number>(() => {
-    const raw = localStorage.getItem(STORAGE_KEY_DEPOSIT_ADJUST);
-    const n = raw ? Number(raw) : 0;
-    return Number.isFinite(n) ? n : 0;
+  // ✅ Rabatte: Gründe je Event, Rabatt auf den ganzen Bon, Eingabe (Position = product_id oder "order"), Freigabe per PIN
+  const [discountReasons, setDiscountReasons] = useState<DiscountReason[]>([]);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | null>(null);
+  const [discountEdit, setDiscountEdit] = useState<{ target: string; reason_id: string; kind: DiscountKind; value: string } | null>(null);
+  const [discountPin, setDiscountPin] = useState("");
+  const [discountApprover, setDiscountApprover] = useState<StaffAuth | null>(null);
+  const [reasonForm, setReasonForm] = useState<ReasonForm>(EMPTY_REASON_FORM);
+  const [paymentMethod, setPaymentMethod] = useState<"cash" | "sumup" | "split">("cash");
+  const [splitCash, setSplitCash] = useState(""); // geteilte Zahlung: Bar-Anteil, Rest per Karte
+  const [tendered, setTendered] = useState(""); // Gegeben (Bar), optional
+
+  // ✅ Pfand-Buchungen (steuerfrei) je Pfandart in Stück: positiv = zusätzliche Ausgabe, negativ = Rückgabe
+  const [depositTypes, setDepositTypes] = useState<DepositType[]>([]);
+  const [depositAdjust, setDepositAdjust] = useState<DepositAdjust>(() => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY_DEPOSIT_ADJUST) ?? "{}");
+      return parsed && typeof parsed === "object" ? (parsed as DepositAdjust) : {};
+    } catch {
+      return {};
+    }
   });
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_DEPOSIT_ADJUST, String(depositAdjust));
+    localStorage.setItem(STORAGE_KEY_DEPOSIT_ADJUST, JSON.stringify(depositAdjust));
   }, [depositAdjust]);
 
-  function addDeposit(delta: number) {
-    setDepositAdjust((v) => round2(v + delta));
+  function addDeposit(typeId: string, delta: number) {
+    setDepositAdjust((prev) => {
+      const next = (prev[typeId] ?? 0) + delta;
+      const copy = { ...prev };
+      if (next === 0) delete copy[typeId];
+      else copy[typeId] = next;
+      return copy;
+    });
   }
 
   const [error, setError] = useState<string | null>(null);
@@ -185,9 +450,30 @@ function KassaPage() {
   const [loadingProducts, setLoadingProducts] = useState(false);
 
   const [checkoutLoading, setCheckoutLoading] = useState(false);
+
+  // ✅ Kartenzahlung am Terminal (Bon erst nach Freigabe)
+  const [paidCard, setPaidCard] = useState<PaidCard | null>(() => loadPaidCard());
+  const [cardPayment, setCardPayment] = useState<{ amount: number; status: "waiting" | CardPaymentStatus; message: string | null } | null>(null);
+  const cardAbortRef = useRef<AbortController | null>(null);
   const [lastReceipt, setLastReceipt] = useState<ReceiptResponse | null>(null);
+
+  // ✅ Druckstatus: Drucker der Bar (Heartbeat der Bridge) + Druckjob des letzten Bons, live per Realtime
+  const [printerStatus, setPrinterStatus] = useState<PrinterStatus | null>(null);
+  const [lastPrintRequested, setLastPrintRequested] = useState(false);
+  const [lastPrintJob, setLastPrintJob] = useState<PrintJob | null>(null);
+  const [printVersion, setPrintVersion] = useState(0);
+  const [printRetrying, setPrintRetrying] = useState(false);
   const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
 
+  // ✅ Offline: Sortiment aus Cache, Bons in der Outbox, reservierte Bon-Nummern
+  const [catalogFromCache, setCatalogFromCache] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxState>({ pendingIds: [], syncing: false, lastError: null, rejected: [] });
+  const [receiptPool, setReceiptPool] = useState<number | null>(null);
+
+  // ✅ RKSV: Status der Signaturkette dieses Geräts + zuletzt erzeugter Nullbeleg (für BMF-Belegcheck)
+  const [rksvStatus, setRksvStatus] = useState<RksvStatus | null>(null);
+  const [lastNullReceipt, setLastNullReceipt] = useState<{ signed: RksvSignedReceipt; qr: string } | null>(null);
+
   // Mitarbeiter-Storno (letzter Bon, PIN staff/admin)
   const [voidOpen, setVoidOpen] = useState(false);
   const [voidPin, setVoidPin] = useState("");
@@ -199,47 +485,162 @@ function KassaPage() {
   const [loginPin, setLoginPin] = useState("");
   const [loginLoading, setLoginLoading] = useState(false);
   const [loginMsg, setLoginMsg] = useState<string | null>(null);
+  // Sperrbildschirm: Kassier bleibt gesetzt (Warenkorb bleibt), der nächste PIN entsperrt oder wechselt
+  const [locked, setLocked] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+
+  // ✅ Schicht (Kassenlade dieses Geräts): Anfangsbestand, Zählung beim Schließen, Abschluss
+  const [shift, setShift] = useState<Shift | null>(() => loadShiftCache());
+  const [shiftFloat, setShiftFloat] = useState("");
+  const [shiftLoading, setShiftLoading] = useState(false);
+  const [shiftMsg, setShiftMsg] = useState<string | null>(null);
+  const [shiftCloseOpen, setShiftCloseOpen] = useState(false);
+  const [shiftCounts, setShiftCounts] = useState<Denominations>({});
+  const [shiftNote, setShiftNote] = useState("");
+  const [shiftSummary, setShiftSummary] = useState<ShiftSummary | null>(null);
+  const [closedShift, setClosedShift] = useState<Shift | null>(null);
 
   // Admin
   const [adminOpen, setAdminOpen] = useState(false);
   const [adminUnlocked, setAdminUnlocked] = useState(false);
   const [adminUser, setAdminUser] = useState<StaffAuth | null>(null);
   const [adminPinInput, setAdminPinInput] = useState("");
-  const [adminTab, setAdminTab] = useState<"void" | "reprint" | "report">("void");
+  const [adminTab, setAdminTab] = useState<AdminTab>("void");
   const [adminMsg, setAdminMsg] = useState<string | null>(null);
 
   const [voidReceiptNo, setVoidReceiptNo] = useState("");
   const [voidReason, setVoidReason] = useState("");
+  const [refund, setRefund] = useState<{ r: Refundable; sel: RefundSelection; method: PaymentMethod; print: boolean } | null>(null); // Teil-Storno
   const [reprintReceiptNo, setReprintReceiptNo] = useState("");
 
+  // Rollen + Berechtigungen
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [newRole, setNewRole] = useState({ key: "", label: "" });
+
+  // Admin: Mitarbeiter
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [staffForm, setStaffForm] = useState<{ id: string | null; name: string; role: string; is_active: boolean }>({ id: null, name: "", role: "staff", is_active: true });
+  const [generatedPin, setGeneratedPin] = useState<{ name: string; pin: string } | null>(null);
+  const [pinLockouts, setPinLockouts] = useState<PinLockout[]>([]);
+  const [adminNotifications, setAdminNotifications] = useState<AdminNotification[]>([]);
+
+  // Artikel-Auswertung (+ Vergleich mit früherem Event)
+  const [analytics, setAnalytics] = useState<SalesAnalytics | null>(null);
+  const [analyticsCompare, setAnalyticsCompare] = useState<SalesAnalytics | null>(null);
+  const [compareEventId, setCompareEventId] = useState("");
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+
+  // Schichten
+  const [adminShifts, setAdminShifts] = useState<Shift[]>([]);
+  const [adminShiftId, setAdminShiftId] = useState<string | null>(null);
+
+  // Export für die Buchhaltung (Zeitraum = Geschäftstage)
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const [exportLoading, setExportLoading] = useState(false);
+  const [bookingAccounts, setBookingAccounts] = useState<BookingAccounts>(() => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY_BOOKING_ACCOUNTS) ?? "null");
+      return parsed && typeof parsed === "object" ? { ...DEFAULT_BOOKING_ACCOUNTS, ...(parsed as BookingAccounts) } : DEFAULT_BOOKING_ACCOUNTS;
+    } catch {
+      return DEFAULT_BOOKING_ACCOUNTS;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_BOOKING_ACCOUNTS, JSON.stringify(bookingAccounts));
+  }, [bookingAccounts]);
+
+  // DEP-Export
+  const [depRegisters, setDepRegisters] = useState<RksvCertificate[]>([]);
+  const [depRegisterId, setDepRegisterId] = useState("");
+  const [depFrom, setDepFrom] = useState("");
+  const [depTo, setDepTo] = useState("");
+  const [depAesKey, setDepAesKey] = useState("");
+  const [depLoading, setDepLoading] = useState(false);
+  const [depExport, setDepExport] = useState<DepExport | null>(null);
+  const [depCheck, setDepCheck] = useState<DepVerification | null>(null);
+
+  // Events
+  const [newEventName, setNewEventName] = useState("");
+  const [newEventFrom, setNewEventFrom] = useState("");
+  const [newEventTo, setNewEventTo] = useState("");
+  const [newEventLocation, setNewEventLocation] = useState("");
+  const [newEventCloneFrom, setNewEventCloneFrom] = useState("");
+  const [eventSaving, setEventSaving] = useState(false);
+
+  // Sortiment
+  const [catBarId, setCatBarId] = useState<string | null>(null);
+  const [catBarName, setCatBarName] = useState("");
+  const [catBarEditId, setCatBarEditId] = useState<string | null>(null);
+  const [catProducts, setCatProducts] = useState<CatalogProduct[]>([]);
+  const [catForm, setCatForm] = useState<ProductForm>(EMPTY_PRODUCT_FORM);
+  const [catHistory, setCatHistory] = useState<ProductPrice[]>([]);
+  const [catSaving, setCatSaving] = useState(false);
+
+  // Drucker
+  const [printers, setPrinters] = useState<Printer[]>([]);
+  const [printJobs, setPrintJobs] = useState<PrintJob[]>([]);
+  const [prnForm, setPrnForm] = useState<PrinterForm>(EMPTY_PRINTER_FORM);
+  const [prnSaving, setPrnSaving] = useState(false);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [stForm, setStForm] = useState<StationForm>(EMPTY_STATION_FORM);
+
   const [reportLoading, setReportLoading] = useState(false);
   const [reportError, setReportError] = useState<string | null>(null);
-  const [reportTotals, setReportTotals] = useState<{
-    brutto: number;
-    ust: number;
-    netto: number;
-    bons: number;
-    pfand: number;
-    gesamt: number;
-  } | null>(null);
-
+  // X/Z-Berichte: Geschäftstag (ab events.day_cutoff) oder freier Zeitraum
+  const [reportMode, setReportMode] = useState<"day" | "range">("day");
+  const [reportDay, setReportDay] = useState("");
+  const [reportFrom, setReportFrom] = useState("");
+  const [reportTo, setReportTo] = useState("");
+  const [reportCutoff, setReportCutoff] = useState("06:00");
+  const [reportView, setReportView] = useState<{ report: SalesReport; zNo: number | null; createdBy: string | null } | null>(null);
+  const [discountReport, setDiscountReport] = useState<DiscountReport | null>(null);
+  const [zReports, setZReports] = useState<ZReport[]>([]);
+  const [zConfirm, setZConfirm] = useState(false);
+
+  const selectedEvent = useMemo(() => events.find((e) => e.id === selectedEventId) ?? null, [events, selectedEventId]);
   const selectedBar = useMemo(() => bars.find((b) => b.id === selectedBarId) ?? null, [bars, selectedBarId]);
   const cartLines = useMemo(() => Object.values(cart), [cart]);
 
-  // Getränke-Summen (steuerpflichtig)
-  const grossTotal = useMemo(() => round2(cartLines.reduce((s, l) => s + Number(l.product.price_gross) * l.qty, 0)), [cartLines]);
-  const netTotal = useMemo(() => netFromGross(grossTotal), [grossTotal]);
-  const taxTotal = useMemo(() => taxFromGross(grossTotal), [grossTotal]);
-
-  // ✅ Pfand automatisch pro Getränk (+0,5€ je Stück) + manuelle Korrektur
-  const depositChargeQty = useMemo(() => cartLines.reduce((s, l) => s + l.qty, 0), [cartLines]);
-  const depositChargeTotal = useMemo(() => round2(depositChargeQty * DEPOSIT_VALUE), [depositChargeQty]);
+  // Rabatte: zuerst je Position, dann der Bon-Rabatt anteilig – die USt gilt für den rabattierten Betrag (wie create_order)
+  const pricedLines = useMemo(
+    () =>
+      cartLines.map((l) => {
+        const gross = round2(Number(l.product.price_gross) * l.qty);
+        const discount = discountAmount(gross, l.discount, l.qty);
+        return { line: l, gross, discount, total: round2(gross - discount) };
+      }),
+    [cartLines]
+  );
+  const orderDiscountAmount = useMemo(
+    () => discountAmount(round2(pricedLines.reduce((s, p) => s + p.total, 0)), orderDiscount),
+    [pricedLines, orderDiscount]
+  );
+  const discountTotal = round2(pricedLines.reduce((s, p) => s + p.discount, 0) + orderDiscountAmount);
+
+  // Waren-Summen je Steuersatz
+  const taxLines = useMemo(() => {
+    const shares = allocateDiscount(orderDiscountAmount, pricedLines.map((p) => p.total));
+    return taxBreakdown(pricedLines.map((p, i) => ({ tax_rate: p.line.product.tax_rate, gross: round2(p.total - shares[i]) })));
+  }, [pricedLines, orderDiscountAmount]);
+  const { gross: grossTotal, net: netTotal, tax: taxTotal } = useMemo(() => sumTaxLines(taxLines), [taxLines]);
+
+  // ✅ Pfand automatisch je Produkt (Pfandart des Produkts) + manuelle Buchungen je Pfandart
+  const deposits = useMemo(
+    () => depositLines(cartLines.map((l) => ({ deposit_type_id: l.product.deposit_type_id, qty: l.qty })), depositAdjust, depositTypes),
+    [cartLines, depositAdjust, depositTypes]
+  );
 
-  // Pfand gesamt kann negativ werden, wenn Korrektur < -Ausgabe
-  const depositTotal = useMemo(() => round2(depositChargeTotal + depositAdjust), [depositChargeTotal, depositAdjust]);
+  // Pfand gesamt kann negativ werden, wenn mehr zurückgegeben als ausgegeben wird
+  const depositTotal = useMemo(() => sumDeposits(deposits), [deposits]);
+  const depositTypeById = useMemo(() => new Map(depositTypes.map((t) => [t.id, t])), [depositTypes]);
 
   // Gesamt zu zahlen
   const totalPayable = useMemo(() => round2(grossTotal + depositTotal), [grossTotal, depositTotal]);
+  // Bar zu kassieren (Basis für Gegeben/Rückgeld)
+  const cashDue = paymentMethod === "cash" ? totalPayable : paymentMethod === "split" ? (parseEuro(splitCash) ?? 0) : 0;
+  const tenderedAmount = cashDue > 0 ? parseEuro(tendered) : null;
 
   // ====== Styles (any, damit TS bei dynamischen Funktionen nicht nervt) ======
   const styles: Record<string, any> = {
@@ -434,6 +835,7 @@ function KassaPage() {
     }),
 
     hint: { opacity: 0.75, fontSize: 13, lineHeight: 1.35 },
+    receiptText: { fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace", whiteSpace: "pre-wrap", lineHeight: 1.35, fontSize: 13 },
 
     modalOverlay: {
       position: "fixed",
@@ -487,17 +889,295 @@ function KassaPage() {
   };
 
   // ====== Daten laden ======
+  async function refreshEvents() {
+    try {
+      const list = await loadEvents();
+      setEvents(list);
+      void saveCatalog("events", list);
+      return list;
+    } catch (e) {
+      const cached = await loadCatalog<FestEvent[]>("events");
+      if (cached) {
+        setEvents(cached);
+        setCatalogFromCache(true);
+      } else setError(e instanceof Error ? e.message : String(e));
+      return cached ?? [];
+    }
+  }
+
+  useEffect(() => {
+    (async () => {
+      const list = await refreshEvents();
+
+      // Nur ein laufendes Event → ohne Nachfrage verwenden
+      const open = list.filter((e) => e.status !== "closed");
+      if (!localStorage.getItem(STORAGE_KEY_EVENT) && open.length === 1) {
+        localStorage.setItem(STORAGE_KEY_EVENT, open[0].id);
+        setSelectedEventId(open[0].id);
+      }
+    })();
+  }, []);
+
   useEffect(() => {
+    if (!selectedEventId) {
+      setBars([]);
+      setLoadingBars(false);
+      return;
+    }
+
     (async () => {
       setLoadingBars(true);
       setError(null);
 
-      const { data, error } = await supabase.from("bars").select("id,name,sort_order").order("sort_order", { ascending: true });
-      if (error) setError(error.message);
-      else setBars((data ?? []) as any);
+      const { data, error } = await supabase
+        .from("bars")
+        .select("id,event_id,name,sort_order")
+        .eq("event_id", selectedEventId)
+        .order("sort_order", { ascending: true });
+      if (error) {
+        const cached = await loadCatalog<Bar[]>(`bars:${selectedEventId}`);
+        if (cached) {
+          setBars(cached);
+          setCatalogFromCache(true);
+        } else setError(error.message);
+      } else {
+        const list = (data ?? []) as Bar[];
+        setBars(list);
+        void saveCatalog(`bars:${selectedEventId}`, list);
+        void prefetchAllProducts(list.map((b) => b.id));
+      }
 
       setLoadingBars(false);
     })();
+  }, [selectedEventId, barsVersion]);
+
+  // Rabatt-Gründe des Events (offline aus dem Cache)
+  useEffect(() => {
+    if (!selectedEventId) return void setDiscountReasons([]);
+    loadDiscountReasons(selectedEventId).then(
+      (list) => {
+        setDiscountReasons(list);
+        void saveCatalog(`discountReasons:${selectedEventId}`, list);
+      },
+      async () => setDiscountReasons((await loadCatalog<DiscountReason[]>(`discountReasons:${selectedEventId}`)) ?? [])
+    );
+  }, [selectedEventId]);
+
+  // Leerer Warenkorb → Bon-Rabatt und Freigabe gelten nicht mehr
+  useEffect(() => {
+    if (cartLines.length > 0) return;
+    setOrderDiscount(null);
+    setDiscountApprover(null);
+    setDiscountEdit(null);
+  }, [cartLines.length]);
+
+  // Sitzungen von Freigaben enden, sobald sie nicht mehr gelten (Bon fertig, neue Freigabe, Admin gesperrt)
+  useEffect(() => {
+    if (!discountApprover) return;
+    return () => endSession(discountApprover);
+  }, [discountApprover]);
+  useEffect(() => {
+    if (!adminUser) return;
+    return () => endSession(adminUser);
+  }, [adminUser]);
+
+  // ✅ Sortiment-Änderungen (Admin auf irgendeinem Gerät) ohne Reload übernehmen
+  useEffect(
+    () =>
+      subscribeCatalog((table) => {
+        if (table === "bars") setBarsVersion((v) => v + 1);
+        else setProductsVersion((v) => v + 1);
+      }),
+    []
+  );
+
+  // ✅ Druckstatus live; alle 15 s neu bewerten, damit ein ausbleibender Heartbeat als "offline" sichtbar wird
+  useEffect(() => {
+    const unsubscribe = subscribePrintStatus(() => setPrintVersion((v) => v + 1));
+    const timer = window.setInterval(() => setPrintVersion((v) => v + 1), 15000);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedBarId) return;
+    loadPrinterStatus(selectedBarId).then(setPrinterStatus, () => setPrinterStatus(null));
+  }, [selectedBarId, printVersion]);
+
+  // Offene Schicht vom Server (offline bleibt der lokale Stand, ebenso eine noch nicht übertragene Schicht)
+  useEffect(() => {
+    if (!staff) return;
+    loadOpenShift(getDeviceId()).then(
+      async (s) => {
+        const local = loadShiftCache();
+        if (!s && local && (await isPending(local.id))) return;
+        setShift(s);
+        saveShiftCache(s);
+      },
+      () => undefined
+    );
+  }, [staff]);
+
+  // Gespeicherte Sitzung beim Start am Server prüfen (offline: bis zum Ablauf weiterverwenden)
+  const sessionToken = staff?.session.token ?? null;
+  useEffect(() => {
+    if (!sessionToken) return;
+    validateStaffSession(sessionToken).then(
+      async (s) => {
+        if (!s) {
+          setStaff(null);
+          clearStaffSession();
+          setLoginMsg("Sitzung abgelaufen – bitte neu einloggen.");
+          return;
+        }
+        // Rolle/Berechtigungen können sich seit dem Login geändert haben
+        const next: StaffAuth = { id: s.id, name: s.name, role: s.role, permissions: await loadStaffPermissions(s.id), session: { token: sessionToken, expiresAt: s.expires_at } };
+        setStaff(next);
+        saveStaffSession(next);
+      },
+      () => undefined
+    );
+  }, [sessionToken]);
+
+  // Sitzung verlängern, solange online – sonst könnte sie während eines WLAN-Ausfalls ablaufen
+  useEffect(() => {
+    if (!sessionToken) return;
+    const renew = () => {
+      if (!navigator.onLine) return;
+      renewStaffSession(sessionToken).then(
+        (expiresAt) => {
+          if (!expiresAt) return;
+          setStaff((prev) => {
+            if (!prev || prev.session.token !== sessionToken) return prev;
+            const next = { ...prev, session: { token: sessionToken, expiresAt } };
+            saveStaffSession(next);
+            return next;
+          });
+        },
+        () => undefined
+      );
+    };
+    renew();
+    const timer = window.setInterval(renew, SESSION_RENEW_MS);
+    window.addEventListener("online", renew);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("online", renew);
+    };
+  }, [sessionToken]);
+
+  // ✅ Auto-Sperre: Kassa nach events.auto_lock_minutes ohne Eingabe, Admin nach ADMIN_IDLE_MINUTES; abgelaufene Sitzung sperrt ebenfalls
+  const autoLockMinutes = selectedEvent?.auto_lock_minutes ?? null;
+  const sessionExpiresAt = staff?.session.expiresAt ?? null;
+  const loggedIn = staff != null;
+  useEffect(() => {
+    const onActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener("pointerdown", onActivity);
+    window.addEventListener("keydown", onActivity);
+
+    const timer = window.setInterval(() => {
+      const idleMs = Date.now() - lastActivityRef.current;
+      const expired = sessionExpiresAt != null && Date.parse(sessionExpiresAt) <= Date.now();
+      if (loggedIn && !locked && (expired || (autoLockMinutes && idleMs > autoLockMinutes * 60_000))) {
+        setLocked(true);
+        setLoginPin("");
+        setLoginMsg(expired ? "Sitzung abgelaufen – bitte PIN eingeben." : null);
+      }
+      if (adminUnlocked && (locked || expired || idleMs > ADMIN_IDLE_MINUTES * 60_000)) {
+        setAdminUnlocked(false);
+        setAdminUser(null);
+        setGeneratedPin(null);
+        setAdminMsg("Admin automatisch gesperrt (Inaktivität).");
+      }
+    }, 5_000);
+
+    return () => {
+      window.removeEventListener("pointerdown", onActivity);
+      window.removeEventListener("keydown", onActivity);
+      window.clearInterval(timer);
+    };
+  }, [loggedIn, locked, autoLockMinutes, sessionExpiresAt, adminUnlocked]);
+
+  // Rabatte je Grund/Kassier zum angezeigten X-/Z-Bericht (gleicher Zeitraum)
+  useEffect(() => {
+    if (!reportView || !selectedEventId || !adminUser) return void setDiscountReport(null);
+    loadDiscountReport(adminUser.session.token, selectedEventId, new Date(reportView.report.from), new Date(reportView.report.to)).then(setDiscountReport, () =>
+      setDiscountReport(null)
+    );
+  }, [reportView, selectedEventId, adminUser]);
+
+  const lastOrderId = lastReceipt?.order_id ?? null;
+  const lastOrderPending = lastOrderId ? outbox.pendingIds.includes(lastOrderId) : false;
+  useEffect(() => {
+    if (!lastOrderId || !lastPrintRequested || lastOrderPending) return void setLastPrintJob(null);
+    loadOrderPrintJob(lastOrderId).then(setLastPrintJob, () => setLastPrintJob(null));
+  }, [lastOrderId, lastPrintRequested, lastOrderPending, printVersion]);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase
+        .from("deposit_types")
+        .select("id,name,value,sort_order")
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true });
+
+      if (error) {
+        const cached = await loadCatalog<DepositType[]>("depositTypes");
+        if (cached) setDepositTypes(cached);
+      } else {
+        setDepositTypes(((data ?? []) as DepositType[]).map((t) => ({ ...t, value: Number(t.value) })));
+        void saveCatalog("depositTypes", data ?? []);
+      }
+    })();
+  }, []);
+
+  // ✅ Offline-Sync starten + Outbox-Status anzeigen
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(setOutbox);
+    const stop = startOutboxSync();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  async function retryRejectedEntry(seq: number) {
+    try {
+      setError(null);
+      await retryRejected(seq);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /** Abgelehnte Einträge als Datei sichern – für die Klärung mit dem Admin bzw. die Buchhaltung. */
+  function downloadRejected() {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-");
+    downloadFile(`abgelehnt_${getDeviceId().slice(0, 8)}_${stamp}.json`, JSON.stringify(outbox.rejected, null, 2), "application/json");
+  }
+
+  // ✅ Bon-Nummern für Offline-Betrieb vorab reservieren
+  useEffect(() => {
+    if (!staff) return;
+    void refreshReceiptPool();
+
+    window.addEventListener("online", refreshReceiptPool);
+    return () => window.removeEventListener("online", refreshReceiptPool);
+  }, [staff, selectedEventId]);
+
+  // ✅ RKSV-Kasse am Server hinterlegen (sobald Startbeleg existiert und Netz da ist)
+  useEffect(() => {
+    const deviceId = getDeviceId();
+    const sync = () => void syncRksvRegistration(deviceId, deviceId).catch(() => undefined);
+
+    void getRksvStatus(deviceId).then(setRksvStatus);
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
   }, []);
 
   useEffect(() => {
@@ -507,33 +1187,109 @@ function KassaPage() {
     }
 
     (async () => {
-      setLoadingProducts(true);
+      // Live-Update derselben Bar: ohne Lade-Anzeige nachladen
+      if (loadedBarRef.current !== selectedBarId) setLoadingProducts(true);
       setError(null);
 
       const { data, error } = await supabase
         .from("products")
-        .select("id,bar_id,name,price_gross,sort_order,is_active")
+        .select("id,bar_id,name,price_gross,tax_rate,deposit_type_id,sort_order,is_active")
         .eq("bar_id", selectedBarId)
         .eq("is_active", true)
         .order("sort_order", { ascending: true });
 
-      if (error) setError(error.message);
-      else setProducts((data ?? []) as any);
+      if (error) {
+        const cached = await loadCatalog<Product[]>(`products:${selectedBarId}`);
+        if (cached) {
+          // Cache aus der Zeit vor den Steuersätzen je Produkt
+          setProducts(cached.map((p) => ({ ...p, tax_rate: p.tax_rate ?? DEFAULT_TAX_RATE, deposit_type_id: p.deposit_type_id ?? null })));
+          setCatalogFromCache(true);
+        } else setError(error.message);
+      } else {
+        const fresh = (data ?? []) as Product[];
+        setProducts(fresh);
+        void saveCatalog(`products:${selectedBarId}`, fresh);
+
+        // Warenkorb auf neue Preise/Namen bringen – der Server rechnet ohnehin mit products
+        const byId = new Map(fresh.map((p) => [p.id, p]));
+        setCart((prev) => {
+          let changed = false;
+          const next: Record<string, CartLine> = {};
+          for (const [id, line] of Object.entries(prev)) {
+            const p = byId.get(id);
+            if (p && p !== line.product) changed = true;
+            next[id] = p ? { ...line, product: p } : line;
+          }
+          return changed ? next : prev;
+        });
+      }
 
+      loadedBarRef.current = selectedBarId;
       setLoadingProducts(false);
     })();
-  }, [selectedBarId]);
+  }, [selectedBarId, productsVersion]);
+
+  // Sortiment-Tab: Produkte der gewählten Bar (inkl. inaktive), auch bei Live-Updates
+  useEffect(() => {
+    if (adminTab !== "catalog" || !catBarId) return;
+    loadBarProducts(catBarId)
+      .then(setCatProducts)
+      .catch((e) => setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`));
+  }, [adminTab, catBarId, productsVersion]);
+
+  // Kaltstart ohne Netz: Produkte aller Bars des Events einmal in den Cache legen
+  async function prefetchAllProducts(barIds: string[]) {
+    if (barIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from("products")
+      .select("id,bar_id,name,price_gross,tax_rate,deposit_type_id,sort_order,is_active")
+      .in("bar_id", barIds)
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true });
+    if (error || !data) return;
+
+    const byBar = new Map<string, Product[]>();
+    for (const p of data as Product[]) byBar.set(p.bar_id, [...(byBar.get(p.bar_id) ?? []), p]);
+    for (const [barId, list] of byBar) await saveCatalog(`products:${barId}`, list);
+  }
+
+  async function refreshReceiptPool() {
+    const deviceId = getDeviceId();
+    const eventId = localStorage.getItem(STORAGE_KEY_EVENT);
+    if (!eventId) return void setReceiptPool(null);
+
+    try {
+      setReceiptPool(await topUpReceiptNumbers(eventId, deviceId));
+    } catch {
+      // offline – wir verkaufen aus dem vorhandenen Pool weiter
+      setReceiptPool(await countReservedReceiptNos(eventId, deviceId).catch(() => null));
+    }
+  }
 
   // ====== UI Actions ======
+  function chooseEvent(id: string) {
+    localStorage.setItem(STORAGE_KEY_EVENT, id);
+    setSelectedEventId(id);
+    resetBar();
+  }
+  function resetEvent() {
+    localStorage.removeItem(STORAGE_KEY_EVENT);
+    setSelectedEventId(null);
+    resetBar();
+  }
+
   function chooseBar(id: string) {
     localStorage.setItem(STORAGE_KEY_BAR, id);
     setSelectedBarId(id);
     setCart({});
     setPaymentMethod("cash");
+    setSplitCash("");
+    setTendered("");
     setLastReceipt(null);
     setQrDataUrl(null);
     setError(null);
-    setDepositAdjust(0);
+    setDepositAdjust({});
   }
   function resetBar() {
     localStorage.removeItem(STORAGE_KEY_BAR);
@@ -541,17 +1297,19 @@ function KassaPage() {
     setProducts([]);
     setCart({});
     setPaymentMethod("cash");
+    setSplitCash("");
+    setTendered("");
     setLastReceipt(null);
     setQrDataUrl(null);
     setError(null);
-    setDepositAdjust(0);
+    setDepositAdjust({});
   }
 
   function addToCart(p: Product) {
     setCart((prev) => {
       const ex = prev[p.id];
       const nextQty = (ex?.qty ?? 0) + 1;
-      return { ...prev, [p.id]: { product: p, qty: nextQty } };
+      return { ...prev, [p.id]: { ...ex, product: p, qty: nextQty } };
     });
   }
   function inc(id: string) {
@@ -576,48 +1334,68 @@ function KassaPage() {
   }
   function clearCart() {
     setCart({});
-    setDepositAdjust(0);
-  }
-
-  // ====== Print-Text (Pfand separat + Korrektur) ======
-  function buildReceiptText(args: {
-    barName: string;
-    receiptNo: string;
-    createdAtISO: string;
-    payment: "cash" | "sumup";
-    lines: Array<{ qty: number; name: string; lineTotal: number }>;
-    gross: number;
-    tax: number;
-    net: number;
-    depositChargeQty: number;
-    depositChargeTotal: number;
-    depositAdjust: number;
-    depositTotal: number;
-    totalPayable: number;
-  }) {
-    const head =
-      `*** ${args.barName.toUpperCase()} ***\n` +
-      `Bon-Nr: ${args.receiptNo}\n` +
-      `${new Date(args.createdAtISO).toLocaleString("de-AT")}\n` +
-      `Kassier: ${staff ? `${staff.name} (${staff.role})` : "—"}\n` +
-      `Zahlung: ${args.payment === "sumup" ? "Karte (SumUp)" : "Bar"}\n` +
-      `-----------------------------\n`;
-
-    const body = args.lines.map((l) => `${l.qty}x ${l.name}  ${euro(l.lineTotal)}\n`).join("");
-
-    const foot =
-      `-----------------------------\n` +
-      `PFAND (steuerfrei) ${euro(args.depositTotal)}\n` +
-      `  Ausgabe (${args.depositChargeQty}x0,50): ${euro(args.depositChargeTotal)}\n` +
-      `  Korrektur: ${euro(args.depositAdjust)}\n` +
-      `-----------------------------\n` +
-      `NETTO (Getr.)   ${euro(args.net)}\n` +
-      `USt 20% (Getr.) ${euro(args.tax)}\n` +
-      `BRUTTO (Getr.)  ${euro(args.gross)}\n` +
-      `-----------------------------\n` +
-      `GESAMT          ${euro(args.totalPayable)}\n`;
-
-    return head + body + foot;
+    setDepositAdjust({});
+    setTendered("");
+  }
+
+  // ====== Rabatte ======
+  function canGiveDiscounts() {
+    return can(staff, "give_discounts") || can(discountApprover, "give_discounts");
+  }
+
+  function openDiscount(target: string) {
+    const current = target === "order" ? orderDiscount : cart[target]?.discount;
+    const first = discountReasons.find((r) => r.is_active && (target !== "order" || r.kind !== "price"));
+    const base = current ?? (first ? { reason_id: first.id, kind: first.kind, value: first.value } : { reason_id: "", kind: "percent" as DiscountKind, value: 0 });
+    setDiscountEdit({ target, reason_id: base.reason_id, kind: base.kind, value: base.kind === "free" ? "" : String(base.value).replace(".", ",") });
+    setDiscountPin("");
+  }
+
+  function pickDiscountReason(r: DiscountReason) {
+    if (!discountEdit) return;
+    setDiscountEdit({ ...discountEdit, reason_id: r.id, kind: discountEdit.target === "order" && r.kind === "price" ? "percent" : r.kind, value: r.kind === "free" ? "" : String(r.value).replace(".", ",") });
+  }
+
+  function setLineDiscount(productId: string, discount: Discount | null) {
+    setCart((prev) => (prev[productId] ? { ...prev, [productId]: { ...prev[productId], discount } } : prev));
+  }
+
+  async function applyDiscount() {
+    try {
+      setError(null);
+      if (!discountEdit) return;
+
+      const reason = discountReasons.find((r) => r.id === discountEdit.reason_id);
+      if (!reason) return void setError("Bitte einen Rabatt-Grund wählen.");
+      const value = discountEdit.kind === "free" ? 0 : parseEuro(discountEdit.value);
+      if (value == null || value < 0 || (discountEdit.kind === "percent" && value > 100)) return void setError("Ungültiger Rabatt-Wert.");
+
+      // Ohne eigene Berechtigung: Freigabe durch jemanden mit give_discounts (gilt für diesen Bon)
+      if (!canGiveDiscounts()) {
+        const check = await checkPin(discountPin);
+        if (check.status !== "ok") return void setError(pinErrorText(check));
+        if (!can(check.auth, "give_discounts")) return void setError("Keine Berechtigung für Rabatte.");
+        setDiscountApprover(check.auth);
+      }
+
+      const discount: Discount = { kind: discountEdit.kind, value, reason_id: reason.id, reason: reason.name };
+      if (discountEdit.target === "order") setOrderDiscount(discount);
+      else setLineDiscount(discountEdit.target, discount);
+      setDiscountEdit(null);
+      setDiscountPin("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function tenderKey(k: string) {
+    setTendered((prev) => {
+      if (k === "C") return "";
+      if (k === "⌫") return prev.slice(0, -1);
+      if (k === ",") return prev.includes(",") ? prev : (prev || "0") + ",";
+      if (/,\d\d$/.test(prev)) return prev; // max. 2 Nachkommastellen
+      return prev === "0" ? k : prev + k;
+    });
   }
 
   // ====== Login ======
@@ -626,14 +1404,42 @@ function KassaPage() {
       setLoginMsg(null);
       setLoginLoading(true);
 
-      const auth = await checkPin(loginPin);
-      if (!auth) {
-        setLoginMsg("Falscher PIN.");
+      const check = await checkPin(loginPin);
+      // Offline: gesperrte Kassa mit dem gemerkten PIN des Kassiers entsperren, seine Sitzung läuft weiter
+      if (check.status === "offline" && staff) {
+        const offline = await checkOfflinePin(loginPin, staff);
+        if (offline === "ok") {
+          setLocked(false);
+          lastActivityRef.current = Date.now();
+          setLoginPin("");
+          return;
+        }
+        if (offline === "wrong") return void setLoginMsg("Falscher PIN (ohne Verbindung geprüft).");
+        return void setLoginMsg(
+          Date.parse(staff.session.expiresAt) > Date.now()
+            ? `Keine Verbindung zum Server – ohne Verbindung kann nur ${staff.name} entsperren.`
+            : "Keine Verbindung zum Server und Sitzung abgelaufen – Entsperren erst wieder mit Verbindung."
+        );
+      }
+      if (check.status !== "ok") {
+        setLoginMsg(pinErrorText(check));
         return;
       }
+      const auth = check.auth;
+
+      // Kassier-Wechsel: alte Sitzung beenden, Warenkorb bleibt; "letzter Bon" gehört dem vorigen Kassier
+      endSession(staff);
+      if (staff && staff.id !== auth.id) {
+        setLastReceipt(null);
+        setQrDataUrl(null);
+        setVoidMsg(null);
+      }
 
       setStaff(auth);
       saveStaffSession(auth);
+      await rememberOfflinePin(loginPin, auth);
+      setLocked(false);
+      lastActivityRef.current = Date.now();
       setLoginPin("");
       setLoginMsg(null);
     } finally {
@@ -641,129 +1447,300 @@ function KassaPage() {
     }
   }
 
+  /** Sperren ohne Abmelden – für den Kassier-Wechsel, der Warenkorb bleibt. */
+  function lockKassa() {
+    setLocked(true);
+    setLoginPin("");
+    setLoginMsg(null);
+    setAdminOpen(false);
+    setAdminUnlocked(false);
+    setAdminUser(null);
+    setGeneratedPin(null);
+  }
+
   function doLogout() {
+    endSession(staff);
     setStaff(null);
+    setLocked(false);
     clearStaffSession();
     setCart({});
     setLastReceipt(null);
     setQrDataUrl(null);
     setError(null);
-    setDepositAdjust(0);
+    setDepositAdjust({});
+  }
+
+  // ====== Schicht ======
+  function updateShift(s: Shift | null) {
+    setShift(s);
+    saveShiftCache(s);
+  }
+
+  async function doOpenShift() {
+    try {
+      setShiftMsg(null);
+      if (!staff) return;
+      if (!can(staff, "manage_shift")) return void setShiftMsg("Schicht öffnen nur mit Berechtigung „Schicht öffnen und schließen“.");
+      if (!selectedEventId || !selectedBarId) return void setShiftMsg("Bitte zuerst Event und Bar auswählen.");
+
+      const amount = Number(shiftFloat.replace(",", "."));
+      if (!shiftFloat.trim() || !Number.isFinite(amount) || amount < 0) return void setShiftMsg("Bitte gültigen Anfangsbestand eingeben.");
+
+      setShiftLoading(true);
+
+      // ✅ Schicht am Gerät anlegen und über die Outbox übertragen → funktioniert auch offline
+      const params: OpenShiftParams = {
+        p_id: crypto.randomUUID(),
+        p_event_id: selectedEventId,
+        p_bar_id: selectedBarId,
+        p_device_id: getDeviceId(),
+        p_session: staff.session.token,
+        p_opening_float: round2(amount),
+        p_opened_at: new Date().toISOString(),
+      };
+      await enqueueOrder({ rpc: "open_shift", id: params.p_id, device_id: params.p_device_id, receipt_no: null, created_at: params.p_opened_at, params });
+      updateShift(localShift(params, staff));
+      setShiftFloat("");
+      void flushOutbox();
+    } catch (e) {
+      setShiftMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setShiftLoading(false);
+    }
+  }
+
+  // Soll-Bestand erst, wenn alle Bons beim Server sind
+  async function startCloseShift() {
+    try {
+      setShiftMsg(null);
+      setClosedShift(null);
+      setShiftCounts({});
+      setShiftNote("");
+      setShiftSummary(null);
+      setShiftCloseOpen(true);
+      if (!shift) return;
+      if (!staff) return void setShiftMsg("Bitte zuerst einloggen.");
+
+      setShiftLoading(true);
+      await flushOutbox();
+      if ((await countPending()) > 0) {
+        return void setShiftMsg("Es sind noch Bons nicht synchronisiert. Schicht erst schließen, wenn wieder Verbindung besteht.");
+      }
+      setShiftSummary(await loadShiftSummary(staff.session.token, shift.id));
+    } catch (e) {
+      setShiftMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setShiftLoading(false);
+    }
+  }
+
+  async function doCloseShift() {
+    try {
+      setShiftMsg(null);
+      if (!staff || !shift) return;
+      if (!can(staff, "manage_shift")) return void setShiftMsg("Schicht schließen nur mit Berechtigung „Schicht öffnen und schließen“.");
+      if (!shiftSummary) return void setShiftMsg("Soll-Bestand fehlt – bitte erneut öffnen, sobald Verbindung besteht.");
+
+      setShiftLoading(true);
+      const closed = await closeShift({ shiftId: shift.id, session: staff.session.token, denominations: shiftCounts, note: shiftNote });
+      setClosedShift(closed);
+      updateShift(null);
+    } catch (e) {
+      setShiftMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setShiftLoading(false);
+    }
+  }
+
+  function shiftReportText(s: Shift) {
+    return formatShiftReport(s, bars.find((b) => b.id === s.bar_id)?.name ?? "Bar");
+  }
+
+  async function printShiftReport(s: Shift, auth: StaffAuth | null, setMsg: (msg: string) => void) {
+    try {
+      if (!auth) return void setMsg("Bitte zuerst einloggen.");
+      await queueTextPrint(auth.session.token, { eventId: s.event_id, barId: s.bar_id, kind: "report", payload: shiftReportText(s) });
+      setMsg("Schichtabschluss wird gedruckt.");
+    } catch (e) {
+      setMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
   }
 
   // ====== Checkout ======
+  async function payByCard(amount: number, reference: string): Promise<CardPaymentResult | null> {
+    const abort = new AbortController();
+    cardAbortRef.current = abort;
+    setCardPayment({ amount, status: "waiting", message: null });
+    try {
+      const result = await collectCardPayment(cardTerminalFromEnv(), { amount, reference, description: `${selectedBar?.name ?? "Festkassa"} ${euro(amount)}` }, abort.signal);
+      if (result.status === "approved") {
+        setCardPayment(null);
+        return result;
+      }
+      setCardPayment({ amount, status: result.status, message: result.message });
+      return null;
+    } catch (e) {
+      setCardPayment({ amount, status: "declined", message: e instanceof Error ? e.message : String(e) });
+      return null;
+    } finally {
+      cardAbortRef.current = null;
+    }
+  }
+
+  function rememberPaidCard(p: PaidCard | null) {
+    savePaidCard(p);
+    setPaidCard(p);
+  }
+
   async function doCheckout(printRequested: boolean) {
+    let card: CardPaymentResult | null = null;
     try {
       setError(null);
 
       if (!staff) return void setError("Bitte zuerst einloggen.");
+      if (!selectedEventId) return void setError("Bitte zuerst das Event auswählen.");
       if (!selectedBarId || !selectedBar) return void setError("Bitte zuerst die Bar auswählen.");
+      if (!shift) return void setError("Bitte zuerst die Schicht öffnen.");
       if (cartLines.length === 0) return void setError("Warenkorb ist leer.");
 
-      setCheckoutLoading(true);
-
-      const deviceId = getDeviceId();
-
-      const { data: seqRows, error: seqErr } = await supabase.rpc("next_receipt", { p_event_id: EVENT_ID });
-      if (seqErr) throw new Error(seqErr.message);
-
-      const row = Array.isArray(seqRows) ? seqRows[0] : (seqRows as any);
-      if (!row?.receipt_no || !row?.short_no) {
-        throw new Error("next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters / RPC.");
+      // Manuelle Pfand-Buchungen über dem Limit des Events nur mit Berechtigung (create_order prüft das auch)
+      const depositLimit = selectedEvent?.deposit_adjust_limit;
+      const manualDeposit = round2(Object.entries(depositAdjust).reduce((s, [id, qty]) => s + Math.abs(qty) * Number(depositTypeById.get(id)?.value ?? 0), 0));
+      if (depositLimit != null && manualDeposit > Number(depositLimit) && !can(staff, "adjust_deposit")) {
+        return void setError(`Pfand-Buchungen über ${euro(Number(depositLimit))} je Bon nur mit Berechtigung „Pfand über Limit buchen“.`);
       }
+      const hasDiscount = orderDiscount != null || cartLines.some((l) => l.discount);
+      if (hasDiscount && !canGiveDiscounts()) return void setError("Rabatte nur mit Berechtigung „Rabatte geben“ oder Freigabe.");
 
-      const receiptNo = row.receipt_no as string;
-      const shortNo = row.short_no as number;
+      setCheckoutLoading(true);
 
+      const eventId = selectedEventId;
+      const deviceId = getDeviceId();
+      // Karte schon belastet, Bon aber nicht gespeichert → dieselbe Order-ID (= Referenz am Terminal) nochmal
+      const orderId = paidCard?.order_id ?? crypto.randomUUID();
       const publicToken = randomToken(40);
-      const createdAtISO = new Date().toISOString();
 
       const depTotal = depositTotal;
 
-      const { data: order, error: oErr } = await supabase
-        .from("orders")
-        .insert({
-          event_id: EVENT_ID,
-          bar_id: selectedBarId,
-          device_id: deviceId,
-
-          cashier_user_id: null,
-          cashier_staff_id: staff.id,
-          cashier_name_snapshot: staff.name,
-          cashier_role_snapshot: staff.role,
-
-          receipt_no: receiptNo,
-          short_no: shortNo,
-          public_token: publicToken,
-
-          payment_method: paymentMethod,
-          status: "completed",
-
-          gross_total: grossTotal,
-          tax_rate: VAT_RATE,
-          tax_total: taxTotal,
-          net_total: netTotal,
-
-          deposit_total: depTotal,
+      // Geteilt: Bar-Anteil laut Eingabe, der Rest geht auf die Karte
+      const cashPart = paymentMethod === "split" ? (parseEuro(splitCash) ?? 0) : 0;
+      const cardPart = paymentMethod === "sumup" ? totalPayable : paymentMethod === "split" ? round2(totalPayable - cashPart) : 0;
+      if (paymentMethod === "split" && (cashPart <= 0 || cardPart <= 0)) {
+        return void setError(`Bar-Anteil muss zwischen 0 € und ${euro(totalPayable)} liegen.`);
+      }
 
-          receipt_offered: true,
-          receipt_printed: printRequested ? true : false,
+      if (tenderedAmount !== null && tenderedAmount < cashDue) {
+        return void setError(`Gegeben (${euro(tenderedAmount)}) ist weniger als der Bar-Betrag (${euro(cashDue)}).`);
+      }
 
-          created_at: createdAtISO,
-        })
-        .select("id")
-        .single();
+      if (paidCard && paidCard.amount !== cardPart) {
+        return void setError(
+          `Karte wurde bereits über ${euro(paidCard.amount)} belastet (Transaktion ${paidCard.result.transactionId ?? "—"}) – Kartenbetrag wieder auf diesen Betrag bringen oder die Zahlung im SumUp-Konto erstatten und verwerfen.`
+        );
+      }
 
-      if (oErr) throw new Error(oErr.message);
+      // Karte: erst bezahlen, dann Bon (abgelehnt/abgebrochen → Warenkorb bleibt, keine Bon-Nummer verbraucht)
+      if (cardPart !== 0) {
+        if (cardPart < 0) return void setError("Kartenzahlung nur für Beträge über 0 €.");
+        if (paidCard) card = paidCard.result;
+        else {
+          card = await payByCard(cardPart, orderId);
+          if (!card) return;
+          rememberPaidCard({ order_id: orderId, amount: cardPart, result: card, approved_at: new Date().toISOString() });
+        }
+      }
 
-      const itemsRows = cartLines.map((l) => ({
-        order_id: (order as any).id,
-        product_id: l.product.id,
-        name_snapshot: l.product.name,
-        unit_price_gross: l.product.price_gross,
-        qty: l.qty,
-        line_total_gross: round2(Number(l.product.price_gross) * l.qty),
-      }));
-
-      const { error: iErr } = await supabase.from("order_items").insert(itemsRows);
-      if (iErr) throw new Error(iErr.message);
-
-      if (printRequested) {
-        const payload = buildReceiptText({
-          barName: selectedBar.name,
-          receiptNo,
-          createdAtISO,
-          payment: paymentMethod,
-          lines: cartLines.map((l) => ({
-            qty: l.qty,
-            name: l.product.name,
-            lineTotal: round2(Number(l.product.price_gross) * l.qty),
-          })),
-          gross: grossTotal,
-          tax: taxTotal,
-          net: netTotal,
-          depositChargeQty,
-          depositChargeTotal,
-          depositAdjust,
-          depositTotal: depTotal,
-          totalPayable,
-        });
+      const payments: CreateOrderPayment[] =
+        paymentMethod === "split"
+          ? [
+              { method: "cash", amount: cashPart },
+              { method: "sumup", amount: cardPart, provider: card?.provider ?? null, transaction_id: card?.transactionId ?? null },
+            ]
+          : [{ method: paymentMethod, amount: totalPayable }];
+
+      // ✅ Bon-Nummer aus dem lokal reservierten Block + RKSV-Signatur am Gerät → funktioniert auch offline.
+      // Fällige Pflichtbelege (Start-/Monats-/Jahresbeleg) werden davor automatisch erzeugt.
+      const { no } = await signReceipt({
+        cashRegisterId: deviceId,
+        type: "standard",
+        amounts: rksvAmountsFromTaxLines(taxLines, depTotal),
+        createdAt: new Date(),
+        takeReceiptNo: () => takeReceiptNumber(eventId, deviceId),
+        onSpecialReceipt: enqueueNullReceipt,
+        enqueue: async (rksv, chain, { receipt_no: receiptNo }) => {
+          const createdAtISO = rksv.created_at;
+
+          // ✅ Ein Beleg-Dokument für Bon-Druck und Beleganzeige
+          const receiptDocument = buildReceiptDocument({
+            barName: selectedBar.name,
+            receiptNo,
+            createdAt: createdAtISO,
+            cashier: { name: staff.name, role: staff.role },
+            paymentMethod,
+            payments: payments.map((p) => ({ method: p.method, amount: p.amount })),
+            cashTendered: tenderedAmount,
+            lines: pricedLines.map((p) => ({
+              qty: p.line.qty,
+              name: p.line.product.name,
+              unit_price: Number(p.line.product.price_gross),
+              total: p.total,
+              tax_rate: p.line.product.tax_rate,
+              ...(p.line.discount && p.discount > 0 ? { discount: { label: discountLabel(p.line.discount), amount: p.discount } } : {}),
+            })),
+            discount: orderDiscount && orderDiscountAmount > 0 ? { label: discountLabel(orderDiscount), amount: orderDiscountAmount } : null,
+            deposits,
+            depositTotal: depTotal,
+            receiptUrl: receiptUrlFor(publicToken),
+            rksv: { cash_register_id: rksv.cash_register_id, code: rksv.qr, signature_failed: rksv.signature_failed },
+          });
+
+          // ✅ Erst lokal speichern (zusammen mit dem RKSV-Kettenstand), dann im Hintergrund per create_order() übertragen
+          await enqueueOrder(
+            {
+              id: orderId,
+              device_id: deviceId,
+              receipt_no: receiptNo,
+              created_at: createdAtISO,
+              params: {
+                p_idempotency_key: orderId,
+                p_event_id: eventId,
+                p_bar_id: selectedBarId,
+                p_device_id: deviceId,
+                p_session: staff.session.token,
+                p_payment_method: paymentMethod,
+                p_lines: cartLines.map((l) => ({ product_id: l.product.id, qty: l.qty, ...(l.discount ? { discount: toOrderDiscount(l.discount) } : {}) })),
+                p_deposits: Object.entries(depositAdjust).map(([deposit_type_id, qty]) => ({ deposit_type_id, qty })),
+                p_print: printRequested,
+                p_print_payload: printRequested ? renderReceiptText(receiptDocument) : null,
+                p_receipt_no: receiptNo,
+                p_public_token: publicToken,
+                p_created_at: createdAtISO,
+                p_rksv: rksv,
+                p_receipt_document: receiptDocument,
+                p_card_payment: card?.transactionId ? { provider: card.provider, transaction_id: card.transactionId } : null,
+                p_payments: paymentMethod === "split" ? payments : null,
+                p_cash_tendered: tenderedAmount,
+                p_discount: orderDiscount ? toOrderDiscount(orderDiscount) : null,
+                p_discount_session: hasDiscount && !can(staff, "give_discounts") ? (discountApprover?.session.token ?? null) : null,
+              },
+            },
+            chain
+          );
+        },
+      });
 
-        const { error: pErr } = await supabase.from("print_jobs").insert({
-          event_id: EVENT_ID,
-          order_id: (order as any).id,
-          payload,
-          status: "queued",
-        });
-        if (pErr) throw new Error(pErr.message);
-      }
+      const receiptNo = no.receipt_no;
+      const shortNo = no.short_no;
+      if (card) rememberPaidCard(null);
+      void flushOutbox();
+      void refreshReceiptPool();
+      void getRksvStatus(deviceId).then(setRksvStatus);
 
       const receiptUrl = `/r/${publicToken}`;
-      const absUrl = `${window.location.origin}${receiptUrl}`;
-      const qr = await QRCode.toDataURL(absUrl, { margin: 1, scale: 6 });
+      const qr = await QRCode.toDataURL(receiptUrlFor(publicToken), { margin: 1, scale: 6 });
 
       setLastReceipt({
-        order_id: (order as any).id,
+        order_id: orderId,
         receipt_no: receiptNo,
         short_no: shortNo,
         public_token: publicToken,
@@ -775,45 +1752,220 @@ function KassaPage() {
         total_payable: totalPayable,
       });
       setQrDataUrl(qr);
+      setLastPrintRequested(printRequested);
 
       setCart({});
-      setDepositAdjust(0);
+      setDepositAdjust({});
+      setSplitCash("");
+      setTendered("");
     } catch (e: any) {
-      setError(e?.message ?? String(e));
+      const msg = e?.message ?? String(e);
+      setError(card ? `${msg} – Karte wurde bereits belastet (Transaktion ${card.transactionId}). Bon nochmals abschließen, die Kartenzahlung wird übernommen.` : msg);
     } finally {
       setCheckoutLoading(false);
     }
   }
 
-  // ====== Mitarbeiter-Storno (letzter Bon) ======
-  async function voidLastReceiptNoReason() {
-    try {
-      setVoidMsg(null);
-      if (!lastReceipt) return void setVoidMsg("Kein letzter Bon vorhanden.");
-
-      setVoidLoading(true);
+  // ====== RKSV: Start-/Monats-/Jahres-/Nullbelege ======
+  // Nullbelege laufen wie normale Bons über die Outbox (ohne Positionen, Betrag 0).
+  async function enqueueNullReceipt(signed: RksvSignedReceipt, chain: RksvChainWrite) {
+    if (!staff || !selectedEventId || !selectedBarId) throw new Error("Bitte zuerst einloggen und Event/Bar auswählen.");
+
+    const deviceId = getDeviceId();
+    const id = crypto.randomUUID();
+
+    await enqueueOrder(
+      {
+        id,
+        device_id: deviceId,
+        receipt_no: signed.receipt_no,
+        created_at: signed.created_at,
+        params: {
+          p_idempotency_key: id,
+          p_event_id: selectedEventId,
+          p_bar_id: selectedBarId,
+          p_device_id: deviceId,
+          p_session: staff.session.token,
+          p_payment_method: "cash",
+          p_lines: [],
+          p_deposits: [],
+          p_print: false,
+          p_print_payload: null,
+          p_receipt_no: signed.receipt_no,
+          p_public_token: randomToken(40),
+          p_created_at: signed.created_at,
+          p_rksv: signed,
+        },
+      },
+      chain
+    );
 
-      const auth = await checkPin(voidPin);
-      if (!auth) return void setVoidMsg("Falscher PIN.");
+    setLastNullReceipt({ signed, qr: await QRCode.toDataURL(signed.qr, { margin: 1, scale: 4 }) });
+  }
 
-      const nowIso = new Date().toISOString();
+  async function adminCreateNullReceipt() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-      const { error: uErr } = await supabase.from("orders").update({ status: "voided", voided_at: nowIso }).eq("id", lastReceipt.order_id);
-      if (uErr) throw new Error(uErr.message);
+      const eventId = selectedEventId;
+      if (!eventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
 
-      const { error: vErr } = await supabase.from("voids").insert({
-        order_id: lastReceipt.order_id,
-        voided_by: `${auth.role}:${auth.name}`,
-        reason: "",
+      const deviceId = getDeviceId();
+      const { signed } = await signReceipt({
+        cashRegisterId: deviceId,
+        type: "null",
+        amounts: {},
+        createdAt: new Date(),
+        takeReceiptNo: () => takeReceiptNumber(eventId, deviceId),
+        onSpecialReceipt: enqueueNullReceipt,
+        enqueue: enqueueNullReceipt,
       });
-      if (vErr) throw new Error(vErr.message);
 
-      setVoidMsg(`Storno ok: ${lastReceipt.receipt_no}`);
-      setVoidPin("");
-    } catch (e: any) {
-      setVoidMsg(`Fehler: ${e?.message ?? String(e)}`);
-    } finally {
-      setVoidLoading(false);
+      void flushOutbox();
+      setRksvStatus(await getRksvStatus(deviceId));
+      setAdminMsg(`Nullbeleg erstellt: ${signed.receipt_no}${signed.signature_failed ? " (Sicherheitseinrichtung ausgefallen)" : ""}`);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // ====== Storno-Beleg (RKSV: eigener, negativer, signierter Beleg) ======
+  // Ohne refund: alles am Original noch Offene; mit refund: nur die gewählten Positionen/Pfand (Teil-Storno).
+  async function issueStorno(args: {
+    originalOrderId: string;
+    by: StaffAuth;
+    reason: string;
+    refund?: { selection: RefundSelection; method: PaymentMethod };
+    print?: boolean;
+  }) {
+    const eventId = selectedEventId;
+    if (!eventId) throw new Error("Bitte zuerst das Event auswählen.");
+
+    const deviceId = getDeviceId();
+    const id = crypto.randomUUID();
+
+    // Beleg des Originals + offene Mengen; erster kompletter Storno = Original negiert
+    const r = await loadRefundable({ orderId: args.originalOrderId });
+    const cashier = { name: args.by.name, role: args.by.role };
+    const draft = args.refund
+      ? buildRefundDocument(r, args.refund.selection, { cashier, method: args.refund.method })
+      : r.refunds === 0
+        ? negateReceiptDocument(r.document, { receipt_no: "", created_at: "", cashier, receipt_url: null, rksv: null })
+        : buildRefundDocument(r, "all", { cashier, method: defaultRefundMethod(r) });
+
+    const publicToken = randomToken(40);
+    const sel = args.refund?.selection;
+
+    const { signed } = await signReceipt({
+      cashRegisterId: deviceId,
+      type: "storno",
+      amounts: rksvAmountsFromTaxLines(draft.taxes, draft.deposit_total),
+      createdAt: new Date(),
+      takeReceiptNo: () => takeReceiptNumber(eventId, deviceId),
+      onSpecialReceipt: enqueueNullReceipt,
+      enqueue: async (signed, chain) => {
+        const receiptDocument = {
+          ...draft,
+          receipt_no: signed.receipt_no,
+          created_at: signed.created_at,
+          receipt_url: receiptUrlFor(publicToken),
+          rksv: { cash_register_id: signed.cash_register_id, code: signed.qr, signature_failed: signed.signature_failed },
+        };
+        await enqueueOrder(
+          {
+            rpc: "create_storno",
+            id,
+            device_id: deviceId,
+            receipt_no: signed.receipt_no,
+            created_at: signed.created_at,
+            params: {
+              p_idempotency_key: id,
+              p_original_order_id: args.originalOrderId,
+              p_device_id: deviceId,
+              p_session: args.by.session.token,
+              p_voided_by: `${args.by.role}:${args.by.name}`,
+              p_reason: args.reason,
+              p_receipt_no: signed.receipt_no,
+              p_public_token: publicToken,
+              p_created_at: signed.created_at,
+              p_rksv: signed,
+              p_receipt_document: receiptDocument,
+              p_lines: sel ? Object.entries(sel.lines).filter(([, q]) => q > 0).map(([product_id, qty]) => ({ product_id, qty })) : null,
+              p_deposits: sel ? Object.entries(sel.deposits).filter(([, q]) => q > 0).map(([deposit_type_id, qty]) => ({ deposit_type_id, qty })) : null,
+              p_refund_method: args.refund?.method ?? null,
+              p_print: !!args.print,
+              p_print_payload: args.print ? renderReceiptText(receiptDocument) : null,
+            },
+          },
+          chain
+        );
+      },
+    });
+
+    await flushOutbox();
+    void refreshReceiptPool();
+    void getRksvStatus(deviceId).then(setRksvStatus);
+
+    return { receiptNo: signed.receipt_no, total: draft.total, synced: !(await isPending(id)) };
+  }
+
+  // ====== Druck des letzten Bons wiederholen ======
+  async function retryLastPrint() {
+    try {
+      setError(null);
+      if (!staff || !lastPrintJob) return;
+
+      setPrintRetrying(true);
+      await retryPrintJob(staff.session.token, lastPrintJob.id);
+      setPrintVersion((v) => v + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setPrintRetrying(false);
+    }
+  }
+
+  // ====== Mitarbeiter-Storno (letzter Bon) ======
+  async function voidLastReceiptNoReason() {
+    let auth: StaffAuth | null = null;
+    try {
+      setVoidMsg(null);
+      if (!lastReceipt) return void setVoidMsg("Kein letzter Bon vorhanden.");
+
+      setVoidLoading(true);
+
+      const check = await checkPin(voidPin);
+      if (check.status !== "ok") return void setVoidMsg(pinErrorText(check));
+      auth = check.auth;
+      // Eigener letzter Bon: void_own_last; Bon eines anderen Kassiers: void_any
+      if (!can(auth, "void_any") && !(can(auth, "void_own_last") && auth.id === staff?.id)) {
+        return void setVoidMsg("Keine Berechtigung für diesen Storno.");
+      }
+
+      // Offline-Bon muss erst beim Server sein, bevor er storniert werden kann
+      if (outbox.pendingIds.includes(lastReceipt.order_id)) {
+        await flushOutbox();
+        if (await isPending(lastReceipt.order_id)) {
+          return void setVoidMsg("Bon ist noch nicht synchronisiert. Storno erst möglich, wenn wieder Verbindung besteht.");
+        }
+      }
+
+      if (await isFullyRefunded(lastReceipt.order_id)) return void setVoidMsg("Dieser Bon ist bereits storniert.");
+
+      const storno = await issueStorno({
+        originalOrderId: lastReceipt.order_id,
+        by: auth,
+        reason: "",
+      });
+
+      setVoidMsg(`Storno ok: ${lastReceipt.receipt_no} (Storno-Bon ${storno.receiptNo}${storno.synced ? "" : ", Sync ausstehend"})`);
+      setVoidPin("");
+    } catch (e: any) {
+      setVoidMsg(`Fehler: ${e?.message ?? String(e)}`);
+    } finally {
+      endSession(auth);
+      setVoidLoading(false);
     }
   }
 
@@ -830,19 +1982,39 @@ function KassaPage() {
   }
   async function unlockAdmin() {
     setAdminMsg(null);
-    const auth = await checkPin(adminPinInput);
-    if (auth?.role === "admin") {
+    const check = await checkPin(adminPinInput);
+    if (check.status !== "ok") return void setAdminMsg(pinErrorText(check));
+    const auth = check.auth;
+    const tabs = (Object.keys(ADMIN_TAB_PERMISSION) as AdminTab[]).filter((t) => can(auth, ADMIN_TAB_PERMISSION[t]));
+    if (tabs.length > 0) {
       setAdminUnlocked(true);
       setAdminUser(auth);
       setAdminMsg(`Admin entsperrt (${auth.name}).`);
       setAdminPinInput("");
+      if (!tabs.includes(adminTab)) setAdminTab(tabs[0]);
+      // Hinweise (z.B. gesperrte Geräte) gleich beim Entsperren zeigen
+      if (can(auth, "manage_staff")) {
+        loadPinSecurity(auth.session.token).then(
+          (sec) => {
+            setPinLockouts(sec.lockouts);
+            setAdminNotifications(sec.notifications);
+          },
+          () => undefined
+        );
+      }
     } else {
-      setAdminMsg("Kein Admin-PIN.");
+      endSession(auth);
+      setAdminMsg("Keine Admin-Berechtigung.");
     }
   }
+  // Gesperrt: alle Tabs sichtbar (Aktionen brauchen den PIN), entsperrt: nur die erlaubten
+  function showAdminTab(t: AdminTab) {
+    return !adminUnlocked || can(adminUser, ADMIN_TAB_PERMISSION[t]);
+  }
   function lockAdmin() {
     setAdminUnlocked(false);
     setAdminUser(null);
+    setGeneratedPin(null);
     setAdminMsg("Admin gesperrt.");
   }
 
@@ -855,73 +2027,103 @@ function KassaPage() {
       const reason = voidReason.trim();
       if (!r) return void setAdminMsg("Bitte Bon-Nr eingeben.");
       if (!reason) return void setAdminMsg("Bitte Storno-Grund eingeben.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
 
-      const { data: o, error: oErr } = await supabase.from("orders").select("id,status").eq("event_id", EVENT_ID).eq("receipt_no", r).single();
+      const { data: o, error: oErr } = await supabase
+        .from("orders")
+        .select("id,rksv_receipt_type")
+        .eq("event_id", selectedEventId)
+        .eq("receipt_no", r)
+        .single();
       if (oErr) throw new Error(oErr.message);
       if (!o) throw new Error("Bon nicht gefunden.");
-      if ((o as any).status === "voided") return void setAdminMsg("Dieser Bon ist bereits storniert.");
 
-      const nowIso = new Date().toISOString();
+      const orig = o as { id: string; rksv_receipt_type: string };
+      if (!can(adminUser, "void_any")) return void setAdminMsg("Keine Berechtigung für Stornos.");
+      if (orig.rksv_receipt_type !== "standard") return void setAdminMsg("Nur Verkaufsbelege können storniert werden.");
+      if (await isFullyRefunded(orig.id)) return void setAdminMsg("Dieser Bon ist bereits storniert.");
+      if (!adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-      const { error: uErr } = await supabase.from("orders").update({ status: "voided", voided_at: nowIso }).eq("id", (o as any).id);
-      if (uErr) throw new Error(uErr.message);
-
-      const who = adminUser ? `${adminUser.role}:${adminUser.name}` : "admin";
-      const { error: vErr } = await supabase.from("voids").insert({ order_id: (o as any).id, voided_by: who, reason });
-      if (vErr) throw new Error(vErr.message);
+      const storno = await issueStorno({
+        originalOrderId: orig.id,
+        by: adminUser,
+        reason,
+      });
 
-      setAdminMsg(`Storno ok: ${r}`);
+      setAdminMsg(`Storno ok: ${r} (Storno-Bon ${storno.receiptNo}${storno.synced ? "" : ", Sync ausstehend"})`);
       setVoidReceiptNo("");
       setVoidReason("");
+      setRefund(null);
     } catch (e: any) {
       setAdminMsg(`Fehler: ${e?.message ?? String(e)}`);
     }
   }
 
-  async function adminReprintByReceipt() {
+  async function adminLoadRefund() {
     try {
       setAdminMsg(null);
       if (!adminUnlocked) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-      const r = reprintReceiptNo.trim();
+      const r = voidReceiptNo.trim();
       if (!r) return void setAdminMsg("Bitte Bon-Nr eingeben.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
 
-      const { data: o, error: oErr } = await supabase
-        .from("orders")
-        .select("id,bar_id,receipt_no,created_at,payment_method,gross_total,tax_total,net_total,deposit_total")
-        .eq("event_id", EVENT_ID)
-        .eq("receipt_no", r)
-        .single();
+      const refundable = await loadRefundable({ eventId: selectedEventId, receiptNo: r });
+      if (refundable.fullyRefunded) return void setAdminMsg("Dieser Bon ist bereits storniert.");
 
-      if (oErr) throw new Error(oErr.message);
-      if (!o) throw new Error("Bon nicht gefunden.");
+      setRefund({ r: refundable, sel: { lines: {}, deposits: {} }, method: defaultRefundMethod(refundable), print: false });
+    } catch (e) {
+      setRefund(null);
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  function setRefundQty(kind: "lines" | "deposits", key: string, qty: number) {
+    setRefund((prev) => (prev ? { ...prev, sel: { ...prev.sel, [kind]: { ...prev.sel[kind], [key]: qty } } } : prev));
+  }
+
+  async function adminRefundSelection() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!refund) return;
 
-      const { data: it, error: iErr } = await supabase.from("order_items").select("name_snapshot,qty,line_total_gross").eq("order_id", (o as any).id);
-      if (iErr) throw new Error(iErr.message);
-
-      const barName = bars.find((b) => b.id === (o as any).bar_id)?.name ?? "Bar";
-
-      const dep = Number((o as any).deposit_total ?? 0);
-      const total = round2(Number((o as any).gross_total) + dep);
-
-      const payload = buildReceiptText({
-        barName,
-        receiptNo: (o as any).receipt_no,
-        createdAtISO: (o as any).created_at,
-        payment: (o as any).payment_method,
-        lines: (it ?? []).map((x: any) => ({ qty: x.qty, name: x.name_snapshot, lineTotal: Number(x.line_total_gross) })),
-        gross: Number((o as any).gross_total),
-        tax: Number((o as any).tax_total),
-        net: Number((o as any).net_total),
-        depositChargeQty: 0,
-        depositChargeTotal: 0,
-        depositAdjust: 0,
-        depositTotal: dep,
-        totalPayable: total,
+      const reason = voidReason.trim();
+      if (!reason) return void setAdminMsg("Bitte Storno-Grund eingeben.");
+      if (isEmptySelection(refund.sel)) return void setAdminMsg("Bitte Positionen oder Pfand auswählen.");
+
+      const storno = await issueStorno({
+        originalOrderId: refund.r.orderId,
+        by: adminUser,
+        reason,
+        refund: { selection: refund.sel, method: refund.method },
+        print: refund.print,
       });
 
-      const { error: pErr } = await supabase.from("print_jobs").insert({ event_id: EVENT_ID, order_id: (o as any).id, payload, status: "queued" });
-      if (pErr) throw new Error(pErr.message);
+      setAdminMsg(
+        `Teil-Storno ok: ${refund.r.document.receipt_no} (Storno-Bon ${storno.receiptNo}, ${euro(storno.total)}${storno.synced ? "" : ", Sync ausstehend"})`
+      );
+      setVoidReceiptNo("");
+      setVoidReason("");
+      setRefund(null);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function adminReprintByReceipt() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+
+      const r = reprintReceiptNo.trim();
+      if (!r) return void setAdminMsg("Bitte Bon-Nr eingeben.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+
+      // ✅ Reprint = dasselbe Beleg-Dokument wie beim ersten Druck
+      if (!adminUser || !can(adminUser, "reprint")) return void setAdminMsg("Keine Berechtigung für Nachdrucke.");
+      const { orderId, document } = await loadReceiptDocument({ eventId: selectedEventId, receiptNo: r });
+      await reprintReceipt(adminUser.session.token, orderId, renderReceiptText(document), document);
 
       setAdminMsg(`Reprint queued: ${r}`);
       setReprintReceiptNo("");
@@ -930,170 +2132,772 @@ function KassaPage() {
     }
   }
 
-  async function loadReport(range: "all" | "today") {
+  // ====== Sortiment ======
+  function openCatalogTab() {
+    setAdminTab("catalog");
+    setCatBarId((cur) => cur ?? selectedBarId ?? bars[0]?.id ?? null);
+    if (selectedEventId) loadStations(selectedEventId).then(setStations, () => setStations([]));
+  }
+
+  async function adminSaveBar() {
     try {
-      setReportLoading(true);
-      setReportError(null);
-      setReportTotals(null);
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      if (!catBarName.trim()) return void setAdminMsg("Bitte Bar-Namen eingeben.");
+
+      setCatSaving(true);
+      const id = await saveBar(adminUser.session.token, { id: catBarEditId, eventId: selectedEventId, name: catBarName.trim() });
+      setBarsVersion((v) => v + 1);
+      setAdminMsg(catBarEditId ? `Bar umbenannt: ${catBarName.trim()}` : `Bar angelegt: ${catBarName.trim()}`);
+      setCatBarId(id);
+      setCatBarEditId(null);
+      setCatBarName("");
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setCatSaving(false);
+    }
+  }
 
-      if (!adminUnlocked) return void setReportError("Bitte Admin entsperren.");
+  async function adminMove(table: "bars" | "products", id: string, delta: -1 | 1) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-      let q = supabase
-        .from("orders")
-        .select("gross_total,tax_total,net_total,deposit_total,created_at,status")
-        .eq("event_id", EVENT_ID)
-        .eq("status", "completed");
-
-      if (range === "today") {
-        const start = new Date();
-        start.setHours(0, 0, 0, 0);
-        q = q.gte("created_at", start.toISOString());
-      }
+      const ids = table === "bars" ? bars.map((b) => b.id) : catProducts.map((p) => p.id);
+      const next = moveId(ids, id, delta);
+      if (next === ids) return;
 
-      const { data: orders, error: oErr } = await q;
-      if (oErr) throw new Error(oErr.message);
+      await reorder(adminUser.session.token, table, next);
+      if (table === "bars") setBarsVersion((v) => v + 1);
+      else setProductsVersion((v) => v + 1);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-      const brutto = round2((orders ?? []).reduce((s: number, o: any) => s + Number(o.gross_total), 0));
-      const ust = round2((orders ?? []).reduce((s: number, o: any) => s + Number(o.tax_total), 0));
-      const netto = round2((orders ?? []).reduce((s: number, o: any) => s + Number(o.net_total), 0));
-      const pfand = round2((orders ?? []).reduce((s: number, o: any) => s + Number(o.deposit_total ?? 0), 0));
-      const gesamt = round2(brutto + pfand);
+  async function adminEditProduct(p: CatalogProduct | null) {
+    setAdminMsg(null);
+    setCatHistory([]);
+    if (!p) return void setCatForm(EMPTY_PRODUCT_FORM);
+
+    setCatForm({
+      id: p.id,
+      name: p.name,
+      price: String(p.price_gross).replace(".", ","),
+      tax_rate: p.tax_rate,
+      deposit_type_id: p.deposit_type_id,
+      station_id: p.station_id,
+      is_active: p.is_active,
+    });
+    try {
+      setCatHistory(await loadPriceHistory(p.id));
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-      setReportTotals({ brutto, ust, netto, pfand, gesamt, bons: (orders ?? []).length });
-    } catch (e: any) {
-      setReportError(e?.message ?? String(e));
+  async function adminSaveProduct(form: ProductForm) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!catBarId) return void setAdminMsg("Bitte zuerst eine Bar wählen.");
+      if (!form.name.trim()) return void setAdminMsg("Bitte Produktnamen eingeben.");
+
+      const price = Number(form.price.replace(",", "."));
+      if (!form.price.trim() || !Number.isFinite(price) || price < 0) return void setAdminMsg("Bitte gültigen Preis eingeben.");
+
+      setCatSaving(true);
+      const id = await saveProduct(adminUser.session.token, {
+        id: form.id,
+        bar_id: catBarId,
+        name: form.name.trim(),
+        price_gross: round2(price),
+        tax_rate: form.tax_rate,
+        deposit_type_id: form.deposit_type_id,
+        station_id: form.station_id,
+        is_active: form.is_active,
+      });
+      setProductsVersion((v) => v + 1);
+      setAdminMsg(`Gespeichert: ${form.name.trim()} (${euro(round2(price))})`);
+      setCatForm({ ...form, id, price: String(round2(price)).replace(".", ",") });
+      setCatHistory(await loadPriceHistory(id));
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
-      setReportLoading(false);
+      setCatSaving(false);
     }
   }
 
-  // ====== LOGIN GATE ======
-  if (!staff) {
-    return (
-      <div style={styles.page}>
-        <div style={styles.topbar}>
-          <div style={styles.topbarInner}>
-            <div style={styles.brand}>
-              <h1 style={styles.title}>Festkassa</h1>
-              <p style={styles.subtitle}>Login erforderlich (PIN)</p>
-            </div>
-          </div>
-        </div>
+  // ====== Drucker ======
+  async function adminLoadPrinters() {
+    try {
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      const [list, st, jobs] = await Promise.all([loadPrinters(selectedEventId), loadStations(selectedEventId), loadOpenPrintJobs(selectedEventId)]);
+      setPrinters(list);
+      setStations(st);
+      setPrintJobs(jobs);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-        <div style={{ maxWidth: 560, margin: "0 auto", padding: 16 }}>
-          <div style={styles.card}>
-            <div style={styles.cardHeader}>
-              <h2 style={styles.cardHeaderTitle}>Mitarbeiter Login</h2>
-              {selectedBarId && <span style={styles.pill}>Bar gespeichert</span>}
-            </div>
+  async function adminSavePrinter() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      if (!prnForm.name.trim()) return void setAdminMsg("Bitte Drucker-Namen eingeben.");
+
+      setPrnSaving(true);
+      const id = await savePrinter(adminUser.session.token, {
+        id: prnForm.id,
+        eventId: selectedEventId,
+        name: prnForm.name.trim(),
+        barIds: prnForm.bar_ids,
+        isActive: prnForm.is_active,
+      });
+      setAdminMsg(`Drucker gespeichert: ${prnForm.name.trim()} (PRINTER_ID=${id})`);
+      setPrnForm(EMPTY_PRINTER_FORM);
+      await adminLoadPrinters();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setPrnSaving(false);
+    }
+  }
 
-            <div style={{ padding: 14, display: "grid", gap: 12 }}>
-              <div style={styles.hint}>PIN eingeben. Danach kannst du Bestellungen bonieren und Stornos machen.</div>
+  async function adminSaveStation() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      if (!stForm.name.trim()) return void setAdminMsg("Bitte Stations-Namen eingeben.");
+
+      setPrnSaving(true);
+      await saveStation(adminUser.session.token, {
+        id: stForm.id,
+        eventId: selectedEventId,
+        name: stForm.name.trim(),
+        printerId: stForm.printer_id,
+        isActive: stForm.is_active,
+      });
+      setAdminMsg(`Station gespeichert: ${stForm.name.trim()}`);
+      setStForm(EMPTY_STATION_FORM);
+      await adminLoadPrinters();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setPrnSaving(false);
+    }
+  }
 
-              <input
-                style={styles.input}
-                placeholder="PIN"
-                value={loginPin}
-                onChange={(e) => setLoginPin(e.target.value)}
-                inputMode="numeric"
-                type="password"
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") doLogin();
-                }}
-              />
+  async function adminRetryPrintJob(job: PrintJob) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-              <button style={styles.subtleBtn} onClick={doLogin} disabled={loginLoading}>
-                {loginLoading ? "Prüfe…" : "Einloggen"}
-              </button>
+      await retryPrintJob(adminUser.session.token, job.id);
+      setAdminMsg("Druckjob wieder in der Warteschlange.");
+      await adminLoadPrinters();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-              {loginMsg && <div style={{ ...styles.totals, color: "#ff8080", fontWeight: 900 }}>{loginMsg}</div>}
-            </div>
-          </div>
-        </div>
-      </div>
+  // ====== Auswertung ======
+  async function adminLoadAnalytics(compareId = compareEventId) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+
+      setAnalyticsLoading(true);
+      const session = adminUser.session.token;
+      const [current, previous] = await Promise.all([
+        loadSalesAnalytics(session, selectedEventId),
+        compareId ? loadSalesAnalytics(session, compareId) : Promise.resolve(null),
+      ]);
+      setAnalytics(current);
+      setAnalyticsCompare(previous);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setAnalyticsLoading(false);
+    }
+  }
+
+  function openAnalyticsTab() {
+    setAdminTab("analytics");
+    // Standard-Vergleich: das Event davor (Liste ist nach Datum absteigend sortiert)
+    const idx = events.findIndex((ev) => ev.id === selectedEventId);
+    const previous = compareEventId || (idx >= 0 ? (events[idx + 1]?.id ?? "") : "");
+    setCompareEventId(previous);
+    void adminLoadAnalytics(previous);
+  }
+
+  // ====== Schichten ======
+  async function adminLoadShifts() {
+    try {
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      setAdminShifts(await loadShifts(selectedEventId));
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // ====== Rollen ======
+  async function adminLoadRoles() {
+    try {
+      setRoles(await loadRoles());
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  function toggleRolePermission(key: string, permission: Permission) {
+    setRoles((prev) =>
+      prev.map((r) =>
+        r.key !== key ? r : { ...r, permissions: r.permissions.includes(permission) ? r.permissions.filter((x) => x !== permission) : [...r.permissions, permission] }
+      )
     );
   }
 
-  // ====== MAIN UI ======
-  return (
-    <div style={styles.page}>
-      <div style={styles.topbar}>
-        <div style={styles.topbarInner}>
-          <div style={styles.brand}>
-            <h1 style={styles.title}>Festkassa</h1>
-            <p style={styles.subtitle}>
-              Eingeloggt: <b>{staff.name}</b> ({staff.role}) {selectedBar ? `• Bar: ${selectedBar.name}` : "• Bar auswählen"}
-            </p>
-          </div>
+  async function adminSaveRole(role: { key: string; label: string; permissions: Permission[] }) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!role.key.trim() || !role.label.trim()) return void setAdminMsg("Bitte Schlüssel und Bezeichnung eingeben.");
+
+      await saveRole(adminUser.session.token, role);
+      setAdminMsg(`Rolle gespeichert: ${role.label}`);
+      setNewRole({ key: "", label: "" });
+      await adminLoadRoles();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
-            <button style={styles.subtleBtn} onClick={openAdmin}>
-              Admin {adminUnlocked ? `✓${adminUser?.name ? ` (${adminUser.name})` : ""}` : ""}
-            </button>
-            <button style={styles.subtleBtn} onClick={doLogout}>
-              Abmelden
-            </button>
-            {selectedBar && (
-              <button style={styles.subtleBtn} onClick={resetBar}>
-                Bar wechseln
-              </button>
-            )}
-          </div>
-        </div>
-      </div>
+  // ====== Mitarbeiter ======
+  async function adminLoadStaff(by: StaffAuth | null = adminUser) {
+    try {
+      if (!by) return;
+      const [members, allRoles, security] = await Promise.all([loadStaffMembers(by.session.token), loadRoles(), loadPinSecurity(by.session.token)]);
+      setStaffMembers(members);
+      setRoles(allRoles);
+      setPinLockouts(security.lockouts);
+      setAdminNotifications(security.notifications);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-      <div style={styles.layout(isNarrow)}>
-        {/* LEFT */}
-        <div style={styles.card}>
-          <div style={styles.cardHeader}>
-            <h2 style={styles.cardHeaderTitle}>{selectedBar ? "Bestellung" : "Bar Auswahl"}</h2>
-            {loadingBars && <span style={styles.pill}>Lade…</span>}
-          </div>
+  function editStaffMember(m: StaffMember | null) {
+    setStaffForm(m ? { id: m.id, name: m.name, role: m.role, is_active: m.is_active } : { id: null, name: "", role: "staff", is_active: true });
+    setGeneratedPin(null);
+  }
 
-          {!selectedBarId ? (
-            <div style={styles.barRow}>
-              {bars.map((b) => (
-                <button key={b.id} onClick={() => chooseBar(b.id)} style={styles.barBtn(false)}>
-                  {b.name}
-                </button>
-              ))}
-              <div style={{ width: "100%", marginTop: 10 }}>
-                <p style={styles.hint}>Wähle die Bar einmal aus. Die Auswahl wird auf diesem Gerät gespeichert.</p>
-                {error && <p style={{ color: "#ff8080", marginTop: 8 }}>{error}</p>}
-              </div>
-            </div>
-          ) : (
-            <>
-              <div style={{ padding: 14, display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
-                <div>
-                  <div style={{ fontSize: 20, fontWeight: 950 }}>{selectedBar?.name}</div>
-                  <div style={{ ...styles.hint, marginTop: 4 }}>Tippe ein Produkt, um es in den Warenkorb zu legen.</div>
-                </div>
+  async function adminSaveStaff() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!staffForm.name.trim()) return void setAdminMsg("Bitte Namen eingeben.");
+
+      const id = await saveStaffMember(adminUser.session.token, staffForm);
+      // Neue Mitarbeiter bekommen gleich einen gewürfelten PIN
+      if (!staffForm.id) {
+        const pin = await setStaffPin(adminUser.session.token, id);
+        setGeneratedPin({ name: staffForm.name.trim(), pin });
+      }
+      setAdminMsg(`Mitarbeiter gespeichert: ${staffForm.name.trim()}`);
+      setStaffForm({ id, name: staffForm.name.trim(), role: staffForm.role, is_active: staffForm.is_active });
+      await adminLoadStaff();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-                {/* ✅ Warenkorb leeren + Pfand-Korrektur Buttons daneben */}
-                <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
-                  <button
-                    style={styles.subtleBtn}
-                    onClick={() => {
-                      setCart({});
-                      setDepositAdjust(0);
-                    }}
-                  >
-                    Warenkorb leeren
-                  </button>
+  /** Neuen PIN würfeln (auch bei abgelaufenem PIN) – er wird nur jetzt einmal angezeigt. */
+  async function adminSetStaffPin() {
+    try {
+      setAdminMsg(null);
+      setGeneratedPin(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!staffForm.id) return void setAdminMsg("Bitte zuerst einen Mitarbeiter wählen.");
+
+      const pin = await setStaffPin(adminUser.session.token, staffForm.id);
+      setGeneratedPin({ name: staffForm.name, pin });
+      setAdminMsg(`Neuer PIN erzeugt: ${staffForm.name}`);
+      await adminLoadStaff();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-                  <span style={styles.pill}>
-                    Pfand: <b>{euro(depositAdjust)}</b>
-                  </span>
+  async function adminUnlockPin(l: PinLockout) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
 
-                  <button style={styles.subtleBtn} onClick={() => addDeposit(+DEPOSIT_VALUE)}>
-                    + {euro(DEPOSIT_VALUE)}
-                  </button>
-                  <button style={styles.subtleBtn} onClick={() => addDeposit(-DEPOSIT_VALUE)}>
-                    - {euro(DEPOSIT_VALUE)}
-                  </button>
-                </div>
-              </div>
+      await unlockPinLockout(adminUser.session.token, l);
+      setAdminMsg("Sperre aufgehoben.");
+      await adminLoadStaff();
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function adminReadNotifications() {
+    try {
+      if (!adminUnlocked || !adminUser) return;
+      await markNotificationsRead(adminUser.session.token);
+      setAdminNotifications([]);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // ====== Events ======
+  async function adminCreateEvent() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+
+      const name = newEventName.trim();
+      if (!name) return void setAdminMsg("Bitte Namen eingeben.");
+      if (newEventFrom && newEventTo && newEventTo < newEventFrom) return void setAdminMsg("Ende liegt vor dem Beginn.");
+
+      setEventSaving(true);
+      await createEvent(adminUser.session.token, {
+        name,
+        startsOn: newEventFrom || null,
+        endsOn: newEventTo || newEventFrom || null,
+        location: newEventLocation.trim() || null,
+        cloneFrom: newEventCloneFrom || null,
+      });
+      await refreshEvents();
+
+      const source = events.find((e) => e.id === newEventCloneFrom);
+      setAdminMsg(`Event angelegt: ${name}${source ? ` (Bars/Produkte/Preise von ${source.name})` : ""}`);
+      setNewEventName("");
+      setNewEventFrom("");
+      setNewEventTo("");
+      setNewEventLocation("");
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setEventSaving(false);
+    }
+  }
+
+  async function adminSetEventStatus(ev: FestEvent, status: EventStatus) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+
+      await setEventStatus(adminUser.session.token, ev.id, status);
+      await refreshEvents();
+      setAdminMsg(`${ev.name}: ${EVENT_STATUS_LABEL[status]}`);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function adminSetAutoLock(ev: FestEvent, minutes: number | null) {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+
+      await setEventAutoLock(adminUser.session.token, ev.id, minutes);
+      await refreshEvents();
+      setAdminMsg(`${ev.name}: Auto-Sperre ${minutes ? `nach ${minutes} Min.` : "aus"}`);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function adminSaveDiscountReason() {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked || !adminUser) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+      if (!reasonForm.name.trim()) return void setAdminMsg("Bitte einen Grund eingeben.");
+
+      const value = reasonForm.kind === "free" ? 0 : parseEuro(reasonForm.value);
+      if (value == null || value < 0) return void setAdminMsg("Bitte einen gültigen Wert eingeben.");
+
+      await saveDiscountReason(adminUser.session.token, {
+        id: reasonForm.id,
+        event_id: selectedEventId,
+        name: reasonForm.name.trim(),
+        kind: reasonForm.kind,
+        value,
+        is_active: reasonForm.is_active,
+      });
+      setDiscountReasons(await loadDiscountReasons(selectedEventId));
+      setAdminMsg(`Rabatt-Grund gespeichert: ${reasonForm.name.trim()}`);
+      setReasonForm(EMPTY_REASON_FORM);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // ====== DEP-Export (RKSV) ======
+  async function adminLoadDepRegisters() {
+    try {
+      setAdminMsg(null);
+      const certs = await loadRksvCertificates();
+      // pro Kasse nur einmal anzeigen, auch wenn das Zertifikat gewechselt wurde
+      const byRegister = new Map(certs.map((c) => [c.cash_register_id, c]));
+      setDepRegisters([...byRegister.values()]);
+      setDepRegisterId((cur) => cur || getDeviceId());
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function adminBuildDep() {
+    try {
+      setAdminMsg(null);
+      setDepCheck(null);
+      if (!adminUnlocked) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+
+      setDepLoading(true);
+
+      // Datumsfelder = ganze Tage in Ortszeit, leer = ohne Grenze
+      const fromISO = depFrom ? new Date(`${depFrom}T00:00:00`).toISOString() : new Date(0).toISOString();
+      const to = depTo ? new Date(`${depTo}T00:00:00`) : new Date(8640000000000000);
+      if (depTo) to.setDate(to.getDate() + 1);
+
+      const dep = await buildDepExport({ eventId: selectedEventId, cashRegisterId: depRegisterId || null, fromISO, toISO: to.toISOString() });
+      const count = dep["Belege-Gruppe"].reduce((s, g) => s + g["Belege-kompakt"].length, 0);
+      if (count === 0) return void setAdminMsg("Keine signierten Belege im gewählten Zeitraum.");
+
+      setDepExport(dep);
+      const event = (selectedEvent?.name ?? "event").replace(/[^\p{L}\p{N}]+/gu, "_");
+      downloadFile(`dep7_${event}_${depRegisterId || "alle_kassen"}_${depFrom || "start"}_${depTo || "heute"}.json`, JSON.stringify(dep, null, 2), "application/json");
+      setAdminMsg(`DEP erstellt: ${count} Belege in ${dep["Belege-Gruppe"].length} Gruppe(n).`);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setDepLoading(false);
+    }
+  }
+
+  // ====== Export ======
+  async function adminExport(kind: "orders" | "items" | "voids" | "journal" | "xlsx") {
+    try {
+      setAdminMsg(null);
+      if (!adminUnlocked) return void setAdminMsg("Bitte zuerst Admin entsperren.");
+      if (!selectedEventId) return void setAdminMsg("Bitte zuerst das Event auswählen.");
+
+      setExportLoading(true);
+
+      // Datumsfelder = Geschäftstage (ab Tageswechsel des Events), leer = ohne Grenze
+      const cutoff = (selectedEvent?.day_cutoff ?? "06:00").slice(0, 5);
+      const from = exportFrom ? businessDayRange(exportFrom, cutoff).from : new Date(0);
+      const to = exportTo ? businessDayRange(exportTo, cutoff).to : new Date(8640000000000000);
+
+      const data = await loadExportData(selectedEventId, from, to);
+      if (data.orders.length === 0) return void setAdminMsg("Keine Bons im gewählten Zeitraum.");
+
+      const base = `festkassa_${(selectedEvent?.name ?? "event").replace(/[^\p{L}\p{N}]+/gu, "_")}_${exportFrom || "start"}_${exportTo || "heute"}`;
+      const csv = "text/csv;charset=utf-8";
+      if (kind === "orders") downloadFile(`${base}_bons.csv`, buildCsv(ordersSheet(data)), csv);
+      if (kind === "items") downloadFile(`${base}_positionen.csv`, buildCsv(itemsSheet(data)), csv);
+      if (kind === "voids") downloadFile(`${base}_stornos.csv`, buildCsv(voidsSheet(data)), csv);
+      if (kind === "journal") downloadFile(`${base}_buchungsjournal.csv`, buildCsv(bookingJournalSheet(data, bookingAccounts, cutoff)), csv);
+      if (kind === "xlsx") {
+        const sheets = [ordersSheet(data), itemsSheet(data), voidsSheet(data), bookingJournalSheet(data, bookingAccounts, cutoff)];
+        downloadFile(`${base}.xlsx`, buildXlsx(sheets), "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      }
+      setAdminMsg(`Export erstellt: ${data.orders.length} Bons, ${data.items.length} Positionen.`);
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setExportLoading(false);
+    }
+  }
+
+  async function adminVerifyDep(dep: DepExport | null) {
+    try {
+      setAdminMsg(null);
+      if (!dep) return void setAdminMsg("Bitte zuerst einen DEP erstellen oder eine Datei wählen.");
+
+      setDepLoading(true);
+      setDepCheck(await verifyDepExport(dep, { aesKeys: depRegisterId && depAesKey.trim() ? { [depRegisterId]: depAesKey.trim() } : undefined }));
+    } catch (e) {
+      setAdminMsg(`Fehler: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setDepLoading(false);
+    }
+  }
+
+  async function adminVerifyDepFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      const dep = JSON.parse(await file.text()) as DepExport;
+      setDepExport(dep);
+      await adminVerifyDep(dep);
+    } catch (e) {
+      setAdminMsg(`Fehler: Datei ist kein gültiger DEP (${e instanceof Error ? e.message : String(e)})`);
+    }
+  }
+
+  function reportRange() {
+    if (reportMode === "day") {
+      if (!reportDay) throw new Error("Bitte Geschäftstag wählen.");
+      return businessDayRange(reportDay, reportCutoff);
+    }
+    if (!reportFrom || !reportTo) throw new Error("Bitte Zeitraum wählen.");
+    const from = new Date(reportFrom);
+    const to = new Date(reportTo);
+    if (!(to > from)) throw new Error("Ende muss nach dem Beginn liegen.");
+    return { from, to };
+  }
+
+  function openReportTab() {
+    setAdminTab("report");
+    const cutoff = (selectedEvent?.day_cutoff ?? "06:00").slice(0, 5);
+    setReportCutoff(cutoff);
+    if (!reportDay) setReportDay(businessDayOf(new Date(), cutoff));
+    if (selectedEventId) loadZReports(selectedEventId).then(setZReports, () => setZReports([]));
+  }
+
+  // X-Bericht: Zwischenstand, beliebig oft
+  async function loadReport() {
+    try {
+      setReportLoading(true);
+      setReportError(null);
+      setReportView(null);
+      setZConfirm(false);
+
+      if (!adminUnlocked || !adminUser) return void setReportError("Bitte Admin entsperren.");
+      if (!selectedEventId) return void setReportError("Bitte zuerst das Event auswählen.");
+
+      const { from, to } = reportRange();
+      setReportView({ report: await loadSalesReport(adminUser.session.token, selectedEventId, from, to), zNo: null, createdBy: null });
+    } catch (e) {
+      setReportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setReportLoading(false);
+    }
+  }
+
+  // Z-Bericht: nur einmal je Zeitraum, danach unveränderbar
+  async function adminCreateZReport() {
+    try {
+      setReportError(null);
+      if (!adminUnlocked || !adminUser) return void setReportError("Bitte Admin entsperren.");
+      if (!selectedEventId) return void setReportError("Bitte zuerst das Event auswählen.");
+      if (!zConfirm) return void setZConfirm(true);
+
+      setReportLoading(true);
+      setZConfirm(false);
+      await flushOutbox();
+      if ((await countPending()) > 0) return void setReportError("Es sind noch Bons nicht synchronisiert – Z-Bericht erst nach dem Abgleich.");
+
+      const { from, to } = reportRange();
+      const z = await createZReport(adminUser.session.token, selectedEventId, from, to);
+      setReportView({ report: z.data, zNo: z.z_no, createdBy: z.created_by_name });
+      setZReports(await loadZReports(selectedEventId));
+    } catch (e) {
+      setReportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setReportLoading(false);
+    }
+  }
+
+  async function adminSaveDayCutoff() {
+    try {
+      setReportError(null);
+      if (!adminUnlocked || !adminUser) return void setReportError("Bitte Admin entsperren.");
+      if (!selectedEventId) return void setReportError("Bitte zuerst das Event auswählen.");
+
+      await setEventDayCutoff(adminUser.session.token, selectedEventId, reportCutoff);
+      setEvents((prev) => prev.map((ev) => (ev.id === selectedEventId ? { ...ev, day_cutoff: `${reportCutoff}:00` } : ev)));
+      setAdminMsg(`Tageswechsel gespeichert: ${reportCutoff} Uhr`);
+    } catch (e) {
+      setReportError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function printReport() {
+    try {
+      if (!reportView || !selectedEventId || !adminUser) return;
+      const payload = formatSalesReport(reportView.report, { eventName: selectedEvent?.name ?? "", zNo: reportView.zNo, createdBy: reportView.createdBy });
+      await queueTextPrint(adminUser.session.token, { eventId: selectedEventId, barId: selectedBarId || null, kind: "report", payload });
+      setAdminMsg(reportView.zNo ? `Z-Bericht Nr. ${reportView.zNo} wird gedruckt.` : "X-Bericht wird gedruckt.");
+    } catch (e) {
+      setReportError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // ====== LOGIN GATE / SPERRBILDSCHIRM ======
+  if (!staff || locked) {
+    return (
+      <div style={styles.page}>
+        <div style={styles.topbar}>
+          <div style={styles.topbarInner}>
+            <div style={styles.brand}>
+              <h1 style={styles.title}>Festkassa</h1>
+              <p style={styles.subtitle}>{staff ? "Kassa gesperrt" : "Login erforderlich (PIN)"}</p>
+            </div>
+          </div>
+        </div>
+
+        <div style={{ maxWidth: 560, margin: "0 auto", padding: 16 }}>
+          <div style={styles.card}>
+            <div style={styles.cardHeader}>
+              <h2 style={styles.cardHeaderTitle}>{staff ? "Entsperren / Kassier wechseln" : "Mitarbeiter Login"}</h2>
+              {selectedBarId && <span style={styles.pill}>Bar gespeichert</span>}
+            </div>
+
+            <div style={{ padding: 14, display: "grid", gap: 12 }}>
+              {staff ? (
+                <div style={styles.hint}>
+                  Zuletzt: <b>{staff.name}</b>. Eigenen PIN eingeben – Bons werden dem Kassier zugeordnet, der gerade entsperrt hat.
+                  {cartLines.length > 0 && ` Der Warenkorb (${cartLines.reduce((n, l) => n + l.qty, 0)} Artikel) bleibt erhalten.`}
+                </div>
+              ) : (
+                <div style={styles.hint}>PIN eingeben. Danach kannst du Bestellungen bonieren und Stornos machen.</div>
+              )}
+
+              <input
+                style={styles.input}
+                placeholder="PIN"
+                value={loginPin}
+                onChange={(e) => setLoginPin(e.target.value)}
+                inputMode="numeric"
+                type="password"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") doLogin();
+                }}
+              />
+
+              <button style={styles.subtleBtn} onClick={doLogin} disabled={loginLoading}>
+                {loginLoading ? "Prüfe…" : staff ? "Entsperren" : "Einloggen"}
+              </button>
+              {staff && (
+                <button style={styles.subtleBtn} onClick={doLogout}>
+                  Abmelden (Warenkorb verwerfen)
+                </button>
+              )}
+
+              {loginMsg && <div style={{ ...styles.totals, color: "#ff8080", fontWeight: 900 }}>{loginMsg}</div>}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ====== MAIN UI ======
+  return (
+    <div style={styles.page}>
+      <div style={styles.topbar}>
+        <div style={styles.topbarInner}>
+          <div style={styles.brand}>
+            <h1 style={styles.title}>Festkassa</h1>
+            <p style={styles.subtitle}>
+              Eingeloggt: <b>{staff.name}</b> ({staff.role}) {selectedEvent ? `• ${selectedEvent.name}` : "• Event auswählen"}{" "}
+              {selectedEvent && (selectedBar ? `• Bar: ${selectedBar.name}` : "• Bar auswählen")}
+            </p>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <button style={styles.subtleBtn} onClick={openAdmin}>
+              Admin {adminUnlocked ? `✓${adminUser?.name ? ` (${adminUser.name})` : ""}` : ""}
+            </button>
+            <button style={styles.subtleBtn} onClick={lockKassa}>
+              Sperren / Kassier wechseln
+            </button>
+            <button style={styles.subtleBtn} onClick={doLogout}>
+              Abmelden
+            </button>
+            {selectedBar && (
+              <button style={styles.subtleBtn} onClick={resetBar}>
+                Bar wechseln
+              </button>
+            )}
+            {selectedEventId && (
+              <button style={styles.subtleBtn} onClick={resetEvent}>
+                Event wechseln
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div style={styles.layout(isNarrow)}>
+        {/* LEFT */}
+        <div style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h2 style={styles.cardHeaderTitle}>{selectedBar ? "Bestellung" : selectedEventId ? "Bar Auswahl" : "Event Auswahl"}</h2>
+            {loadingBars && <span style={styles.pill}>Lade…</span>}
+          </div>
+
+          {!selectedEventId ? (
+            <div style={styles.barRow}>
+              {events
+                .filter((ev) => ev.status !== "closed")
+                .map((ev) => (
+                  <button key={ev.id} onClick={() => chooseEvent(ev.id)} style={styles.barBtn(false)}>
+                    {ev.name}
+                    {formatEventDates(ev) && <div style={{ ...styles.hint, marginTop: 4 }}>{formatEventDates(ev)}</div>}
+                  </button>
+                ))}
+              <div style={{ width: "100%", marginTop: 10 }}>
+                <p style={styles.hint}>Wähle das Event (Fest), für das dieses Gerät kassiert. Neue Events legt der Admin an.</p>
+                {error && <p style={{ color: "#ff8080", marginTop: 8 }}>{error}</p>}
+              </div>
+            </div>
+          ) : !selectedBarId ? (
+            <div style={styles.barRow}>
+              {bars.map((b) => (
+                <button key={b.id} onClick={() => chooseBar(b.id)} style={styles.barBtn(false)}>
+                  {b.name}
+                </button>
+              ))}
+              <div style={{ width: "100%", marginTop: 10 }}>
+                <p style={styles.hint}>Wähle die Bar einmal aus. Die Auswahl wird auf diesem Gerät gespeichert.</p>
+                {error && <p style={{ color: "#ff8080", marginTop: 8 }}>{error}</p>}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div style={{ padding: 14, display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+                <div>
+                  <div style={{ fontSize: 20, fontWeight: 950 }}>{selectedBar?.name}</div>
+                  <div style={{ ...styles.hint, marginTop: 4 }}>Tippe ein Produkt, um es in den Warenkorb zu legen.</div>
+                </div>
+
+                {/* ✅ Warenkorb leeren + Pfand-Korrektur Buttons daneben */}
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                  <button
+                    style={styles.subtleBtn}
+                    onClick={() => {
+                      setCart({});
+                      setDepositAdjust({});
+                    }}
+                  >
+                    Warenkorb leeren
+                  </button>
+
+                  <span style={styles.pill}>
+                    Pfand: <b>{euro(depositTotal)}</b>
+                  </span>
+
+                  {/* Rückgabe ohne Einkauf: direkt je Pfandart */}
+                  {depositTypes.map((t) => (
+                    <button key={t.id} style={styles.subtleBtn} onClick={() => addDeposit(t.id, -1)}>
+                      Rückgabe {t.name} (−{euro(t.value)})
+                    </button>
+                  ))}
+                </div>
+              </div>
 
               {loadingProducts ? (
                 <div style={{ padding: 14 }}>
@@ -1120,28 +2924,174 @@ function KassaPage() {
         <div style={styles.card}>
           <div style={styles.cardHeader}>
             <h2 style={styles.cardHeaderTitle}>Checkout</h2>
-            <span style={styles.pill}>{cartLines.length} Position{cartLines.length === 1 ? "" : "en"}</span>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              {printerStatus && (
+                <span
+                  style={{
+                    ...styles.pill,
+                    ...(printerStatus.state === "online"
+                      ? { borderColor: "rgba(0,255,200,0.45)", color: "#eafffb" }
+                      : { borderColor: "rgba(255,80,80,0.45)", color: "#ffecec" }),
+                  }}
+                  title={printerStatus.message ?? (printerStatus.lastSeenAt ? `Zuletzt gemeldet: ${new Date(printerStatus.lastSeenAt).toLocaleTimeString("de-AT")}` : undefined)}
+                >
+                  🖨️ {PRINTER_STATE_LABEL[printerStatus.state]}
+                </span>
+              )}
+              {outbox.pendingIds.length > 0 && (
+                <span style={{ ...styles.pill, borderColor: "rgba(255,200,0,0.45)", color: "#ffe9a8" }}>
+                  {outbox.pendingIds.length} Sync ausstehend
+                </span>
+              )}
+              {outbox.rejected.length > 0 && (
+                <span style={{ ...styles.pill, borderColor: "rgba(255,80,80,0.45)", color: "#ffecec" }}>{outbox.rejected.length} abgelehnt</span>
+              )}
+              <span style={styles.pill}>{cartLines.length} Position{cartLines.length === 1 ? "" : "en"}</span>
+            </div>
           </div>
 
           <div style={styles.rightInner}>
-            {lastReceipt && (
-              <div style={styles.totals}>
-                <div style={{ ...styles.totalRow, fontWeight: 950 }}>
-                  <span>Letzter Beleg</span>
-                  <span>{lastReceipt.receipt_no}</span>
+            {/* ✅ Schicht: ohne offene Schicht kein Verkauf */}
+            {selectedBar && !shift && (
+              <div style={{ ...styles.totals, borderColor: "rgba(255,200,0,0.35)" }}>
+                <div style={{ fontWeight: 950 }}>Schicht öffnen</div>
+                <div style={styles.hint}>Wechselgeld in der Lade zählen und als Anfangsbestand eintragen.</div>
+                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                  <input
+                    style={{ ...styles.input, width: 180 }}
+                    placeholder="Anfangsbestand €"
+                    inputMode="decimal"
+                    value={shiftFloat}
+                    onChange={(e) => setShiftFloat(e.target.value)}
+                  />
+                  <button style={styles.subtleBtn} onClick={doOpenShift} disabled={shiftLoading}>
+                    {shiftLoading ? "Öffne…" : "Schicht öffnen"}
+                  </button>
                 </div>
-                <div style={styles.totalRow}>
-                  <span>Beleg anzeigen</span>
-                  <a href={lastReceipt.receipt_url} style={{ color: "#aef", fontWeight: 900, textDecoration: "none" }}>
-                    öffnen
-                  </a>
+                {shiftMsg && !shiftCloseOpen && <div style={{ ...styles.hint, color: "#ff8080" }}>{shiftMsg}</div>}
+              </div>
+            )}
+            {shift && (
+              <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                <span style={styles.hint}>
+                  Schicht seit {new Date(shift.opened_at).toLocaleTimeString("de-AT", { hour: "2-digit", minute: "2-digit" })} · {shift.staff_name} · Anfangsbestand{" "}
+                  {euro(shift.opening_float)}
+                </span>
+                <button style={styles.subtleBtn} onClick={startCloseShift}>
+                  Schicht schließen
+                </button>
+              </div>
+            )}
+
+            {rksvStatus?.failed_since && (
+              <div style={{ ...styles.totals, borderColor: "rgba(255,80,80,0.45)", color: "#ffecec" }}>
+                <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                  <span>Sicherheitseinrichtung ausgefallen</span>
+                  <span>seit {new Date(rksvStatus.failed_since).toLocaleString("de-AT")}</span>
                 </div>
+                <div style={styles.hint}>Verkauf läuft weiter. Ausfall länger als 48 Stunden muss dem Finanzamt gemeldet werden.</div>
+              </div>
+            )}
 
-                {qrDataUrl && (
-                  <div style={{ marginTop: 8 }}>
-                    <img src={qrDataUrl} alt="QR" style={{ width: "100%", borderRadius: 12 }} />
-                  </div>
-                )}
+            {/* ✅ Vom Server abgelehnt: bleiben lokal, bis sie erneut gesendet werden */}
+            {outbox.rejected.length > 0 && (
+              <div style={{ ...styles.totals, borderColor: "rgba(255,80,80,0.45)", color: "#ffecec" }}>
+                <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                  <span>Vom Server abgelehnt</span>
+                  <span>
+                    {outbox.rejected.length} Eintr{outbox.rejected.length === 1 ? "ag" : "äge"}
+                  </span>
+                </div>
+                <div style={styles.hint}>
+                  Die übrigen Bons werden weiter übertragen. Signierte Bons sind am Server als abgelehnt vermerkt und bleiben im DEP. Grund prüfen (Admin), dann erneut
+                  senden.
+                </div>
+                {outbox.rejected.map((p) => (
+                  <div key={p.seq} style={{ ...styles.totalRow, alignItems: "center" }}>
+                    <span>
+                      {p.rpc === "open_shift" ? "Schicht-Öffnung" : p.rpc === "create_storno" ? `Storno ${p.receipt_no}` : `Bon ${p.receipt_no}`} ·{" "}
+                      {new Date(p.created_at).toLocaleString("de-AT")}
+                      <div style={{ ...styles.hint, color: "#ff8080" }}>{p.last_error}</div>
+                    </span>
+                    <button style={styles.subtleBtn} disabled={outbox.syncing} onClick={() => retryRejectedEntry(p.seq!)}>
+                      Erneut senden
+                    </button>
+                  </div>
+                ))}
+                <button style={styles.subtleBtn} onClick={downloadRejected}>
+                  Als Datei sichern
+                </button>
+              </div>
+            )}
+
+            {/* ✅ Offline-Status: Bons in der Outbox, Sortiment aus Cache, Bon-Nummern-Pool */}
+            {(outbox.pendingIds.length > 0 || catalogFromCache || (receiptPool !== null && receiptPool < 10)) && (
+              <div style={{ ...styles.totals, borderColor: "rgba(255,200,0,0.35)" }}>
+                {outbox.pendingIds.length > 0 && (
+                  <>
+                    <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                      <span>Offline gespeichert</span>
+                      <span>
+                        {outbox.pendingIds.length} Bon{outbox.pendingIds.length === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <div style={styles.hint}>
+                      Wird automatisch übertragen, sobald wieder Verbindung besteht. Ausdrucke erfolgen erst nach der Übertragung.
+                    </div>
+                    {outbox.lastError && <div style={{ ...styles.hint, color: "#ff8080" }}>Letzter Versuch: {outbox.lastError}</div>}
+                    <button style={styles.subtleBtn} disabled={outbox.syncing} onClick={() => void flushOutbox()}>
+                      {outbox.syncing ? "Synchronisiere…" : "Jetzt synchronisieren"}
+                    </button>
+                  </>
+                )}
+                {catalogFromCache && <div style={styles.hint}>Sortiment aus dem Offline-Speicher geladen.</div>}
+                {receiptPool !== null && receiptPool < 10 && (
+                  <div style={{ ...styles.hint, color: "#ffe9a8" }}>Nur noch {receiptPool} Bon-Nummern offline verfügbar.</div>
+                )}
+              </div>
+            )}
+
+            {lastReceipt && (
+              <div style={styles.totals}>
+                <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                  <span>Letzter Beleg</span>
+                  <span>{lastReceipt.receipt_no}</span>
+                </div>
+                {outbox.pendingIds.includes(lastReceipt.order_id) && (
+                  <div style={{ ...styles.totalRow, color: "#ffe9a8" }}>
+                    <span>Status</span>
+                    <span>Sync ausstehend</span>
+                  </div>
+                )}
+                {lastPrintJob && (
+                  <>
+                    <div style={{ ...styles.totalRow, color: lastPrintJob.status === "failed" ? "#ff8080" : undefined }}>
+                      <span>Druck</span>
+                      <span>
+                        {PRINT_JOB_STATUS_LABEL[lastPrintJob.status]}
+                        {lastPrintJob.status !== "printed" && lastPrintJob.attempts > 1 ? ` (Versuch ${lastPrintJob.attempts})` : ""}
+                      </span>
+                    </div>
+                    {lastPrintJob.last_error && lastPrintJob.status !== "printed" && <div style={{ ...styles.hint, color: "#ff8080" }}>{lastPrintJob.last_error}</div>}
+                    {lastPrintJob.status === "failed" && (
+                      <button style={styles.subtleBtn} onClick={retryLastPrint} disabled={printRetrying}>
+                        {printRetrying ? "…" : "Erneut drucken"}
+                      </button>
+                    )}
+                  </>
+                )}
+                <div style={styles.totalRow}>
+                  <span>Beleg anzeigen</span>
+                  <a href={lastReceipt.receipt_url} style={{ color: "#aef", fontWeight: 900, textDecoration: "none" }}>
+                    öffnen
+                  </a>
+                </div>
+
+                {qrDataUrl && (
+                  <div style={{ marginTop: 8 }}>
+                    <img src={qrDataUrl} alt="QR" style={{ width: "100%", borderRadius: 12 }} />
+                  </div>
+                )}
 
                 <button
                   style={styles.dangerBtn}
@@ -1171,18 +3121,41 @@ function KassaPage() {
             ) : (
               <>
                 <div style={{ display: "grid", gap: 10 }}>
-                  {cartLines.map((line) => {
-                    const lineTotal = Number(line.product.price_gross) * line.qty;
+                  {pricedLines.map(({ line, gross, discount, total }) => {
                     return (
                       <div key={line.product.id} style={styles.cartLine}>
                         <div>
                           <div style={{ fontWeight: 950 }}>{line.product.name}</div>
-                          <div style={{ opacity: 0.8, marginTop: 4 }}>{euro(lineTotal)}</div>
-                          <div style={{ opacity: 0.65, marginTop: 4, fontSize: 12 }}>
-                            Pfand automatisch: {line.qty} × {euro(DEPOSIT_VALUE)}
+                          <div style={{ opacity: 0.8, marginTop: 4 }}>
+                            {line.discount ? (
+                              <>
+                                <s style={{ opacity: 0.6 }}>{euro(gross)}</s> {euro(total)}
+                              </>
+                            ) : (
+                              euro(total)
+                            )}
                           </div>
+                          {line.discount && (
+                            <div style={{ marginTop: 4, fontSize: 12, display: "flex", gap: 8, alignItems: "center" }}>
+                              <span style={styles.pill}>
+                                {discountLabel(line.discount)} ({euro(-discount)})
+                              </span>
+                              <button style={styles.subtleBtn} onClick={() => setLineDiscount(line.product.id, null)} title="Rabatt entfernen">
+                                ✕
+                              </button>
+                            </div>
+                          )}
+                          {line.product.deposit_type_id && depositTypeById.get(line.product.deposit_type_id) && (
+                            <div style={{ opacity: 0.65, marginTop: 4, fontSize: 12 }}>
+                              Pfand automatisch: {line.qty} × {euro(depositTypeById.get(line.product.deposit_type_id)!.value)} (
+                              {depositTypeById.get(line.product.deposit_type_id)!.name})
+                            </div>
+                          )}
                         </div>
                         <div style={styles.qtyControls}>
+                          <button style={styles.subtleBtn} onClick={() => openDiscount(line.product.id)} title="Rabatt auf diese Position">
+                            %
+                          </button>
                           <button style={styles.qtyBtn} onClick={() => dec(line.product.id)}>
                             –
                           </button>
@@ -1196,254 +3169,1783 @@ function KassaPage() {
                   })}
                 </div>
 
+                {/* ✅ Rabatt auf den ganzen Bon + Eingabe (Position oder Bon) */}
+                <div style={styles.totals}>
+                  <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                    <span style={{ fontWeight: 950 }}>Rabatt auf Bon</span>
+                    {orderDiscount ? (
+                      <span style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <span style={styles.pill}>
+                          {discountLabel(orderDiscount)} ({euro(-orderDiscountAmount)})
+                        </span>
+                        <button style={styles.subtleBtn} onClick={() => setOrderDiscount(null)} title="Rabatt entfernen">
+                          ✕
+                        </button>
+                      </span>
+                    ) : (
+                      <button style={styles.subtleBtn} onClick={() => openDiscount("order")}>
+                        Rabatt…
+                      </button>
+                    )}
+                  </div>
+                  {discountApprover && !can(staff, "give_discounts") && <div style={styles.hint}>Rabatt freigegeben von {discountApprover.name}</div>}
+
+                  {discountEdit && (
+                    <div style={{ display: "grid", gap: 8, marginTop: 6 }}>
+                      <div style={styles.hint}>
+                        {discountEdit.target === "order" ? "Rabatt auf den ganzen Bon" : `Rabatt auf ${cart[discountEdit.target]?.product.name ?? "Position"}`} – Grund wählen:
+                      </div>
+                      {discountReasons.filter((r) => r.is_active).length === 0 && (
+                        <div style={{ ...styles.hint, color: "#ffcc66" }}>Keine Rabatt-Gründe für dieses Event – im Admin-Bereich unter Events anlegen.</div>
+                      )}
+                      <div style={styles.payRow}>
+                        {discountReasons
+                          .filter((r) => r.is_active)
+                          .map((r) => (
+                            <button key={r.id} style={styles.payBtn(discountEdit.reason_id === r.id)} onClick={() => pickDiscountReason(r)}>
+                              {r.name}
+                            </button>
+                          ))}
+                      </div>
+                      <div style={styles.payRow}>
+                        {(Object.keys(DISCOUNT_KIND_LABEL) as DiscountKind[])
+                          .filter((k) => discountEdit.target !== "order" || k !== "price")
+                          .map((k) => (
+                            <button key={k} style={styles.payBtn(discountEdit.kind === k)} onClick={() => setDiscountEdit({ ...discountEdit, kind: k })}>
+                              {DISCOUNT_KIND_LABEL[k]}
+                            </button>
+                          ))}
+                      </div>
+                      {discountEdit.kind !== "free" && (
+                        <input
+                          style={styles.input}
+                          inputMode="decimal"
+                          placeholder={discountEdit.kind === "percent" ? "Prozent, z.B. 10" : discountEdit.kind === "price" ? "Neuer Stückpreis in €" : "Betrag in €"}
+                          value={discountEdit.value}
+                          onChange={(e) => setDiscountEdit({ ...discountEdit, value: e.target.value })}
+                        />
+                      )}
+                      {!canGiveDiscounts() && (
+                        <input
+                          style={styles.input}
+                          placeholder="Freigabe: PIN mit Rabatt-Berechtigung"
+                          inputMode="numeric"
+                          type="password"
+                          value={discountPin}
+                          onChange={(e) => setDiscountPin(e.target.value)}
+                        />
+                      )}
+                      <div style={{ display: "flex", gap: 8 }}>
+                        <button style={styles.subtleBtn} onClick={applyDiscount}>
+                          Übernehmen
+                        </button>
+                        <button style={styles.subtleBtn} onClick={() => setDiscountEdit(null)}>
+                          Abbrechen
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 {/* ✅ Pfand anpassen direkt im Checkout sobald Positionen da sind */}
                 <div style={styles.totals}>
                   <div style={{ ...styles.totalRow, fontWeight: 950 }}>
-                    <span>Pfand-Korrektur (steuerfrei)</span>
-                    <span>{euro(depositAdjust)}</span>
+                    <span>Pfand-Buchungen (steuerfrei)</span>
+                    <button style={styles.subtleBtn} onClick={() => setDepositAdjust({})}>
+                      Reset
+                    </button>
                   </div>
 
-                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-                    <button style={styles.subtleBtn} onClick={() => addDeposit(+DEPOSIT_VALUE)}>
-                      + {euro(DEPOSIT_VALUE)}
+                  {depositTypes.map((t) => (
+                    <div key={t.id} style={{ ...styles.totalRow, alignItems: "center" }}>
+                      <span>
+                        {t.name} ({euro(t.value)})
+                      </span>
+                      <div style={styles.qtyControls}>
+                        <button style={styles.qtyBtn} onClick={() => addDeposit(t.id, -1)} title="Rückgabe">
+                          –
+                        </button>
+                        <div style={{ minWidth: 22, textAlign: "center", fontWeight: 950 }}>{depositAdjust[t.id] ?? 0}</div>
+                        <button style={styles.qtyBtn} onClick={() => addDeposit(t.id, +1)} title="Zusätzliche Ausgabe">
+                          +
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  <div style={{ ...styles.hint, marginTop: 6 }}>
+                    − = Rückgabe, + = zusätzliche Ausgabe. Pfand kann insgesamt negativ werden, wenn mehr zurückgegeben wird als ausgegeben.
+                  </div>
+                </div>
+
+                {/* Totals */}
+                <div style={styles.totals}>
+                  <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                    <span>Pfand (steuerfrei)</span>
+                    <span>{euro(depositTotal)}</span>
+                  </div>
+                  {deposits.map((d) => (
+                    <div key={d.deposit_type_id} style={{ ...styles.totalRow, opacity: 0.85 }}>
+                      <span>
+                        {d.name}: {d.issued} aus{d.returned ? `, ${d.returned} zurück` : ""} × {euro(d.value)}
+                      </span>
+                      <span>{euro(depositLineTotal(d))}</span>
+                    </div>
+                  ))}
+
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  {taxLines.map((t) => (
+                    <div key={t.tax_rate} style={{ ...styles.totalRow, opacity: 0.85 }}>
+                      <span>
+                        USt {taxRateLabel(t.tax_rate)} (Netto {euro(t.net)})
+                      </span>
+                      <span>{euro(t.tax)}</span>
+                    </div>
+                  ))}
+                  <div style={styles.totalRow}>
+                    <span>Netto</span>
+                    <span>{euro(netTotal)}</span>
+                  </div>
+                  <div style={styles.totalRow}>
+                    <span>USt</span>
+                    <span>{euro(taxTotal)}</span>
+                  </div>
+                  {discountTotal > 0 && (
+                    <div style={styles.totalRow}>
+                      <span>Rabatt</span>
+                      <span>{euro(-discountTotal)}</span>
+                    </div>
+                  )}
+                  <div style={styles.totalRow}>
+                    <span>Brutto (Waren)</span>
+                    <span>{euro(grossTotal)}</span>
+                  </div>
+
+                  <div style={{ ...styles.totalRow, fontWeight: 950, fontSize: 16 }}>
+                    <span>Gesamt</span>
+                    <span>{euro(totalPayable)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <div style={{ ...styles.hint, marginBottom: 8 }}>Zahlungsart</div>
+                  <div style={styles.payRow}>
+                    <button style={styles.payBtn(paymentMethod === "cash")} onClick={() => setPaymentMethod("cash")}>
+                      Bar
                     </button>
-                    <button style={styles.subtleBtn} onClick={() => addDeposit(-DEPOSIT_VALUE)}>
-                      - {euro(DEPOSIT_VALUE)}
+                    <button style={styles.payBtn(paymentMethod === "sumup")} onClick={() => setPaymentMethod("sumup")}>
+                      Karte (SumUp)
                     </button>
-                    <button style={styles.subtleBtn} onClick={() => setDepositAdjust(0)}>
-                      Reset
+                    <button style={styles.payBtn(paymentMethod === "split")} onClick={() => setPaymentMethod("split")}>
+                      Geteilt
                     </button>
                   </div>
 
-                  <div style={{ ...styles.hint, marginTop: 6 }}>
-                    Rückgabe = negative Korrektur. Pfand kann insgesamt negativ werden, wenn mehr zurückgegeben wird als ausgegeben.
+                  {paymentMethod === "split" && (
+                    <div style={{ ...styles.totals, marginTop: 8 }}>
+                      <label style={styles.totalRow}>
+                        <span>Bar-Anteil</span>
+                        <input
+                          style={{ ...styles.input, width: 110, textAlign: "right" }}
+                          inputMode="decimal"
+                          placeholder="0,00"
+                          value={splitCash}
+                          onChange={(e) => setSplitCash(e.target.value)}
+                        />
+                      </label>
+                      <div style={styles.totalRow}>
+                        <span>Rest per Karte</span>
+                        <span>{euro(round2(totalPayable - (parseEuro(splitCash) ?? 0)))}</span>
+                      </div>
+                      <div style={styles.hint}>Der Kartenanteil wird zuerst am Terminal kassiert, danach den Bar-Anteil entgegennehmen.</div>
+                    </div>
+                  )}
+
+                  {cashDue > 0 && (
+                    <div style={{ ...styles.totals, marginTop: 8 }}>
+                      <div style={styles.totalRow}>
+                        <span>Gegeben (optional)</span>
+                        <span style={{ fontWeight: 950 }}>{tendered ? `${tendered} €` : "—"}</span>
+                      </div>
+                      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                        <button style={styles.subtleBtn} onClick={() => setTendered(cashDue.toFixed(2).replace(".", ","))}>
+                          Passend
+                        </button>
+                        {[5, 10, 20, 50].map((v) => (
+                          <button key={v} style={styles.subtleBtn} onClick={() => setTendered(String(v))}>
+                            {v} €
+                          </button>
+                        ))}
+                      </div>
+                      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 6 }}>
+                        {["7", "8", "9", "⌫", "4", "5", "6", "C", "1", "2", "3", ",", "0", "00"].map((k) => (
+                          <button key={k} style={styles.subtleBtn} onClick={() => (k === "00" ? (tenderKey("0"), tenderKey("0")) : tenderKey(k))}>
+                            {k}
+                          </button>
+                        ))}
+                      </div>
+                      {tenderedAmount !== null &&
+                        (tenderedAmount < cashDue ? (
+                          <div style={{ color: "#ff8080", fontWeight: 900 }}>Zu wenig gegeben – es fehlen {euro(round2(cashDue - tenderedAmount))}.</div>
+                        ) : (
+                          <div style={{ ...styles.totalRow, alignItems: "baseline" }}>
+                            <span>Rückgeld</span>
+                            <span style={{ fontSize: 34, fontWeight: 950, color: "#00ffc8" }}>{euro(round2(tenderedAmount - cashDue))}</span>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+                </div>
+
+                <div style={styles.footerActions(isNarrow)}>
+                  <button style={styles.subtleBtn} onClick={clearCart}>
+                    Abbrechen
+                  </button>
+
+                  <button style={styles.subtleBtn} disabled={checkoutLoading} onClick={() => doCheckout(true)} title="Nur wenn Kunde wirklich Papier will">
+                    Abschließen + Drucken
+                  </button>
+
+                  <button style={styles.bigCheckout(checkoutLoading)} disabled={checkoutLoading} onClick={() => doCheckout(false)}>
+                    {checkoutLoading ? "Speichere…" : "Abschließen (digital)"}
+                  </button>
+
+                  <div style={{ ...styles.hint, gridColumn: "1 / -1" }}>
+                    Pfand: automatisch je Produkt nach Pfandart • Rückgaben/Zusatzausgaben über Pfand-Buchungen • Pfand ist steuerfrei.
+                  </div>
+
+                  {paidCard && (
+                    <div style={{ ...styles.totals, gridColumn: "1 / -1", borderColor: "rgba(255,200,0,0.45)" }}>
+                      <div style={{ fontWeight: 950 }}>
+                        Karte bereits belastet: {euro(paidCard.amount)} (Transaktion {paidCard.result.transactionId ?? "—"})
+                      </div>
+                      <div style={styles.hint}>Der Bon dazu ist noch nicht gespeichert. Nochmals abschließen – es wird nicht erneut kassiert.</div>
+                      <button style={styles.subtleBtn} disabled={checkoutLoading} onClick={() => rememberPaidCard(null)}>
+                        Verwerfen (im SumUp-Konto erstattet)
+                      </button>
+                    </div>
+                  )}
+
+                  {error && (
+                    <div style={{ gridColumn: "1 / -1", color: "#ff8080", fontWeight: 800 }}>
+                      Fehler: {error}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Mitarbeiter-Storno Modal */}
+      {voidOpen && (
+        <div style={styles.modalOverlay} onClick={() => setVoidOpen(false)}>
+          <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+            <div style={styles.modalHeader}>
+              <div style={{ display: "grid", gap: 4 }}>
+                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Storno</div>
+                <div style={styles.hint}>
+                  Letzter Bon: <b>{lastReceipt?.receipt_no ?? "—"}</b>
+                </div>
+              </div>
+              <button style={styles.subtleBtn} onClick={() => setVoidOpen(false)}>
+                Schließen
+              </button>
+            </div>
+
+            <div style={styles.modalBody}>
+              <div style={styles.hint}>PIN von Mitarbeiter oder Admin eingeben.</div>
+
+              <input style={styles.input} placeholder="PIN" value={voidPin} onChange={(e) => setVoidPin(e.target.value)} inputMode="numeric" type="password" />
+
+              <button style={styles.dangerBtn} disabled={voidLoading} onClick={voidLastReceiptNoReason}>
+                {voidLoading ? "Storniere…" : "Storno bestätigen"}
+              </button>
+
+              {voidMsg && <div style={{ ...styles.totals, color: voidMsg.startsWith("Fehler") ? "#ff8080" : "#eafffb" }}>{voidMsg}</div>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Kartenzahlung */}
+      {cardPayment && (
+        <div style={styles.modalOverlay}>
+          <div style={styles.modal}>
+            <div style={styles.modalHeader}>
+              <div style={{ display: "grid", gap: 4 }}>
+                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Kartenzahlung</div>
+                <div style={styles.hint}>{cardTerminalLabel()}</div>
+              </div>
+            </div>
+            <div style={styles.modalBody}>
+              <div style={{ fontSize: 34, fontWeight: 950, textAlign: "center" }}>{euro(cardPayment.amount)}</div>
+              {cardPayment.status === "waiting" ? (
+                <>
+                  <div style={{ textAlign: "center", fontWeight: 800 }}>Bitte Karte an das Terminal halten…</div>
+                  <button style={styles.dangerBtn} onClick={() => cardAbortRef.current?.abort()}>
+                    Zahlung abbrechen
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div style={{ textAlign: "center", fontWeight: 900, color: "#ff8080" }}>{CARD_STATUS_LABEL[cardPayment.status]}</div>
+                  {cardPayment.message && <div style={{ ...styles.hint, textAlign: "center" }}>{cardPayment.message}</div>}
+                  <div style={styles.hint}>Es wurde kein Bon erstellt, der Warenkorb bleibt erhalten.</div>
+                  <button style={styles.subtleBtn} onClick={() => setCardPayment(null)}>
+                    Schließen
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Schicht schließen */}
+      {shiftCloseOpen && (
+        <div style={styles.modalOverlay} onClick={() => setShiftCloseOpen(false)}>
+          <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+            <div style={styles.modalHeader}>
+              <div style={{ display: "grid", gap: 4 }}>
+                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Schichtabschluss</div>
+                <div style={styles.hint}>{closedShift ? "Schicht geschlossen." : "Lade nach Stückelung zählen."}</div>
+              </div>
+              <button style={styles.subtleBtn} onClick={() => setShiftCloseOpen(false)}>
+                Schließen
+              </button>
+            </div>
+
+            <div style={styles.modalBody}>
+              {closedShift ? (
+                <>
+                  <div style={styles.receiptText}>{shiftReportText(closedShift)}</div>
+                  <button style={styles.subtleBtn} onClick={() => printShiftReport(closedShift, staff, setShiftMsg)}>
+                    Abschluss drucken
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(150px, 1fr))", gap: 8 }}>
+                    {EUR_DENOMINATIONS.map((d) => (
+                      <label key={d} style={{ display: "grid", gap: 4, fontWeight: 800 }}>
+                        <span style={styles.hint}>{denominationLabel(d)}</span>
+                        <input
+                          style={styles.input}
+                          inputMode="numeric"
+                          placeholder="Stück"
+                          value={shiftCounts[String(d)] ?? ""}
+                          onChange={(e) => {
+                            const n = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                            setShiftCounts((prev) => ({ ...prev, [String(d)]: n }));
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+
+                  <div style={styles.totals}>
+                    {shiftSummary && (
+                      <>
+                        <div style={styles.totalRow}>
+                          <span>Bar inkl. Pfand ({shiftSummary.receipts} Bons)</span>
+                          <span>{euro(shiftSummary.cash_sales)}</span>
+                        </div>
+                        <div style={styles.totalRow}>
+                          <span>Pfand ausgegeben / ausbezahlt</span>
+                          <span>
+                            {euro(shiftSummary.deposit_issued)} / {euro(-shiftSummary.deposit_returned)}
+                          </span>
+                        </div>
+                        <div style={styles.totalRow}>
+                          <span>Stornos ({shiftSummary.storno_count})</span>
+                          <span>{euro(shiftSummary.storno_cash)}</span>
+                        </div>
+                        <div style={styles.totalRow}>
+                          <span>SOLL Lade (inkl. Anfangsbestand {euro(shiftSummary.opening_float)})</span>
+                          <span>{euro(shiftSummary.expected_cash)}</span>
+                        </div>
+                      </>
+                    )}
+                    <div style={styles.totalRow}>
+                      <span>IST gezählt</span>
+                      <span>{euro(countTotal(shiftCounts))}</span>
+                    </div>
+                    {shiftSummary && (
+                      <div
+                        style={{
+                          ...styles.totalRow,
+                          fontWeight: 950,
+                          color: Math.abs(countTotal(shiftCounts) - shiftSummary.expected_cash) >= 0.01 ? "#ff8080" : "#eafffb",
+                        }}
+                      >
+                        <span>Differenz</span>
+                        <span>{euro(round2(countTotal(shiftCounts) - shiftSummary.expected_cash))}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <input style={styles.input} placeholder="Notiz (optional)" value={shiftNote} onChange={(e) => setShiftNote(e.target.value)} />
+
+                  <button style={styles.dangerBtn} disabled={shiftLoading || !shiftSummary} onClick={doCloseShift}>
+                    {shiftLoading ? "Bitte warten…" : "Schicht schließen"}
+                  </button>
+                </>
+              )}
+
+              {shiftMsg && <div style={{ ...styles.totals, color: shiftMsg.startsWith("Fehler") || shiftMsg.startsWith("Es sind") ? "#ff8080" : "#eafffb" }}>{shiftMsg}</div>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Admin Modal */}
+      {adminOpen && (
+        <div style={styles.modalOverlay} onClick={closeAdmin}>
+          <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+            <div style={styles.modalHeader}>
+              <div style={{ display: "grid", gap: 4 }}>
+                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Admin</div>
+                <div style={styles.hint}>Status: {adminUnlocked ? `entsperrt (${adminUser?.name ?? "Admin"})` : "gesperrt"}</div>
+              </div>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                {adminUnlocked && (
+                  <button style={styles.dangerBtn} onClick={lockAdmin}>
+                    Sperren
+                  </button>
+                )}
+                <button style={styles.subtleBtn} onClick={closeAdmin}>
+                  Schließen
+                </button>
+              </div>
+            </div>
+
+            <div style={styles.tabs}>
+              {showAdminTab("void") && (
+                <button style={styles.tabBtn(adminTab === "void")} onClick={() => setAdminTab("void")}>
+                  Storno
+                </button>
+              )}
+              {showAdminTab("reprint") && (
+                <button style={styles.tabBtn(adminTab === "reprint")} onClick={() => setAdminTab("reprint")}>
+                  Reprint
+                </button>
+              )}
+              {showAdminTab("report") && (
+                <button style={styles.tabBtn(adminTab === "report")} onClick={openReportTab}>
+                  Abschluss
+                </button>
+              )}
+              {showAdminTab("rksv") && (
+                <button style={styles.tabBtn(adminTab === "rksv")} onClick={() => setAdminTab("rksv")}>
+                  RKSV
+                </button>
+              )}
+              {showAdminTab("dep") && (
+                <button
+                  style={styles.tabBtn(adminTab === "dep")}
+                  onClick={() => {
+                    setAdminTab("dep");
+                    void adminLoadDepRegisters();
+                  }}
+                >
+                  DEP-Export
+                </button>
+              )}
+              {showAdminTab("export") && (
+                <button style={styles.tabBtn(adminTab === "export")} onClick={() => setAdminTab("export")}>
+                  Export
+                </button>
+              )}
+              {showAdminTab("catalog") && (
+                <button style={styles.tabBtn(adminTab === "catalog")} onClick={openCatalogTab}>
+                  Sortiment
+                </button>
+              )}
+              {showAdminTab("events") && (
+                <button
+                  style={styles.tabBtn(adminTab === "events")}
+                  onClick={() => {
+                    setAdminTab("events");
+                    void refreshEvents();
+                  }}
+                >
+                  Events
+                </button>
+              )}
+              {showAdminTab("printers") && (
+                <button
+                  style={styles.tabBtn(adminTab === "printers")}
+                  onClick={() => {
+                    setAdminTab("printers");
+                    void adminLoadPrinters();
+                  }}
+                >
+                  Drucker
+                </button>
+              )}
+              {showAdminTab("shifts") && (
+                <button
+                  style={styles.tabBtn(adminTab === "shifts")}
+                  onClick={() => {
+                    setAdminTab("shifts");
+                    void adminLoadShifts();
+                  }}
+                >
+                  Schichten
+                </button>
+              )}
+              {showAdminTab("analytics") && (
+                <button style={styles.tabBtn(adminTab === "analytics")} onClick={openAnalyticsTab}>
+                  Auswertung
+                </button>
+              )}
+              {showAdminTab("roles") && (
+                <button
+                  style={styles.tabBtn(adminTab === "roles")}
+                  onClick={() => {
+                    setAdminTab("roles");
+                    void adminLoadRoles();
+                  }}
+                >
+                  Rollen
+                </button>
+              )}
+              {showAdminTab("staff") && (
+                <button
+                  style={styles.tabBtn(adminTab === "staff")}
+                  onClick={() => {
+                    setAdminTab("staff");
+                    void adminLoadStaff();
+                  }}
+                >
+                  Mitarbeiter{adminNotifications.length > 0 ? ` (${adminNotifications.length})` : ""}
+                </button>
+              )}
+
+              <div style={{ marginLeft: "auto", display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                {!adminUnlocked && (
+                  <>
+                    <input
+                      style={{ ...styles.input, width: 180 }}
+                      placeholder="Admin PIN"
+                      value={adminPinInput}
+                      onChange={(e) => setAdminPinInput(e.target.value)}
+                      inputMode="numeric"
+                      type="password"
+                    />
+                    <button style={styles.subtleBtn} onClick={unlockAdmin}>
+                      Entsperren
+                    </button>
+                  </>
+                )}
+                {adminUnlocked && <span style={styles.pill}>Admin ✓</span>}
+              </div>
+            </div>
+
+            <div style={styles.modalBody}>
+              {adminMsg && <div style={{ ...styles.totals, color: adminMsg.startsWith("Fehler") ? "#ff8080" : "#eafffb" }}>{adminMsg}</div>}
+
+              {adminTab === "void" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Storno per Bon-Nr (mit Grund)</div>
+                  <input style={styles.input} placeholder="Bon-Nr" value={voidReceiptNo} onChange={(e) => setVoidReceiptNo(e.target.value)} />
+                  <input style={styles.input} placeholder="Storno-Grund (Pflicht)" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <button style={styles.dangerBtn} onClick={adminVoidByReceipt} disabled={!adminUnlocked}>
+                      Ganzen Bon stornieren
+                    </button>
+                    <button style={styles.subtleBtn} onClick={adminLoadRefund} disabled={!adminUnlocked}>
+                      Positionen wählen (Teil-Storno)
+                    </button>
+                  </div>
+
+                  {refund && (
+                    <div style={styles.totals}>
+                      <div style={{ fontWeight: 950 }}>
+                        Bon {refund.r.document.receipt_no}
+                        {refund.r.refunds > 0 ? ` • bereits ${refund.r.refunds}× storniert` : ""}
+                      </div>
+                      {refund.r.lines.map((l) => {
+                        const qty = refund.sel.lines[l.product_id] ?? 0;
+                        return (
+                          <div key={l.product_id} style={{ ...styles.totalRow, alignItems: "center" }}>
+                            <span>
+                              {l.name} à {euro(l.unit_price)} • offen {l.open} von {l.qty}
+                            </span>
+                            <span style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                              <button style={styles.subtleBtn} disabled={qty <= 0} onClick={() => setRefundQty("lines", l.product_id, qty - 1)}>
+                                −
+                              </button>
+                              <b>{qty}</b>
+                              <button style={styles.subtleBtn} disabled={qty >= l.open} onClick={() => setRefundQty("lines", l.product_id, qty + 1)}>
+                                +
+                              </button>
+                            </span>
+                          </div>
+                        );
+                      })}
+                      {refund.r.deposits
+                        .filter((d) => d.deposit_type_id && d.issued > 0)
+                        .map((d) => {
+                          const key = d.deposit_type_id ?? "";
+                          const qty = refund.sel.deposits[key] ?? 0;
+                          return (
+                            <div key={key} style={{ ...styles.totalRow, alignItems: "center" }}>
+                              <span>
+                                Pfand {d.name} à {euro(d.value)} • offen {d.issued}
+                              </span>
+                              <span style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                                <button style={styles.subtleBtn} disabled={qty <= 0} onClick={() => setRefundQty("deposits", key, qty - 1)}>
+                                  −
+                                </button>
+                                <b>{qty}</b>
+                                <button style={styles.subtleBtn} disabled={qty >= d.issued} onClick={() => setRefundQty("deposits", key, qty + 1)}>
+                                  +
+                                </button>
+                              </span>
+                            </div>
+                          );
+                        })}
+
+                      <div style={styles.payRow}>
+                        <button style={styles.payBtn(refund.method === "cash")} onClick={() => setRefund({ ...refund, method: "cash" })}>
+                          Erstattung bar
+                        </button>
+                        <button style={styles.payBtn(refund.method === "sumup")} onClick={() => setRefund({ ...refund, method: "sumup" })}>
+                          Erstattung Karte
+                        </button>
+                      </div>
+                      {refund.method === "sumup" && <div style={styles.hint}>Die Kartengutschrift selbst im SumUp-Konto auslösen – die Kassa bucht nur den Beleg.</div>}
+
+                      <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input type="checkbox" checked={refund.print} onChange={(e) => setRefund({ ...refund, print: e.target.checked })} />
+                        Storno-Bon drucken
+                      </label>
+
+                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                        <span>Erstattung</span>
+                        <span>{euro(-buildRefundDocument(refund.r, refund.sel, { cashier: null, method: refund.method }).total)}</span>
+                      </div>
+
+                      <div style={{ display: "flex", gap: 8 }}>
+                        <button style={styles.subtleBtn} onClick={() => setRefund(null)}>
+                          Abbrechen
+                        </button>
+                        <button style={styles.dangerBtn} disabled={isEmptySelection(refund.sel)} onClick={adminRefundSelection}>
+                          Teil-Storno buchen
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {adminTab === "reprint" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Reprint per Bon-Nr</div>
+                  <input style={styles.input} placeholder="Bon-Nr" value={reprintReceiptNo} onChange={(e) => setReprintReceiptNo(e.target.value)} />
+                  <button style={styles.subtleBtn} onClick={adminReprintByReceipt} disabled={!adminUnlocked}>
+                    Reprint in Queue
+                  </button>
+                </>
+              )}
+
+              {adminTab === "report" && (
+                <>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <button style={styles.tabBtn(reportMode === "day")} onClick={() => setReportMode("day")}>
+                      Geschäftstag
+                    </button>
+                    <button style={styles.tabBtn(reportMode === "range")} onClick={() => setReportMode("range")}>
+                      Zeitraum
+                    </button>
+                    {reportMode === "day" ? (
+                      <input style={{ ...styles.input, width: 200 }} type="date" value={reportDay} onChange={(e) => setReportDay(e.target.value)} />
+                    ) : (
+                      <>
+                        <input style={{ ...styles.input, width: 230 }} type="datetime-local" value={reportFrom} onChange={(e) => setReportFrom(e.target.value)} title="Von" />
+                        <input style={{ ...styles.input, width: 230 }} type="datetime-local" value={reportTo} onChange={(e) => setReportTo(e.target.value)} title="Bis" />
+                      </>
+                    )}
+                  </div>
+
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <span style={styles.hint}>Tageswechsel um</span>
+                    <input style={{ ...styles.input, width: 130 }} type="time" value={reportCutoff} onChange={(e) => setReportCutoff(e.target.value)} />
+                    <button style={styles.subtleBtn} onClick={adminSaveDayCutoff} disabled={!adminUnlocked}>
+                      Für Event speichern
+                    </button>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <button style={styles.subtleBtn} onClick={loadReport} disabled={reportLoading || !adminUnlocked}>
+                      X-Bericht anzeigen
+                    </button>
+                    <button style={zConfirm ? styles.dangerBtn : styles.subtleBtn} onClick={adminCreateZReport} disabled={reportLoading || !adminUnlocked}>
+                      {zConfirm ? "Z-Bericht wirklich festschreiben?" : "Z-Bericht erstellen"}
+                    </button>
+                    {reportView && (
+                      <button style={styles.subtleBtn} onClick={printReport}>
+                        Drucken
+                      </button>
+                    )}
+                    {reportLoading && <span style={styles.pill}>Lade…</span>}
+                  </div>
+
+                  {reportError && <div style={{ color: "#ff8080", fontWeight: 800 }}>Fehler: {reportError}</div>}
+
+                  {reportView && (
+                    <div style={styles.totals}>
+                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                        <span>{reportView.zNo ? `Z-Bericht Nr. ${reportView.zNo}` : "X-Bericht (Zwischenstand)"}</span>
+                        <span>{reportView.report.receipts} Bons</span>
+                      </div>
+                      <div style={styles.hint}>
+                        {new Date(reportView.report.from).toLocaleString("de-AT")} – {new Date(reportView.report.to).toLocaleString("de-AT")}
+                      </div>
+                      {reportView.report.taxes.map((t) => (
+                        <div key={t.tax_rate} style={{ ...styles.totalRow, opacity: 0.85 }}>
+                          <span>USt {taxRateLabel(t.tax_rate)}</span>
+                          <span>
+                            Netto {euro(t.net)} • USt {euro(t.tax)} • Brutto {euro(t.gross)}
+                          </span>
+                        </div>
+                      ))}
+                      <div style={styles.totalRow}>
+                        <span>Stornos ({reportView.report.storno_count})</span>
+                        <span>{euro(reportView.report.storno_amount)}</span>
+                      </div>
+                      {!!reportView.report.late_receipts && (
+                        <div style={styles.hint}>
+                          {reportView.report.late_receipts} Bons nachgebucht: offline boniert, aber erst nach dem Z-Bericht ihres Zeitraums übertragen.
+                        </div>
+                      )}
+                      <div style={styles.totalRow}>
+                        <span>Netto</span>
+                        <span>{euro(reportView.report.net)}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>USt</span>
+                        <span>{euro(reportView.report.tax)}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>Brutto (Waren)</span>
+                        <span>{euro(reportView.report.gross)}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>Pfand</span>
+                        <span>{euro(reportView.report.deposit)}</span>
+                      </div>
+                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                        <span>Gesamt</span>
+                        <span>{euro(reportView.report.total)}</span>
+                      </div>
+
+                      {REPORT_GROUPS.filter((g) => reportView.report[g.key].length > 0).map((g) => (
+                        <div key={g.key} style={{ display: "grid", gap: 4, marginTop: 8 }}>
+                          <div style={{ fontWeight: 950 }}>{g.label}</div>
+                          {reportView.report[g.key].map((x) => (
+                            <div key={x.key} style={{ ...styles.totalRow, opacity: 0.9 }}>
+                              <span>
+                                {x.label} • {x.receipts} Bons{x.storno_count > 0 ? ` • ${x.storno_count} Storno (${euro(x.storno_amount)})` : ""}
+                              </span>
+                              <span>{euro(x.total)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {reportView && discountReport && (
+                    <div style={styles.totals}>
+                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                        <span>Rabatte je Grund und Kassier</span>
+                        <span>
+                          {discountReport.count} • {euro(-discountReport.amount)}
+                        </span>
+                      </div>
+                      {discountReport.rows.length === 0 && <div style={styles.hint}>Keine Rabatte im Zeitraum.</div>}
+                      {discountReport.rows.map((r) => (
+                        <div key={`${r.reason}:${r.cashier}`} style={{ ...styles.totalRow, opacity: 0.9 }}>
+                          <span>
+                            {r.reason} • {r.cashier} • {r.count}× auf {r.receipts} Bon{r.receipts === 1 ? "" : "s"}
+                          </span>
+                          <span>{euro(-r.amount)}</span>
+                        </div>
+                      ))}
+                      <div style={styles.hint}>Komplett stornierte Bons zählen nicht.</div>
+                    </div>
+                  )}
+
+                  <div style={{ fontWeight: 950 }}>Z-Berichte</div>
+                  {zReports.length === 0 && <div style={styles.hint}>Noch keine Z-Berichte in diesem Event.</div>}
+                  {zReports.map((z) => (
+                    <div key={z.id} style={{ ...styles.totalRow, alignItems: "center" }}>
+                      <span>
+                        Nr. {z.z_no} • {new Date(z.period_from).toLocaleString("de-AT")} – {new Date(z.period_to).toLocaleString("de-AT")} • {euro(z.data.total)}
+                      </span>
+                      <button style={styles.subtleBtn} onClick={() => setReportView({ report: z.data, zNo: z.z_no, createdBy: z.created_by_name })}>
+                        Anzeigen
+                      </button>
+                    </div>
+                  ))}
+                </>
+              )}
+
+              {adminTab === "rksv" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Registrierkasse (dieses Gerät)</div>
+                  {rksvStatus && (
+                    <div style={styles.totals}>
+                      <div style={styles.totalRow}>
+                        <span>Kassen-ID</span>
+                        <span style={{ fontFamily: "ui-monospace, monospace", fontSize: 12 }}>{rksvStatus.cash_register_id}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>Startbeleg</span>
+                        <span>{rksvStatus.started ? "erstellt" : "noch nicht erstellt"}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>Umsatzzähler</span>
+                        <span>{euro(rksvStatus.turnover)}</span>
+                      </div>
+                      <div style={styles.totalRow}>
+                        <span>Zertifikat</span>
+                        <span>{rksvStatus.certificate_serial ? `${rksvStatus.zda_id} / ${rksvStatus.certificate_serial}` : "—"}</span>
+                      </div>
+                      <div style={{ ...styles.totalRow, color: rksvStatus.failed_since ? "#ff8080" : "#eafffb" }}>
+                        <span>Sicherheitseinrichtung</span>
+                        <span>{rksvStatus.failed_since ? `ausgefallen seit ${new Date(rksvStatus.failed_since).toLocaleString("de-AT")}` : "OK"}</span>
+                      </div>
+                      {adminUnlocked && (
+                        <div style={{ ...styles.hint, wordBreak: "break-all" }}>
+                          AES-Schlüssel (für FinanzOnline-Registrierung): <b>{rksvStatus.aes_key}</b>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div style={styles.hint}>
+                    Start-, Monats- und Jahresbelege werden automatisch vor dem nächsten Bon erstellt. Einen Nullbeleg manuell erstellen, z.B. für
+                    die Kontrolle mit der BMF-Belegcheck-App.
+                  </div>
+                  <button style={styles.subtleBtn} onClick={adminCreateNullReceipt} disabled={!adminUnlocked || !selectedBarId}>
+                    Nullbeleg erstellen
+                  </button>
+
+                  {lastNullReceipt && (
+                    <div style={styles.totals}>
+                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                        <span>Letzter Nullbeleg ({lastNullReceipt.signed.receipt_type})</span>
+                        <span>{lastNullReceipt.signed.receipt_no}</span>
+                      </div>
+                      <img src={lastNullReceipt.qr} alt="RKSV-Code" style={{ width: 220, maxWidth: "100%", borderRadius: 12, background: "#fff" }} />
+                    </div>
+                  )}
+                </>
+              )}
+
+              {adminTab === "catalog" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Bars{selectedEvent ? ` – ${selectedEvent.name}` : ""}</div>
+                  <div style={{ display: "grid", gap: 8 }}>
+                    {bars.map((b, i) => (
+                      <div key={b.id} style={{ ...styles.totalRow, alignItems: "center" }}>
+                        <button style={styles.tabBtn(b.id === catBarId)} onClick={() => setCatBarId(b.id)}>
+                          {b.name}
+                        </button>
+                        <div style={{ display: "flex", gap: 6 }}>
+                          <button style={styles.qtyBtn} onClick={() => adminMove("bars", b.id, -1)} disabled={!adminUnlocked || i === 0} title="Nach oben">
+                            ↑
+                          </button>
+                          <button style={styles.qtyBtn} onClick={() => adminMove("bars", b.id, 1)} disabled={!adminUnlocked || i === bars.length - 1} title="Nach unten">
+                            ↓
+                          </button>
+                          <button
+                            style={styles.subtleBtn}
+                            onClick={() => {
+                              setCatBarEditId(b.id);
+                              setCatBarName(b.name);
+                            }}
+                          >
+                            Umbenennen
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <input
+                      style={{ ...styles.input, flex: 1, minWidth: 200 }}
+                      placeholder={catBarEditId ? "Neuer Name" : "Neue Bar"}
+                      value={catBarName}
+                      onChange={(e) => setCatBarName(e.target.value)}
+                    />
+                    <button style={styles.subtleBtn} onClick={adminSaveBar} disabled={!adminUnlocked || catSaving}>
+                      {catBarEditId ? "Umbenennen" : "Bar anlegen"}
+                    </button>
+                    {catBarEditId && (
+                      <button
+                        style={styles.subtleBtn}
+                        onClick={() => {
+                          setCatBarEditId(null);
+                          setCatBarName("");
+                        }}
+                      >
+                        Abbrechen
+                      </button>
+                    )}
+                  </div>
+
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                    <div style={{ fontWeight: 950 }}>Produkte{catBarId ? ` – ${bars.find((b) => b.id === catBarId)?.name ?? ""}` : ""}</div>
+                    <button style={styles.subtleBtn} onClick={() => adminEditProduct(null)} disabled={!catBarId}>
+                      Neues Produkt
+                    </button>
+                  </div>
+
+                  <div style={{ display: "grid", gap: 8 }}>
+                    {catProducts.map((p, i) => (
+                      <div key={p.id} style={{ ...styles.totalRow, alignItems: "center", opacity: p.is_active ? 1 : 0.5 }}>
+                        <span>
+                          {p.name} • {euro(p.price_gross)} • USt {taxRateLabel(p.tax_rate)}
+                          {p.deposit_type_id ? ` • Pfand ${depositTypeById.get(p.deposit_type_id)?.name ?? "?"}` : ""}
+                          {p.station_id ? ` • Station ${stations.find((st) => st.id === p.station_id)?.name ?? "?"}` : ""}
+                          {p.is_active ? "" : " • inaktiv"}
+                        </span>
+                        <div style={{ display: "flex", gap: 6 }}>
+                          <button style={styles.qtyBtn} onClick={() => adminMove("products", p.id, -1)} disabled={!adminUnlocked || i === 0} title="Nach oben">
+                            ↑
+                          </button>
+                          <button
+                            style={styles.qtyBtn}
+                            onClick={() => adminMove("products", p.id, 1)}
+                            disabled={!adminUnlocked || i === catProducts.length - 1}
+                            title="Nach unten"
+                          >
+                            ↓
+                          </button>
+                          <button style={styles.subtleBtn} onClick={() => adminEditProduct(p)}>
+                            Bearbeiten
+                          </button>
+                          <button
+                            style={styles.subtleBtn}
+                            onClick={() =>
+                              adminSaveProduct({
+                                id: p.id,
+                                name: p.name,
+                                price: String(p.price_gross),
+                                tax_rate: p.tax_rate,
+                                deposit_type_id: p.deposit_type_id,
+                                station_id: p.station_id,
+                                is_active: !p.is_active,
+                              })
+                            }
+                            disabled={!adminUnlocked || catSaving}
+                          >
+                            {p.is_active ? "Deaktivieren" : "Aktivieren"}
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    {catBarId && catProducts.length === 0 && <div style={styles.hint}>Noch keine Produkte in dieser Bar.</div>}
+                  </div>
+
+                  {catBarId && (
+                    <div style={{ ...styles.totals, gap: 10 }}>
+                      <div style={{ fontWeight: 950 }}>{catForm.id ? "Produkt bearbeiten" : "Neues Produkt"}</div>
+                      <input style={styles.input} placeholder="Name" value={catForm.name} onChange={(e) => setCatForm({ ...catForm, name: e.target.value })} />
+                      <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                        <input
+                          style={{ ...styles.input, width: 160 }}
+                          placeholder="Preis (brutto)"
+                          inputMode="decimal"
+                          value={catForm.price}
+                          onChange={(e) => setCatForm({ ...catForm, price: e.target.value })}
+                        />
+                        <select
+                          style={{ ...styles.input, width: 160 }}
+                          value={catForm.tax_rate}
+                          onChange={(e) => setCatForm({ ...catForm, tax_rate: Number(e.target.value) })}
+                        >
+                          {TAX_RATES.map((r) => (
+                            <option key={r} value={r}>
+                              USt {taxRateLabel(r)}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          style={{ ...styles.input, width: 200 }}
+                          value={catForm.deposit_type_id ?? ""}
+                          onChange={(e) => setCatForm({ ...catForm, deposit_type_id: e.target.value || null })}
+                        >
+                          <option value="">Kein Pfand</option>
+                          {depositTypes.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              Pfand: {t.name} ({euro(t.value)})
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          style={{ ...styles.input, width: 200 }}
+                          value={catForm.station_id ?? ""}
+                          onChange={(e) => setCatForm({ ...catForm, station_id: e.target.value || null })}
+                        >
+                          <option value="">Kein Ticket (Ausgabe an der Bar)</option>
+                          {stations.map((st) => (
+                            <option key={st.id} value={st.id}>
+                              Ticket an: {st.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800 }}>
+                        <input type="checkbox" checked={catForm.is_active} onChange={(e) => setCatForm({ ...catForm, is_active: e.target.checked })} />
+                        Aktiv (an der Kassa sichtbar)
+                      </label>
+                      <button style={styles.subtleBtn} onClick={() => adminSaveProduct(catForm)} disabled={!adminUnlocked || catSaving}>
+                        {catSaving ? "Speichere…" : "Speichern"}
+                      </button>
+
+                      {catHistory.length > 0 && (
+                        <>
+                          <div style={{ fontWeight: 950, marginTop: 6 }}>Preisverlauf</div>
+                          {catHistory.map((h, i) => (
+                            <div key={i} style={{ ...styles.totalRow, opacity: i === 0 ? 1 : 0.75 }}>
+                              <span>
+                                {new Date(h.valid_from).toLocaleString("de-AT")}
+                                {h.changed_by_name ? ` • ${h.changed_by_name}` : ""}
+                              </span>
+                              <span>
+                                {euro(Number(h.price_gross))} • USt {taxRateLabel(Number(h.tax_rate))}
+                              </span>
+                            </div>
+                          ))}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
+              {adminTab === "analytics" && (
+                <>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <span style={styles.hint}>Vergleich mit</span>
+                    <select
+                      style={{ ...styles.input, width: 240 }}
+                      value={compareEventId}
+                      onChange={(e) => {
+                        setCompareEventId(e.target.value);
+                        void adminLoadAnalytics(e.target.value);
+                      }}
+                    >
+                      <option value="">– kein Vergleich –</option>
+                      {events
+                        .filter((ev) => ev.id !== selectedEventId)
+                        .map((ev) => (
+                          <option key={ev.id} value={ev.id}>
+                            {ev.name} {formatEventDates(ev)}
+                          </option>
+                        ))}
+                    </select>
+                    <button style={styles.subtleBtn} onClick={() => adminLoadAnalytics()} disabled={analyticsLoading || !adminUnlocked}>
+                      Aktualisieren
+                    </button>
+                    {analyticsLoading && <span style={styles.pill}>Lade…</span>}
+                  </div>
+
+                  {analytics && (
+                    <>
+                      <div style={styles.totals}>
+                        {(
+                          [
+                            ["Umsatz (Waren)", euro(analytics.revenue), changePct(analytics.revenue, analyticsCompare?.revenue)],
+                            ["Bons", String(analytics.receipts), changePct(analytics.receipts, analyticsCompare?.receipts)],
+                            ["Artikel", String(analytics.items), changePct(analytics.items, analyticsCompare?.items)],
+                            ["Ø Bon", euro(analytics.avg_basket), changePct(analytics.avg_basket, analyticsCompare?.avg_basket)],
+                            ["Ø Artikel je Bon", analytics.avg_items.toLocaleString("de-AT"), changePct(analytics.avg_items, analyticsCompare?.avg_items)],
+                          ] as const
+                        ).map(([label, value, pct]) => (
+                          <div key={label} style={styles.totalRow}>
+                            <span>{label}</span>
+                            <span>
+                              {value}
+                              {pct !== null && <span style={{ marginLeft: 8, opacity: 0.75, color: pct < 0 ? "#ff8080" : "#00ffc8" }}>{pct > 0 ? `+${pct}` : pct} %</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div style={{ fontWeight: 950 }}>Umsatz je Stunde</div>
+                      <HourChart
+                        current={hourSeries(analytics, Number((selectedEvent?.day_cutoff ?? "06").slice(0, 2)))}
+                        previous={analyticsCompare ? hourSeries(analyticsCompare, Number((selectedEvent?.day_cutoff ?? "06").slice(0, 2))) : null}
+                      />
+
+                      <div style={{ fontWeight: 950 }}>Topseller</div>
+                      <div style={styles.totals}>
+                        {analytics.products.length === 0 && <div style={styles.hint}>Noch keine Verkäufe.</div>}
+                        {(() => {
+                          const max = analytics.products[0]?.revenue || 1;
+                          const prev = productsByName(analyticsCompare);
+                          return analytics.products.map((p) => {
+                            const pct = changePct(p.qty, prev.get(p.name)?.qty);
+                            return (
+                              <div key={p.name} style={{ display: "grid", gap: 4 }}>
+                                <div style={styles.totalRow}>
+                                  <span>
+                                    {p.qty}× {p.name}
+                                    {pct !== null && <span style={{ marginLeft: 8, opacity: 0.75, color: pct < 0 ? "#ff8080" : "#00ffc8" }}>{pct > 0 ? `+${pct}` : pct} %</span>}
+                                  </span>
+                                  <span>{euro(p.revenue)}</span>
+                                </div>
+                                <div style={{ height: 6, borderRadius: 999, background: "rgba(255,255,255,0.06)" }}>
+                                  <div style={{ height: 6, borderRadius: 999, width: `${Math.max(0, (p.revenue / max) * 100)}%`, background: "rgba(0,255,200,0.55)" }} />
+                                </div>
+                              </div>
+                            );
+                          });
+                        })()}
+                      </div>
+
+                      <div style={{ fontWeight: 950 }}>Je Bar</div>
+                      {analytics.bars.map((b) => (
+                        <div key={b.bar_id ?? "none"} style={styles.totals}>
+                          <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                            <span>{b.name}</span>
+                            <span>
+                              {b.receipts} Bons • {b.qty} Artikel • {euro(b.revenue)}
+                            </span>
+                          </div>
+                          {b.products.map((p) => (
+                            <div key={p.name} style={{ ...styles.totalRow, opacity: 0.85 }}>
+                              <span>
+                                {p.qty}× {p.name}
+                              </span>
+                              <span>{euro(p.revenue)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </>
+              )}
+
+              {adminTab === "shifts" && (
+                <>
+                  <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                    <span>Schichten</span>
+                    <button style={styles.subtleBtn} onClick={adminLoadShifts}>
+                      Aktualisieren
+                    </button>
+                  </div>
+                  {adminShifts.length === 0 && <div style={styles.hint}>Noch keine Schichten in diesem Event.</div>}
+                  {adminShifts.map((sh) => (
+                    <div key={sh.id} style={{ ...styles.totals, borderColor: sh.id === adminShiftId ? "rgba(0,255,200,0.45)" : undefined }}>
+                      <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                        <span>
+                          {new Date(sh.opened_at).toLocaleString("de-AT")} · {sh.staff_name} · {bars.find((b) => b.id === sh.bar_id)?.name ?? "—"}
+                        </span>
+                        <span
+                          style={{
+                            ...styles.pill,
+                            ...(sh.closed_at && sh.difference !== null && Math.abs(sh.difference) >= 0.01 ? { borderColor: "rgba(255,80,80,0.45)", color: "#ffecec" } : {}),
+                          }}
+                        >
+                          {sh.closed_at ? `Differenz ${euro(sh.difference ?? 0)}` : "offen"}
+                        </span>
+                      </div>
+                      {sh.closed_at && (
+                        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                          <button style={styles.subtleBtn} onClick={() => setAdminShiftId(sh.id === adminShiftId ? null : sh.id)}>
+                            {sh.id === adminShiftId ? "Abschluss ausblenden" : "Abschluss anzeigen"}
+                          </button>
+                          <button style={styles.subtleBtn} onClick={() => printShiftReport(sh, adminUser, setAdminMsg)} disabled={!adminUnlocked}>
+                            Drucken
+                          </button>
+                        </div>
+                      )}
+                      {sh.id === adminShiftId && <div style={styles.receiptText}>{shiftReportText(sh)}</div>}
+                    </div>
+                  ))}
+                </>
+              )}
+
+              {adminTab === "printers" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Drucker</div>
+                  <div style={styles.hint}>
+                    Bons einer Bar gehen an den Drucker, dem die Bar zugeordnet ist, sonst an den Standarddrucker (ohne Bars). Die Print-Bridge am Drucker wird mit
+                    PRINTER_ID gestartet.
+                  </div>
+
+                  <div style={{ display: "grid", gap: 8 }}>
+                    {printers.length === 0 && <div style={styles.hint}>Noch keine Drucker – alle Bons gehen an die Bridge ohne PRINTER_ID.</div>}
+                    {printers.map((p) => (
+                      <div key={p.id} style={{ ...styles.totals, opacity: p.is_active ? 1 : 0.55 }}>
+                        <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                          <span>{p.name}</span>
+                          <span style={styles.pill}>{p.is_active ? "aktiv" : "inaktiv"}</span>
+                        </div>
+                        <div style={styles.hint}>
+                          {p.bar_ids.length === 0 ? "Standarddrucker" : p.bar_ids.map((id) => bars.find((b) => b.id === id)?.name ?? "?").join(", ")}
+                        </div>
+                        <div style={{ ...styles.hint, userSelect: "all" }}>PRINTER_ID={p.id}</div>
+                        <button style={styles.subtleBtn} onClick={() => setPrnForm({ id: p.id, name: p.name, bar_ids: p.bar_ids, is_active: p.is_active })}>
+                          Bearbeiten
+                        </button>
+                      </div>
+                    ))}
                   </div>
-                </div>
 
-                {/* Totals */}
-                <div style={styles.totals}>
-                  <div style={{ ...styles.totalRow, fontWeight: 950 }}>
-                    <span>Pfand (steuerfrei)</span>
-                    <span>{euro(depositTotal)}</span>
-                  </div>
-                  <div style={{ ...styles.totalRow, opacity: 0.85 }}>
-                    <span>Pfand-Ausgabe ({depositChargeQty} × 0,50)</span>
-                    <span>{euro(depositChargeTotal)}</span>
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  <div style={{ fontWeight: 950 }}>{prnForm.id ? "Drucker bearbeiten" : "Neuer Drucker"}</div>
+                  <input style={styles.input} placeholder="Name (z.B. Weinbar Bon)" value={prnForm.name} onChange={(e) => setPrnForm({ ...prnForm, name: e.target.value })} />
+                  <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+                    {bars.map((b) => (
+                      <label key={b.id} style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800 }}>
+                        <input
+                          type="checkbox"
+                          checked={prnForm.bar_ids.includes(b.id)}
+                          onChange={(e) =>
+                            setPrnForm({ ...prnForm, bar_ids: e.target.checked ? [...prnForm.bar_ids, b.id] : prnForm.bar_ids.filter((id) => id !== b.id) })
+                          }
+                        />
+                        {b.name}
+                      </label>
+                    ))}
                   </div>
-                  <div style={{ ...styles.totalRow, opacity: 0.85 }}>
-                    <span>Pfand-Korrektur</span>
-                    <span>{euro(depositAdjust)}</span>
+                  <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800 }}>
+                    <input type="checkbox" checked={prnForm.is_active} onChange={(e) => setPrnForm({ ...prnForm, is_active: e.target.checked })} />
+                    Aktiv
+                  </label>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <button style={styles.subtleBtn} onClick={adminSavePrinter} disabled={!adminUnlocked || prnSaving}>
+                      {prnSaving ? "Speichere…" : "Speichern"}
+                    </button>
+                    {prnForm.id && (
+                      <button style={styles.subtleBtn} onClick={() => setPrnForm(EMPTY_PRINTER_FORM)}>
+                        Abbrechen
+                      </button>
+                    )}
                   </div>
 
                   <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
 
-                  <div style={styles.totalRow}>
-                    <span>Netto (Getränke)</span>
-                    <span>{euro(netTotal)}</span>
+                  <div style={{ fontWeight: 950 }}>Stationen (Bonierung)</div>
+                  <div style={styles.hint}>
+                    Produkte mit Station lösen bei jedem Verkauf ein Ticket mit Abholnummer aus – auch ohne Kundenbon. Ohne eigenen Drucker druckt der Drucker der
+                    Bar.
                   </div>
-                  <div style={styles.totalRow}>
-                    <span>USt 20% (Getränke)</span>
-                    <span>{euro(taxTotal)}</span>
+                  {stations.map((st) => (
+                    <div key={st.id} style={{ ...styles.totalRow, alignItems: "center", opacity: st.is_active ? 1 : 0.5 }}>
+                      <span>
+                        {st.name} • {printers.find((p) => p.id === st.printer_id)?.name ?? "Drucker der Bar"}
+                        {st.is_active ? "" : " • inaktiv"}
+                      </span>
+                      <button style={styles.subtleBtn} onClick={() => setStForm({ id: st.id, name: st.name, printer_id: st.printer_id, is_active: st.is_active })}>
+                        Bearbeiten
+                      </button>
+                    </div>
+                  ))}
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <input
+                      style={{ ...styles.input, width: 220 }}
+                      placeholder="Station (z.B. Grill)"
+                      value={stForm.name}
+                      onChange={(e) => setStForm({ ...stForm, name: e.target.value })}
+                    />
+                    <select
+                      style={{ ...styles.input, width: 220 }}
+                      value={stForm.printer_id ?? ""}
+                      onChange={(e) => setStForm({ ...stForm, printer_id: e.target.value || null })}
+                    >
+                      <option value="">Drucker der Bar</option>
+                      {printers.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800 }}>
+                      <input type="checkbox" checked={stForm.is_active} onChange={(e) => setStForm({ ...stForm, is_active: e.target.checked })} />
+                      Aktiv
+                    </label>
+                    <button style={styles.subtleBtn} onClick={adminSaveStation} disabled={!adminUnlocked || prnSaving}>
+                      {stForm.id ? "Station speichern" : "Station anlegen"}
+                    </button>
+                    {stForm.id && (
+                      <button style={styles.subtleBtn} onClick={() => setStForm(EMPTY_STATION_FORM)}>
+                        Abbrechen
+                      </button>
+                    )}
                   </div>
-                  <div style={styles.totalRow}>
-                    <span>Brutto (Getränke)</span>
-                    <span>{euro(grossTotal)}</span>
+
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                    <span>Offene Druckjobs</span>
+                    <button style={styles.subtleBtn} onClick={adminLoadPrinters}>
+                      Aktualisieren
+                    </button>
                   </div>
+                  {printJobs.length === 0 && <div style={styles.hint}>Keine offenen oder fehlgeschlagenen Druckjobs.</div>}
+                  {printJobs.map((j) => (
+                    <div key={String(j.id)} style={styles.totals}>
+                      <div style={styles.totalRow}>
+                        <span>
+                          {new Date(j.created_at).toLocaleTimeString("de-AT")} ·{" "}
+                          {j.kind === "ticket" ? `Ticket ${stations.find((st) => st.id === j.station_id)?.name ?? ""}` : j.kind === "drawer" ? "Kassenlade" : "Bon"} ·{" "}
+                          {printers.find((p) => p.id === j.printer_id)?.name ?? "ohne Drucker"}
+                        </span>
+                        <span style={styles.pill}>
+                          {PRINT_JOB_STATUS_LABEL[j.status]}
+                          {j.attempts > 0 ? ` (${j.attempts}×)` : ""}
+                        </span>
+                      </div>
+                      {j.last_error && <div style={{ ...styles.hint, color: "#ff8080" }}>{j.last_error}</div>}
+                      {j.status === "failed" && (
+                        <button style={styles.subtleBtn} onClick={() => adminRetryPrintJob(j)} disabled={!adminUnlocked}>
+                          Erneut drucken
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
 
-                  <div style={{ ...styles.totalRow, fontWeight: 950, fontSize: 16 }}>
-                    <span>Gesamt</span>
-                    <span>{euro(totalPayable)}</span>
+              {adminTab === "events" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Events</div>
+                  <div style={styles.hint}>Bars, Produkte, Bon-Nummern und Auswertungen gelten immer für ein Event. Abgeschlossene Events sind an der Kassa nicht mehr wählbar.</div>
+
+                  <div style={{ display: "grid", gap: 8 }}>
+                    {events.map((ev) => (
+                      <div key={ev.id} style={{ ...styles.totals, borderColor: ev.id === selectedEventId ? "rgba(0,255,200,0.45)" : undefined }}>
+                        <div style={{ ...styles.totalRow, fontWeight: 950 }}>
+                          <span>
+                            {ev.name}
+                            {ev.id === selectedEventId ? " (dieses Gerät)" : ""}
+                          </span>
+                          <span style={styles.pill}>{EVENT_STATUS_LABEL[ev.status]}</span>
+                        </div>
+                        <div style={styles.hint}>{[formatEventDates(ev), ev.location].filter(Boolean).join(" • ") || "—"}</div>
+                        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                          {ev.id !== selectedEventId && ev.status !== "closed" && (
+                            <button style={styles.subtleBtn} onClick={() => chooseEvent(ev.id)}>
+                              Auf diesem Gerät verwenden
+                            </button>
+                          )}
+                          {(Object.keys(EVENT_STATUS_LABEL) as EventStatus[])
+                            .filter((st) => st !== ev.status)
+                            .map((st) => (
+                              <button key={st} style={styles.subtleBtn} onClick={() => adminSetEventStatus(ev, st)} disabled={!adminUnlocked}>
+                                → {EVENT_STATUS_LABEL[st]}
+                              </button>
+                            ))}
+                          <select
+                            style={{ ...styles.input, width: 220 }}
+                            value={ev.auto_lock_minutes ?? 0}
+                            disabled={!adminUnlocked}
+                            onChange={(e) => adminSetAutoLock(ev, Number(e.target.value) || null)}
+                            title="Kassa sperrt nach so vielen Minuten ohne Eingabe"
+                          >
+                            {[0, 1, 2, 5, 10, 15, 30].map((m) => (
+                              <option key={m} value={m}>
+                                {m ? `Auto-Sperre nach ${m} Min.` : "Keine Auto-Sperre"}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                </div>
 
-                <div>
-                  <div style={{ ...styles.hint, marginBottom: 8 }}>Zahlungsart</div>
-                  <div style={styles.payRow}>
-                    <button style={styles.payBtn(paymentMethod === "cash")} onClick={() => setPaymentMethod("cash")}>
-                      Bar
-                    </button>
-                    <button style={styles.payBtn(paymentMethod === "sumup")} onClick={() => setPaymentMethod("sumup")}>
-                      Karte (SumUp)
-                    </button>
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  <div style={{ fontWeight: 950 }}>Rabatt-Gründe {selectedEvent ? `(${selectedEvent.name})` : ""}</div>
+                  <div style={styles.hint}>
+                    Jeder Rabatt an der Kassa braucht einen dieser Gründe. Art und Wert sind Vorschläge, die Kassa kann sie ändern (mit Berechtigung „Rabatte geben“).
                   </div>
-                </div>
+                  {!selectedEventId && <div style={styles.hint}>Bitte zuerst ein Event auf diesem Gerät verwenden.</div>}
+                  {discountReasons.map((r) => (
+                    <div key={r.id} style={{ ...styles.totalRow, alignItems: "center", opacity: r.is_active ? 1 : 0.5 }}>
+                      <span>
+                        {discountLabel({ kind: r.kind, value: r.value, reason: r.name })}
+                        {!r.is_active && <span style={styles.pill}>inaktiv</span>}
+                      </span>
+                      <button
+                        style={styles.subtleBtn}
+                        onClick={() => setReasonForm({ id: r.id, name: r.name, kind: r.kind, value: r.kind === "free" ? "" : String(r.value).replace(".", ","), is_active: r.is_active })}
+                      >
+                        Bearbeiten
+                      </button>
+                    </div>
+                  ))}
+                  {selectedEventId && (
+                    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                      <input style={styles.input} placeholder="Grund (z.B. Helfergetränk)" value={reasonForm.name} onChange={(e) => setReasonForm({ ...reasonForm, name: e.target.value })} />
+                      <select style={{ ...styles.input, width: 160 }} value={reasonForm.kind} onChange={(e) => setReasonForm({ ...reasonForm, kind: e.target.value as DiscountKind })}>
+                        {(Object.keys(DISCOUNT_KIND_LABEL) as DiscountKind[]).map((k) => (
+                          <option key={k} value={k}>
+                            {DISCOUNT_KIND_LABEL[k]}
+                          </option>
+                        ))}
+                      </select>
+                      {reasonForm.kind !== "free" && (
+                        <input
+                          style={{ ...styles.input, width: 140 }}
+                          inputMode="decimal"
+                          placeholder={reasonForm.kind === "percent" ? "%" : "€"}
+                          value={reasonForm.value}
+                          onChange={(e) => setReasonForm({ ...reasonForm, value: e.target.value })}
+                        />
+                      )}
+                      <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input type="checkbox" checked={reasonForm.is_active} onChange={(e) => setReasonForm({ ...reasonForm, is_active: e.target.checked })} />
+                        aktiv
+                      </label>
+                      <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={adminSaveDiscountReason}>
+                        {reasonForm.id ? "Speichern" : "Grund anlegen"}
+                      </button>
+                      {reasonForm.id && (
+                        <button style={styles.subtleBtn} onClick={() => setReasonForm(EMPTY_REASON_FORM)}>
+                          Abbrechen
+                        </button>
+                      )}
+                    </div>
+                  )}
 
-                <div style={styles.footerActions(isNarrow)}>
-                  <button style={styles.subtleBtn} onClick={clearCart}>
-                    Abbrechen
-                  </button>
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
 
-                  <button style={styles.subtleBtn} disabled={checkoutLoading} onClick={() => doCheckout(true)} title="Nur wenn Kunde wirklich Papier will">
-                    Abschließen + Drucken
+                  <div style={{ fontWeight: 950 }}>Neues Event</div>
+                  <input style={styles.input} placeholder="Name (z.B. Sommerfest 2027)" value={newEventName} onChange={(e) => setNewEventName(e.target.value)} />
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={newEventFrom} onChange={(e) => setNewEventFrom(e.target.value)} title="Von" />
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={newEventTo} onChange={(e) => setNewEventTo(e.target.value)} title="Bis" />
+                  </div>
+                  <input style={styles.input} placeholder="Ort" value={newEventLocation} onChange={(e) => setNewEventLocation(e.target.value)} />
+                  <select style={styles.input} value={newEventCloneFrom} onChange={(e) => setNewEventCloneFrom(e.target.value)}>
+                    <option value="">Leer starten (ohne Bars/Produkte)</option>
+                    {events.map((ev) => (
+                      <option key={ev.id} value={ev.id}>
+                        Bars/Produkte/Preise übernehmen von: {ev.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button style={styles.subtleBtn} onClick={adminCreateEvent} disabled={!adminUnlocked || eventSaving}>
+                    {eventSaving ? "Speichere…" : "Event anlegen"}
                   </button>
+                </>
+              )}
 
-                  <button style={styles.bigCheckout(checkoutLoading)} disabled={checkoutLoading} onClick={() => doCheckout(false)}>
-                    {checkoutLoading ? "Speichere…" : "Abschließen (digital)"}
-                  </button>
+              {adminTab === "roles" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Rollen und Berechtigungen</div>
+                  <div style={styles.hint}>Die Kassa blendet Funktionen ohne Berechtigung aus; die Datenbank prüft bei jeder Aktion nochmals.</div>
+
+                  {roles.map((role) => (
+                    <div key={role.key} style={styles.totals}>
+                      <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                        <span style={{ fontWeight: 950 }}>
+                          {role.label} <span style={styles.hint}>({role.key})</span>
+                        </span>
+                        <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={() => adminSaveRole(role)}>
+                          Speichern
+                        </button>
+                      </div>
+                      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: 6 }}>
+                        {PERMISSIONS.map((perm) => (
+                          <label key={perm.key} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                            <input type="checkbox" checked={role.permissions.includes(perm.key)} onChange={() => toggleRolePermission(role.key, perm.key)} />
+                            {perm.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
 
-                  <div style={{ ...styles.hint, gridColumn: "1 / -1" }}>
-                    Pfand: automatisch +0,50 € pro Getränk • Anpassung über Pfand-Korrektur (+/− 0,50) • Pfand ist steuerfrei.
+                  <div style={{ fontWeight: 950 }}>Neue Rolle</div>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <input style={styles.input} placeholder="Schlüssel (z.B. bar_lead)" value={newRole.key} onChange={(e) => setNewRole({ ...newRole, key: e.target.value })} />
+                    <input style={styles.input} placeholder="Bezeichnung" value={newRole.label} onChange={(e) => setNewRole({ ...newRole, label: e.target.value })} />
+                    <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={() => adminSaveRole({ ...newRole, permissions: [] })}>
+                      Rolle anlegen
+                    </button>
                   </div>
+                </>
+              )}
 
-                  {error && (
-                    <div style={{ gridColumn: "1 / -1", color: "#ff8080", fontWeight: 800 }}>
-                      Fehler: {error}
+              {adminTab === "staff" && (
+                <>
+                  {adminNotifications.length > 0 && (
+                    <div style={styles.totals}>
+                      <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                        <span style={{ fontWeight: 950 }}>⚠️ Hinweise</span>
+                        <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={adminReadNotifications}>
+                          Gelesen
+                        </button>
+                      </div>
+                      {adminNotifications.map((n) => (
+                        <div key={n.id} style={styles.hint}>
+                          {new Date(n.created_at).toLocaleString("de-AT")}: {n.message}
+                        </div>
+                      ))}
                     </div>
                   )}
-                </div>
-              </>
-            )}
-          </div>
-        </div>
-      </div>
 
-      {/* Mitarbeiter-Storno Modal */}
-      {voidOpen && (
-        <div style={styles.modalOverlay} onClick={() => setVoidOpen(false)}>
-          <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
-            <div style={styles.modalHeader}>
-              <div style={{ display: "grid", gap: 4 }}>
-                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Storno</div>
-                <div style={styles.hint}>
-                  Letzter Bon: <b>{lastReceipt?.receipt_no ?? "—"}</b>
-                </div>
-              </div>
-              <button style={styles.subtleBtn} onClick={() => setVoidOpen(false)}>
-                Schließen
-              </button>
-            </div>
+                  {pinLockouts.length > 0 && (
+                    <div style={styles.totals}>
+                      <div style={{ fontWeight: 950 }}>Aktive PIN-Sperren</div>
+                      {pinLockouts.map((l) => (
+                        <div key={`${l.kind}:${l.key}`} style={{ ...styles.totalRow, alignItems: "center" }}>
+                          <span>
+                            {l.kind === "device"
+                              ? `Gerät ${l.key.slice(0, 8)}${l.key === getDeviceId() ? " (dieses Gerät)" : ""}`
+                              : l.kind === "global"
+                                ? "Alle Geräte (zu viele Fehlversuche insgesamt)"
+                                : "Ein PIN (geräteübergreifend)"}{" "}
+                            · {l.failures}{" "}
+                            Fehlversuche · bis {new Date(l.locked_until).toLocaleTimeString("de-AT", { hour: "2-digit", minute: "2-digit" })}
+                          </span>
+                          <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={() => adminUnlockPin(l)}>
+                            Entsperren
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
 
-            <div style={styles.modalBody}>
-              <div style={styles.hint}>PIN von Mitarbeiter oder Admin eingeben.</div>
+                  <div style={{ fontWeight: 950 }}>Mitarbeiter</div>
+                  <div style={styles.hint}>
+                    PINs würfelt die Datenbank und speichert sie nur gehasht; abgelaufene PINs brauchen einen neuen. Deaktivierte Mitarbeiter können sich nicht mehr
+                    einloggen, ihre Bons bleiben erhalten.
+                  </div>
 
-              <input style={styles.input} placeholder="PIN" value={voidPin} onChange={(e) => setVoidPin(e.target.value)} inputMode="numeric" type="password" />
+                  <div style={{ display: "grid", gap: 6 }}>
+                    {staffMembers.map((m) => (
+                      <div key={m.id} style={{ ...styles.totalRow, alignItems: "center", opacity: m.is_active ? 1 : 0.5 }}>
+                        <span>
+                          <span style={{ fontWeight: 900 }}>{m.name}</span> <span style={styles.hint}>({roles.find((r) => r.key === m.role)?.label ?? m.role})</span>
+                          {!m.is_active && <span style={styles.pill}>inaktiv</span>}
+                          {!m.has_pin && <span style={styles.pill}>kein PIN</span>}
+                          {m.pin_expires_at && Date.parse(m.pin_expires_at) <= Date.now() && <span style={styles.pill}>PIN abgelaufen</span>}
+                          <div style={styles.hint}>
+                            Letzter Login: {m.last_login_at ? new Date(m.last_login_at).toLocaleString("de-AT") : "—"} · PIN geändert:{" "}
+                            {m.pin_changed_at ? new Date(m.pin_changed_at).toLocaleDateString("de-AT") : "—"}
+                            {m.pin_expires_at ? ` · läuft ab: ${new Date(m.pin_expires_at).toLocaleDateString("de-AT")}` : ""}
+                          </div>
+                        </span>
+                        <button style={styles.subtleBtn} onClick={() => editStaffMember(m)}>
+                          Bearbeiten
+                        </button>
+                      </div>
+                    ))}
+                  </div>
 
-              <button style={styles.dangerBtn} disabled={voidLoading} onClick={voidLastReceiptNoReason}>
-                {voidLoading ? "Storniere…" : "Storno bestätigen"}
-              </button>
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
 
-              {voidMsg && <div style={{ ...styles.totals, color: voidMsg.startsWith("Fehler") ? "#ff8080" : "#eafffb" }}>{voidMsg}</div>}
-            </div>
-          </div>
-        </div>
-      )}
+                  <div style={{ ...styles.totalRow, alignItems: "center" }}>
+                    <span style={{ fontWeight: 950 }}>{staffForm.id ? `Bearbeiten: ${staffForm.name}` : "Neuer Mitarbeiter"}</span>
+                    {staffForm.id && (
+                      <button style={styles.subtleBtn} onClick={() => editStaffMember(null)}>
+                        Neu anlegen
+                      </button>
+                    )}
+                  </div>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                    <input style={styles.input} placeholder="Name" value={staffForm.name} onChange={(e) => setStaffForm({ ...staffForm, name: e.target.value })} />
+                    <select style={{ ...styles.input, width: 200 }} value={staffForm.role} onChange={(e) => setStaffForm({ ...staffForm, role: e.target.value })}>
+                      {roles.map((r) => (
+                        <option key={r.key} value={r.key}>
+                          {r.label}
+                        </option>
+                      ))}
+                    </select>
+                    <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                      <input type="checkbox" checked={staffForm.is_active} onChange={(e) => setStaffForm({ ...staffForm, is_active: e.target.checked })} />
+                      aktiv
+                    </label>
+                  </div>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                    <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={adminSaveStaff}>
+                      {staffForm.id ? "Speichern" : "Anlegen"}
+                    </button>
+                    {staffForm.id && (
+                      <button style={styles.subtleBtn} disabled={!adminUnlocked} onClick={adminSetStaffPin}>
+                        Neuen PIN erzeugen
+                      </button>
+                    )}
+                  </div>
+                  {generatedPin && (
+                    <div style={styles.totals}>
+                      <div style={styles.hint}>Neuer PIN für {generatedPin.name} – wird nur jetzt angezeigt:</div>
+                      <div style={{ fontSize: 28, fontWeight: 950, letterSpacing: 6 }}>{generatedPin.pin}</div>
+                    </div>
+                  )}
+                </>
+              )}
 
-      {/* Admin Modal */}
-      {adminOpen && (
-        <div style={styles.modalOverlay} onClick={closeAdmin}>
-          <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
-            <div style={styles.modalHeader}>
-              <div style={{ display: "grid", gap: 4 }}>
-                <div style={{ fontWeight: 950, letterSpacing: 0.6, textTransform: "uppercase" }}>Admin</div>
-                <div style={styles.hint}>Status: {adminUnlocked ? `entsperrt (${adminUser?.name ?? "Admin"})` : "gesperrt"}</div>
-              </div>
-              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
-                {adminUnlocked && (
-                  <button style={styles.dangerBtn} onClick={lockAdmin}>
-                    Sperren
-                  </button>
-                )}
-                <button style={styles.subtleBtn} onClick={closeAdmin}>
-                  Schließen
-                </button>
-              </div>
-            </div>
+              {adminTab === "export" && (
+                <>
+                  <div style={{ fontWeight: 950 }}>Export für die Buchhaltung</div>
+                  <div style={styles.hint}>
+                    Bons, Positionen und Stornos des Events als CSV (Excel, Semikolon) oder alles in einer XLSX-Datei. Zeitraum in Geschäftstagen (ab{" "}
+                    {(selectedEvent?.day_cutoff ?? "06:00").slice(0, 5)} Uhr), leer = ganzes Event.
+                  </div>
 
-            <div style={styles.tabs}>
-              <button style={styles.tabBtn(adminTab === "void")} onClick={() => setAdminTab("void")}>
-                Storno
-              </button>
-              <button style={styles.tabBtn(adminTab === "reprint")} onClick={() => setAdminTab("reprint")}>
-                Reprint
-              </button>
-              <button style={styles.tabBtn(adminTab === "report")} onClick={() => setAdminTab("report")}>
-                Abschluss
-              </button>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} title="Von" />
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={exportTo} onChange={(e) => setExportTo(e.target.value)} title="Bis" />
+                  </div>
 
-              <div style={{ marginLeft: "auto", display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
-                {!adminUnlocked && (
-                  <>
-                    <input
-                      style={{ ...styles.input, width: 180 }}
-                      placeholder="Admin PIN"
-                      value={adminPinInput}
-                      onChange={(e) => setAdminPinInput(e.target.value)}
-                      inputMode="numeric"
-                      type="password"
-                    />
-                    <button style={styles.subtleBtn} onClick={unlockAdmin}>
-                      Entsperren
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <button style={styles.subtleBtn} onClick={() => adminExport("orders")} disabled={!adminUnlocked || exportLoading}>
+                      Bons (CSV)
                     </button>
-                  </>
-                )}
-                {adminUnlocked && <span style={styles.pill}>Admin ✓</span>}
-              </div>
-            </div>
+                    <button style={styles.subtleBtn} onClick={() => adminExport("items")} disabled={!adminUnlocked || exportLoading}>
+                      Positionen (CSV)
+                    </button>
+                    <button style={styles.subtleBtn} onClick={() => adminExport("voids")} disabled={!adminUnlocked || exportLoading}>
+                      Stornos (CSV)
+                    </button>
+                    <button style={styles.subtleBtn} onClick={() => adminExport("xlsx")} disabled={!adminUnlocked || exportLoading}>
+                      Alles (XLSX)
+                    </button>
+                    {exportLoading && <span style={styles.pill}>Lade…</span>}
+                  </div>
 
-            <div style={styles.modalBody}>
-              {adminMsg && <div style={{ ...styles.totals, color: adminMsg.startsWith("Fehler") ? "#ff8080" : "#eafffb" }}>{adminMsg}</div>}
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
 
-              {adminTab === "void" && (
-                <>
-                  <div style={{ fontWeight: 950 }}>Storno per Bon-Nr (mit Grund)</div>
-                  <input style={styles.input} placeholder="Bon-Nr" value={voidReceiptNo} onChange={(e) => setVoidReceiptNo(e.target.value)} />
-                  <input style={styles.input} placeholder="Storno-Grund (Pflicht)" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
-                  <button style={styles.dangerBtn} onClick={adminVoidByReceipt} disabled={!adminUnlocked}>
-                    Stornieren
-                  </button>
+                  <div style={{ fontWeight: 950 }}>Buchungsjournal</div>
+                  <div style={styles.hint}>
+                    Sammelbuchungen je Geschäftstag, Zahlungsart und Steuersatz im DATEV-Stil (Umsatz, Soll/Haben, Konto, Gegenkonto, BU-Schlüssel). Konten werden auf diesem Gerät
+                    gespeichert.
+                  </div>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["cash", "Kasse"],
+                        ["card", "SumUp-Verrechnung"],
+                        ["deposit", "Pfand"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <label key={key} style={{ display: "grid", gap: 4 }}>
+                        <span style={styles.hint}>{label}</span>
+                        <input
+                          style={{ ...styles.input, width: 150 }}
+                          value={bookingAccounts[key]}
+                          onChange={(e) => setBookingAccounts({ ...bookingAccounts, [key]: e.target.value.trim() })}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    {TAX_RATES.map((r) => {
+                      const acc = bookingAccounts.revenue[String(r)] ?? { account: "", taxCode: "" };
+                      const setAcc = (next: Partial<typeof acc>) =>
+                        setBookingAccounts({ ...bookingAccounts, revenue: { ...bookingAccounts.revenue, [String(r)]: { ...acc, ...next } } });
+                      return (
+                        <label key={r} style={{ display: "grid", gap: 4 }}>
+                          <span style={styles.hint}>Erlöse {taxRateLabel(r)} (Konto / BU)</span>
+                          <div style={{ display: "flex", gap: 6 }}>
+                            <input style={{ ...styles.input, width: 100 }} value={acc.account} onChange={(e) => setAcc({ account: e.target.value.trim() })} />
+                            <input style={{ ...styles.input, width: 60 }} value={acc.taxCode} onChange={(e) => setAcc({ taxCode: e.target.value.trim() })} />
+                          </div>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <button style={styles.subtleBtn} onClick={() => adminExport("journal")} disabled={!adminUnlocked || exportLoading}>
+                      Buchungsjournal (CSV)
+                    </button>
+                    <button style={styles.subtleBtn} onClick={() => setBookingAccounts(DEFAULT_BOOKING_ACCOUNTS)}>
+                      Standardkonten
+                    </button>
+                  </div>
                 </>
               )}
 
-              {adminTab === "reprint" && (
+              {adminTab === "dep" && (
                 <>
-                  <div style={{ fontWeight: 950 }}>Reprint per Bon-Nr</div>
-                  <input style={styles.input} placeholder="Bon-Nr" value={reprintReceiptNo} onChange={(e) => setReprintReceiptNo(e.target.value)} />
-                  <button style={styles.subtleBtn} onClick={adminReprintByReceipt} disabled={!adminUnlocked}>
-                    Reprint in Queue
-                  </button>
-                </>
-              )}
+                  <div style={{ fontWeight: 950 }}>DEP-Export (Datenerfassungsprotokoll)</div>
+                  <div style={styles.hint}>
+                    Alle signierten Belege des gewählten Events ({selectedEvent?.name ?? "kein Event gewählt"}) inkl. Start-, Null- und Storno-Belege, im Format DEP-7 für die
+                    Finanzprüfung – für alle Kassen des Events oder nur eine.
+                  </div>
+
+                  <select style={styles.input} value={depRegisterId} onChange={(e) => setDepRegisterId(e.target.value)}>
+                    <option value="">Alle Kassen des Events</option>
+                    {depRegisters.map((c) => (
+                      <option key={c.cash_register_id} value={c.cash_register_id}>
+                        {c.cash_register_id}
+                        {c.cash_register_id === getDeviceId() ? " (dieses Gerät)" : ""}
+                      </option>
+                    ))}
+                  </select>
 
-              {adminTab === "report" && (
-                <>
                   <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-                    <button style={styles.subtleBtn} onClick={() => loadReport("today")} disabled={reportLoading || !adminUnlocked}>
-                      Heute laden
-                    </button>
-                    <button style={styles.subtleBtn} onClick={() => loadReport("all")} disabled={reportLoading || !adminUnlocked}>
-                      Ganzes Event laden
-                    </button>
-                    {reportLoading && <span style={styles.pill}>Lade…</span>}
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={depFrom} onChange={(e) => setDepFrom(e.target.value)} title="Von" />
+                    <input style={{ ...styles.input, width: 200 }} type="date" value={depTo} onChange={(e) => setDepTo(e.target.value)} title="Bis" />
                   </div>
 
-                  {reportError && <div style={{ color: "#ff8080", fontWeight: 800 }}>Fehler: {reportError}</div>}
+                  <button style={styles.subtleBtn} onClick={adminBuildDep} disabled={!adminUnlocked || depLoading}>
+                    {depLoading ? "Lade…" : "DEP erstellen + herunterladen"}
+                  </button>
 
-                  {reportTotals && (
-                    <div style={styles.totals}>
-                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
-                        <span>Gesamt</span>
-                        <span>{reportTotals.bons} Bons</span>
-                      </div>
-                      <div style={styles.totalRow}>
-                        <span>Netto (Getränke)</span>
-                        <span>{euro(reportTotals.netto)}</span>
-                      </div>
-                      <div style={styles.totalRow}>
-                        <span>USt 20% (Getränke)</span>
-                        <span>{euro(reportTotals.ust)}</span>
+                  <div style={{ height: 1, background: "rgba(255,255,255,0.08)", margin: "6px 0" }} />
+
+                  <div style={{ fontWeight: 950 }}>Signaturkette prüfen</div>
+                  <input
+                    style={styles.input}
+                    placeholder="AES-Schlüssel der gewählten Kasse (optional, für Umsatzzähler)"
+                    value={depAesKey}
+                    onChange={(e) => setDepAesKey(e.target.value)}
+                    disabled={!depRegisterId}
+                  />
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <button style={styles.subtleBtn} onClick={() => adminVerifyDep(depExport)} disabled={depLoading || !depExport}>
+                      Erstellten DEP prüfen
+                    </button>
+                    <input type="file" accept="application/json,.json" onChange={(e) => adminVerifyDepFile(e.target.files?.[0])} />
+                  </div>
+
+                  {depCheck && (
+                    <div style={{ ...styles.totals, borderColor: depCheck.ok ? "rgba(0,255,200,0.45)" : "rgba(255,80,80,0.45)" }}>
+                      <div style={{ ...styles.totalRow, fontWeight: 950, color: depCheck.ok ? "#eafffb" : "#ff8080" }}>
+                        <span>{depCheck.ok ? "Kette intakt" : "Fehler gefunden"}</span>
+                        <span>
+                          {depCheck.receipts} Belege / {depCheck.groups} Gruppe(n)
+                        </span>
                       </div>
                       <div style={styles.totalRow}>
-                        <span>Brutto (Getränke)</span>
-                        <span>{euro(reportTotals.brutto)}</span>
+                        <span>Storno-Belege</span>
+                        <span>{depCheck.stornos}</span>
                       </div>
                       <div style={styles.totalRow}>
-                        <span>Pfand</span>
-                        <span>{euro(reportTotals.pfand)}</span>
-                      </div>
-                      <div style={{ ...styles.totalRow, fontWeight: 950 }}>
-                        <span>Gesamt</span>
-                        <span>{euro(reportTotals.gesamt)}</span>
+                        <span>Sicherheitseinrichtung ausgefallen</span>
+                        <span>{depCheck.signatureFailed}</span>
                       </div>
+                      {depCheck.errors.map((msg, i) => (
+                        <div key={`e${i}`} style={{ ...styles.hint, color: "#ff8080" }}>
+                          {msg}
+                        </div>
+                      ))}
+                      {depCheck.notes.map((msg, i) => (
+                        <div key={`n${i}`} style={styles.hint}>
+                          {msg}
+                        </div>
+                      ))}
                     </div>
                   )}
                 </>
@@ -1456,12 +4958,38 @@ function KassaPage() {
   );
 }
 
+/** Stundenverlauf als SVG-Kurve; gestrichelt = Vergleichs-Event. */
+function HourChart({ current, previous }: { current: HourSales[]; previous: HourSales[] | null }) {
+  const w = 480;
+  const h = 160;
+  const max = Math.max(1, ...current.map((x) => x.revenue), ...(previous ?? []).map((x) => x.revenue));
+  const points = (series: HourSales[]) =>
+    series.map((x, i) => `${((i / (series.length - 1)) * w).toFixed(1)},${(h - (x.revenue / max) * (h - 10)).toFixed(1)}`).join(" ");
+
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <svg viewBox={`0 0 ${w} ${h}`} style={{ width: "100%", height: 180, background: "rgba(255,255,255,0.03)", borderRadius: 14 }} preserveAspectRatio="none">
+        {previous && <polyline points={points(previous)} fill="none" stroke="rgba(255,255,255,0.35)" strokeWidth={2} strokeDasharray="6 4" />}
+        <polyline points={points(current)} fill="none" stroke="rgba(0,255,200,0.85)" strokeWidth={3} />
+      </svg>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, opacity: 0.65 }}>
+        {current
+          .filter((_, i) => i % 3 === 0)
+          .map((x) => (
+            <span key={x.hour}>{String(x.hour).padStart(2, "0")}:00</span>
+          ))}
+      </div>
+      <div style={{ fontSize: 12, opacity: 0.65 }}>Max. {euro(max)} / Stunde</div>
+    </div>
+  );
+}
+
 function ReceiptPage() {
   const token = getReceiptTokenFromPath();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [order, setOrder] = useState<ReceiptOrderRow | null>(null);
-  const [items, setItems] = useState<ReceiptItemRow[]>([]);
+  const [receipt, setReceipt] = useState<LoadedReceipt | null>(null);
+  const [rksvQrUrl, setRksvQrUrl] = useState<string | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -1471,21 +4999,14 @@ function ReceiptPage() {
           return;
         }
 
-        const { data: o, error: oErr } = await supabase
-          .from("orders")
-          .select("id,receipt_no,created_at,payment_method,gross_total,tax_total,net_total,deposit_total,status")
-          .eq("public_token", token)
-          .single();
-
-        if (oErr) throw new Error(oErr.message);
-
-        const { data: it, error: iErr } = await supabase.from("order_items").select("order_id,name_snapshot,qty,line_total_gross").eq("order_id", (o as any).id);
-        if (iErr) throw new Error(iErr.message);
+        // ✅ Gleiches Beleg-Dokument wie am Bon-Drucker
+        const loaded = await loadReceiptDocument({ publicToken: token });
+        setReceipt(loaded);
 
-        setOrder(o as any);
-        setItems((it ?? []) as any);
-      } catch (e: any) {
-        setError(e?.message ?? String(e));
+        const rksvQr = loaded.document.rksv?.code;
+        if (rksvQr) setRksvQrUrl(await QRCode.toDataURL(rksvQr, { margin: 1, scale: 4 }));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
       } finally {
         setLoading(false);
       }
@@ -1516,9 +5037,6 @@ function ReceiptPage() {
     lineHeight: 1.35,
   };
 
-  const deposit = order ? Number(order.deposit_total ?? 0) : 0;
-  const total = order ? round2(Number(order.gross_total) + deposit) : 0;
-
   return (
     <div style={pageStyle}>
       <div style={cardStyle}>
@@ -1531,22 +5049,16 @@ function ReceiptPage() {
           {loading && <p>Lade…</p>}
           {error && <p style={{ color: "#ff8080", fontWeight: 800 }}>Fehler: {error}</p>}
 
-          {!loading && !error && order && (
+          {!loading && !error && receipt && (
             <div style={mono}>
-              {`Bon-Nr: ${order.receipt_no}\n`}
-              {`${new Date(order.created_at).toLocaleString("de-AT")}\n`}
-              {`Zahlung: ${order.payment_method === "sumup" ? "Karte (SumUp)" : "Bar"}\n`}
-              {`Status: ${order.status}\n`}
-              {`-----------------------------\n`}
-              {items.map((it) => `${it.qty}x ${it.name_snapshot}  ${euro(Number(it.line_total_gross))}\n`).join("")}
-              {`-----------------------------\n`}
-              {`PFAND (steuerfrei) ${euro(deposit)}\n`}
-              {`-----------------------------\n`}
-              {`NETTO (Getr.)   ${euro(Number(order.net_total))}\n`}
-              {`USt 20% (Getr.) ${euro(Number(order.tax_total))}\n`}
-              {`BRUTTO (Getr.)  ${euro(Number(order.gross_total))}\n`}
-              {`-----------------------------\n`}
-              {`GESAMT          ${euro(total)}\n`}
+              {`Status: ${receipt.status}\n`}
+              {renderReceiptText(receipt.document, { withRksvCode: false })}
+            </div>
+          )}
+
+          {!loading && !error && rksvQrUrl && (
+            <div style={{ marginTop: 12, textAlign: "center" }}>
+              <img src={rksvQrUrl} alt="RKSV-Code" style={{ width: 240, maxWidth: "100%", borderRadius: 12, background: "#fff" }} />
             </div>
           )}
         </div>
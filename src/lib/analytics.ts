@@ -0,0 +1,57 @@
+import { supabase } from "./supabase";
+
+// ====== Artikel-Auswertung ======
+// Die DB liefert fertige Summen (sales_analytics) – die Kassa rechnet nur noch den Vergleich mit einem
+// früheren Event dazu. Produkte werden über den Namen zugeordnet.
+
+export type ProductSales = { name: string; qty: number; revenue: number };
+
+export type BarSales = {
+  bar_id: string | null;
+  name: string;
+  receipts: number;
+  revenue: number;
+  qty: number;
+  products: ProductSales[];
+};
+
+export type HourSales = { hour: number; receipts: number; revenue: number };
+
+export type SalesAnalytics = {
+  event_id: string;
+  receipts: number;
+  revenue: number;
+  items: number;
+  avg_basket: number;
+  avg_items: number;
+  products: ProductSales[]; // nach Umsatz absteigend
+  bars: BarSales[];
+  hours: HourSales[];
+};
+
+/** RPC: public.sales_analytics(p_session text, p_event_id uuid) returns jsonb – view_reports */
+export async function loadSalesAnalytics(session: string, eventId: string): Promise<SalesAnalytics> {
+  const { data, error } = await supabase.rpc("sales_analytics", { p_session: session, p_event_id: eventId });
+  if (error) throw new Error(error.message);
+  return data as SalesAnalytics;
+}
+
+/** Veränderung in Prozent (null = kein Vergleichswert). */
+export function changePct(current: number, previous: number | null | undefined) {
+  if (!previous) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+/** Produkt-Zahlen des Vergleichs-Events nach Name. */
+export function productsByName(a: SalesAnalytics | null) {
+  return new Map((a?.products ?? []).map((p) => [p.name, p]));
+}
+
+/** 24 Stunden ab Tageswechsel (fehlende Stunden = 0), damit Kurven zweier Events übereinander passen. */
+export function hourSeries(a: SalesAnalytics | null, startHour: number): HourSales[] {
+  const byHour = new Map((a?.hours ?? []).map((h) => [h.hour, h]));
+  return Array.from({ length: 24 }, (_, i) => {
+    const hour = (startHour + i) % 24;
+    return byHour.get(hour) ?? { hour, receipts: 0, revenue: 0 };
+  });
+}
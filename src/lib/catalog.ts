@@ -0,0 +1,116 @@
+import { supabase } from "./supabase";
+
+// ====== Sortiment (Admin) ======
+// Änderungen laufen über RPCs, die prüfen, ob der Mitarbeiter Admin ist.
+// Jede Preisänderung wird in public.product_prices mitgeschrieben.
+
+export type CatalogProduct = {
+  id: string;
+  bar_id: string;
+  name: string;
+  price_gross: number;
+  tax_rate: number;
+  deposit_type_id: string | null;
+  station_id: string | null; // Bonierung: Ticket an diese Station
+  sort_order: number;
+  is_active: boolean;
+};
+
+export type ProductPrice = {
+  price_gross: number;
+  tax_rate: number;
+  valid_from: string;
+  changed_by_name: string | null;
+};
+
+/** Alle Produkte einer Bar, auch deaktivierte. */
+export async function loadBarProducts(barId: string): Promise<CatalogProduct[]> {
+  const { data, error } = await supabase
+    .from("products")
+    .select("id,bar_id,name,price_gross,tax_rate,deposit_type_id,station_id,sort_order,is_active")
+    .eq("bar_id", barId)
+    .order("sort_order", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as CatalogProduct[]).map((p) => ({ ...p, price_gross: Number(p.price_gross), tax_rate: Number(p.tax_rate) }));
+}
+
+export async function loadPriceHistory(productId: string): Promise<ProductPrice[]> {
+  const { data, error } = await supabase
+    .from("product_prices")
+    .select("price_gross,tax_rate,valid_from,changed_by_name")
+    .eq("product_id", productId)
+    .order("valid_from", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as ProductPrice[];
+}
+
+/** RPC: public.catalog_save_bar(p_session text, p_id uuid, p_event_id uuid, p_name text) returns uuid */
+export async function saveBar(session: string, bar: { id: string | null; eventId: string; name: string }): Promise<string> {
+  const { data, error } = await supabase.rpc("catalog_save_bar", {
+    p_session: session,
+    p_id: bar.id,
+    p_event_id: bar.eventId,
+    p_name: bar.name,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** RPC: public.catalog_save_product(p_session text, p_id uuid, p_bar_id uuid, ...) returns uuid */
+export async function saveProduct(
+  session: string,
+  p: {
+    id: string | null;
+    bar_id: string;
+    name: string;
+    price_gross: number;
+    tax_rate: number;
+    deposit_type_id: string | null;
+    station_id: string | null;
+    is_active: boolean;
+  }
+): Promise<string> {
+  const { data, error } = await supabase.rpc("catalog_save_product", {
+    p_session: session,
+    p_id: p.id,
+    p_bar_id: p.bar_id,
+    p_name: p.name,
+    p_price_gross: p.price_gross,
+    p_tax_rate: p.tax_rate,
+    p_deposit_type_id: p.deposit_type_id,
+    p_is_active: p.is_active,
+    p_station_id: p.station_id,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** RPC: public.catalog_reorder(p_session text, p_table text, p_ids uuid[]) */
+export async function reorder(session: string, table: "bars" | "products", ids: string[]) {
+  const { error } = await supabase.rpc("catalog_reorder", { p_session: session, p_table: table, p_ids: ids });
+  if (error) throw new Error(error.message);
+}
+
+/** Verschiebt einen Eintrag um eine Position und liefert die neue Reihenfolge der IDs. */
+export function moveId(ids: string[], id: string, delta: -1 | 1) {
+  const i = ids.indexOf(id);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= ids.length) return ids;
+  const next = [...ids];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+/**
+ * ✅ Live-Updates: ruft onChange auf, sobald sich Bars oder Produkte ändern (egal auf welchem Gerät).
+ * Liefert eine Funktion zum Abmelden.
+ */
+export function subscribeCatalog(onChange: (table: "bars" | "products") => void) {
+  const channel = supabase
+    .channel("catalog")
+    .on("postgres_changes", { event: "*", schema: "public", table: "bars" }, () => onChange("bars"))
+    .on("postgres_changes", { event: "*", schema: "public", table: "products" }, () => onChange("products"))
+    .subscribe();
+
+  return () => void supabase.removeChannel(channel);
+}
@@ -0,0 +1,257 @@
+import { supabase } from "./supabase";
+import {
+  SIGNATURE_FAILED_TEXT,
+  STORNO_TURNOVER,
+  TRAINING_TURNOVER,
+  cryptTurnover,
+  fromBase64,
+  fromBase64Url,
+  parseRksvPayload,
+  sha256,
+  toBase64,
+  utf8,
+} from "./rksv";
+
+// ====== DEP-Export (Datenerfassungsprotokoll nach RKSV / DEP-7) ======
+// Format: { "Belege-Gruppe": [ { Signaturzertifikat, Zertifizierungsstellen, Belege-kompakt } ] }
+// Eine Gruppe je zusammenhängender Folge von Belegen derselben Kasse mit demselben Signaturzertifikat.
+
+export type DepGroup = {
+  Signaturzertifikat: string;
+  Zertifizierungsstellen: string[];
+  "Belege-kompakt": string[];
+};
+
+export type DepExport = { "Belege-Gruppe": DepGroup[] };
+
+export type RksvCertificate = {
+  cash_register_id: string;
+  zda_id: string;
+  certificate_serial: string;
+  certificate: string;
+};
+
+export type DepVerification = {
+  ok: boolean;
+  receipts: number;
+  groups: number;
+  stornos: number;
+  signatureFailed: number;
+  errors: string[];
+  notes: string[];
+};
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Alle registrierten Kassen-Zertifikate (ohne AES-Schlüssel).
+ * RPC: public.rksv_export_certificates() returns table (cash_register_id text, zda_id text, certificate_serial text, certificate text)
+ */
+export async function loadRksvCertificates(): Promise<RksvCertificate[]> {
+  const { data, error } = await supabase.rpc("rksv_export_certificates");
+  if (error) throw new Error(error.message);
+  return (data ?? []) as RksvCertificate[];
+}
+
+function jwsPayload(jws: string) {
+  return new TextDecoder().decode(fromBase64Url(jws.split(".")[1] ?? ""));
+}
+
+/**
+ * ✅ Baut den DEP eines Events für einen Zeitraum (inkl. Start-, Null- und Storno-Belege):
+ * alle Kassen, die für das Event signiert haben, oder nur cashRegisterId. Je Kasse eigene Gruppen in Kettenfolge.
+ */
+export async function buildDepExport(args: { eventId: string; cashRegisterId: string | null; fromISO: string; toISO: string }): Promise<DepExport> {
+  const rows: Array<{ rksv_jws: string; rksv_cash_register_id: string }> = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from("dep_receipts") // Bons + abgelehnte, aber signierte Belege
+      .select("rksv_jws,rksv_cash_register_id,rksv_seq,created_at")
+      .eq("event_id", args.eventId)
+      .not("rksv_jws", "is", null)
+      .gte("created_at", args.fromISO)
+      .lt("created_at", args.toISO);
+    if (args.cashRegisterId) query = query.eq("rksv_cash_register_id", args.cashRegisterId);
+
+    const { data, error } = await query
+      .order("rksv_cash_register_id", { ascending: true })
+      .order("rksv_seq", { ascending: true })
+      .order("created_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    const page = (data ?? []) as Array<{ rksv_jws: string; rksv_cash_register_id: string }>;
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const certs = await loadRksvCertificates();
+  const bySerial = new Map(certs.map((c) => [c.certificate_serial, c]));
+
+  const groups: DepGroup[] = [];
+  let current: string | null = null;
+
+  for (const { rksv_jws: jws, rksv_cash_register_id: register } of rows) {
+    const serial = parseRksvPayload(jwsPayload(jws))?.certificateSerial ?? "";
+    if (groups.length === 0 || `${register}:${serial}` !== current) {
+      groups.push({ Signaturzertifikat: bySerial.get(serial)?.certificate ?? "", Zertifizierungsstellen: [], "Belege-kompakt": [] });
+      current = `${register}:${serial}`;
+    }
+    groups[groups.length - 1]["Belege-kompakt"].push(jws);
+  }
+
+  return { "Belege-Gruppe": groups };
+}
+
+// ====== Prüfung ======
+type Tlv = { tag: number; start: number; contentStart: number; end: number };
+
+function readTlv(der: Uint8Array, pos: number): Tlv {
+  const tag = der[pos];
+  let len = der[pos + 1];
+  let header = 2;
+  if (len & 0x80) {
+    const n = len & 0x7f;
+    len = 0;
+    for (let i = 0; i < n; i++) len = len * 256 + der[pos + 2 + i];
+    header = 2 + n;
+  }
+  return { tag, start: pos, contentStart: pos + header, end: pos + header + len };
+}
+
+/** Holt den SubjectPublicKeyInfo aus einem X.509-Zertifikat (DER). */
+function spkiFromCertificate(der: Uint8Array<ArrayBuffer>) {
+  const cert = readTlv(der, 0);
+  const tbs = readTlv(der, cert.contentStart);
+
+  let pos = tbs.contentStart;
+  if (readTlv(der, pos).tag === 0xa0) pos = readTlv(der, pos).end; // [0] version
+  // serialNumber, signature, issuer, validity, subject
+  for (let i = 0; i < 5; i++) pos = readTlv(der, pos).end;
+
+  const spki = readTlv(der, pos);
+  return der.slice(spki.start, spki.end);
+}
+
+async function importVerifyKey(certificateB64: string) {
+  const der = fromBase64(certificateB64);
+  const algo = { name: "ECDSA", namedCurve: "P-256" };
+  try {
+    // Software-Schlüssel: öffentlicher Schlüssel direkt als SPKI
+    return await crypto.subtle.importKey("spki", der, algo, false, ["verify"]);
+  } catch {
+    return await crypto.subtle.importKey("spki", spkiFromCertificate(der), algo, false, ["verify"]);
+  }
+}
+
+async function chainValue(prev: string) {
+  return toBase64((await sha256(utf8(prev))).slice(0, 8));
+}
+
+/**
+ * ✅ Prüft einen DEP: Signaturen, lückenlose Verkettung, eindeutige Bon-Nummern und – mit AES-Schlüssel –
+ * ob der Umsatzzähler von Beleg zu Beleg genau um die Belegsumme steigt. Jede Kasse hat ihre eigene Kette;
+ * aesKeys: AES-Schlüssel je Kassen-ID, Kassen ohne Schlüssel werden beim Umsatzzähler übersprungen.
+ */
+export async function verifyDepExport(dep: DepExport, opts: { aesKeys?: Record<string, string> } = {}): Promise<DepVerification> {
+  const result: DepVerification = { ok: false, receipts: 0, groups: 0, stornos: 0, signatureFailed: 0, errors: [], notes: [] };
+
+  const groups = dep?.["Belege-Gruppe"];
+  if (!Array.isArray(groups)) {
+    result.errors.push("Kein gültiger DEP: \"Belege-Gruppe\" fehlt.");
+    return result;
+  }
+  result.groups = groups.length;
+
+  // Kette je Kasse: letzter Beleg + Umsatzzähler
+  const chains = new Map<string, { prevJws: string | null; turnover: bigint | null }>();
+  let cashRegisterId: string | null = null;
+  const seen = new Set<string>();
+
+  for (const [g, group] of groups.entries()) {
+    let key: CryptoKey | null = null;
+    try {
+      key = await importVerifyKey(group.Signaturzertifikat);
+    } catch {
+      result.errors.push(`Gruppe ${g + 1}: Signaturzertifikat nicht lesbar.`);
+    }
+
+    for (const jws of group["Belege-kompakt"] ?? []) {
+      result.receipts++;
+      const n = result.receipts;
+      const parts = jws.split(".");
+      const payload = parts.length === 3 ? parseRksvPayload(jwsPayload(jws)) : null;
+
+      if (!payload) {
+        result.errors.push(`Beleg ${n}: kein gültiger JWS / maschinenlesbarer Code.`);
+        if (cashRegisterId) chains.get(cashRegisterId)!.prevJws = jws;
+        continue;
+      }
+
+      const label = `Beleg ${n} (${payload.receiptNo})`;
+
+      // Kassenwechsel: jede Kasse muss am Stück im Export stehen
+      if (payload.cashRegisterId !== cashRegisterId) {
+        if (chains.has(payload.cashRegisterId)) result.errors.push(`${label}: Kasse ${payload.cashRegisterId} ist im Export nicht zusammenhängend.`);
+        else chains.set(payload.cashRegisterId, { prevJws: null, turnover: null });
+        cashRegisterId = payload.cashRegisterId;
+      }
+      const chain = chains.get(cashRegisterId)!;
+      const aesKey = opts.aesKeys?.[cashRegisterId];
+
+      if (seen.has(`${cashRegisterId}:${payload.receiptNo}`)) result.errors.push(`${label}: Bon-Nummer doppelt.`);
+      seen.add(`${cashRegisterId}:${payload.receiptNo}`);
+
+      // Verkettung
+      if (chain.prevJws) {
+        if (payload.prevSig !== (await chainValue(chain.prevJws))) result.errors.push(`${label}: Verkettung zum vorigen Beleg gebrochen.`);
+      } else if (payload.prevSig === (await chainValue(payload.cashRegisterId))) {
+        result.notes.push(`${label} ist der Startbeleg der Kasse.`);
+      } else {
+        result.notes.push(`Export beginnt mitten in der Kette – Verkettung vor ${label} nicht prüfbar.`);
+      }
+
+      // Signatur
+      const signature = fromBase64Url(parts[2]);
+      if (new TextDecoder().decode(signature) === SIGNATURE_FAILED_TEXT) {
+        result.signatureFailed++;
+      } else if (key) {
+        const valid = await crypto.subtle.verify({ name: "ECDSA", hash: "SHA-256" }, key, signature, utf8(`${parts[0]}.${parts[1]}`));
+        if (!valid) result.errors.push(`${label}: Signatur ungültig.`);
+      }
+
+      // Umsatzzähler
+      const sum = BigInt(payload.amountsCents.reduce((s, c) => s + c, 0));
+      if (payload.turnover === STORNO_TURNOVER) {
+        result.stornos++;
+        if (chain.turnover !== null) chain.turnover += sum;
+      } else if (payload.turnover === TRAINING_TURNOVER) {
+        // Trainingsbelege ändern den Umsatzzähler nicht
+      } else if (aesKey) {
+        try {
+          const enc = fromBase64(payload.turnover);
+          const dec = await cryptTurnover(aesKey, payload.cashRegisterId, payload.receiptNo, enc);
+          const padded = new Uint8Array(8);
+          padded.set(dec, 8 - dec.length);
+          // Vorzeichen bei kürzeren Zählern erweitern
+          if (dec.length < 8 && dec[0] & 0x80) padded.fill(0xff, 0, 8 - dec.length);
+          const value = new DataView(padded.buffer).getBigInt64(0);
+
+          if (chain.turnover !== null && value !== chain.turnover + sum) result.errors.push(`${label}: Umsatzzähler passt nicht zur Belegsumme.`);
+          chain.turnover = value;
+        } catch {
+          result.errors.push(`${label}: Umsatzzähler nicht entschlüsselbar (falscher AES-Schlüssel?).`);
+        }
+      }
+
+      chain.prevJws = jws;
+    }
+  }
+
+  for (const id of chains.keys()) {
+    if (!opts.aesKeys?.[id]) result.notes.push(`Umsatzzähler der Kasse ${id} nicht geprüft (kein AES-Schlüssel angegeben).`);
+  }
+  result.ok = result.errors.length === 0;
+  return result;
+}
@@ -0,0 +1,73 @@
+// ====== Pfand ======
+// Pfandarten (Becher, Krug, Flasche …) kommen aus public.deposit_types. Jedes Produkt hat höchstens
+// eine Pfandart, die pro Stück automatisch ausgegeben wird. Zusätzliche Ausgaben und Rückgaben
+// bucht die Kassa je Pfandart (+/−). Pfand ist steuerfrei.
+
+export type DepositType = {
+  id: string;
+  name: string;
+  value: number;
+  sort_order: number;
+};
+
+/** Pfand je Art auf einem Bon (issued/returned = Stück, bei Storno negativ). */
+export type DepositLine = {
+  deposit_type_id: string | null;
+  name: string;
+  value: number;
+  issued: number;
+  returned: number;
+};
+
+/** Manuelle Buchungen je Pfandart: positiv = zusätzliche Ausgabe, negativ = Rückgabe. */
+export type DepositAdjust = Record<string, number>;
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+export function depositLineTotal(l: DepositLine) {
+  return round2((l.issued - l.returned) * l.value);
+}
+
+export function depositTotal(lines: DepositLine[]) {
+  return round2(lines.reduce((s, l) => s + depositLineTotal(l), 0));
+}
+
+/** Automatisch ausgegebenes Pfand aus dem Warenkorb + manuelle Buchungen, je Pfandart. */
+export function depositLines(
+  cart: Array<{ deposit_type_id: string | null; qty: number }>,
+  adjust: DepositAdjust,
+  types: DepositType[]
+): DepositLine[] {
+  const auto = new Map<string, number>();
+  for (const l of cart) {
+    if (l.deposit_type_id) auto.set(l.deposit_type_id, (auto.get(l.deposit_type_id) ?? 0) + l.qty);
+  }
+
+  return types
+    .map((t) => {
+      const adj = adjust[t.id] ?? 0;
+      return {
+        deposit_type_id: t.id,
+        name: t.name,
+        value: Number(t.value),
+        issued: (auto.get(t.id) ?? 0) + Math.max(adj, 0),
+        returned: Math.max(-adj, 0),
+      };
+    })
+    .filter((l) => l.issued !== 0 || l.returned !== 0);
+}
+
+/** Pfand-Block für Bons (passt auf 29 Zeichen Druckbreite). */
+export function formatDepositText(lines: DepositLine[]) {
+  const n = (v: number) => new Intl.NumberFormat("de-AT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(v);
+
+  return lines
+    .map((l) => {
+      const out = l.issued !== 0 ? `  ${l.name} ${l.issued}x${n(l.value)}: ${n(round2(l.issued * l.value))}\n` : "";
+      const back = l.returned !== 0 ? `  ${l.name} zurück ${l.returned}x: ${n(round2(-l.returned * l.value))}\n` : "";
+      return out + back;
+    })
+    .join("");
+}
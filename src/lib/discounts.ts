@@ -0,0 +1,76 @@
+import { supabase } from "./supabase";
+
+// ====== Rabatte ======
+// Rabatt je Position oder auf den ganzen Bon: Prozent, fixer Betrag, neuer Stückpreis (nur Position) oder gratis.
+// Jeder Rabatt braucht einen Grund (discount_reasons je Event). Der Bon-Rabatt wird anteilig auf die Positionen
+// verteilt, damit die USt vom rabattierten Betrag gerechnet wird – create_order() rechnet genauso nach.
+
+export type DiscountKind = "percent" | "amount" | "price" | "free";
+
+/** value: Prozent (10 = 10 %), Betrag in € bzw. neuer Stückpreis; bei "free" ohne Bedeutung. */
+export type DiscountReason = { id: string; event_id: string; name: string; kind: DiscountKind; value: number; is_active: boolean; sort_order: number };
+
+export type Discount = { kind: DiscountKind; value: number; reason_id: string; reason: string };
+
+export const DISCOUNT_KIND_LABEL: Record<DiscountKind, string> = {
+  percent: "Prozent",
+  amount: "Betrag",
+  price: "Stückpreis",
+  free: "Gratis",
+};
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function euro(n: number) {
+  return new Intl.NumberFormat("de-AT", { style: "currency", currency: "EUR" }).format(n);
+}
+
+/** "Feuerwehr −10 %", "Sponsor gratis" … für Kassa und Bon. */
+export function discountLabel(d: Pick<Discount, "kind" | "value" | "reason">) {
+  if (d.kind === "free") return `${d.reason} gratis`;
+  if (d.kind === "percent") return `${d.reason} −${d.value} %`;
+  if (d.kind === "price") return `${d.reason} à ${euro(d.value)}`;
+  return `${d.reason} −${euro(d.value)}`;
+}
+
+/** Rabatt in € auf einen Betrag (Position: Stückpreis × Menge), nie mehr als der Betrag selbst. */
+export function discountAmount(gross: number, d: Discount | null | undefined, qty = 1) {
+  if (!d || gross <= 0) return 0;
+  const raw =
+    d.kind === "free" ? gross : d.kind === "percent" ? round2((gross * d.value) / 100) : d.kind === "amount" ? d.value : round2(gross - round2(d.value * qty));
+  return Math.min(gross, Math.max(0, round2(raw)));
+}
+
+/** Bon-Rabatt anteilig auf die Beträge verteilen; der Rest (Rundung) geht auf die letzte Position mit Betrag. */
+export function allocateDiscount(amount: number, totals: number[]) {
+  const sum = round2(totals.reduce((s, t) => s + t, 0));
+  const last = totals.map((t) => t > 0).lastIndexOf(true);
+  if (amount <= 0 || sum <= 0 || last < 0) return totals.map(() => 0);
+
+  const shares = totals.map((t, i) => (i !== last && t > 0 ? round2((amount * t) / sum) : 0));
+  shares[last] = round2(amount - shares.reduce((s, x) => s + x, 0));
+  return shares;
+}
+
+export async function loadDiscountReasons(eventId: string): Promise<DiscountReason[]> {
+  const { data, error } = await supabase.from("discount_reasons").select("id,event_id,name,kind,value,is_active,sort_order").eq("event_id", eventId).order("sort_order");
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as DiscountReason[]).map((r) => ({ ...r, value: Number(r.value) }));
+}
+
+/** RPC: public.discount_reason_save(p_session text, p_id uuid, p_event_id uuid, p_name text, p_kind text, p_value numeric, p_is_active boolean) returns uuid */
+export async function saveDiscountReason(session: string, reason: Omit<DiscountReason, "id" | "sort_order"> & { id: string | null }): Promise<string> {
+  const { data, error } = await supabase.rpc("discount_reason_save", {
+    p_session: session,
+    p_id: reason.id,
+    p_event_id: reason.event_id,
+    p_name: reason.name,
+    p_kind: reason.kind,
+    p_value: reason.value,
+    p_is_active: reason.is_active,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
@@ -0,0 +1,78 @@
+import { supabase } from "./supabase";
+
+// ====== Events ======
+// Ein Event = ein Fest mit eigenen Bars, Produkten, Bon-Nummern und Auswertungen.
+// Welches Event ein Gerät verkauft, wird wie die Bar lokal gespeichert.
+
+export type EventStatus = "planned" | "active" | "closed";
+
+export type FestEvent = {
+  id: string;
+  name: string;
+  starts_on: string | null;
+  ends_on: string | null;
+  location: string | null;
+  status: EventStatus;
+  day_cutoff: string; // "06:00:00" – Beginn des Geschäftstags (Berichte)
+  deposit_adjust_limit: number | null; // manuelle Pfand-Buchungen je Bon in € ohne Berechtigung (null = kein Limit)
+  auto_lock_minutes: number | null; // Kassa sperrt nach so vielen Minuten ohne Eingabe (null = nie)
+};
+
+export const EVENT_STATUS_LABEL: Record<EventStatus, string> = {
+  planned: "Geplant",
+  active: "Aktiv",
+  closed: "Abgeschlossen",
+};
+
+export async function loadEvents(): Promise<FestEvent[]> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("id,name,starts_on,ends_on,location,status,day_cutoff,deposit_adjust_limit,auto_lock_minutes")
+    .order("starts_on", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as FestEvent[];
+}
+
+/**
+ * ✅ Neues Event, optional mit Bars/Produkten/Preisen eines früheren Events
+ * RPC: public.create_event(p_session text, p_name text, p_starts_on date, p_ends_on date, p_location text, p_clone_from uuid) returns uuid
+ */
+export async function createEvent(session: string, args: {
+  name: string;
+  startsOn: string | null;
+  endsOn: string | null;
+  location: string | null;
+  cloneFrom: string | null;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc("create_event", {
+    p_session: session,
+    p_name: args.name,
+    p_starts_on: args.startsOn,
+    p_ends_on: args.endsOn,
+    p_location: args.location,
+    p_clone_from: args.cloneFrom,
+  });
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("create_event() hat keine ID geliefert.");
+  return data as string;
+}
+
+/** RPC: public.set_event_status(p_session text, p_event_id uuid, p_status text) */
+export async function setEventStatus(session: string, eventId: string, status: EventStatus) {
+  const { error } = await supabase.rpc("set_event_status", { p_session: session, p_event_id: eventId, p_status: status });
+  if (error) throw new Error(error.message);
+}
+
+/** RPC: public.set_event_auto_lock(p_session text, p_event_id uuid, p_minutes integer) – 0/null = nie sperren */
+export async function setEventAutoLock(session: string, eventId: string, minutes: number | null) {
+  const { error } = await supabase.rpc("set_event_auto_lock", { p_session: session, p_event_id: eventId, p_minutes: minutes });
+  if (error) throw new Error(error.message);
+}
+
+export function formatEventDates(e: FestEvent) {
+  const d = (s: string) => new Date(`${s}T00:00:00`).toLocaleDateString("de-AT");
+  if (e.starts_on && e.ends_on && e.starts_on !== e.ends_on) return `${d(e.starts_on)} – ${d(e.ends_on)}`;
+  if (e.starts_on) return d(e.starts_on);
+  return "";
+}
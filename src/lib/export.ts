@@ -0,0 +1,358 @@
+import { businessDayOf } from "./reports";
+import { supabase } from "./supabase";
+import { taxRateLabel } from "./tax";
+import type { Cell, Sheet } from "./xlsx";
+
+// ====== Export für die Buchhaltung ======
+// Bons, Positionen und Stornos eines Events/Zeitraums als Tabellen (→ CSV oder XLSX) und ein
+// Buchungsjournal im DATEV-Stil: je Geschäftstag, Zahlungsart und Steuersatz eine Sammelbuchung
+// Kasse bzw. SumUp-Verrechnung an Erlöskonto, dazu Pfand an Pfandkonto.
+
+type ExportOrder = {
+  id: string;
+  receipt_no: string;
+  created_at: string;
+  bar_id: string | null;
+  device_id: string | null;
+  cashier_name_snapshot: string | null;
+  payment_method: string;
+  rksv_receipt_type: string;
+  gross_total: number;
+  net_total: number;
+  tax_total: number;
+  deposit_total: number | null;
+  storno_of_order_id: string | null;
+};
+
+type ExportTaxLine = { order_id: string; tax_rate: number; gross: number; net: number; tax: number };
+type ExportItem = { order_id: string; name_snapshot: string; qty: number; unit_price_gross: number; line_total_gross: number; tax_rate: number };
+type ExportVoid = { order_id: string; storno_order_id: string | null; voided_by: string | null; reason: string | null };
+type ExportPayment = { order_id: string; method: string; amount: number };
+type ExportRefundState = { order_id: string; refunds: number; fully_refunded: boolean };
+
+export type ExportData = {
+  orders: ExportOrder[];
+  taxLines: ExportTaxLine[];
+  items: ExportItem[];
+  voids: ExportVoid[];
+  payments: Map<string, ExportPayment[]>; // je Bon (geteilte Zahlung: mehrere Einträge)
+  originals: Map<string, ExportOrder>; // stornierte Bons (auch außerhalb des Zeitraums)
+  refundStates: Map<string, ExportRefundState>; // Verkaufsbons: Storno-Stand aus den Storno-Belegen
+  barNames: Map<string, string>;
+};
+
+/** Konten für das Buchungsjournal (Kontenrahmen des Steuerberaters). */
+export type BookingAccounts = {
+  cash: string; // Kasse
+  card: string; // SumUp-Verrechnung
+  deposit: string; // Pfand (Verbindlichkeit)
+  revenue: Record<string, { account: string; taxCode: string }>; // Steuersatz ("0.2") → Erlöskonto + BU-Schlüssel
+};
+
+export const DEFAULT_BOOKING_ACCOUNTS: BookingAccounts = {
+  cash: "2700",
+  card: "2790",
+  deposit: "3580",
+  revenue: {
+    "0.2": { account: "4000", taxCode: "" },
+    "0.13": { account: "4013", taxCode: "" },
+    "0.1": { account: "4010", taxCode: "" },
+    "0": { account: "4090", taxCode: "" },
+  },
+};
+
+const PAGE_SIZE = 1000;
+const IN_CHUNK = 200; // IDs je .in()-Abfrage (URL-Länge)
+
+const ORDER_COLUMNS =
+  "id,receipt_no,created_at,bar_id,device_id,cashier_name_snapshot,payment_method,rksv_receipt_type,gross_total,net_total,tax_total,deposit_total,storno_of_order_id";
+
+async function loadPaged<T>(query: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await query(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data ?? []) as T[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadByIds<T>(ids: string[], query: (chunk: string[]) => PromiseLike<{ data: unknown; error: { message: string } | null }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    const { data, error } = await query(ids.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+/** Alle Belege (Verkauf + Storno) mit created_at in [from, to) samt Positionen, Steuerzeilen und Storno-Gründen. */
+export async function loadExportData(eventId: string, from: Date, to: Date): Promise<ExportData> {
+  const fromISO = from.toISOString();
+  const toISO = to.toISOString();
+
+  const orders = await loadPaged<ExportOrder>((a, b) =>
+    supabase
+      .from("orders")
+      .select(ORDER_COLUMNS)
+      .eq("event_id", eventId)
+      .in("rksv_receipt_type", ["standard", "storno"])
+      .gte("created_at", fromISO)
+      .lt("created_at", toISO)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(a, b)
+  );
+
+  const taxLines = await loadPaged<ExportTaxLine>((a, b) =>
+    supabase
+      .from("order_tax_lines")
+      .select("order_id,tax_rate,gross,net,tax")
+      .eq("event_id", eventId)
+      .in("rksv_receipt_type", ["standard", "storno"])
+      .gte("created_at", fromISO)
+      .lt("created_at", toISO)
+      .order("order_id", { ascending: true })
+      .order("tax_rate", { ascending: false })
+      .range(a, b)
+  );
+
+  const ids = orders.map((o) => o.id);
+  const items = await loadByIds<ExportItem>(ids, (chunk) =>
+    supabase.from("order_items").select("order_id,name_snapshot,qty,unit_price_gross,line_total_gross,tax_rate").in("order_id", chunk)
+  );
+
+  const payments = new Map<string, ExportPayment[]>();
+  (
+    await loadByIds<ExportPayment>(ids, (chunk) =>
+      supabase.from("order_payments").select("order_id,method,amount").in("order_id", chunk).order("sort_order", { ascending: true })
+    )
+  ).forEach((p) => payments.set(p.order_id, [...(payments.get(p.order_id) ?? []), p]));
+
+  const byId = new Map(orders.map((o) => [o.id, o]));
+  const originalIds = [...new Set(orders.map((o) => o.storno_of_order_id).filter((id): id is string => !!id))];
+  const missing = originalIds.filter((id) => !byId.has(id));
+  const originals = new Map(originalIds.filter((id) => byId.has(id)).map((id) => [id, byId.get(id) as ExportOrder]));
+  (await loadByIds<ExportOrder>(missing, (chunk) => supabase.from("orders").select(ORDER_COLUMNS).in("id", chunk))).forEach((o) => originals.set(o.id, o));
+
+  const saleIds = orders.filter((o) => o.rksv_receipt_type === "standard").map((o) => o.id);
+  const refundStates = await loadByIds<ExportRefundState>(saleIds, (chunk) =>
+    supabase.from("order_refund_state").select("order_id,refunds,fully_refunded").in("order_id", chunk)
+  );
+
+  const voids = await loadByIds<ExportVoid>(originalIds, (chunk) => supabase.from("voids").select("order_id,storno_order_id,voided_by,reason").in("order_id", chunk));
+
+  const { data: bars, error: bErr } = await supabase.from("bars").select("id,name").eq("event_id", eventId);
+  if (bErr) throw new Error(bErr.message);
+
+  return {
+    orders,
+    taxLines,
+    items,
+    voids,
+    payments,
+    originals,
+    refundStates: new Map(refundStates.map((r) => [r.order_id, r])),
+    barNames: new Map(((bars ?? []) as Array<{ id: string; name: string }>).map((b) => [b.id, b.name])),
+  };
+}
+
+const n = (v: number | null | undefined) => Math.round(Number(v ?? 0) * 100) / 100;
+const when = (iso: string) => new Date(iso).toLocaleString("de-AT");
+const paymentLabel = (m: string) => (m === "sumup" ? "Karte (SumUp)" : m === "cash" ? "Bar" : m === "split" ? "Bar + Karte" : m);
+const typeLabel = (o: ExportOrder) => (o.rksv_receipt_type === "storno" ? "Storno" : "Verkauf");
+/** Der Verkaufsbon selbst bleibt unverändert; storniert/teilstorniert ergibt sich aus seinen Storno-Belegen. */
+function statusLabel(d: ExportData, o: ExportOrder) {
+  const r = d.refundStates.get(o.id);
+  return r?.fully_refunded ? "storniert" : r && r.refunds > 0 ? "teilstorniert" : "gültig";
+}
+
+/** Zahlungen eines Bons; Bons ohne Einträge (Nullbeleg) gelten als eine Zahlung über den Gesamtbetrag. */
+function paymentsOf(d: ExportData, o: ExportOrder): ExportPayment[] {
+  return d.payments.get(o.id) ?? [{ order_id: o.id, method: o.payment_method, amount: n(n(o.gross_total) + n(o.deposit_total)) }];
+}
+
+const paidWith = (d: ExportData, o: ExportOrder, method: string) => n(paymentsOf(d, o).filter((p) => p.method === method).reduce((s, p) => s + n(p.amount), 0));
+
+/** Betrag anteilig auf die Zahlungen des Bons aufteilen (auf Cent, Rundungsrest auf die letzte Zahlung). */
+function splitByPayments(amount: number, payments: ExportPayment[]): Array<[string, number]> {
+  const total = payments.reduce((s, p) => s + n(p.amount), 0);
+  if (payments.length === 1 || total === 0) return [[payments[0].method, amount]];
+  let rest = amount;
+  return payments.map((p, i) => {
+    const part = i === payments.length - 1 ? n(rest) : n((amount * n(p.amount)) / total);
+    rest -= part;
+    return [p.method, part];
+  });
+}
+
+export function ordersSheet(d: ExportData): Sheet {
+  const rates = [...new Set(d.taxLines.map((t) => Number(t.tax_rate)))].sort((a, b) => b - a);
+  const taxByOrder = new Map<string, Map<number, ExportTaxLine>>();
+  d.taxLines.forEach((t) => {
+    if (!taxByOrder.has(t.order_id)) taxByOrder.set(t.order_id, new Map());
+    taxByOrder.get(t.order_id)?.set(Number(t.tax_rate), t);
+  });
+
+  return {
+    name: "Bons",
+    columns: [
+      "Bon-Nr",
+      "Datum",
+      "Bar",
+      "Gerät",
+      "Kassier",
+      "Zahlung",
+      "davon Bar",
+      "davon Karte",
+      "Belegart",
+      "Status",
+      ...rates.flatMap((r) => [`Netto ${taxRateLabel(r)}`, `USt ${taxRateLabel(r)}`]),
+      "Netto",
+      "USt",
+      "Brutto Waren",
+      "Pfand",
+      "Gesamt",
+      "Storno zu Bon",
+    ],
+    rows: d.orders.map((o) => {
+      const tax = taxByOrder.get(o.id);
+      const original = o.storno_of_order_id ? d.originals.get(o.storno_of_order_id) : null;
+      return [
+        o.receipt_no,
+        when(o.created_at),
+        (o.bar_id && d.barNames.get(o.bar_id)) || "",
+        o.device_id ?? "",
+        o.cashier_name_snapshot ?? "",
+        paymentLabel(o.payment_method),
+        paidWith(d, o, "cash"),
+        paidWith(d, o, "sumup"),
+        typeLabel(o),
+        statusLabel(d, o),
+        ...rates.flatMap((r): Cell[] => {
+          const t = tax?.get(r);
+          return t ? [n(t.net), n(t.tax)] : [null, null];
+        }),
+        n(o.net_total),
+        n(o.tax_total),
+        n(o.gross_total),
+        n(o.deposit_total),
+        n(n(o.gross_total) + n(o.deposit_total)),
+        original?.receipt_no ?? "",
+      ];
+    }),
+  };
+}
+
+export function itemsSheet(d: ExportData): Sheet {
+  const byId = new Map(d.orders.map((o) => [o.id, o]));
+  const rows = d.items
+    .map((i) => ({ i, o: byId.get(i.order_id) }))
+    .filter((x): x is { i: ExportItem; o: ExportOrder } => !!x.o)
+    .sort((a, b) => a.o.created_at.localeCompare(b.o.created_at));
+
+  return {
+    name: "Positionen",
+    columns: ["Bon-Nr", "Datum", "Bar", "Belegart", "Status", "Artikel", "Menge", "Einzelpreis", "Gesamt", "USt-Satz"],
+    rows: rows.map(({ i, o }) => [
+      o.receipt_no,
+      when(o.created_at),
+      (o.bar_id && d.barNames.get(o.bar_id)) || "",
+      typeLabel(o),
+      statusLabel(d, o),
+      i.name_snapshot,
+      Number(i.qty),
+      n(i.unit_price_gross),
+      n(i.line_total_gross),
+      taxRateLabel(Number(i.tax_rate)),
+    ]),
+  };
+}
+
+export function voidsSheet(d: ExportData): Sheet {
+  // Je Storno-Beleg ein Grund (Teil-Stornos); ältere Einträge nur je Original
+  const voidByStorno = new Map(d.voids.filter((v) => v.storno_order_id).map((v) => [v.storno_order_id as string, v]));
+  const voidByOrder = new Map(d.voids.map((v) => [v.order_id, v]));
+
+  return {
+    name: "Stornos",
+    columns: ["Storno-Bon-Nr", "Datum", "Original-Bon-Nr", "Original-Datum", "Bar", "Kassier", "Zahlung", "Betrag", "Storniert von", "Grund"],
+    rows: d.orders
+      .filter((o) => o.rksv_receipt_type === "storno")
+      .map((o) => {
+        const original = o.storno_of_order_id ? d.originals.get(o.storno_of_order_id) : undefined;
+        const v = voidByStorno.get(o.id) ?? (o.storno_of_order_id ? voidByOrder.get(o.storno_of_order_id) : undefined);
+        return [
+          o.receipt_no,
+          when(o.created_at),
+          original?.receipt_no ?? "",
+          original ? when(original.created_at) : "",
+          (o.bar_id && d.barNames.get(o.bar_id)) || "",
+          o.cashier_name_snapshot ?? "",
+          paymentLabel(o.payment_method),
+          n(n(o.gross_total) + n(o.deposit_total)),
+          v?.voided_by ?? "",
+          v?.reason ?? "",
+        ];
+      }),
+  };
+}
+
+/**
+ * ✅ Buchungsjournal (DATEV-Stil, Spalten wie im Buchungsstapel ohne EXTF-Kopf):
+ * je Geschäftstag × Zahlungsart × Steuersatz eine Erlösbuchung (brutto, USt über BU-Schlüssel bzw.
+ * Automatikkonto), je Geschäftstag × Zahlungsart eine Pfandbuchung. Negative Summen → Haben.
+ * Geteilte Bons werden im Verhältnis ihrer Zahlungen auf Kasse und SumUp-Verrechnung aufgeteilt.
+ */
+export function bookingJournalSheet(d: ExportData, accounts: BookingAccounts, dayCutoff: string): Sheet {
+  const byId = new Map(d.orders.map((o) => [o.id, o]));
+  const sums = new Map<string, { day: string; payment: string; kind: "revenue" | "deposit"; rate: number; amount: number }>();
+
+  const add = (day: string, payment: string, kind: "revenue" | "deposit", rate: number, amount: number) => {
+    const key = `${day}|${payment}|${kind}|${rate}`;
+    const s = sums.get(key) ?? { day, payment, kind, rate, amount: 0 };
+    s.amount += amount;
+    sums.set(key, s);
+  };
+
+  d.taxLines.forEach((t) => {
+    const o = byId.get(t.order_id);
+    if (!o) return;
+    const day = businessDayOf(new Date(o.created_at), dayCutoff);
+    splitByPayments(n(t.gross), paymentsOf(d, o)).forEach(([method, amount]) => add(day, method, "revenue", Number(t.tax_rate), amount));
+  });
+  d.orders.forEach((o) => {
+    if (!o.deposit_total) return;
+    const day = businessDayOf(new Date(o.created_at), dayCutoff);
+    splitByPayments(n(o.deposit_total), paymentsOf(d, o)).forEach(([method, amount]) => add(day, method, "deposit", 0, amount));
+  });
+
+  const rows = [...sums.values()]
+    .map((s) => ({ ...s, amount: n(s.amount) }))
+    .filter((s) => s.amount !== 0)
+    .sort((a, b) => a.day.localeCompare(b.day) || a.payment.localeCompare(b.payment) || a.kind.localeCompare(b.kind) || b.rate - a.rate)
+    .map((s): Cell[] => {
+      const [y, m, dd] = s.day.split("-");
+      const revenue = accounts.revenue[String(s.rate)];
+      const counter = s.kind === "deposit" ? accounts.deposit : (revenue?.account ?? "");
+      const text = s.kind === "deposit" ? `Pfand ${paymentLabel(s.payment)} ${dd}.${m}.` : `Erlöse ${taxRateLabel(s.rate)} ${paymentLabel(s.payment)} ${dd}.${m}.`;
+      return [
+        Math.abs(s.amount),
+        s.amount >= 0 ? "S" : "H",
+        s.payment === "sumup" ? accounts.card : accounts.cash,
+        counter,
+        s.kind === "deposit" ? "" : (revenue?.taxCode ?? ""),
+        `${dd}${m}`,
+        `${y}${m}${dd}`,
+        text,
+      ];
+    });
+
+  return {
+    name: "Buchungsjournal",
+    columns: ["Umsatz (ohne Soll/Haben-Kz)", "Soll/Haben-Kennzeichen", "Konto", "Gegenkonto (ohne BU-Schlüssel)", "BU-Schlüssel", "Belegdatum", "Belegfeld 1", "Buchungstext"],
+    rows,
+  };
+}
@@ -0,0 +1,113 @@
+// ====== Lokale Datenbank (IndexedDB) ======
+// Hält alles, was die Kassa ohne Netz braucht: Sortiment-Cache, reservierte Bon-Nummern,
+// abgeschlossene Bestellungen, die noch nicht bei Supabase angekommen sind (bzw. die der Server abgelehnt hat),
+// und die RKSV-Kette.
+
+const DB_NAME = "festkassa";
+const DB_VERSION = 3;
+
+export const STORE_CATALOG = "catalog";
+export const STORE_RECEIPT_NUMBERS = "receiptNumbers";
+export const STORE_OUTBOX = "outbox";
+export const STORE_RKSV = "rksv";
+export const STORE_REJECTED = "rejected";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_CATALOG)) db.createObjectStore(STORE_CATALOG, { keyPath: "key" });
+      if (!db.objectStoreNames.contains(STORE_RECEIPT_NUMBERS)) db.createObjectStore(STORE_RECEIPT_NUMBERS, { keyPath: "receipt_no" });
+      // autoIncrement-Key = Reihenfolge, in der die Bons abgeschlossen wurden
+      if (!db.objectStoreNames.contains(STORE_OUTBOX)) db.createObjectStore(STORE_OUTBOX, { keyPath: "seq", autoIncrement: true });
+      // v2: RKSV-Signaturkette + Software-Schlüssel
+      if (!db.objectStoreNames.contains(STORE_RKSV)) db.createObjectStore(STORE_RKSV, { keyPath: "key" });
+      // v3: vom Server abgelehnte Outbox-Einträge (seq aus der Outbox bleibt erhalten)
+      if (!db.objectStoreNames.contains(STORE_REJECTED)) db.createObjectStore(STORE_REJECTED, { keyPath: "seq" });
+    };
+
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function idbGet<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, "readonly").objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+/** Liefert alle Einträge in Key-Reihenfolge. */
+export async function idbGetAll<T>(store: string): Promise<T[]> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, "readonly").objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function idbPut<T>(store: string, value: T): Promise<IDBValidKey> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, "readwrite").objectStore(store).put(value));
+}
+
+export async function idbDelete(store: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, "readwrite").objectStore(store).delete(key));
+}
+
+/**
+ * Wählt in EINER Transaktion einen Eintrag aus und löscht ihn.
+ * So kann auch ein zweiter Tab auf demselben Gerät nie denselben Eintrag bekommen.
+ */
+export async function idbTake<T>(store: string, pick: (all: T[]) => T | undefined, keyOf: (v: T) => IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    const os = tx.objectStore(store);
+    let taken: T | undefined;
+
+    const all = os.getAll();
+    all.onsuccess = () => {
+      taken = pick(all.result as T[]);
+      if (taken !== undefined) os.delete(keyOf(taken));
+    };
+
+    tx.oncomplete = () => resolve(taken);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Mehrere Änderungen über mehrere Stores in EINER Transaktion – entweder alle oder keine. */
+export async function idbTransaction(stores: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, "readwrite");
+    try {
+      run(tx);
+    } catch (e) {
+      tx.abort();
+      return reject(e);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,282 @@
+import { supabase } from "./supabase";
+import { createOrder, createStorno, recordRejectedReceipt, type CreateOrderParams, type CreateStornoParams } from "./orders";
+import { openShift, type OpenShiftParams } from "./shifts";
+import { STORE_CATALOG, STORE_OUTBOX, STORE_RECEIPT_NUMBERS, STORE_REJECTED, idbDelete, idbGet, idbGetAll, idbPut, idbTake, idbTransaction } from "./localDb";
+
+// ====== Offline-Betrieb ======
+// Bestellungen werden zuerst lokal gespeichert (Outbox) und danach der Reihe nach zu Supabase
+// übertragen. Fällt das WLAN aus, wird einfach weiter verkauft und später nachsynchronisiert.
+// Lehnt der Server einen Eintrag ab, kommt er in die Ablage (STORE_REJECTED) – die übrigen laufen weiter.
+// Signierte Belege hält der Server vorher als abgelehnt fest (record_rejected_receipt), sonst fehlen sie im DEP.
+
+const RECEIPT_BLOCK_SIZE = 50;
+const RECEIPT_POOL_LOW = 20;
+const SYNC_INTERVAL_MS = 15000;
+
+// ====== Sortiment-Cache ======
+type CatalogEntry<T> = { key: string; data: T; saved_at: string };
+
+export async function saveCatalog<T>(key: string, data: T) {
+  try {
+    await idbPut<CatalogEntry<T>>(STORE_CATALOG, { key, data, saved_at: new Date().toISOString() });
+  } catch {
+    // Cache ist nur ein Fallback – Fehler hier dürfen den Verkauf nicht stören
+  }
+}
+
+export async function loadCatalog<T>(key: string): Promise<T | null> {
+  try {
+    const entry = await idbGet<CatalogEntry<T>>(STORE_CATALOG, key);
+    return entry ? entry.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// ====== Bon-Nummern-Pool (pro Gerät reserviert) ======
+type ReservedReceiptNo = {
+  receipt_no: string;
+  short_no: number;
+  event_id: string;
+  device_id: string;
+};
+
+async function reservedFor(eventId: string, deviceId: string) {
+  const all = await idbGetAll<ReservedReceiptNo>(STORE_RECEIPT_NUMBERS);
+  return all.filter((r) => r.event_id === eventId && r.device_id === deviceId);
+}
+
+export async function countReservedReceiptNos(eventId: string, deviceId: string) {
+  return (await reservedFor(eventId, deviceId)).length;
+}
+
+/**
+ * ✅ Füllt den lokalen Pool auf, sobald er unter RECEIPT_POOL_LOW fällt.
+ * RPC: public.reserve_receipt_block(p_event_id uuid, p_device_id text, p_count integer) returns table (receipt_no text, short_no integer)
+ */
+export async function topUpReceiptNumbers(eventId: string, deviceId: string): Promise<number> {
+  const have = await countReservedReceiptNos(eventId, deviceId);
+  if (have >= RECEIPT_POOL_LOW) return have;
+
+  const { data, error } = await supabase.rpc("reserve_receipt_block", {
+    p_event_id: eventId,
+    p_device_id: deviceId,
+    p_count: RECEIPT_BLOCK_SIZE,
+  });
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as Array<{ receipt_no: string; short_no: number }>;
+  for (const r of rows) {
+    await idbPut<ReservedReceiptNo>(STORE_RECEIPT_NUMBERS, { receipt_no: r.receipt_no, short_no: r.short_no, event_id: eventId, device_id: deviceId });
+  }
+
+  return have + rows.length;
+}
+
+/** Nimmt die nächste reservierte Bon-Nummer. Ist der Pool leer, wird (falls online) nachreserviert. */
+export async function takeReceiptNumber(eventId: string, deviceId: string): Promise<{ receipt_no: string; short_no: number }> {
+  const take = () =>
+    idbTake<ReservedReceiptNo>(
+      STORE_RECEIPT_NUMBERS,
+      (all) =>
+        all
+          .filter((r) => r.event_id === eventId && r.device_id === deviceId)
+          .sort((a, b) => a.short_no - b.short_no)[0],
+      (r) => r.receipt_no,
+    );
+
+  let next = await take();
+  if (!next) {
+    try {
+      await topUpReceiptNumbers(eventId, deviceId);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Keine Bon-Nummern mehr reserviert und keine Verbindung zum Server (${msg}).`);
+    }
+    next = await take();
+  }
+  if (!next) throw new Error("reserve_receipt_block() hat keine Bon-Nummern geliefert. Prüfe event_counters / RPC.");
+
+  return { receipt_no: next.receipt_no, short_no: next.short_no };
+}
+
+// ====== Outbox ======
+type PendingBase = {
+  seq?: number;
+  id: string;
+  device_id: string;
+  receipt_no: string | null; // null = Schicht-Öffnung
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+};
+
+// Storno-Belege laufen durch dieselbe Outbox, damit die RKSV-Kette in Reihenfolge beim Server ankommt;
+// offline geöffnete Schichten ebenso, damit sie vor ihren Bons da sind
+export type PendingOrder =
+  | (PendingBase & { rpc?: "create_order"; params: CreateOrderParams })
+  | (PendingBase & { rpc: "create_storno"; params: CreateStornoParams })
+  | (PendingBase & { rpc: "open_shift"; params: OpenShiftParams });
+
+type NewPendingOrder = Omit<PendingBase, "seq" | "attempts" | "last_error"> &
+  (
+    | { rpc?: "create_order"; params: CreateOrderParams }
+    | { rpc: "create_storno"; params: CreateStornoParams }
+    | { rpc: "open_shift"; params: OpenShiftParams }
+  );
+
+/** Vom Server abgelehnt: bleibt lokal, bis er erneut gesendet wird (last_error = Grund). */
+export type RejectedOrder = PendingOrder & { rejected_at: string };
+
+export type OutboxState = {
+  pendingIds: string[];
+  syncing: boolean;
+  lastError: string | null;
+  rejected: RejectedOrder[];
+};
+
+let state: OutboxState = { pendingIds: [], syncing: false, lastError: null, rejected: [] };
+const listeners = new Set<(s: OutboxState) => void>();
+
+function setState(patch: Partial<OutboxState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l(state));
+}
+
+export function subscribeOutbox(listener: (s: OutboxState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function refreshPending() {
+  const [all, rejected] = await Promise.all([idbGetAll<PendingOrder>(STORE_OUTBOX), idbGetAll<RejectedOrder>(STORE_REJECTED)]);
+  const first = all[0];
+  setState({ pendingIds: all.map((p) => p.id), lastError: first?.last_error ?? null, rejected });
+}
+
+/** also: weiterer Datensatz in derselben Transaktion (RKSV-Kettenstand des Belegs, siehe signReceipt). */
+export async function enqueueOrder(p: NewPendingOrder, also?: { store: string; value: unknown }) {
+  const entry: PendingOrder = { ...p, attempts: 0, last_error: null };
+  await idbTransaction([STORE_OUTBOX, ...(also ? [also.store] : [])], (tx) => {
+    tx.objectStore(STORE_OUTBOX).put(entry);
+    if (also) tx.objectStore(also.store).put(also.value);
+  });
+  await refreshPending();
+}
+
+/** Liegt dieser Bon noch in der Outbox? */
+export async function isPending(id: string) {
+  const all = await idbGetAll<PendingOrder>(STORE_OUTBOX);
+  return all.some((p) => p.id === id);
+}
+
+/** Anzahl Bons in der Outbox (z.B. vor dem Schichtabschluss). */
+export async function countPending() {
+  return (await idbGetAll<PendingOrder>(STORE_OUTBOX)).length;
+}
+
+// SQLSTATE-Klassen, bei denen Nachsenden helfen kann: Verbindung, Deadlock/Serialisierung, Überlastung, Neustart
+const TRANSIENT_SQLSTATE = /^(08|40|53|57|58|XX)/;
+
+/**
+ * Hat die DB den Eintrag abgelehnt (z.B. raise exception in create_order)? Dann hilft Nachsenden nicht.
+ * Netzwerkfehler, Timeouts und Gateway-/PostgREST-Fehler haben keinen SQLSTATE-Code → später nochmal.
+ */
+function isRejection(e: unknown) {
+  const cause = e instanceof Error ? (e.cause as { code?: unknown } | undefined) : undefined;
+  const code = typeof cause?.code === "string" ? cause.code : "";
+  return /^[0-9A-Z]{5}$/.test(code) && !TRANSIENT_SQLSTATE.test(code);
+}
+
+async function doFlush() {
+  const all = await idbGetAll<PendingOrder>(STORE_OUTBOX);
+
+  for (const p of all) {
+    try {
+      // Idempotenz-Key = Order-ID vom Gerät → Nachsenden erzeugt nie doppelte Bons
+      if (p.rpc === "create_storno") await createStorno(p.params);
+      else if (p.rpc === "open_shift") await openShift(p.params);
+      else await createOrder(p.params);
+      await idbDelete(STORE_OUTBOX, p.seq!);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      if (isRejection(e)) {
+        // Signierter Beleg: nur weiter, wenn der Server ihn für die RKSV-Kette festgehalten hat
+        if (p.rpc !== "open_shift" && p.params.p_rksv) {
+          try {
+            await recordRejectedReceipt(p.rpc ?? "create_order", p.params, msg);
+          } catch (re) {
+            const reMsg = re instanceof Error ? re.message : String(re);
+            await idbPut<PendingOrder>(STORE_OUTBOX, { ...p, attempts: p.attempts + 1, last_error: `${msg} (nicht als abgelehnt gespeichert: ${reMsg})` });
+            break;
+          }
+        }
+        // Abgelehnt: in die Ablage verschieben, damit die Bons dahinter nicht hängen bleiben
+        const rejected: RejectedOrder = { ...p, attempts: p.attempts + 1, last_error: msg, rejected_at: new Date().toISOString() };
+        await idbTransaction([STORE_OUTBOX, STORE_REJECTED], (tx) => {
+          tx.objectStore(STORE_OUTBOX).delete(p.seq!);
+          tx.objectStore(STORE_REJECTED).put(rejected);
+        });
+        continue;
+      }
+      await idbPut<PendingOrder>(STORE_OUTBOX, { ...p, attempts: p.attempts + 1, last_error: msg });
+      // Reihenfolge einhalten: spätere Bons erst nach diesem übertragen
+      break;
+    }
+  }
+}
+
+/** Abgelehnten Eintrag wieder ans Ende der Outbox stellen (z.B. nachdem ein Artikel wieder aktiv ist) und senden. */
+export async function retryRejected(seq: number) {
+  const p = await idbGet<RejectedOrder>(STORE_REJECTED, seq);
+  if (!p) return;
+
+  const entry: Partial<RejectedOrder> = { ...p, attempts: 0, last_error: null };
+  delete entry.seq; // neue seq = neue Position am Ende
+  delete entry.rejected_at;
+  await idbTransaction([STORE_OUTBOX, STORE_REJECTED], (tx) => {
+    tx.objectStore(STORE_REJECTED).delete(seq);
+    tx.objectStore(STORE_OUTBOX).put(entry);
+  });
+  await refreshPending();
+  await flushOutbox();
+}
+
+let flushing: Promise<void> | null = null;
+
+/** Überträgt alle offenen Bons in der Reihenfolge, in der sie abgeschlossen wurden. */
+export function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    try {
+      setState({ syncing: true });
+      if (navigator.onLine) await doFlush();
+    } finally {
+      await refreshPending().catch(() => undefined);
+      setState({ syncing: false });
+      flushing = null;
+    }
+  })();
+
+  return flushing;
+}
+
+/** Startet die automatische Synchronisierung (beim Start, bei "online" und periodisch). */
+export function startOutboxSync() {
+  const run = () => void flushOutbox();
+
+  window.addEventListener("online", run);
+  const timer = window.setInterval(() => {
+    if (state.pendingIds.length > 0) run();
+  }, SYNC_INTERVAL_MS);
+  run();
+
+  return () => {
+    window.removeEventListener("online", run);
+    window.clearInterval(timer);
+  };
+}
@@ -0,0 +1,124 @@
+import { supabase } from "./supabase";
+import type { ReceiptDocument } from "./receipt";
+import type { RksvSignedReceipt } from "./rksv";
+
+export type ReceiptResponse = {
+  order_id: string;
+  receipt_no: string;
+  short_no: number;
+  public_token: string;
+  receipt_url: string;
+  gross: number;
+  tax: number;
+  net: number;
+  deposit: number;
+  total_payable: number;
+};
+
+export type CreateOrderLine = { product_id: string; qty: number; discount?: CreateOrderDiscount };
+/** Rabatt mit Grund (discount_reasons); der Server rechnet den Betrag selbst nach. */
+export type CreateOrderDiscount = { kind: "percent" | "amount" | "price" | "free"; value: number; reason_id: string };
+export type CreateOrderDeposit = { deposit_type_id: string; qty: number }; // qty < 0 = Rückgabe
+
+export type CreateOrderPayment = {
+  method: "cash" | "sumup";
+  amount: number; // Summe aller Zahlungen = Bon-Betrag inkl. Pfand
+  provider?: string | null; // Karte: Terminal-Anbieter + Transaktion
+  transaction_id?: string | null;
+};
+
+export type CreateOrderParams = {
+  p_idempotency_key: string; // = orders.id, am Gerät erzeugt
+  p_event_id: string;
+  p_bar_id: string;
+  p_device_id: string;
+  p_session: string; // Sitzungs-Token des Kassiers (start_staff_session) – der Server ermittelt daraus den Mitarbeiter
+  p_payment_method: "cash" | "sumup" | "split";
+  p_lines: CreateOrderLine[];
+  p_deposits: CreateOrderDeposit[]; // manuelle Pfand-Buchungen je Art, Pfand aus Produkten rechnet der Server
+  p_deposit_adjust?: number; // pauschale Korrektur – nur noch in Outbox-Einträgen älterer Versionen
+  p_print: boolean;
+  p_print_payload: string | null;
+  p_receipt_no: string | null;
+  p_public_token: string | null;
+  p_created_at: string | null;
+  p_rksv: RksvSignedReceipt | null; // Signatur + Belegart (Start-/Monats-/Nullbelege ohne Positionen)
+  p_receipt_document?: ReceiptDocument | null; // Beleg für Druck + Beleganzeige (fehlt bei Nullbelegen und alten Outbox-Einträgen)
+  p_card_payment?: { provider: string; transaction_id: string } | null; // freigegebene Kartenzahlung (nur sumup)
+  p_payments?: CreateOrderPayment[] | null; // ohne Angabe: eine Zahlung p_payment_method über den ganzen Betrag
+  p_cash_tendered?: number | null; // vom Kunden gegeben (nur mit Bar-Anteil), Rückgeld rechnet die DB
+  p_discount?: CreateOrderDiscount | null; // Rabatt auf den ganzen Bon (kein "price")
+  p_discount_session?: string | null; // Sitzung dessen, der den Rabatt freigegeben hat, falls nicht der Kassier selbst
+};
+
+/**
+ * ✅ Checkout in einer DB-Transaktion (Order + Items + Druckjob)
+ * RPC: public.create_order(p_idempotency_key uuid, p_event_id uuid, p_bar_id uuid, ...) returns table (ReceiptResponse)
+ * Preise/USt rechnet der Server aus products. Wiederholte Aufrufe mit demselben Key liefern denselben Beleg.
+ */
+export async function createOrder(params: CreateOrderParams): Promise<ReceiptResponse> {
+  const { data, error } = await supabase.rpc("create_order", params);
+  if (error) throw new Error(error.message, { cause: error });
+
+  const row = (Array.isArray(data) ? data[0] : data) as ReceiptResponse | null;
+  if (!row?.order_id || !row?.receipt_no) throw new Error("create_order() hat keinen Beleg geliefert.");
+
+  return {
+    ...row,
+    gross: Number(row.gross),
+    tax: Number(row.tax),
+    net: Number(row.net),
+    deposit: Number(row.deposit),
+    total_payable: Number(row.total_payable),
+  };
+}
+
+export type CreateStornoParams = {
+  p_idempotency_key: string; // = orders.id des Storno-Belegs
+  p_original_order_id: string;
+  p_device_id: string;
+  p_session: string; // Sitzung dessen, der storniert
+  p_voided_by: string;
+  p_reason: string;
+  p_receipt_no: string | null;
+  p_public_token: string | null;
+  p_created_at: string | null;
+  p_rksv: RksvSignedReceipt | null;
+  p_receipt_document?: ReceiptDocument | null;
+  p_lines?: CreateOrderLine[] | null; // Teil-Storno: zurückgenommene Stück je Produkt
+  p_deposits?: CreateOrderDeposit[] | null; // Teil-Storno: zurückgenommenes ausgegebenes Pfand (Stück > 0)
+  p_refund_method?: "cash" | "sumup" | null; // Erstattung bei Teil-Storno (ohne Angabe: wie bezahlt, geteilt → bar)
+  p_print?: boolean;
+  p_print_payload?: string | null;
+};
+
+/**
+ * ✅ Storno als eigener (negativer) Beleg + voids-Eintrag, in einer Transaktion. Ohne p_lines/p_deposits wird alles
+ * noch Offene storniert und das Original als storniert markiert; mit Auswahl bleibt es gültig (Teil-Storno).
+ * RPC: public.create_storno(p_idempotency_key uuid, p_original_order_id uuid, ...) returns table (ReceiptResponse)
+ */
+export async function createStorno(params: CreateStornoParams): Promise<ReceiptResponse> {
+  const { data, error } = await supabase.rpc("create_storno", params);
+  if (error) throw new Error(error.message, { cause: error });
+
+  const row = (Array.isArray(data) ? data[0] : data) as ReceiptResponse | null;
+  if (!row?.order_id || !row?.receipt_no) throw new Error("create_storno() hat keinen Beleg geliefert.");
+
+  return {
+    ...row,
+    gross: Number(row.gross),
+    tax: Number(row.tax),
+    net: Number(row.net),
+    deposit: Number(row.deposit),
+    total_payable: Number(row.total_payable),
+  };
+}
+
+/**
+ * Abgelehnten, aber schon signierten Beleg am Server festhalten, damit die RKSV-Kette im DEP vollständig bleibt.
+ * RPC: public.record_rejected_receipt(p_rpc text, p_params jsonb, p_error text)
+ */
+export async function recordRejectedReceipt(rpc: "create_order" | "create_storno", params: CreateOrderParams | CreateStornoParams, reason: string) {
+  const { error } = await supabase.rpc("record_rejected_receipt", { p_rpc: rpc, p_params: params, p_error: reason });
+  if (error) throw new Error(error.message, { cause: error });
+}
@@ -0,0 +1,62 @@
+import { supabase } from "./supabase";
+
+// ====== Berechtigungen ======
+// Jede Rolle (Kassier, Schichtleiter, Kassenwart, Admin …) hat benannte Berechtigungen (public.role_permissions).
+// Die RPCs prüfen selbst anhand des Sitzungs-Tokens (assert_session_permission) – die Kassa blendet hier nur aus, was der Server ablehnen würde.
+
+export type Permission =
+  | "void_own_last"
+  | "void_any"
+  | "reprint"
+  | "view_reports"
+  | "give_discounts"
+  | "adjust_deposit"
+  | "manage_catalog"
+  | "manage_staff"
+  | "manage_shift";
+
+export const PERMISSIONS: { key: Permission; label: string }[] = [
+  { key: "void_own_last", label: "Eigenen letzten Bon stornieren" },
+  { key: "void_any", label: "Beliebigen Bon stornieren" },
+  { key: "reprint", label: "Bon nachdrucken" },
+  { key: "view_reports", label: "Berichte, Abschlüsse, Export" },
+  { key: "give_discounts", label: "Rabatte geben" },
+  { key: "adjust_deposit", label: "Pfand über Limit buchen" },
+  { key: "manage_catalog", label: "Sortiment, Events, Drucker" },
+  { key: "manage_staff", label: "Mitarbeiter und Rollen" },
+  { key: "manage_shift", label: "Schicht öffnen und schließen" },
+];
+
+export type Role = { key: string; label: string; sort_order: number; permissions: Permission[] };
+
+/** Ohne Berechtigung → false (auch wenn niemand eingeloggt ist). */
+export function can(who: { permissions: Permission[] } | null | undefined, permission: Permission) {
+  return !!who?.permissions.includes(permission);
+}
+
+/** RPC: public.staff_permissions(p_staff_id uuid) returns text[] */
+export async function loadStaffPermissions(staffId: string): Promise<Permission[]> {
+  const { data, error } = await supabase.rpc("staff_permissions", { p_staff_id: staffId });
+  if (error) throw new Error(error.message);
+  const known = new Set(PERMISSIONS.map((p) => p.key as string));
+  return ((data ?? []) as string[]).filter((p): p is Permission => known.has(p));
+}
+
+export async function loadRoles(): Promise<Role[]> {
+  const [{ data: roles, error: rErr }, { data: perms, error: pErr }] = await Promise.all([
+    supabase.from("roles").select("key,label,sort_order").order("sort_order"),
+    supabase.from("role_permissions").select("role,permission"),
+  ]);
+  if (rErr) throw new Error(rErr.message);
+  if (pErr) throw new Error(pErr.message);
+
+  const byRole = new Map<string, Permission[]>();
+  ((perms ?? []) as Array<{ role: string; permission: Permission }>).forEach((p) => byRole.set(p.role, [...(byRole.get(p.role) ?? []), p.permission]));
+  return ((roles ?? []) as Array<{ key: string; label: string; sort_order: number }>).map((r) => ({ ...r, permissions: byRole.get(r.key) ?? [] }));
+}
+
+/** RPC: public.save_role(p_session text, p_key text, p_label text, p_permissions text[]) */
+export async function saveRole(session: string, role: { key: string; label: string; permissions: Permission[] }) {
+  const { error } = await supabase.rpc("save_role", { p_session: session, p_key: role.key, p_label: role.label, p_permissions: role.permissions });
+  if (error) throw new Error(error.message);
+}
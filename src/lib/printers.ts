@@ -0,0 +1,198 @@
+import { supabase } from "./supabase";
+
+// ====== Drucker (Admin) ======
+// Ein Drucker bedient die ihm zugeordneten Bars; ohne Bars ist er Standarddrucker des Events.
+// Welcher Drucker einen Job bekommt, entscheidet die DB beim Insert (route_print_job).
+// Die Print-Bridge wird mit PRINTER_ID = printers.id gestartet.
+// Produktionsstationen (Bonierung) bekommen pro Bon ein eigenes Ticket, gedruckt am Drucker der Station.
+
+export type Printer = {
+  id: string;
+  event_id: string;
+  name: string;
+  is_active: boolean;
+  bar_ids: string[];
+};
+
+export type Station = {
+  id: string;
+  event_id: string;
+  name: string;
+  printer_id: string | null; // null = Drucker der Bar
+  sort_order: number;
+  is_active: boolean;
+};
+
+export type PrintJobStatus = "queued" | "printing" | "printed" | "failed";
+
+export type PrintJob = {
+  id: string | number;
+  order_id: string | null;
+  printer_id: string | null;
+  kind: "receipt" | "ticket" | "report" | "drawer"; // drawer = nur Kassenlade öffnen
+  station_id: string | null;
+  status: PrintJobStatus;
+  attempts: number;
+  last_error: string | null;
+  claimed_by: string | null;
+  created_at: string;
+};
+
+export const PRINT_JOB_STATUS_LABEL: Record<PrintJobStatus, string> = {
+  queued: "wartet",
+  printing: "druckt",
+  printed: "gedruckt",
+  failed: "fehlgeschlagen",
+};
+
+export async function loadPrinters(eventId: string): Promise<Printer[]> {
+  const { data, error } = await supabase
+    .from("printers")
+    .select("id,event_id,name,is_active,printer_bars(bar_id)")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  return ((data ?? []) as Array<Omit<Printer, "bar_ids"> & { printer_bars: { bar_id: string }[] | null }>).map(({ printer_bars, ...p }) => ({
+    ...p,
+    bar_ids: (printer_bars ?? []).map((b) => b.bar_id),
+  }));
+}
+
+export async function loadStations(eventId: string): Promise<Station[]> {
+  const { data, error } = await supabase
+    .from("production_stations")
+    .select("id,event_id,name,printer_id,sort_order,is_active")
+    .eq("event_id", eventId)
+    .order("sort_order", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as Station[];
+}
+
+/** Offene und fehlgeschlagene Druckjobs des Events (neueste zuerst). */
+export async function loadOpenPrintJobs(eventId: string): Promise<PrintJob[]> {
+  const { data, error } = await supabase
+    .from("print_jobs")
+    .select("id,order_id,printer_id,kind,station_id,status,attempts,last_error,claimed_by,created_at")
+    .eq("event_id", eventId)
+    .in("status", ["queued", "printing", "failed"])
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as PrintJob[];
+}
+
+/** RPC: public.printer_save(p_session text, p_id uuid, p_event_id uuid, p_name text, p_bar_ids uuid[], p_is_active boolean) returns uuid */
+export async function savePrinter(session: string, p: { id: string | null; eventId: string; name: string; barIds: string[]; isActive: boolean }): Promise<string> {
+  const { data, error } = await supabase.rpc("printer_save", {
+    p_session: session,
+    p_id: p.id,
+    p_event_id: p.eventId,
+    p_name: p.name,
+    p_bar_ids: p.barIds,
+    p_is_active: p.isActive,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** RPC: public.station_save(p_session text, p_id uuid, p_event_id uuid, p_name text, p_printer_id uuid, p_is_active boolean) returns uuid */
+export async function saveStation(session: string, st: { id: string | null; eventId: string; name: string; printerId: string | null; isActive: boolean }): Promise<string> {
+  const { data, error } = await supabase.rpc("station_save", {
+    p_session: session,
+    p_id: st.id,
+    p_event_id: st.eventId,
+    p_name: st.name,
+    p_printer_id: st.printerId,
+    p_is_active: st.isActive,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/**
+ * Text-Ausdruck ohne Bon (z.B. Schichtabschluss) an den Drucker der Bar.
+ * RPC: public.queue_print_job(p_session text, p_event_id uuid, p_bar_id uuid, p_kind text, p_payload text)
+ */
+export async function queueTextPrint(session: string, args: { eventId: string; barId: string | null; kind: "report"; payload: string }) {
+  const { error } = await supabase.rpc("queue_print_job", {
+    p_session: session,
+    p_event_id: args.eventId,
+    p_bar_id: args.barId,
+    p_kind: args.kind,
+    p_payload: args.payload,
+  });
+  if (error) throw new Error(error.message);
+}
+
+/** RPC: public.retry_print_job(p_session text, p_job_id) – jeder Mitarbeiter (Kassa: letzter Bon) */
+export async function retryPrintJob(session: string, jobId: PrintJob["id"]) {
+  const { error } = await supabase.rpc("retry_print_job", { p_session: session, p_job_id: jobId });
+  if (error) throw new Error(error.message);
+}
+
+/** ✅ Nachdruck eines Bons (Berechtigung reprint wird in der DB geprüft)
+ * RPC: public.reprint_receipt(p_session text, p_order_id uuid, p_payload text, p_document jsonb) */
+export async function reprintReceipt(session: string, orderId: string, payload: string, document: unknown) {
+  const { error } = await supabase.rpc("reprint_receipt", { p_session: session, p_order_id: orderId, p_payload: payload, p_document: document });
+  if (error) throw new Error(error.message);
+}
+
+// ====== Status an der Kassa ======
+// Die Bridge schreibt alle 10 s einen Heartbeat in print_bridges. Bleibt er länger aus, gilt sie als offline.
+
+export type PrinterState = "online" | "paper_out" | "error" | "offline" | "none";
+
+export type PrinterStatus = { state: PrinterState; message: string | null; lastSeenAt: string | null };
+
+export const PRINTER_STATE_LABEL: Record<PrinterState, string> = {
+  online: "Drucker bereit",
+  paper_out: "Papier leer",
+  error: "Druckerfehler",
+  offline: "Drucker offline",
+  none: "Kein Drucker",
+};
+
+const HEARTBEAT_TIMEOUT_MS = 30000;
+
+/** Status des Druckers, der die Bons dieser Bar druckt (neuester Heartbeat). */
+export async function loadPrinterStatus(barId: string): Promise<PrinterStatus> {
+  const { data: printerId, error: pErr } = await supabase.rpc("printer_for_bar", { p_bar_id: barId });
+  if (pErr) throw new Error(pErr.message);
+
+  let q = supabase.from("print_bridges").select("status,message,last_seen_at");
+  q = printerId ? q.eq("printer_id", printerId as string) : q.is("printer_id", null);
+  const { data, error } = await q.order("last_seen_at", { ascending: false }).limit(1).maybeSingle();
+  if (error) throw new Error(error.message);
+
+  const row = data as { status: "online" | "paper_out" | "error"; message: string | null; last_seen_at: string } | null;
+  if (!row) return { state: "none", message: null, lastSeenAt: null };
+
+  const stale = Date.now() - new Date(row.last_seen_at).getTime() > HEARTBEAT_TIMEOUT_MS;
+  return { state: stale ? "offline" : row.status, message: stale ? null : row.message, lastSeenAt: row.last_seen_at };
+}
+
+/** Letzter Kundenbon-Druckjob eines Bons (null = noch keiner, z.B. Bon noch in der Outbox). */
+export async function loadOrderPrintJob(orderId: string): Promise<PrintJob | null> {
+  const { data, error } = await supabase
+    .from("print_jobs")
+    .select("id,order_id,printer_id,kind,station_id,status,attempts,last_error,claimed_by,created_at")
+    .eq("order_id", orderId)
+    .eq("kind", "receipt")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as PrintJob | null;
+}
+
+/** ✅ Live-Updates für Druckjobs und Bridge-Heartbeats. Liefert eine Funktion zum Abmelden. */
+export function subscribePrintStatus(onChange: (table: "print_jobs" | "print_bridges") => void) {
+  const channel = supabase
+    .channel("print-status")
+    .on("postgres_changes", { event: "*", schema: "public", table: "print_jobs" }, () => onChange("print_jobs"))
+    .on("postgres_changes", { event: "*", schema: "public", table: "print_bridges" }, () => onChange("print_bridges"))
+    .subscribe();
+
+  return () => void supabase.removeChannel(channel);
+}
@@ -0,0 +1,258 @@
+import { supabase } from "./supabase";
+import { formatDepositText, type DepositLine } from "./deposit";
+import { allocateDiscount } from "./discounts";
+import { formatTaxTable, taxBreakdown, type TaxLine } from "./tax";
+
+// ====== Beleg-Dokument ======
+// Ein Bon als strukturiertes JSON statt fertigem Text. Dasselbe Dokument landet in
+// orders.receipt_document (Beleganzeige /r/<token>, Reprint) und print_jobs.document (Print-Bridge),
+// Papier- und Digitalbeleg können dadurch nicht auseinanderlaufen.
+// Das Layout macht erst der Empfänger: die Bridge je Drucker-Vorlage (58/80 mm), die Kassa als Text.
+
+export type ReceiptDocumentLine = {
+  qty: number;
+  name: string;
+  unit_price: number;
+  total: number; // nach Positions-Rabatt
+  tax_rate: number;
+  discount?: { label: string; amount: number }; // Rabatt dieser Position
+};
+
+export type PaymentMethod = "cash" | "sumup";
+
+export type ReceiptPayment = { method: PaymentMethod; amount: number };
+
+export type ReceiptDocument = {
+  version: 1;
+  kind: "sale" | "storno" | "null";
+  bar_name: string;
+  receipt_no: string;
+  created_at: string;
+  cashier: { name: string; role: string } | null;
+  payment_method: PaymentMethod | "split";
+  payments?: ReceiptPayment[]; // fehlt bei Belegen vor den geteilten Zahlungen
+  cash?: { tendered: number; change: number } | null; // Gegeben/Rückgeld bei Barzahlung
+  lines: ReceiptDocumentLine[];
+  discount?: { label: string; amount: number } | null; // Rabatt auf den ganzen Bon (in den Steuern schon anteilig abgezogen)
+  deposits: DepositLine[];
+  deposit_total: number;
+  taxes: TaxLine[];
+  gross_total: number;
+  total: number;
+  receipt_url: string | null;
+  rksv: { cash_register_id: string; code: string; signature_failed: boolean } | null;
+  storno_of_receipt_no: string | null;
+};
+
+function round2(n: number) {
+  return (Math.sign(n) * Math.round((Math.abs(n) + Number.EPSILON) * 100)) / 100;
+}
+
+function euro(n: number) {
+  return new Intl.NumberFormat("de-AT", { style: "currency", currency: "EUR" }).format(n);
+}
+
+export const PAYMENT_METHOD_LABEL: Record<ReceiptDocument["payment_method"], string> = {
+  cash: "Bar",
+  sumup: "Karte (SumUp)",
+  split: "Bar + Karte",
+};
+
+export function receiptUrlFor(publicToken: string) {
+  return `${window.location.origin}/r/${publicToken}`;
+}
+
+/** Beleg aus Positionen/Pfand; Steuer-Aufteilung und Summen werden hier gerechnet. */
+export function buildReceiptDocument(args: {
+  kind?: ReceiptDocument["kind"];
+  barName: string;
+  receiptNo: string;
+  createdAt: string;
+  cashier: { name: string; role: string } | null;
+  paymentMethod: ReceiptDocument["payment_method"];
+  payments?: ReceiptPayment[];
+  cashTendered?: number | null;
+  lines: ReceiptDocumentLine[];
+  discount?: { label: string; amount: number } | null;
+  deposits: DepositLine[];
+  depositTotal: number;
+  receiptUrl: string | null;
+  rksv: ReceiptDocument["rksv"];
+  stornoOfReceiptNo?: string | null;
+}): ReceiptDocument {
+  // Bon-Rabatt anteilig je Position abziehen, die USt gilt für den rabattierten Betrag (wie create_order)
+  const shares = allocateDiscount(args.discount?.amount ?? 0, args.lines.map((l) => l.total));
+  const taxes = taxBreakdown(args.lines.map((l, i) => ({ tax_rate: l.tax_rate, gross: round2(l.total - shares[i]) })));
+  const gross = round2(taxes.reduce((s, t) => s + t.gross, 0));
+  const cashDue = args.payments
+    ? round2(args.payments.filter((p) => p.method === "cash").reduce((s, p) => s + p.amount, 0))
+    : round2(gross + args.depositTotal);
+
+  return {
+    version: 1,
+    kind: args.kind ?? "sale",
+    bar_name: args.barName,
+    receipt_no: args.receiptNo,
+    created_at: args.createdAt,
+    cashier: args.cashier,
+    payment_method: args.paymentMethod,
+    payments: args.payments,
+    cash: args.cashTendered != null ? { tendered: args.cashTendered, change: round2(args.cashTendered - cashDue) } : null,
+    lines: args.lines,
+    discount: args.discount ?? null,
+    deposits: args.deposits,
+    deposit_total: args.depositTotal,
+    taxes,
+    gross_total: gross,
+    total: round2(gross + args.depositTotal),
+    receipt_url: args.receiptUrl,
+    rksv: args.rksv,
+    storno_of_receipt_no: args.stornoOfReceiptNo ?? null,
+  };
+}
+
+/** Storno-Beleg: alle Beträge und Mengen des Originals negiert. */
+export function negateReceiptDocument(
+  original: ReceiptDocument,
+  next: Pick<ReceiptDocument, "receipt_no" | "created_at" | "cashier" | "receipt_url" | "rksv">
+): ReceiptDocument {
+  return {
+    ...original,
+    ...next,
+    kind: "storno",
+    lines: original.lines.map((l) => ({ ...l, qty: -l.qty, total: -l.total, discount: l.discount && { ...l.discount, amount: -l.discount.amount } })),
+    discount: original.discount && { ...original.discount, amount: -original.discount.amount },
+    deposits: original.deposits.map((d) => ({ ...d, issued: -d.issued, returned: -d.returned })),
+    deposit_total: -original.deposit_total,
+    payments: original.payments?.map((p) => ({ ...p, amount: -p.amount })),
+    cash: null,
+    taxes: original.taxes.map((t) => ({ ...t, gross: -t.gross, net: -t.net, tax: -t.tax })),
+    gross_total: -original.gross_total,
+    total: -original.total,
+    storno_of_receipt_no: original.receipt_no,
+  };
+}
+
+/** Klartext-Layout (29 Zeichen) – Beleganzeige und Text-Fallback in print_jobs.payload. */
+export function renderReceiptText(doc: ReceiptDocument, opts: { withRksvCode?: boolean } = {}) {
+  const sep = `-----------------------------\n`;
+
+  const head =
+    `*** ${doc.bar_name.toUpperCase()} ***\n` +
+    (doc.kind === "storno" ? `STORNO zu Bon ${doc.storno_of_receipt_no ?? "—"}\n` : "") +
+    `Bon-Nr: ${doc.receipt_no}\n` +
+    `${new Date(doc.created_at).toLocaleString("de-AT")}\n` +
+    `Kassier: ${doc.cashier ? `${doc.cashier.name} (${doc.cashier.role})` : "—"}\n` +
+    `Zahlung: ${PAYMENT_METHOD_LABEL[doc.payment_method] ?? doc.payment_method}\n` +
+    sep;
+
+  const body =
+    doc.lines
+      .map((l) =>
+        l.discount
+          ? `${l.qty}x ${l.name}  ${euro(round2(l.total + l.discount.amount))}\n   ${l.discount.label} ${euro(-l.discount.amount)}\n`
+          : `${l.qty}x ${l.name}  ${euro(l.total)}\n`
+      )
+      .join("") +
+    (doc.discount ? `Rabatt ${doc.discount.label} ${euro(-doc.discount.amount)}\n` : "");
+
+  const foot =
+    sep +
+    `PFAND (steuerfrei) ${euro(doc.deposit_total)}\n` +
+    formatDepositText(doc.deposits) +
+    sep +
+    formatTaxTable(doc.taxes) +
+    sep +
+    `GESAMT          ${euro(doc.total)}\n` +
+    (doc.payments && doc.payments.length > 1 ? doc.payments.map((p) => `  ${PAYMENT_METHOD_LABEL[p.method]}: ${euro(p.amount)}\n`).join("") : "") +
+    (doc.cash ? `Gegeben         ${euro(doc.cash.tendered)}\nRückgeld        ${euro(doc.cash.change)}\n` : "");
+
+  // ✅ RKSV: maschinenlesbarer Code (auf Papier als Text, digital als QR)
+  const rksv = doc.rksv
+    ? sep +
+      `Kassen-ID: ${doc.rksv.cash_register_id}\n` +
+      (doc.rksv.signature_failed ? `Sicherheitseinrichtung ausgefallen\n` : "") +
+      (opts.withRksvCode === false ? "" : `${doc.rksv.code}\n`)
+    : "";
+
+  return head + body + foot + rksv;
+}
+
+// ====== Laden ======
+type OrderRow = {
+  id: string;
+  bar_id: string;
+  receipt_no: string;
+  created_at: string;
+  payment_method: ReceiptDocument["payment_method"];
+  deposit_total: number | null;
+  status: string;
+  public_token: string;
+  cashier_name_snapshot: string | null;
+  cashier_role_snapshot: string | null;
+  rksv_receipt_type: string;
+  rksv_cash_register_id: string | null;
+  rksv_qr: string | null;
+  rksv_signature_failed: boolean;
+  receipt_document: ReceiptDocument | null;
+};
+
+export type LoadedReceipt = { orderId: string; status: string; document: ReceiptDocument };
+
+/**
+ * ✅ Beleg-Dokument eines Bons. Bons aus der Zeit vor receipt_document werden aus
+ * order_items/order_deposits rekonstruiert.
+ */
+export async function loadReceiptDocument(by: { orderId: string } | { publicToken: string } | { eventId: string; receiptNo: string }): Promise<LoadedReceipt> {
+  let q = supabase
+    .from("orders")
+    .select(
+      "id,bar_id,receipt_no,created_at,payment_method,deposit_total,status,public_token,cashier_name_snapshot,cashier_role_snapshot," +
+        "rksv_receipt_type,rksv_cash_register_id,rksv_qr,rksv_signature_failed,receipt_document"
+    );
+  if ("orderId" in by) q = q.eq("id", by.orderId);
+  else if ("publicToken" in by) q = q.eq("public_token", by.publicToken);
+  else q = q.eq("event_id", by.eventId).eq("receipt_no", by.receiptNo);
+
+  const { data, error } = await q.single();
+  if (error) throw new Error(error.message);
+  const o = data as unknown as OrderRow;
+
+  if (o.receipt_document) return { orderId: o.id, status: o.status, document: o.receipt_document };
+
+  const [{ data: items, error: iErr }, { data: deps, error: dErr }, { data: bar }] = await Promise.all([
+    supabase.from("order_items").select("name_snapshot,qty,unit_price_gross,line_total_gross,tax_rate").eq("order_id", o.id),
+    supabase.from("order_deposits").select("deposit_type_id,name_snapshot,value_snapshot,issued,returned").eq("order_id", o.id).order("id"),
+    supabase.from("bars").select("name").eq("id", o.bar_id).maybeSingle(),
+  ]);
+  if (iErr) throw new Error(iErr.message);
+  if (dErr) throw new Error(dErr.message);
+
+  const document = buildReceiptDocument({
+    kind: o.rksv_receipt_type === "storno" ? "storno" : o.rksv_receipt_type === "standard" ? "sale" : "null",
+    barName: (bar as { name: string } | null)?.name ?? "Bar",
+    receiptNo: o.receipt_no,
+    createdAt: o.created_at,
+    cashier: o.cashier_name_snapshot ? { name: o.cashier_name_snapshot, role: o.cashier_role_snapshot ?? "" } : null,
+    paymentMethod: o.payment_method,
+    lines: ((items ?? []) as Array<{ name_snapshot: string; qty: number; unit_price_gross: number; line_total_gross: number; tax_rate: number }>).map((i) => ({
+      qty: i.qty,
+      name: i.name_snapshot,
+      unit_price: Number(i.unit_price_gross),
+      total: Number(i.line_total_gross),
+      tax_rate: Number(i.tax_rate),
+    })),
+    deposits: ((deps ?? []) as Array<{ deposit_type_id: string | null; name_snapshot: string; value_snapshot: number; issued: number; returned: number }>).map((d) => ({
+      deposit_type_id: d.deposit_type_id,
+      name: d.name_snapshot,
+      value: Number(d.value_snapshot),
+      issued: d.issued,
+      returned: d.returned,
+    })),
+    depositTotal: Number(o.deposit_total ?? 0),
+    receiptUrl: receiptUrlFor(o.public_token),
+    rksv: o.rksv_qr ? { cash_register_id: o.rksv_cash_register_id ?? "", code: o.rksv_qr, signature_failed: o.rksv_signature_failed } : null,
+  });
+
+  return { orderId: o.id, status: o.status, document };
+}
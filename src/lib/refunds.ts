@@ -0,0 +1,151 @@
+import { supabase } from "./supabase";
+import { buildReceiptDocument, loadReceiptDocument, type PaymentMethod, type ReceiptDocument } from "./receipt";
+import type { DepositLine } from "./deposit";
+
+// ====== Teil-Storno (Rückerstattung) ======
+// Was an einem Verkaufsbon noch zurückgenommen werden kann: Original abzüglich früherer Storno-Belege.
+// create_storno prüft die Mengen nochmals in der DB – hier geht es um die Auswahl und den Storno-Beleg dazu.
+
+/** total/open_total: (rabattierter) Betrag der Position am Bon bzw. davon noch nicht erstattet. */
+export type RefundableLine = { product_id: string; name: string; unit_price: number; tax_rate: number; qty: number; open: number; total: number; open_total: number };
+
+/** Pfand je Art: issued/returned = noch offen (Stück). Zurücknehmen lässt sich nur ausgegebenes Pfand. */
+export type RefundableDeposit = { deposit_type_id: string | null; name: string; value: number; issued: number; returned: number };
+
+export type Refundable = {
+  orderId: string;
+  fullyRefunded: boolean; // aus den Storno-Belegen – das Original bleibt unverändert
+  document: ReceiptDocument;
+  lines: RefundableLine[];
+  deposits: RefundableDeposit[];
+  refunds: number; // bisherige Storno-Belege zu diesem Bon
+};
+
+/** Stück je product_id bzw. deposit_type_id. */
+export type RefundSelection = { lines: Record<string, number>; deposits: Record<string, number> };
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+/** Bon + offene Mengen. */
+export async function loadRefundable(by: { orderId: string } | { eventId: string; receiptNo: string }): Promise<Refundable> {
+  const { orderId, status, document } = await loadReceiptDocument(by);
+  if (document.kind !== "sale") throw new Error("Nur Verkaufsbelege können storniert werden.");
+
+  const { data: stornos, error: sErr } = await supabase.from("orders").select("id").eq("storno_of_order_id", orderId);
+  if (sErr) throw new Error(sErr.message);
+  const stornoIds = ((stornos ?? []) as Array<{ id: string }>).map((s) => s.id);
+  const ids = [orderId, ...stornoIds];
+
+  const [{ data: items, error: iErr }, { data: deps, error: dErr }] = await Promise.all([
+    supabase.from("order_items").select("order_id,product_id,name_snapshot,unit_price_gross,qty,line_total_gross,tax_rate").in("order_id", ids),
+    supabase.from("order_deposits").select("order_id,deposit_type_id,name_snapshot,value_snapshot,issued,returned").in("order_id", ids).order("id"),
+  ]);
+  if (iErr) throw new Error(iErr.message);
+  if (dErr) throw new Error(dErr.message);
+
+  const lines = new Map<string, RefundableLine>();
+  ((items ?? []) as Array<{ order_id: string; product_id: string; name_snapshot: string; unit_price_gross: number; qty: number; line_total_gross: number; tax_rate: number }>).forEach((i) => {
+    const l = lines.get(i.product_id) ?? {
+      product_id: i.product_id,
+      name: i.name_snapshot,
+      unit_price: Number(i.unit_price_gross),
+      tax_rate: Number(i.tax_rate),
+      qty: 0,
+      open: 0,
+      total: 0,
+      open_total: 0,
+    };
+    if (i.order_id === orderId) {
+      l.qty += i.qty;
+      l.total = round2(l.total + Number(i.line_total_gross));
+    }
+    l.open += i.qty; // Storno-Mengen/-Beträge sind negativ
+    l.open_total = round2(l.open_total + Number(i.line_total_gross));
+    lines.set(i.product_id, l);
+  });
+
+  const deposits = new Map<string, RefundableDeposit>();
+  ((deps ?? []) as Array<{ order_id: string; deposit_type_id: string | null; name_snapshot: string; value_snapshot: number; issued: number; returned: number }>).forEach((d) => {
+    const key = d.deposit_type_id ?? "";
+    const x = deposits.get(key) ?? { deposit_type_id: d.deposit_type_id, name: d.name_snapshot, value: Number(d.value_snapshot), issued: 0, returned: 0 };
+    x.issued += d.issued;
+    x.returned += d.returned;
+    deposits.set(key, x);
+  });
+
+  const open = [...lines.values()].filter((l) => l.qty > 0);
+  const openDeposits = [...deposits.values()].filter((d) => d.issued !== 0 || d.returned !== 0);
+  return {
+    orderId,
+    // "voided": Storno aus der Zeit, als das Original noch umgestellt wurde
+    fullyRefunded: status === "voided" || (stornoIds.length > 0 && open.every((l) => l.open <= 0) && openDeposits.length === 0),
+    document,
+    lines: open,
+    deposits: openDeposits,
+    refunds: stornoIds.length,
+  };
+}
+
+/** View public.order_refund_state: alles zurückgenommen (gleiche Regel wie create_storno). */
+export async function isFullyRefunded(orderId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("order_refund_state").select("fully_refunded").eq("order_id", orderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return !!(data as { fully_refunded: boolean } | null)?.fully_refunded;
+}
+
+/** Erstattung ohne Auswahl: wie bezahlt, geteilte Zahlung → bar (wie create_storno). */
+export function defaultRefundMethod(r: Refundable): PaymentMethod {
+  return r.document.payment_method === "split" ? "cash" : r.document.payment_method;
+}
+
+export function isEmptySelection(sel: RefundSelection) {
+  return !Object.values(sel.lines).some((q) => q > 0) && !Object.values(sel.deposits).some((q) => q > 0);
+}
+
+/** Erstattung für qty Stück: anteilig vom (rabattierten) Positionsbetrag, das letzte Stück bekommt den Rest – wie create_storno. */
+function refundAmount(l: RefundableLine, qty: number) {
+  return qty === l.open ? l.open_total : round2((l.total * qty) / l.qty);
+}
+
+/**
+ * Storno-Beleg (ohne Bon-Nummer/Signatur) für die Auswahl; "all" = alles noch Offene inkl. ausbezahltem Pfand.
+ * Beträge negativ, Steuer je Satz wie beim Verkauf gerechnet.
+ */
+export function buildRefundDocument(
+  r: Refundable,
+  sel: RefundSelection | "all",
+  meta: { cashier: { name: string; role: string } | null; method: PaymentMethod }
+): ReceiptDocument {
+  const lines = r.lines
+    .map((l) => ({ l, qty: sel === "all" ? l.open : Math.min(sel.lines[l.product_id] ?? 0, l.open) }))
+    .filter((x) => x.qty > 0)
+    .map(({ l, qty }) => ({ qty: -qty, name: l.name, unit_price: l.unit_price, total: -refundAmount(l, qty), tax_rate: l.tax_rate }));
+
+  const deposits: DepositLine[] = r.deposits
+    .map((d) =>
+      sel === "all"
+        ? { deposit_type_id: d.deposit_type_id, name: d.name, value: d.value, issued: -d.issued, returned: -d.returned }
+        : { deposit_type_id: d.deposit_type_id, name: d.name, value: d.value, issued: -Math.min(sel.deposits[d.deposit_type_id ?? ""] ?? 0, d.issued), returned: 0 }
+    )
+    .filter((d) => d.issued !== 0 || d.returned !== 0);
+  const depositTotal = round2(deposits.reduce((s, d) => s + (d.issued - d.returned) * d.value, 0));
+  const total = round2(lines.reduce((s, l) => s + l.total, 0) + depositTotal);
+
+  return buildReceiptDocument({
+    kind: "storno",
+    barName: r.document.bar_name,
+    receiptNo: "",
+    createdAt: "",
+    cashier: meta.cashier,
+    paymentMethod: meta.method,
+    payments: [{ method: meta.method, amount: total }],
+    lines,
+    deposits,
+    depositTotal,
+    receiptUrl: null,
+    rksv: null,
+    stornoOfReceiptNo: r.document.receipt_no,
+  });
+}
@@ -0,0 +1,163 @@
+import { supabase } from "./supabase";
+import { taxRateLabel, type TaxLine } from "./tax";
+
+// ====== X/Z-Berichte ======
+// X-Bericht = Zwischenstand für einen Zeitraum (sales_report), Z-Bericht = festgeschriebener Abschluss mit
+// fortlaufender Nummer (z_reports, unveränderbar). Ein Geschäftstag beginnt um events.day_cutoff (z.B. 06:00).
+
+export type ReportGroup = {
+  key: string;
+  label: string;
+  receipts: number;
+  storno_count: number;
+  storno_amount: number; // negativ
+  gross: number | null; // Waren nach Storno (null bei Zahlungsarten: ein geteilter Bon ist nicht aufteilbar)
+  deposit: number | null;
+  total: number;
+};
+
+export type SalesReport = {
+  event_id: string;
+  from: string;
+  to: string;
+  receipts: number;
+  storno_count: number;
+  storno_amount: number;
+  late_receipts?: number; // nach einem Z-Bericht übertragen, hier nachgebucht (fehlt bei älteren Z-Berichten)
+  gross: number;
+  net: number;
+  tax: number;
+  deposit: number;
+  total: number;
+  taxes: TaxLine[];
+  by_bar: ReportGroup[];
+  by_device: ReportGroup[];
+  by_cashier: ReportGroup[];
+  by_payment: ReportGroup[];
+  by_hour: ReportGroup[];
+};
+
+export type ZReport = {
+  id: string;
+  event_id: string;
+  z_no: number;
+  period_from: string;
+  period_to: string;
+  created_at: string;
+  created_by_name: string | null;
+  data: SalesReport;
+};
+
+export const REPORT_GROUPS: { key: "by_bar" | "by_device" | "by_cashier" | "by_payment" | "by_hour"; label: string }[] = [
+  { key: "by_bar", label: "Bars" },
+  { key: "by_device", label: "Geräte" },
+  { key: "by_cashier", label: "Kassiere" },
+  { key: "by_payment", label: "Zahlungsart" },
+  { key: "by_hour", label: "Stunden" },
+];
+
+/** Geschäftstag (YYYY-MM-DD) → [von, bis) in Ortszeit, z.B. 12.07. 06:00 bis 13.07. 06:00. */
+export function businessDayRange(day: string, cutoff: string) {
+  const from = new Date(`${day}T${cutoff.slice(0, 5)}:00`);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+}
+
+/** Geschäftstag, zu dem ein Zeitpunkt gehört (vor dem Tageswechsel → Vortag). */
+export function businessDayOf(at: Date, cutoff: string) {
+  const d = new Date(at);
+  const [h, m] = cutoff.split(":").map(Number);
+  if (d.getHours() * 60 + d.getMinutes() < h * 60 + m) d.setDate(d.getDate() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** RPC: public.sales_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz) returns jsonb – view_reports */
+export async function loadSalesReport(session: string, eventId: string, from: Date, to: Date): Promise<SalesReport> {
+  const { data, error } = await supabase.rpc("sales_report", { p_session: session, p_event_id: eventId, p_from: from.toISOString(), p_to: to.toISOString() });
+  if (error) throw new Error(error.message);
+  return data as SalesReport;
+}
+
+/** Rabatte je Grund und Kassier (komplett stornierte Bons zählen nicht). */
+export type DiscountReport = {
+  from: string;
+  to: string;
+  count: number;
+  amount: number;
+  rows: { reason: string; cashier: string; receipts: number; count: number; amount: number }[];
+};
+
+/** RPC: public.discount_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz) returns jsonb – view_reports */
+export async function loadDiscountReport(session: string, eventId: string, from: Date, to: Date): Promise<DiscountReport> {
+  const { data, error } = await supabase.rpc("discount_report", { p_session: session, p_event_id: eventId, p_from: from.toISOString(), p_to: to.toISOString() });
+  if (error) throw new Error(error.message);
+  return data as DiscountReport;
+}
+
+export async function loadZReports(eventId: string): Promise<ZReport[]> {
+  const { data, error } = await supabase.from("z_reports").select("*").eq("event_id", eventId).order("z_no", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as ZReport[];
+}
+
+/** RPC: public.create_z_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz) returns setof z_reports */
+export async function createZReport(session: string, eventId: string, from: Date, to: Date): Promise<ZReport> {
+  const { data, error } = await supabase.rpc("create_z_report", {
+    p_session: session,
+    p_event_id: eventId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+  if (error) throw new Error(error.message);
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error("create_z_report() hat keinen Bericht geliefert.");
+  return row as ZReport;
+}
+
+/** RPC: public.set_event_day_cutoff(p_session text, p_event_id uuid, p_cutoff time) */
+export async function setEventDayCutoff(session: string, eventId: string, cutoff: string) {
+  const { error } = await supabase.rpc("set_event_day_cutoff", { p_session: session, p_event_id: eventId, p_cutoff: cutoff });
+  if (error) throw new Error(error.message);
+}
+
+function euro(n: number) {
+  return new Intl.NumberFormat("de-AT", { style: "currency", currency: "EUR" }).format(n);
+}
+
+/** X- oder Z-Bericht als Bon-Text (29 Zeichen, wie die Kassenbons). */
+export function formatSalesReport(r: SalesReport, opts: { eventName: string; zNo?: number | null; createdBy?: string | null }) {
+  const sep = `-----------------------------\n`;
+  const row = (label: string, value: string) => {
+    const l = label.length > 28 - value.length ? label.slice(0, 28 - value.length) : label;
+    return `${l.padEnd(29 - value.length)}${value}\n`;
+  };
+  const date = (s: string) => new Date(s).toLocaleString("de-AT", { dateStyle: "short", timeStyle: "short" });
+
+  let text =
+    (opts.zNo ? `Z-BERICHT Nr. ${opts.zNo}\n` : `X-BERICHT (Zwischenstand)\n`) +
+    `${opts.eventName}\n` +
+    `Von: ${date(r.from)}\n` +
+    `Bis: ${date(r.to)}\n` +
+    (opts.createdBy ? `Erstellt von: ${opts.createdBy}\n` : "") +
+    sep +
+    row("Bons", String(r.receipts)) +
+    row(`Stornos (${r.storno_count})`, euro(r.storno_amount)) +
+    (r.late_receipts ? row("Davon nachgebucht", String(r.late_receipts)) : "") +
+    sep;
+
+  r.taxes.forEach((t) => {
+    text += row(`USt ${taxRateLabel(t.tax_rate)} Netto`, euro(t.net));
+    text += row(`USt ${taxRateLabel(t.tax_rate)} Steuer`, euro(t.tax));
+  });
+
+  text += row("Brutto (Waren)", euro(r.gross)) + row("Pfand", euro(r.deposit)) + row("GESAMT", euro(r.total));
+
+  REPORT_GROUPS.forEach((g) => {
+    if (r[g.key].length === 0) return;
+    text += sep + `${g.label.toUpperCase()}\n`;
+    r[g.key].forEach((x) => (text += row(`${x.label} (${x.receipts})`, euro(x.total))));
+  });
+
+  return text;
+}
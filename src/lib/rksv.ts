@@ -0,0 +1,399 @@
+import { supabase } from "./supabase";
+import { STORE_RKSV, idbGet, idbPut } from "./localDb";
+
+// ====== RKSV (Registrierkassensicherheitsverordnung) ======
+// Jedes Gerät ist eine eigene Registrierkasse (Kassen-ID = Geräte-ID) mit eigener Signaturkette.
+// Signiert wird direkt beim Bonieren am Gerät, damit die Kette auch offline lückenlos bleibt.
+// Der Signierer ist austauschbar: lokal ein Software-Schlüssel, im Echtbetrieb Smartcard/HSM.
+
+export type RksvReceiptType =
+  | "standard"
+  | "storno"
+  | "training"
+  | "start" // Startbeleg (erster Beleg der Kasse)
+  | "month" // Monatsbeleg
+  | "year" // Jahresbeleg (= Monatsbeleg Dezember)
+  | "null"; // Nullbeleg (manuell oder Sammelbeleg nach Ausfall der Sicherheitseinrichtung)
+
+/** Brutto-Beträge in € je Steuersatz: Normal 20 %, Ermäßigt-1 10 %, Ermäßigt-2 13 %, Null 0 %, Besonders 19 % */
+export type RksvAmounts = {
+  normal?: number;
+  reduced1?: number;
+  reduced2?: number;
+  zero?: number;
+  special?: number;
+};
+
+export type RksvSigner = {
+  /** ZDA-Kennung im Beleg: "AT0" = ohne Zertifizierungsdiensteanbieter (Software-Schlüssel), "AT1" = A-Trust, … */
+  zdaId: string;
+  /** Zertifikat-Seriennummer (hex) bzw. Ordnungsbegriff des Schlüssels */
+  certificateSerial: string;
+  /** Base64 (DER) – Signaturzertifikat bzw. beim Software-Schlüssel der öffentliche Schlüssel (SPKI) */
+  certificate: string;
+  /** ES256-Signatur (r||s, 64 Bytes) über die übergebenen Bytes */
+  sign(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>>;
+};
+
+export type RksvSignedReceipt = {
+  cash_register_id: string;
+  seq: number; // laufende Nummer in der Kette dieser Kasse (Reihenfolge für den DEP-Export)
+  receipt_no: string;
+  receipt_type: RksvReceiptType;
+  created_at: string; // ISO – derselbe Zeitpunkt, der (lokal) im Beleg signiert ist
+  jws: string;
+  qr: string; // Maschinenlesbarer Code inkl. Signatur
+  signature_failed: boolean;
+};
+
+export type RksvStatus = {
+  cash_register_id: string;
+  started: boolean;
+  turnover: number;
+  zda_id: string | null;
+  certificate_serial: string | null;
+  failed_since: string | null;
+  aes_key: string;
+};
+
+type RksvChainState = {
+  key: string;
+  cash_register_id: string;
+  aes_key: string; // Base64, AES-256 für den Umsatzzähler
+  turnover_cents: number;
+  seq?: number;
+  last_jws: string | null;
+  last_month: string | null; // YYYY-MM des letzten Belegs
+  failed_since: string | null;
+  started_at: string | null;
+  zda_id: string | null;
+  certificate_serial: string | null;
+};
+
+/**
+ * Kettenstand nach einem Beleg. Wird nicht von signReceipt gespeichert, sondern zusammen mit dem Outbox-Eintrag
+ * des Belegs in EINER IndexedDB-Transaktion (enqueueOrder) – sonst wäre die Kette weiter als die Outbox.
+ */
+export type RksvChainWrite = { store: string; value: RksvChainState };
+
+type StoredSoftwareKey = {
+  key: string;
+  keyPair: CryptoKeyPair;
+  spki: string;
+  serial: string;
+};
+
+export const SIGNATURE_FAILED_TEXT = "Sicherheitseinrichtung ausgefallen";
+const JWS_HEADER = { alg: "ES256" };
+const SOFTWARE_KEY = "signer:software";
+const NULL_RECEIPT_TYPES: RksvReceiptType[] = ["start", "month", "year", "null"];
+
+// ====== Encoding ======
+export function utf8(s: string) {
+  return new TextEncoder().encode(s);
+}
+export function toBase64(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+export function fromBase64(b64: string) {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+export function toBase64Url(bytes: Uint8Array) {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+export function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+}
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+export async function sha256(data: Uint8Array<ArrayBuffer>) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+function formatAmount(cents: number) {
+  return (cents / 100).toFixed(2).replace(".", ",");
+}
+function parseAmount(s: string) {
+  return Math.round(Number(s.replace(",", ".")) * 100);
+}
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+/** Datum-Uhrzeit ohne Zeitzone (Ortszeit der Kasse), z.B. 2026-07-18T23:41:07 */
+function formatLocalDateTime(d: Date) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}T${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+function monthOf(d: Date) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}`;
+}
+function toCents(n: number | undefined) {
+  return Math.round((n ?? 0) * 100);
+}
+
+export type RksvPayload = {
+  zdaId: string;
+  cashRegisterId: string;
+  receiptNo: string;
+  dateTime: string;
+  amountsCents: number[]; // Normal, Ermäßigt-1, Ermäßigt-2, Null, Besonders
+  turnover: string; // verschlüsselt bzw. "U1RP" (Storno) / "VFJB" (Training)
+  certificateSerial: string;
+  prevSig: string;
+};
+
+/** Zerlegt den maschinenlesbaren Code (ohne Signaturwert), z.B. aus dem Payload eines JWS. */
+export function parseRksvPayload(payload: string): RksvPayload | null {
+  const parts = payload.split("_");
+  // führender "_" → parts[0] ist leer
+  if (parts.length !== 13 || parts[0] !== "" || !parts[1].startsWith("R1-")) return null;
+  return {
+    zdaId: parts[1].slice(3),
+    cashRegisterId: parts[2],
+    receiptNo: parts[3],
+    dateTime: parts[4],
+    amountsCents: parts.slice(5, 10).map(parseAmount),
+    turnover: parts[10],
+    certificateSerial: parts[11],
+    prevSig: parts[12],
+  };
+}
+
+export const STORNO_TURNOVER = "U1RP";
+export const TRAINING_TURNOVER = "VFJB";
+
+// ====== Umsatzzähler (AES-256-ICM) ======
+/**
+ * Verschlüsselt bzw. entschlüsselt (symmetrisch) den Umsatzzähler.
+ * IV = erste 16 Bytes von SHA-256(Kassen-ID + Belegnummer), Zähler als 8 Byte Big-Endian (Zweierkomplement).
+ */
+export async function cryptTurnover(aesKeyB64: string, cashRegisterId: string, receiptNo: string, block: Uint8Array<ArrayBuffer>) {
+  const iv = (await sha256(utf8(cashRegisterId + receiptNo))).slice(0, 16);
+  const key = await crypto.subtle.importKey("raw", fromBase64(aesKeyB64), "AES-CTR", false, ["encrypt"]);
+  const input = new Uint8Array(16);
+  input.set(block.slice(0, 16));
+  const out = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-CTR", counter: iv, length: 128 }, key, input));
+  return out.slice(0, block.length);
+}
+
+async function encryptTurnover(aesKeyB64: string, cashRegisterId: string, receiptNo: string, turnoverCents: number) {
+  const plain = new Uint8Array(8);
+  new DataView(plain.buffer).setBigInt64(0, BigInt(turnoverCents));
+  return toBase64(await cryptTurnover(aesKeyB64, cashRegisterId, receiptNo, plain));
+}
+
+// ====== Signierer ======
+let customSigner: RksvSigner | null = null;
+
+/** Ersetzt den Software-Schlüssel, z.B. durch eine Smartcard- oder HSM-Anbindung. `null` = wieder Software. */
+export function setRksvSigner(signer: RksvSigner | null) {
+  customSigner = signer;
+}
+
+async function softwareSigner(): Promise<RksvSigner> {
+  let stored = await idbGet<StoredSoftwareKey>(STORE_RKSV, SOFTWARE_KEY);
+
+  if (!stored) {
+    // privater Schlüssel nicht exportierbar – er verlässt das Gerät nie
+    const keyPair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    const spki = new Uint8Array(await crypto.subtle.exportKey("spki", keyPair.publicKey));
+    stored = { key: SOFTWARE_KEY, keyPair, spki: toBase64(spki), serial: toHex((await sha256(spki)).slice(0, 8)) };
+    await idbPut<StoredSoftwareKey>(STORE_RKSV, stored);
+  }
+
+  const privateKey = stored.keyPair.privateKey;
+  return {
+    zdaId: "AT0",
+    certificateSerial: stored.serial,
+    certificate: stored.spki,
+    sign: async (data) => new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, privateKey, data)),
+  };
+}
+
+async function getSigner() {
+  return customSigner ?? (await softwareSigner());
+}
+
+// ====== Signaturkette ======
+function chainKey(cashRegisterId: string) {
+  return `chain:${cashRegisterId}`;
+}
+
+async function loadChain(cashRegisterId: string): Promise<RksvChainState> {
+  const existing = await idbGet<RksvChainState>(STORE_RKSV, chainKey(cashRegisterId));
+  if (existing) return existing;
+
+  // AES-Schlüssel sofort speichern – er muss bei FinanzOnline registriert werden und darf sich nie ändern
+  const fresh: RksvChainState = {
+    key: chainKey(cashRegisterId),
+    cash_register_id: cashRegisterId,
+    aes_key: toBase64(crypto.getRandomValues(new Uint8Array(32))),
+    turnover_cents: 0,
+    last_jws: null,
+    last_month: null,
+    failed_since: null,
+    started_at: null,
+    zda_id: null,
+    certificate_serial: null,
+  };
+  await idbPut<RksvChainState>(STORE_RKSV, fresh);
+  return fresh;
+}
+
+/** Funktioniert die Signatureinrichtung (wieder)? */
+async function probeSigner(): Promise<RksvSigner | null> {
+  try {
+    const signer = await getSigner();
+    await signer.sign(utf8("probe"));
+    return signer;
+  } catch {
+    return null;
+  }
+}
+
+async function issue(chain: RksvChainState, signer: RksvSigner | null, type: RksvReceiptType, receiptNo: string, amounts: RksvAmounts, createdAt: Date) {
+  const cents = [toCents(amounts.normal), toCents(amounts.reduced1), toCents(amounts.reduced2), toCents(amounts.zero), toCents(amounts.special)];
+  const sum = cents.reduce((s, c) => s + c, 0);
+
+  // Trainingsbelege zählen nicht zum Umsatz
+  if (type !== "training") chain.turnover_cents += sum;
+
+  const turnoverField =
+    type === "storno"
+      ? STORNO_TURNOVER
+      : type === "training"
+        ? TRAINING_TURNOVER
+        : await encryptTurnover(chain.aes_key, chain.cash_register_id, receiptNo, chain.turnover_cents);
+
+  // Verkettung: Startbeleg → Hash der Kassen-ID, sonst Hash des vorigen JWS
+  const prevSig = toBase64((await sha256(utf8(chain.last_jws ?? chain.cash_register_id))).slice(0, 8));
+
+  const zdaId = signer?.zdaId ?? chain.zda_id ?? "AT0";
+  const serial = signer?.certificateSerial ?? chain.certificate_serial ?? "";
+
+  const payload =
+    `_R1-${zdaId}_${chain.cash_register_id}_${receiptNo}_${formatLocalDateTime(createdAt)}_` +
+    `${cents.map(formatAmount).join("_")}_${turnoverField}_${serial}_${prevSig}`;
+
+  const signingInput = `${toBase64Url(utf8(JSON.stringify(JWS_HEADER)))}.${toBase64Url(utf8(payload))}`;
+
+  let signature: Uint8Array;
+  let failed = false;
+  try {
+    if (!signer) throw new Error(SIGNATURE_FAILED_TEXT);
+    signature = await signer.sign(utf8(signingInput));
+  } catch {
+    signature = utf8(SIGNATURE_FAILED_TEXT);
+    failed = true;
+  }
+
+  const jws = `${signingInput}.${toBase64Url(signature)}`;
+
+  chain.seq = (chain.seq ?? 0) + 1;
+  chain.last_jws = jws;
+  chain.last_month = monthOf(createdAt);
+  if (type === "start") chain.started_at = createdAt.toISOString();
+  if (failed) chain.failed_since = chain.failed_since ?? createdAt.toISOString();
+  else {
+    chain.failed_since = null;
+    chain.zda_id = zdaId;
+    chain.certificate_serial = serial;
+  }
+
+  const signed: RksvSignedReceipt = {
+    cash_register_id: chain.cash_register_id,
+    seq: chain.seq,
+    receipt_no: receiptNo,
+    receipt_type: type,
+    created_at: createdAt.toISOString(),
+    jws,
+    qr: `${payload}_${toBase64(signature)}`,
+    signature_failed: failed,
+  };
+  return signed;
+}
+
+/**
+ * ✅ Signiert einen Beleg und hängt ihn an die Kette der Kasse.
+ * Vorher fällige Pflichtbelege (Startbeleg, Monats-/Jahresbeleg, Sammelbeleg nach Ausfall) werden
+ * automatisch erzeugt und über `onSpecialReceipt` gemeldet – in Reihenfolge, vor dem eigentlichen Beleg.
+ * Beide Callbacks müssen den Beleg zusammen mit `chain` speichern (enqueueOrder); erst dann gilt er als
+ * ausgestellt. Schlägt das fehl, bleibt die gespeicherte Kette beim vorigen Beleg.
+ */
+export async function signReceipt<N extends { receipt_no: string }>(args: {
+  cashRegisterId: string;
+  type: RksvReceiptType;
+  amounts: RksvAmounts;
+  createdAt: Date;
+  takeReceiptNo: () => Promise<N>;
+  onSpecialReceipt: (signed: RksvSignedReceipt, chain: RksvChainWrite, no: N) => Promise<void>;
+  enqueue: (signed: RksvSignedReceipt, chain: RksvChainWrite, no: N) => Promise<void>;
+}): Promise<{ signed: RksvSignedReceipt; no: N }> {
+  // Web Lock: auch zwei offene Tabs dürfen die Kette nicht verzweigen
+  return navigator.locks.request(`festkassa:rksv:${args.cashRegisterId}`, async () => {
+    const chain = await loadChain(args.cashRegisterId);
+    const signer = await probeSigner();
+    const now = args.createdAt;
+
+    const due: RksvReceiptType[] = [];
+    if (!chain.last_jws) {
+      if (args.type !== "start") due.push("start");
+    } else {
+      if (chain.last_month && chain.last_month !== monthOf(now)) due.push(chain.last_month.endsWith("-12") ? "year" : "month");
+      if (chain.failed_since && signer && args.type !== "null") due.push("null");
+    }
+
+    for (const type of due) {
+      const no = await args.takeReceiptNo();
+      const signed = await issue(chain, signer, type, no.receipt_no, {}, now);
+      await args.onSpecialReceipt(signed, { store: STORE_RKSV, value: { ...chain } }, no);
+    }
+
+    const no = await args.takeReceiptNo();
+    const amounts = NULL_RECEIPT_TYPES.includes(args.type) ? {} : args.amounts;
+    const signed = await issue(chain, signer, args.type, no.receipt_no, amounts, now);
+    await args.enqueue(signed, { store: STORE_RKSV, value: { ...chain } }, no);
+    return { signed, no };
+  });
+}
+
+export async function getRksvStatus(cashRegisterId: string): Promise<RksvStatus> {
+  const chain = await loadChain(cashRegisterId);
+  return {
+    cash_register_id: chain.cash_register_id,
+    started: !!chain.started_at,
+    turnover: chain.turnover_cents / 100,
+    zda_id: chain.zda_id,
+    certificate_serial: chain.certificate_serial,
+    failed_since: chain.failed_since,
+    aes_key: chain.aes_key,
+  };
+}
+
+/**
+ * Hinterlegt Kassen-ID, Zertifikat und AES-Schlüssel am Server (für Registrierung bei FinanzOnline und DEP-Export).
+ * RPC: public.register_rksv_cash_register(p_cash_register_id text, p_device_id text, ...) returns void
+ * Wird erst nach dem Startbeleg benötigt; ohne Netz einfach beim nächsten Start erneut versuchen.
+ */
+export async function syncRksvRegistration(cashRegisterId: string, deviceId: string) {
+  const chain = await idbGet<RksvChainState>(STORE_RKSV, chainKey(cashRegisterId));
+  if (!chain?.started_at) return;
+
+  const signer = await getSigner();
+  const { error } = await supabase.rpc("register_rksv_cash_register", {
+    p_cash_register_id: cashRegisterId,
+    p_device_id: deviceId,
+    p_zda_id: signer.zdaId,
+    p_certificate_serial: signer.certificateSerial,
+    p_certificate: signer.certificate,
+    p_aes_key: chain.aes_key,
+    p_started_at: chain.started_at,
+  });
+  if (error) throw new Error(error.message);
+}
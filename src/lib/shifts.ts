@@ -0,0 +1,192 @@
+import { supabase } from "./supabase";
+
+// ====== Schichten ======
+// Schicht = ein Gerät (Kassenlade) von "öffnen" bis "schließen". Soll-Bestand und Abschluss rechnet die DB
+// (shift_summary) aus den Bons des Geräts in diesem Zeitraum – offline erfasste Bons müssen vor dem
+// Schließen synchronisiert sein. Geöffnet wird auch offline: die Schicht entsteht am Gerät und geht wie
+// die Bons über die Outbox an open_shift().
+
+export type ShiftSummary = {
+  opening_float: number;
+  receipts: number;
+  cash_sales: number; // Bar-Zahlungen inkl. Pfand (Anteil geteilter Bons)
+  card_sales: number; // Karten-Zahlungen inkl. Pfand
+  deposit_issued: number;
+  deposit_returned: number; // Pfand-Auszahlungen aus der Lade
+  storno_count: number;
+  storno_cash: number; // negativ
+  expected_cash: number;
+};
+
+export type Denominations = Record<string, number>; // Nennwert ("50", "0.5") → Stück
+
+export type Shift = {
+  id: string;
+  event_id: string;
+  bar_id: string | null;
+  device_id: string;
+  staff_id: string;
+  staff_name: string;
+  opened_at: string;
+  opening_float: number;
+  closed_at: string | null;
+  closed_by_name: string | null;
+  denominations: Denominations | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  difference: number | null;
+  report: ShiftSummary | null;
+  note: string | null;
+};
+
+export const EUR_DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01];
+
+function round2(n: number) {
+  return (Math.sign(n) * Math.round((Math.abs(n) + Number.EPSILON) * 100)) / 100;
+}
+
+function euro(n: number) {
+  return new Intl.NumberFormat("de-AT", { style: "currency", currency: "EUR" }).format(n);
+}
+
+export function denominationLabel(value: number) {
+  return value >= 1 ? `${value} €` : `${Math.round(value * 100)} ct`;
+}
+
+export function countTotal(denominations: Denominations) {
+  return round2(Object.entries(denominations).reduce((s, [value, count]) => s + Number(value) * (count || 0), 0));
+}
+
+function toShift(row: Shift): Shift {
+  const n = (v: number | null) => (v === null ? null : Number(v));
+  return {
+    ...row,
+    opening_float: Number(row.opening_float),
+    counted_cash: n(row.counted_cash),
+    expected_cash: n(row.expected_cash),
+    difference: n(row.difference),
+  };
+}
+
+/** Offene Schicht dieses Geräts (oder null). */
+export async function loadOpenShift(deviceId: string): Promise<Shift | null> {
+  const { data, error } = await supabase.from("shifts").select("*").eq("device_id", deviceId).is("closed_at", null).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toShift(data as Shift) : null;
+}
+
+/** Schichten eines Events, neueste zuerst (Admin). */
+export async function loadShifts(eventId: string): Promise<Shift[]> {
+  const { data, error } = await supabase.from("shifts").select("*").eq("event_id", eventId).order("opened_at", { ascending: false }).limit(100);
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as Shift[]).map(toShift);
+}
+
+export type OpenShiftParams = {
+  p_id: string; // = shifts.id, am Gerät erzeugt
+  p_event_id: string;
+  p_bar_id: string;
+  p_device_id: string;
+  p_session: string;
+  p_opening_float: number;
+  p_opened_at: string;
+};
+
+/** Schicht, wie sie am Gerät gilt, bis open_shift() sie bestätigt hat. */
+export function localShift(params: OpenShiftParams, staff: { id: string; name: string }): Shift {
+  return {
+    id: params.p_id,
+    event_id: params.p_event_id,
+    bar_id: params.p_bar_id,
+    device_id: params.p_device_id,
+    staff_id: staff.id,
+    staff_name: staff.name,
+    opened_at: params.p_opened_at,
+    opening_float: params.p_opening_float,
+    closed_at: null,
+    closed_by_name: null,
+    denominations: null,
+    counted_cash: null,
+    expected_cash: null,
+    difference: null,
+    report: null,
+    note: null,
+  };
+}
+
+/**
+ * RPC: public.open_shift(p_id uuid, p_event_id uuid, p_bar_id uuid, p_device_id text, p_session text, p_opening_float numeric, p_opened_at timestamptz) returns setof shifts
+ * Wiederholte Aufrufe mit derselben ID liefern dieselbe Schicht.
+ */
+export async function openShift(params: OpenShiftParams): Promise<Shift> {
+  const { data, error } = await supabase.rpc("open_shift", params);
+  if (error) throw new Error(error.message, { cause: error });
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error("open_shift() hat keine Schicht geliefert.");
+  return toShift(row as Shift);
+}
+
+/** RPC: public.shift_summary(p_session text, p_shift_id uuid) returns jsonb – eigene Schicht, sonst manage_shift/view_reports */
+export async function loadShiftSummary(session: string, shiftId: string): Promise<ShiftSummary> {
+  const { data, error } = await supabase.rpc("shift_summary", { p_session: session, p_shift_id: shiftId });
+  if (error) throw new Error(error.message);
+  return data as ShiftSummary;
+}
+
+/** RPC: public.close_shift(p_shift_id uuid, p_session text, p_denominations jsonb, p_note text) returns setof shifts */
+export async function closeShift(args: { shiftId: string; session: string; denominations: Denominations; note: string }): Promise<Shift> {
+  const { data, error } = await supabase.rpc("close_shift", {
+    p_shift_id: args.shiftId,
+    p_session: args.session,
+    p_denominations: args.denominations,
+    p_note: args.note,
+  });
+  if (error) throw new Error(error.message);
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error("close_shift() hat keine Schicht geliefert.");
+  return toShift(row as Shift);
+}
+
+/** Schichtabschluss als Bon-Text (29 Zeichen, wie die Kassenbons). */
+export function formatShiftReport(shift: Shift, barName: string) {
+  const sep = `-----------------------------\n`;
+  const row = (label: string, value: string) => `${label.padEnd(29 - value.length)}${value}\n`;
+  const r = shift.report;
+
+  const head =
+    `SCHICHTABSCHLUSS\n` +
+    `${barName}\n` +
+    `Gerät: ${shift.device_id.slice(0, 8)}\n` +
+    `Kassier: ${shift.staff_name}\n` +
+    `Von: ${new Date(shift.opened_at).toLocaleString("de-AT")}\n` +
+    `Bis: ${shift.closed_at ? new Date(shift.closed_at).toLocaleString("de-AT") : "offen"}\n` +
+    sep;
+
+  const body = r
+    ? row("Bons", String(r.receipts)) +
+      row("Bar (inkl. Pfand)", euro(r.cash_sales)) +
+      row("Karte (inkl. Pfand)", euro(r.card_sales)) +
+      row("Pfand ausgegeben", euro(r.deposit_issued)) +
+      row("Pfand ausbezahlt", euro(-r.deposit_returned)) +
+      row(`Stornos (${r.storno_count})`, euro(r.storno_cash)) +
+      sep +
+      row("Anfangsbestand", euro(r.opening_float)) +
+      row("SOLL Lade", euro(r.expected_cash))
+    : "";
+
+  const denominations = Object.entries(shift.denominations ?? {})
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => Number(b) - Number(a))
+    .map(([value, count]) => row(`  ${count} x ${denominationLabel(Number(value))}`, euro(round2(Number(value) * count))))
+    .join("");
+
+  const foot =
+    row("IST gezählt", euro(shift.counted_cash ?? 0)) +
+    denominations +
+    sep +
+    row("DIFFERENZ", euro(shift.difference ?? 0)) +
+    (shift.note ? `Notiz: ${shift.note}\n` : "") +
+    (shift.closed_by_name ? `Geschlossen von: ${shift.closed_by_name}\n` : "");
+
+  return head + body + foot;
+}
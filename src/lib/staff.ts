@@ -0,0 +1,94 @@
+import { supabase } from "./supabase";
+
+// ====== Mitarbeiter-Verwaltung ======
+// Mitarbeiter, PINs und PIN-Sperren. PINs werden nur in der DB gewürfelt und gehasht (bcrypt), die Kassa sieht nie einen Hash.
+// Alle RPCs prüfen manage_staff selbst – für den Mitarbeiter der übergebenen Sitzung (Token).
+
+export type StaffMember = {
+  id: string;
+  name: string;
+  role: string; // roles.key
+  is_active: boolean;
+  has_pin: boolean;
+  last_login_at: string | null;
+  pin_changed_at: string | null;
+  pin_expires_at: string | null; // null = läuft nicht ab
+};
+
+/** global: zu viele Fehlversuche insgesamt – PIN-Eingabe auf allen Geräten gesperrt. */
+export type PinLockout = { kind: "device" | "pin" | "global"; key: string; locked_until: string; failures: number };
+
+export type AdminNotification = { id: number; kind: string; message: string; device_id: string | null; created_at: string };
+
+/** RPC: public.staff_list(p_session text) */
+export async function loadStaffMembers(session: string): Promise<StaffMember[]> {
+  const { data, error } = await supabase.rpc("staff_list", { p_session: session });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as StaffMember[];
+}
+
+/** RPC: public.staff_save(p_session text, p_id uuid, p_name text, p_role text, p_is_active boolean) returns uuid */
+export async function saveStaffMember(session: string, member: { id: string | null; name: string; role: string; is_active: boolean }): Promise<string> {
+  const { data, error } = await supabase.rpc("staff_save", {
+    p_session: session,
+    p_id: member.id,
+    p_name: member.name,
+    p_role: member.role,
+    p_is_active: member.is_active,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/**
+ * RPC: public.staff_set_pin(p_session text, p_id uuid) returns text
+ * Die DB würfelt einen freien 6-stelligen PIN und gibt ihn einmalig zurück.
+ */
+export async function setStaffPin(session: string, memberId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("staff_set_pin", { p_session: session, p_id: memberId });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** RPC: public.pin_security_status(p_session text) returns jsonb – aktive Sperren + ungelesene Hinweise */
+export async function loadPinSecurity(session: string): Promise<{ lockouts: PinLockout[]; notifications: AdminNotification[] }> {
+  const { data, error } = await supabase.rpc("pin_security_status", { p_session: session });
+  if (error) throw new Error(error.message);
+  const d = (data ?? {}) as { lockouts?: PinLockout[]; notifications?: AdminNotification[] };
+  return { lockouts: d.lockouts ?? [], notifications: d.notifications ?? [] };
+}
+
+/** RPC: public.pin_unlock(p_session text, p_kind text, p_key text) */
+export async function unlockPinLockout(session: string, lockout: Pick<PinLockout, "kind" | "key">) {
+  const { error } = await supabase.rpc("pin_unlock", { p_session: session, p_kind: lockout.kind, p_key: lockout.key });
+  if (error) throw new Error(error.message);
+}
+
+/** RPC: public.admin_notifications_read(p_session text) */
+export async function markNotificationsRead(session: string) {
+  const { error } = await supabase.rpc("admin_notifications_read", { p_session: session });
+  if (error) throw new Error(error.message);
+}
+
+// ====== Sitzungen ======
+// Login per PIN legt eine Sitzung mit Ablaufzeit an (start_staff_session); das Gerät speichert nur das Token.
+
+/** RPC: public.staff_session(p_token text) – null, wenn abgelaufen/beendet oder Mitarbeiter deaktiviert */
+export async function validateStaffSession(token: string): Promise<{ id: string; name: string; role: string; expires_at: string } | null> {
+  const { data, error } = await supabase.rpc("staff_session", { p_token: token });
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as Array<{ id: string; name: string; role: string; expires_at: string }>)[0] ?? null;
+}
+
+/** RPC: public.renew_staff_session(p_token text) returns timestamptz – neue Ablaufzeit, null wenn nicht (mehr) gültig */
+export async function renewStaffSession(token: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("renew_staff_session", { p_token: token });
+  if (error) throw new Error(error.message);
+  return (data as string | null) ?? null;
+}
+
+/** RPC: public.end_staff_session(p_token text) */
+export async function endStaffSession(token: string) {
+  const { error } = await supabase.rpc("end_staff_session", { p_token: token });
+  if (error) throw new Error(error.message);
+}
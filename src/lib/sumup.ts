@@ -0,0 +1,167 @@
+// ====== Kartenzahlung (SumUp) ======
+// Die Kassa fordert den Betrag am Terminal an und wartet auf Freigabe, Ablehnung oder Abbruch – erst nach
+// einer Freigabe wird der Bon angelegt. Zwei Anbieter hinter derselben Schnittstelle:
+//   mock  – simuliert das Terminal lokal (Entwicklung, Tests, offline). Centbetrag ,13 → abgelehnt,
+//           ,66 → keine Antwort (Timeout), sonst Freigabe nach kurzer Wartezeit.
+//   cloud – SumUp Reader-Checkout (Solo-Terminal) über VITE_SUMUP_API_URL. Das ist ein Proxy, der den
+//           API-Key ergänzt – der Key gehört nie in den Browser.
+// Konfiguration: VITE_SUMUP_MODE (mock | cloud), VITE_SUMUP_MERCHANT_CODE, VITE_SUMUP_READER_ID,
+// VITE_SUMUP_MOCK_OUTCOME (cents | approve | decline | timeout).
+
+export type CardPaymentStatus = "approved" | "declined" | "cancelled" | "timeout";
+
+export type CardPaymentResult = {
+  status: CardPaymentStatus;
+  provider: string;
+  transactionId: string | null;
+  message: string | null;
+};
+
+export type CardPaymentRequest = {
+  amount: number; // EUR, brutto inkl. Pfand
+  reference: string; // = orders.id
+  description: string;
+};
+
+export type CardTerminal = {
+  provider: string;
+  /** Wartet auf das Ergebnis am Terminal; signal bricht die Zahlung ab. */
+  pay(req: CardPaymentRequest, signal: AbortSignal): Promise<CardPaymentResult>;
+};
+
+export const CARD_STATUS_LABEL: Record<CardPaymentStatus, string> = {
+  approved: "Zahlung erfolgreich",
+  declined: "Karte abgelehnt",
+  cancelled: "Zahlung abgebrochen",
+  timeout: "Keine Antwort vom Terminal",
+};
+
+const PAYMENT_TIMEOUT_MS = 90000;
+const POLL_MS = 2000;
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        reject(new DOMException("Abgebrochen", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+function isAbort(e: unknown) {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+// ====== Mock ======
+
+export type MockOutcome = "cents" | "approve" | "decline" | "timeout";
+
+export function createMockTerminal(outcome: MockOutcome = "cents", delayMs = 2500): CardTerminal {
+  return {
+    provider: "mock",
+    async pay(req, signal) {
+      const cents = Math.round(Math.abs(req.amount) * 100) % 100;
+      const result = outcome === "cents" ? (cents === 13 ? "decline" : cents === 66 ? "timeout" : "approve") : outcome;
+
+      try {
+        // Timeout: das Terminal meldet sich nie – bis der Aufrufer aufgibt oder abbricht
+        await sleep(result === "timeout" ? PAYMENT_TIMEOUT_MS * 10 : delayMs, signal);
+      } catch (e) {
+        if (isAbort(e)) return { status: "cancelled", provider: "mock", transactionId: null, message: null };
+        throw e;
+      }
+
+      if (result === "decline") return { status: "declined", provider: "mock", transactionId: null, message: "Simuliert: Karte abgelehnt" };
+      return { status: "approved", provider: "mock", transactionId: `MOCK-${req.reference.slice(0, 8).toUpperCase()}`, message: null };
+    },
+  };
+}
+
+// ====== SumUp Cloud (Reader-Checkout) ======
+
+export function createCloudTerminal(cfg: { apiUrl: string; merchantCode: string; readerId: string }): CardTerminal {
+  const base = cfg.apiUrl.replace(/\/$/, "");
+
+  async function call<T>(path: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(`${base}${path}`, { ...init, headers: { "Content-Type": "application/json", ...(init?.headers ?? {}) } });
+    if (!res.ok) throw new Error(`SumUp ${res.status}: ${await res.text()}`);
+    return (await res.json()) as T;
+  }
+
+  const terminate = () =>
+    call(`/v0.1/merchants/${cfg.merchantCode}/readers/${cfg.readerId}/terminate`, { method: "POST" }).catch(() => undefined);
+
+  return {
+    provider: "sumup",
+    async pay(req, signal) {
+      const started = await call<{ data: { client_transaction_id: string } }>(`/v0.1/merchants/${cfg.merchantCode}/readers/${cfg.readerId}/checkout`, {
+        method: "POST",
+        body: JSON.stringify({
+          total_amount: { currency: "EUR", minor_unit: 2, value: Math.round(req.amount * 100) },
+          description: req.description,
+        }),
+      });
+      const clientTxId = started.data.client_transaction_id;
+
+      try {
+        for (;;) {
+          await sleep(POLL_MS, signal);
+          const tx = await call<{ status: string; transaction_code?: string }>(
+            `/v2.1/merchants/${cfg.merchantCode}/transactions?client_transaction_id=${encodeURIComponent(clientTxId)}`
+          ).catch(() => null); // Transaktion erscheint erst nach dem Karten-Kontakt
+          if (!tx || tx.status === "PENDING") continue;
+
+          if (tx.status === "SUCCESSFUL") return { status: "approved", provider: "sumup", transactionId: tx.transaction_code ?? clientTxId, message: null };
+          if (tx.status === "CANCELLED") return { status: "cancelled", provider: "sumup", transactionId: null, message: null };
+          return { status: "declined", provider: "sumup", transactionId: null, message: tx.status };
+        }
+      } catch (e) {
+        if (!isAbort(e)) throw e;
+        await terminate();
+        return { status: "cancelled", provider: "sumup", transactionId: null, message: null };
+      }
+    },
+  };
+}
+
+export function cardTerminalLabel() {
+  return import.meta.env.VITE_SUMUP_MODE === "cloud" ? "SumUp-Terminal" : "Test-Terminal (Simulation)";
+}
+
+/** Terminal laut Build-Konfiguration (ohne Angabe: Mock). */
+export function cardTerminalFromEnv(): CardTerminal {
+  const env = import.meta.env;
+  if (env.VITE_SUMUP_MODE === "cloud") {
+    const apiUrl = env.VITE_SUMUP_API_URL as string | undefined;
+    const merchantCode = env.VITE_SUMUP_MERCHANT_CODE as string | undefined;
+    const readerId = env.VITE_SUMUP_READER_ID as string | undefined;
+    if (!apiUrl || !merchantCode || !readerId) throw new Error("SumUp: VITE_SUMUP_API_URL, VITE_SUMUP_MERCHANT_CODE und VITE_SUMUP_READER_ID fehlen.");
+    return createCloudTerminal({ apiUrl, merchantCode, readerId });
+  }
+  return createMockTerminal((env.VITE_SUMUP_MOCK_OUTCOME as MockOutcome | undefined) ?? "cents");
+}
+
+/** ✅ Zahlung mit Zeitlimit: ohne Antwort nach PAYMENT_TIMEOUT_MS gilt sie als gescheitert (Terminal wird abgebrochen). */
+export async function collectCardPayment(terminal: CardTerminal, req: CardPaymentRequest, signal: AbortSignal): Promise<CardPaymentResult> {
+  const inner = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    inner.abort();
+  }, PAYMENT_TIMEOUT_MS);
+  const onAbort = () => inner.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const result = await terminal.pay(req, inner.signal);
+    return timedOut && result.status === "cancelled" ? { ...result, status: "timeout" } : result;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,86 @@
+import type { RksvAmounts } from "./rksv";
+
+// ====== Umsatzsteuer ======
+// Steuersätze als Anteil (0.2 = 20 %), wie in products.tax_rate / order_items.tax_rate.
+// Netto/USt werden je Steuersatz aus der Brutto-Summe gerechnet (gleich wie create_order() und order_tax_lines).
+
+export const DEFAULT_TAX_RATE = 0.2;
+
+/** Steuersätze, die die Kassa kennt – in der Reihenfolge der RKSV-Betragsfelder. */
+export const TAX_RATES = [0.2, 0.1, 0.13, 0, 0.19] as const;
+
+export type TaxLine = { tax_rate: number; gross: number; net: number; tax: number };
+
+function round2(n: number) {
+  // kaufmännisch, auch bei negativen Beträgen (Storno) – wie round() in Postgres
+  return (Math.sign(n) * Math.round((Math.abs(n) + Number.EPSILON) * 100)) / 100;
+}
+
+export function taxRateLabel(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** Summiert Brutto-Beträge je Steuersatz und rechnet Netto/USt aus (absteigend nach Satz). */
+export function taxBreakdown(lines: Array<{ tax_rate: number; gross: number }>): TaxLine[] {
+  const byRate = new Map<number, number>();
+  for (const l of lines) {
+    const rate = Number(l.tax_rate);
+    byRate.set(rate, round2((byRate.get(rate) ?? 0) + Number(l.gross)));
+  }
+
+  return [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([tax_rate, gross]) => {
+      const net = round2(gross / (1 + tax_rate));
+      return { tax_rate, gross, net, tax: round2(gross - net) };
+    });
+}
+
+/** Fasst bereits gerechnete Zeilen (z.B. mehrerer Bons) je Steuersatz zusammen, ohne neu zu runden. */
+export function mergeTaxLines(lines: TaxLine[]): TaxLine[] {
+  const byRate = new Map<number, TaxLine>();
+  for (const l of lines) {
+    const rate = Number(l.tax_rate);
+    const cur = byRate.get(rate) ?? { tax_rate: rate, gross: 0, net: 0, tax: 0 };
+    byRate.set(rate, {
+      tax_rate: rate,
+      gross: round2(cur.gross + Number(l.gross)),
+      net: round2(cur.net + Number(l.net)),
+      tax: round2(cur.tax + Number(l.tax)),
+    });
+  }
+  return [...byRate.values()].sort((a, b) => b.tax_rate - a.tax_rate);
+}
+
+export function sumTaxLines(lines: TaxLine[]) {
+  return {
+    gross: round2(lines.reduce((s, l) => s + l.gross, 0)),
+    net: round2(lines.reduce((s, l) => s + l.net, 0)),
+    tax: round2(lines.reduce((s, l) => s + l.tax, 0)),
+  };
+}
+
+/**
+ * RKSV-Betragsfelder: Normal 20 %, Ermäßigt-1 10 %, Ermäßigt-2 13 %, Null 0 %, Besonders 19 %.
+ * Pfand ist steuerfrei und zählt zum Null-Satz.
+ */
+export function rksvAmountsFromTaxLines(lines: TaxLine[], deposit: number): RksvAmounts {
+  const amounts = { normal: 0, reduced1: 0, reduced2: 0, zero: deposit, special: 0 };
+  const fields = ["normal", "reduced1", "reduced2", "zero", "special"] as const;
+
+  for (const l of lines) {
+    const idx = TAX_RATES.findIndex((r) => Math.abs(r - l.tax_rate) < 0.0001);
+    if (idx < 0) throw new Error(`Steuersatz ${taxRateLabel(l.tax_rate)} ist für die RKSV nicht zugeordnet.`);
+    amounts[fields[idx]] = round2(amounts[fields[idx]] + l.gross);
+  }
+
+  return amounts;
+}
+
+/** Steuer-Tabelle für Bons (passt auf 29 Zeichen Druckbreite). */
+export function formatTaxTable(lines: TaxLine[]) {
+  const n = (v: number) => new Intl.NumberFormat("de-AT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(v);
+  const row = (a: string, b: string, c: string, d: string) => `${a.padEnd(4)}${b.padStart(8)}${c.padStart(7)}${d.padStart(9)}\n`;
+
+  return row("USt", "Netto", "USt", "Brutto") + lines.map((l) => row(taxRateLabel(l.tax_rate), n(l.net), n(l.tax), n(l.gross))).join("");
+}
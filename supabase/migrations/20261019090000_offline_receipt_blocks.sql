@@ -0,0 +1,48 @@
+-- ====== Offline-Kassa: vorab reservierte Bon-Nummern pro Gerät ======
+-- Jedes Gerät holt sich solange es online ist einen Block Bon-Nummern aus event_counters
+-- (über next_receipt) und vergibt sie offline selbst. Damit bleiben Bon-Nummern eindeutig,
+-- auch wenn mehrere Kassen gleichzeitig ohne Netz verkaufen.
+
+create table if not exists public.receipt_reservations (
+  event_id uuid not null,
+  receipt_no text not null,
+  short_no integer not null,
+  device_id text not null,
+  reserved_at timestamptz not null default now(),
+  primary key (event_id, receipt_no)
+);
+
+create index if not exists receipt_reservations_device_idx on public.receipt_reservations (device_id, event_id);
+
+-- Reserviert p_count Bon-Nummern am Stück für ein Gerät.
+create or replace function public.reserve_receipt_block(p_event_id uuid, p_device_id text, p_count integer default 50)
+returns table (receipt_no text, short_no integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  r record;
+begin
+  if p_device_id is null or length(trim(p_device_id)) = 0 then
+    raise exception 'device_id fehlt';
+  end if;
+  if p_count < 1 or p_count > 500 then
+    raise exception 'Ungültige Blockgröße: %', p_count;
+  end if;
+
+  for i in 1..p_count loop
+    select * into r from public.next_receipt(p_event_id);
+
+    insert into public.receipt_reservations (event_id, receipt_no, short_no, device_id)
+    values (p_event_id, r.receipt_no, r.short_no, p_device_id);
+
+    receipt_no := r.receipt_no;
+    short_no := r.short_no;
+    return next;
+  end loop;
+end;
+$$;
+
+grant execute on function public.reserve_receipt_block(uuid, text, integer) to anon, authenticated;
@@ -0,0 +1,171 @@
+-- ====== Checkout als eine Transaktion ======
+-- Ersetzt next_receipt + Insert orders + Insert order_items + Insert print_jobs vom Client.
+-- Preise und USt werden hier aus products berechnet, nicht aus dem Warenkorb übernommen.
+-- Idempotenz: p_idempotency_key wird als orders.id verwendet. Ein zweiter Aufruf mit demselben
+-- Key liefert den bereits angelegten Beleg zurück, statt einen neuen zu erzeugen.
+
+alter table public.receipt_reservations add column if not exists order_id uuid;
+
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  c_vat_rate constant numeric := 0.20;
+  c_deposit_value constant numeric := 0.50;
+
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_qty_total integer := 0;
+  v_net numeric;
+  v_tax numeric;
+  v_deposit numeric;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+    v_qty_total := v_qty_total + v_line.qty;
+  end loop;
+
+  v_gross := round(v_gross, 2);
+  v_net := round(v_gross / (1 + c_vat_rate), 2);
+  v_tax := round(v_gross - v_net, 2);
+  v_deposit := round(v_qty_total * c_deposit_value + coalesce(p_deposit_adjust, 0), 2);
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    p_payment_method, 'completed',
+    v_gross, c_vat_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now())
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2)
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz)
+  to anon, authenticated;
@@ -0,0 +1,384 @@
+-- ====== DEP-Export + Storno-Belege ======
+-- Der DEP (Datenerfassungsprotokoll) muss alle signierten Belege einer Kasse in Kettenreihenfolge
+-- enthalten, inkl. Storno-Belegen. Stornos erzeugen deshalb ab jetzt einen eigenen, negativen,
+-- signierten Beleg, statt nur den Status des Originals zu ändern.
+
+alter table public.orders add column if not exists rksv_seq integer;
+alter table public.orders add column if not exists storno_of_order_id uuid references public.orders (id);
+
+create index if not exists orders_rksv_seq_idx on public.orders (rksv_cash_register_id, rksv_seq);
+
+-- Alle je verwendeten Zertifikate (bei Zertifikatswechsel bleibt das alte für ältere Belege erhalten)
+create table if not exists public.rksv_certificates (
+  certificate_serial text primary key,
+  cash_register_id text not null references public.rksv_cash_registers (cash_register_id),
+  zda_id text not null,
+  certificate text not null,
+  registered_at timestamptz not null default now()
+);
+
+alter table public.rksv_certificates enable row level security;
+
+insert into public.rksv_certificates (certificate_serial, cash_register_id, zda_id, certificate)
+select certificate_serial, cash_register_id, zda_id, certificate from public.rksv_cash_registers
+on conflict (certificate_serial) do nothing;
+
+create or replace function public.register_rksv_cash_register(
+  p_cash_register_id text,
+  p_device_id text,
+  p_zda_id text,
+  p_certificate_serial text,
+  p_certificate text,
+  p_aes_key text,
+  p_started_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.rksv_cash_registers (cash_register_id, device_id, zda_id, certificate_serial, certificate, aes_key, started_at)
+  values (p_cash_register_id, p_device_id, p_zda_id, p_certificate_serial, p_certificate, p_aes_key, p_started_at)
+  on conflict (cash_register_id) do update
+    set zda_id = excluded.zda_id,
+        certificate_serial = excluded.certificate_serial,
+        certificate = excluded.certificate,
+        updated_at = now();
+
+  insert into public.rksv_certificates (certificate_serial, cash_register_id, zda_id, certificate)
+  values (p_certificate_serial, p_cash_register_id, p_zda_id, p_certificate)
+  on conflict (certificate_serial) do nothing;
+end;
+$$;
+
+-- Zertifikate für den DEP-Export (ohne AES-Schlüssel)
+create or replace function public.rksv_export_certificates()
+returns table (cash_register_id text, zda_id text, certificate_serial text, certificate text)
+language sql
+security definer
+set search_path = public
+as $$
+  select c.cash_register_id, c.zda_id, c.certificate_serial, c.certificate
+  from public.rksv_certificates c
+  order by c.cash_register_id, c.registered_at;
+$$;
+
+grant execute on function public.rksv_export_certificates() to anon, authenticated;
+
+-- create_order: zusätzlich rksv_seq speichern
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  c_vat_rate constant numeric := 0.20;
+  c_deposit_value constant numeric := 0.50;
+
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_qty_total integer := 0;
+  v_net numeric;
+  v_tax numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+    v_qty_total := v_qty_total + v_line.qty;
+  end loop;
+
+  v_gross := round(v_gross, 2);
+  v_net := round(v_gross / (1 + c_vat_rate), 2);
+  v_tax := round(v_gross - v_net, 2);
+  v_deposit := case when v_is_null_receipt then 0 else round(v_qty_total * c_deposit_value + coalesce(p_deposit_adjust, 0), 2) end;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    p_payment_method, 'completed',
+    v_gross, c_vat_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false)
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2)
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb)
+  to anon, authenticated;
+
+
+-- Storno: negativer Beleg mit eigener Bon-Nummer, verweist auf das Original
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_original.payment_method, 'completed',
+    -v_original.gross_total, v_original.tax_rate, -v_original.tax_total, -v_original.net_total,
+    -coalesce(v_original.deposit_total, 0),
+    false, false,
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross)
+  select p_idempotency_key, i.product_id, i.name_snapshot, i.unit_price_gross, -i.qty, -i.line_total_gross
+  from public.order_items i
+  where i.order_id = v_original.id;
+
+  update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+
+  insert into public.voids (order_id, voided_by, reason)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''));
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           -v_original.gross_total, -v_original.tax_total, -v_original.net_total, -coalesce(v_original.deposit_total, 0),
+           round(-v_original.gross_total - coalesce(v_original.deposit_total, 0), 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb) to anon, authenticated;
@@ -0,0 +1,435 @@
+-- ====== Pfandarten ======
+-- Statt pauschal 0,50 € je Stück hat jedes Produkt höchstens eine Pfandart (Becher, Krug, Flasche …).
+-- order_deposits hält je Bon und Pfandart ausgegebene/zurückgenommene Stück als Snapshot,
+-- damit der Pfand-Block auch auf Reprints und der Beleganzeige stimmt.
+
+create table if not exists public.deposit_types (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  value numeric(8, 2) not null check (value > 0),
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.products add column if not exists deposit_type_id uuid references public.deposit_types (id);
+
+create table if not exists public.order_deposits (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  deposit_type_id uuid references public.deposit_types (id), -- null = pauschale Korrektur (alte Bons)
+  name_snapshot text not null,
+  value_snapshot numeric(8, 2) not null,
+  issued integer not null default 0,
+  returned integer not null default 0
+);
+
+create index if not exists order_deposits_order_idx on public.order_deposits (order_id);
+
+-- Bisheriges Verhalten übernehmen: alle Produkte mit 0,50 € Becherpfand
+do $$
+declare
+  v_becher uuid;
+begin
+  if not exists (select 1 from public.deposit_types) then
+    insert into public.deposit_types (name, value, sort_order) values ('Becher', 0.50, 10) returning id into v_becher;
+    insert into public.deposit_types (name, value, sort_order) values ('Krug', 2.00, 20), ('Flasche', 0.30, 30);
+    update public.products set deposit_type_id = v_becher where deposit_type_id is null;
+  end if;
+end;
+$$;
+
+-- Alte Bons: Pfand pauschal als Korrektur übernehmen
+insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+select o.id, null, 'Pfand', abs(o.deposit_total),
+       case when o.deposit_total > 0 then 1 else 0 end,
+       case when o.deposit_total < 0 then 1 else 0 end
+from public.orders o
+where coalesce(o.deposit_total, 0) <> 0
+  and not exists (select 1 from public.order_deposits d where d.order_id = o.id);
+
+-- create_order: Pfand je Art statt pauschal (p_deposit_adjust bleibt für ältere Clients in der Outbox)
+drop function if exists public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb);
+
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]'
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+  end loop;
+
+  v_gross := round(v_gross, 2);
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select p.tax_rate, sum(round(p.price_gross * (l->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.tax_rate
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    p_payment_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false)
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2), p.tax_rate
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb)
+  to anon, authenticated;
+
+
+-- create_storno: Pfand je Art negiert mitkopieren
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_original.payment_method, 'completed',
+    -v_original.gross_total, v_original.tax_rate, -v_original.tax_total, -v_original.net_total,
+    -coalesce(v_original.deposit_total, 0),
+    false, false,
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, i.product_id, i.name_snapshot, i.unit_price_gross, -i.qty, -i.line_total_gross, i.tax_rate
+  from public.order_items i
+  where i.order_id = v_original.id;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, d.deposit_type_id, d.name_snapshot, d.value_snapshot, -d.issued, -d.returned
+  from public.order_deposits d
+  where d.order_id = v_original.id;
+
+  update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+
+  insert into public.voids (order_id, voided_by, reason)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''));
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           -v_original.gross_total, -v_original.tax_total, -v_original.net_total, -coalesce(v_original.deposit_total, 0),
+           round(-v_original.gross_total - coalesce(v_original.deposit_total, 0), 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb) to anon, authenticated;
@@ -0,0 +1,103 @@
+-- ====== Mehrere Events ======
+-- Bisher lief alles über ein fix eingetragenes Event (…0001). Jetzt gibt es public.events,
+-- Bars gehören zu einem Event (Produkte über ihre Bar), und ein neues Fest kann Bars,
+-- Produkte und Preise eines früheren Events als Ausgangspunkt übernehmen.
+
+create table if not exists public.events (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.events add column if not exists starts_on date;
+alter table public.events add column if not exists ends_on date;
+alter table public.events add column if not exists location text;
+alter table public.events add column if not exists status text not null default 'planned';
+
+alter table public.events drop constraint if exists events_status_check;
+alter table public.events add constraint events_status_check check (status in ('planned', 'active', 'closed'));
+
+-- Bisheriges Event übernehmen
+insert into public.events (id, name, status)
+values ('00000000-0000-0000-0000-000000000001', 'Fest', 'active')
+on conflict (id) do nothing;
+
+alter table public.bars add column if not exists event_id uuid references public.events (id);
+update public.bars set event_id = '00000000-0000-0000-0000-000000000001' where event_id is null;
+alter table public.bars alter column event_id set not null;
+
+create index if not exists bars_event_idx on public.bars (event_id, sort_order);
+
+-- Neues Event anlegen, optional mit Bars/Produkten/Preisen von p_clone_from.
+create or replace function public.create_event(
+  p_name text,
+  p_starts_on date default null,
+  p_ends_on date default null,
+  p_location text default null,
+  p_clone_from uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event_id uuid;
+  v_bar record;
+  v_new_bar_id uuid;
+begin
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_starts_on is not null and p_ends_on is not null and p_ends_on < p_starts_on then
+    raise exception 'Ende liegt vor dem Beginn.';
+  end if;
+  if p_clone_from is not null and not exists (select 1 from public.events e where e.id = p_clone_from) then
+    raise exception 'Vorlage-Event nicht gefunden.';
+  end if;
+
+  insert into public.events (name, starts_on, ends_on, location, status)
+  values (trim(p_name), p_starts_on, p_ends_on, nullif(trim(coalesce(p_location, '')), ''), 'planned')
+  returning id into v_event_id;
+
+  -- Zähler für next_receipt(): Bon-Nummern beginnen je Event neu
+  insert into public.event_counters (event_id) values (v_event_id) on conflict do nothing;
+
+  if p_clone_from is not null then
+    for v_bar in select * from public.bars b where b.event_id = p_clone_from order by b.sort_order loop
+      insert into public.bars (name, sort_order, event_id)
+      values (v_bar.name, v_bar.sort_order, v_event_id)
+      returning id into v_new_bar_id;
+
+      insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, sort_order, is_active)
+      select v_new_bar_id, p.name, p.price_gross, p.tax_rate, p.deposit_type_id, p.sort_order, p.is_active
+      from public.products p
+      where p.bar_id = v_bar.id;
+    end loop;
+  end if;
+
+  return v_event_id;
+end;
+$$;
+
+grant execute on function public.create_event(text, date, date, text, uuid) to anon, authenticated;
+
+create or replace function public.set_event_status(p_event_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_status not in ('planned', 'active', 'closed') then
+    raise exception 'Ungültiger Status: %', p_status;
+  end if;
+
+  update public.events set status = p_status where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_status(uuid, text) to anon, authenticated;
@@ -0,0 +1,188 @@
+-- ====== Sortiment im Admin-Bereich ======
+-- Bars und Produkte werden jetzt in der Kassa gepflegt (statt im Supabase-Dashboard).
+-- Jede Preisänderung landet in product_prices (auch Änderungen direkt im Dashboard, per Trigger).
+-- Alte Bons sind davon nicht betroffen: order_items hält name_snapshot/unit_price_gross.
+
+create table if not exists public.product_prices (
+  id bigint generated always as identity primary key,
+  product_id uuid not null references public.products (id) on delete cascade,
+  price_gross numeric(10, 2) not null,
+  tax_rate numeric(5, 4) not null,
+  valid_from timestamptz not null default now(),
+  changed_by_staff_id uuid,
+  changed_by_name text
+);
+
+create index if not exists product_prices_product_idx on public.product_prices (product_id, valid_from desc);
+
+-- Ausgangsstand: aktueller Preis jedes Produkts
+insert into public.product_prices (product_id, price_gross, tax_rate, valid_from)
+select p.id, p.price_gross, p.tax_rate, now()
+from public.products p
+where not exists (select 1 from public.product_prices pp where pp.product_id = p.id);
+
+create or replace function public.log_product_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff_id uuid := nullif(current_setting('festkassa.staff_id', true), '')::uuid;
+begin
+  if tg_op = 'INSERT' or new.price_gross is distinct from old.price_gross or new.tax_rate is distinct from old.tax_rate then
+    insert into public.product_prices (product_id, price_gross, tax_rate, changed_by_staff_id, changed_by_name)
+    values (new.id, new.price_gross, new.tax_rate, v_staff_id, (select s.name from public.staff s where s.id = v_staff_id));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_price_history on public.products;
+create trigger products_price_history
+after insert or update of price_gross, tax_rate on public.products
+for each row execute function public.log_product_price();
+
+-- Laufende Kassen bekommen Änderungen per Realtime
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'products') then
+      alter publication supabase_realtime add table public.products;
+    end if;
+    if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'bars') then
+      alter publication supabase_realtime add table public.bars;
+    end if;
+  end if;
+end;
+$$;
+
+create or replace function public.assert_admin(p_staff_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.staff s where s.id = p_staff_id and s.role = 'admin') then
+    raise exception 'Nur für Admins.';
+  end if;
+  -- für log_product_price()
+  perform set_config('festkassa.staff_id', p_staff_id::text, true);
+end;
+$$;
+
+-- Bar anlegen (p_id null) oder umbenennen
+create or replace function public.catalog_save_bar(p_staff_id uuid, p_id uuid, p_event_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+
+  if p_id is null then
+    insert into public.bars (event_id, name, sort_order)
+    values (p_event_id, trim(p_name), coalesce((select max(b.sort_order) + 10 from public.bars b where b.event_id = p_event_id), 10))
+    returning id into v_id;
+  else
+    update public.bars set name = trim(p_name) where id = p_id returning id into v_id;
+    if v_id is null then
+      raise exception 'Bar nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_bar(uuid, uuid, uuid, text) to anon, authenticated;
+
+-- Produkt anlegen (p_id null) oder ändern; Preisänderungen versioniert der Trigger
+create or replace function public.catalog_save_product(
+  p_staff_id uuid,
+  p_id uuid,
+  p_bar_id uuid,
+  p_name text,
+  p_price_gross numeric,
+  p_tax_rate numeric,
+  p_deposit_type_id uuid,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_price_gross is null or p_price_gross < 0 then
+    raise exception 'Ungültiger Preis.';
+  end if;
+
+  if p_id is null then
+    insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, sort_order, is_active)
+    values (
+      p_bar_id, trim(p_name), round(p_price_gross, 2), p_tax_rate, p_deposit_type_id,
+      coalesce((select max(p.sort_order) + 10 from public.products p where p.bar_id = p_bar_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.products
+       set name = trim(p_name),
+           price_gross = round(p_price_gross, 2),
+           tax_rate = p_tax_rate,
+           deposit_type_id = p_deposit_type_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Produkt nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_product(uuid, uuid, uuid, text, numeric, numeric, uuid, boolean) to anon, authenticated;
+
+-- Neue Reihenfolge: sort_order = 10, 20, 30 … in der Reihenfolge von p_ids
+create or replace function public.catalog_reorder(p_staff_id uuid, p_table text, p_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_table = 'bars' then
+    update public.bars b set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where b.id = x.id;
+  elsif p_table = 'products' then
+    update public.products p set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where p.id = x.id;
+  else
+    raise exception 'Unbekannte Tabelle: %', p_table;
+  end if;
+end;
+$$;
+
+grant execute on function public.catalog_reorder(uuid, text, uuid[]) to anon, authenticated;
@@ -0,0 +1,259 @@
+-- ====== Drucker + sichere Druckjob-Verteilung ======
+-- Drucker gehören zu einem Event und bedienen bestimmte Bars (printer_bars). Ein Drucker ohne Bars
+-- ist der Standarddrucker des Events für alle Bars ohne eigenen Drucker.
+-- Neue Druckjobs bekommen per Trigger ihren Drucker. Die Bridge holt Jobs nur noch über claim_print_job():
+--   queued → printing (Lease für eine Bridge-Instanz) → printed | queued (Retry mit Backoff) | failed
+-- Stürzt eine Bridge mitten im Druck ab, läuft die Lease ab und der Job geht zurück in die Queue.
+
+create table if not exists public.printers (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  name text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.printer_bars (
+  printer_id uuid not null references public.printers (id) on delete cascade,
+  bar_id uuid not null references public.bars (id) on delete cascade,
+  primary key (printer_id, bar_id)
+);
+
+alter table public.print_jobs add column if not exists printer_id uuid references public.printers (id) on delete set null;
+alter table public.print_jobs add column if not exists attempts integer not null default 0;
+alter table public.print_jobs add column if not exists next_attempt_at timestamptz;
+alter table public.print_jobs add column if not exists claimed_by text;
+alter table public.print_jobs add column if not exists lease_until timestamptz;
+alter table public.print_jobs add column if not exists last_error text;
+
+alter table public.print_jobs drop constraint if exists print_jobs_status_check;
+alter table public.print_jobs add constraint print_jobs_status_check check (status in ('queued', 'printing', 'printed', 'failed'));
+
+create index if not exists print_jobs_queue_idx on public.print_jobs (printer_id, status, created_at);
+
+-- Drucker für neue Jobs: eigener Drucker der Bar, sonst Standarddrucker des Events, sonst keiner
+-- (Jobs ohne Drucker holt eine Bridge ohne PRINTER_ID – wie bisher mit nur einem Drucker)
+create or replace function public.route_print_job()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bar_id uuid;
+begin
+  if new.printer_id is not null then
+    return new;
+  end if;
+
+  select o.bar_id into v_bar_id from public.orders o where o.id = new.order_id;
+
+  select p.id into new.printer_id
+  from public.printers p
+  join public.printer_bars pb on pb.printer_id = p.id
+  where pb.bar_id = v_bar_id and p.is_active
+  order by p.created_at
+  limit 1;
+
+  if new.printer_id is null then
+    select p.id into new.printer_id
+    from public.printers p
+    where p.event_id = new.event_id
+      and p.is_active
+      and not exists (select 1 from public.printer_bars pb where pb.printer_id = p.id)
+    order by p.created_at
+    limit 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists print_jobs_route on public.print_jobs;
+create trigger print_jobs_route
+before insert on public.print_jobs
+for each row execute function public.route_print_job();
+
+-- ====== Bridge (nur service_role) ======
+
+-- Nächsten fälligen Job des Druckers übernehmen (skip locked → parallele Bridges bekommen verschiedene Jobs)
+create or replace function public.claim_print_job(
+  p_printer_id uuid,
+  p_bridge_id text,
+  p_lease_seconds integer default 60,
+  p_max_attempts integer default 5
+)
+returns setof public.print_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  -- Abgelaufene Leases: Bridge ist während des Drucks ausgefallen
+  update public.print_jobs j
+     set status = case when j.attempts >= p_max_attempts then 'failed' else 'queued' end,
+         claimed_by = null,
+         lease_until = null,
+         last_error = 'Lease abgelaufen (' || coalesce(j.claimed_by, '?') || ')'
+   where j.status = 'printing'
+     and j.lease_until < now();
+
+  return query
+    update public.print_jobs j
+       set status = 'printing',
+           claimed_by = p_bridge_id,
+           lease_until = now() + make_interval(secs => p_lease_seconds),
+           attempts = j.attempts + 1
+     where j.id = (
+       select q.id
+       from public.print_jobs q
+       where q.status = 'queued'
+         and q.printer_id is not distinct from p_printer_id
+         and coalesce(q.next_attempt_at, q.created_at) <= now()
+       order by q.created_at
+       limit 1
+       for update skip locked
+     )
+    returning j.*;
+end;
+$$;
+
+-- Erfolgreich gedruckt; false, wenn die Lease inzwischen einer anderen Bridge gehört
+create or replace function public.complete_print_job(p_job_id public.print_jobs.id%type, p_bridge_id text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.print_jobs j
+     set status = 'printed',
+         printed_at = now(),
+         lease_until = null,
+         last_error = null
+   where j.id = p_job_id
+     and j.status = 'printing'
+     and j.claimed_by = p_bridge_id;
+  return found;
+end;
+$$;
+
+-- Druck fehlgeschlagen: nach 5 s, 10 s, 20 s … (max. 5 min) erneut, nach p_max_attempts Versuchen 'failed'
+create or replace function public.fail_print_job(
+  p_job_id public.print_jobs.id%type,
+  p_bridge_id text,
+  p_error text,
+  p_max_attempts integer default 5
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_status text;
+begin
+  update public.print_jobs j
+     set status = case when j.attempts >= p_max_attempts then 'failed' else 'queued' end,
+         next_attempt_at = now() + least(interval '5 seconds' * power(2, greatest(j.attempts - 1, 0)), interval '5 minutes'),
+         claimed_by = null,
+         lease_until = null,
+         last_error = left(coalesce(p_error, ''), 500)
+   where j.id = p_job_id
+     and j.status = 'printing'
+     and j.claimed_by = p_bridge_id
+  returning j.status into v_status;
+  return v_status;
+end;
+$$;
+
+revoke execute on function public.claim_print_job from public, anon, authenticated;
+revoke execute on function public.complete_print_job from public, anon, authenticated;
+revoke execute on function public.fail_print_job from public, anon, authenticated;
+grant execute on function public.claim_print_job to service_role;
+grant execute on function public.complete_print_job to service_role;
+grant execute on function public.fail_print_job to service_role;
+
+-- ====== Admin ======
+
+-- Drucker anlegen (p_id null) oder ändern; p_bar_ids leer = Standarddrucker des Events
+create or replace function public.printer_save(
+  p_staff_id uuid,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_bar_ids uuid[],
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if exists (
+    select 1 from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+    left join public.bars b on b.id = x.bar_id
+    where b.event_id is distinct from p_event_id
+  ) then
+    raise exception 'Bar gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.printers (event_id, name, is_active)
+    values (p_event_id, trim(p_name), coalesce(p_is_active, true))
+    returning id into v_id;
+  else
+    update public.printers
+       set name = trim(p_name),
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Drucker nicht gefunden.';
+    end if;
+    delete from public.printer_bars where printer_id = v_id;
+  end if;
+
+  insert into public.printer_bars (printer_id, bar_id)
+  select v_id, x.bar_id from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+  on conflict do nothing;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.printer_save(uuid, uuid, uuid, text, uuid[], boolean) to anon, authenticated;
+
+-- Fehlgeschlagenen Job erneut in die Queue (Versuche zurückgesetzt)
+create or replace function public.retry_print_job(p_staff_id uuid, p_job_id public.print_jobs.id%type)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_admin(p_staff_id);
+
+  update public.print_jobs j
+     set status = 'queued',
+         attempts = 0,
+         next_attempt_at = null
+   where j.id = p_job_id
+     and j.status = 'failed';
+  if not found then
+    raise exception 'Druckjob nicht gefunden oder nicht fehlgeschlagen.';
+  end if;
+end;
+$$;
+
+grant execute on function public.retry_print_job to anon, authenticated;
@@ -0,0 +1,111 @@
+-- ====== Drucker-Status ======
+-- Jede laufende Print-Bridge meldet sich alle paar Sekunden in print_bridges (Heartbeat + Druckerstatus).
+-- Die Kassa zeigt daraus den Status des Druckers ihrer Bar und per Realtime den Druckstatus des letzten Bons.
+-- Bleibt der Heartbeat aus, gilt die Bridge in der Kassa als offline.
+
+create table if not exists public.print_bridges (
+  id text primary key, -- BRIDGE_ID (Standard: hostname:pid)
+  printer_id uuid references public.printers (id) on delete cascade,
+  status text not null default 'online' check (status in ('online', 'paper_out', 'error')),
+  message text,
+  started_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+create index if not exists print_bridges_printer_idx on public.print_bridges (printer_id, last_seen_at desc);
+
+-- Bridge (service_role) reagiert auf neue Jobs, die Kassa auf Statuswechsel
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'print_jobs') then
+      alter publication supabase_realtime add table public.print_jobs;
+    end if;
+    if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'print_bridges') then
+      alter publication supabase_realtime add table public.print_bridges;
+    end if;
+  end if;
+end;
+$$;
+
+-- Drucker einer Bar (gleiche Regel wie route_print_job)
+create or replace function public.printer_for_bar(p_bar_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select p.id
+      from public.printers p
+      join public.printer_bars pb on pb.printer_id = p.id
+      where pb.bar_id = p_bar_id and p.is_active
+      order by p.created_at
+      limit 1
+    ),
+    (
+      select p.id
+      from public.printers p
+      join public.bars b on b.event_id = p.event_id
+      where b.id = p_bar_id
+        and p.is_active
+        and not exists (select 1 from public.printer_bars pb where pb.printer_id = p.id)
+      order by p.created_at
+      limit 1
+    )
+  );
+$$;
+
+grant execute on function public.printer_for_bar(uuid) to anon, authenticated;
+
+create or replace function public.route_print_job()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.printer_id is null then
+    new.printer_id := public.printer_for_bar((select o.bar_id from public.orders o where o.id = new.order_id));
+  end if;
+
+  -- Jobs ohne Bon: Standarddrucker des Events
+  if new.printer_id is null then
+    select p.id into new.printer_id
+    from public.printers p
+    where p.event_id = new.event_id
+      and p.is_active
+      and not exists (select 1 from public.printer_bars pb where pb.printer_id = p.id)
+    order by p.created_at
+    limit 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Erneut drucken: an der Kassa (letzter Bon) und im Admin-Bereich – jeder angemeldete Mitarbeiter
+create or replace function public.retry_print_job(p_staff_id uuid, p_job_id public.print_jobs.id%type)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.staff s where s.id = p_staff_id) then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  update public.print_jobs j
+     set status = 'queued',
+         attempts = 0,
+         next_attempt_at = null
+   where j.id = p_job_id
+     and j.status = 'failed';
+  if not found then
+    raise exception 'Druckjob nicht gefunden oder nicht fehlgeschlagen.';
+  end if;
+end;
+$$;
@@ -0,0 +1,478 @@
+-- ====== Bonierung (Produktionsstationen) ======
+-- Produkte können einer Station zugeordnet werden (Grill, Pommes, Cocktailbar …). create_order legt pro
+-- betroffener Station einen Ticket-Druckjob an: große Schrift, Abholnummer (short_no), Bar-Name.
+-- Tickets laufen über print_jobs an den Drucker der Station (ohne eigenen Drucker: Drucker der Bar).
+
+create table if not exists public.production_stations (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  name text not null,
+  printer_id uuid references public.printers (id) on delete set null,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.products add column if not exists station_id uuid references public.production_stations (id) on delete set null;
+
+alter table public.print_jobs add column if not exists kind text not null default 'receipt';
+alter table public.print_jobs add column if not exists station_id uuid references public.production_stations (id) on delete set null;
+alter table public.print_jobs drop constraint if exists print_jobs_kind_check;
+alter table public.print_jobs add constraint print_jobs_kind_check check (kind in ('receipt', 'ticket'));
+
+-- Station anlegen (p_id null) oder ändern
+create or replace function public.station_save(
+  p_staff_id uuid,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_printer_id uuid,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_printer_id is not null and not exists (select 1 from public.printers p where p.id = p_printer_id and p.event_id = p_event_id) then
+    raise exception 'Drucker gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.production_stations (event_id, name, printer_id, sort_order, is_active)
+    values (
+      p_event_id, trim(p_name), p_printer_id,
+      coalesce((select max(s.sort_order) + 10 from public.production_stations s where s.event_id = p_event_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.production_stations
+       set name = trim(p_name),
+           printer_id = p_printer_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Station nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.station_save(uuid, uuid, uuid, text, uuid, boolean) to anon, authenticated;
+
+-- catalog_save_product: + p_station_id
+drop function if exists public.catalog_save_product(uuid, uuid, uuid, text, numeric, numeric, uuid, boolean);
+
+create or replace function public.catalog_save_product(
+  p_staff_id uuid,
+  p_id uuid,
+  p_bar_id uuid,
+  p_name text,
+  p_price_gross numeric,
+  p_tax_rate numeric,
+  p_deposit_type_id uuid,
+  p_is_active boolean default true,
+  p_station_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_admin(p_staff_id);
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_price_gross is null or p_price_gross < 0 then
+    raise exception 'Ungültiger Preis.';
+  end if;
+  if p_station_id is not null and not exists (
+    select 1 from public.production_stations s join public.bars b on b.event_id = s.event_id
+    where s.id = p_station_id and b.id = p_bar_id
+  ) then
+    raise exception 'Station gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, station_id, sort_order, is_active)
+    values (
+      p_bar_id, trim(p_name), round(p_price_gross, 2), p_tax_rate, p_deposit_type_id, p_station_id,
+      coalesce((select max(p.sort_order) + 10 from public.products p where p.bar_id = p_bar_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.products
+       set name = trim(p_name),
+           price_gross = round(p_price_gross, 2),
+           tax_rate = p_tax_rate,
+           deposit_type_id = p_deposit_type_id,
+           station_id = p_station_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Produkt nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_product(uuid, uuid, uuid, text, numeric, numeric, uuid, boolean, uuid) to anon, authenticated;
+
+-- create_event: Stationen mitkopieren (ohne Drucker – die gehören zum jeweiligen Event)
+create or replace function public.create_event(
+  p_name text,
+  p_starts_on date default null,
+  p_ends_on date default null,
+  p_location text default null,
+  p_clone_from uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event_id uuid;
+  v_bar record;
+  v_new_bar_id uuid;
+begin
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_starts_on is not null and p_ends_on is not null and p_ends_on < p_starts_on then
+    raise exception 'Ende liegt vor dem Beginn.';
+  end if;
+  if p_clone_from is not null and not exists (select 1 from public.events e where e.id = p_clone_from) then
+    raise exception 'Vorlage-Event nicht gefunden.';
+  end if;
+
+  insert into public.events (name, starts_on, ends_on, location, status)
+  values (trim(p_name), p_starts_on, p_ends_on, nullif(trim(coalesce(p_location, '')), ''), 'planned')
+  returning id into v_event_id;
+
+  -- Zähler für next_receipt(): Bon-Nummern beginnen je Event neu
+  insert into public.event_counters (event_id) values (v_event_id) on conflict do nothing;
+
+  if p_clone_from is not null then
+    insert into public.production_stations (event_id, name, sort_order, is_active)
+    select v_event_id, s.name, s.sort_order, s.is_active
+    from public.production_stations s
+    where s.event_id = p_clone_from;
+
+    for v_bar in select * from public.bars b where b.event_id = p_clone_from order by b.sort_order loop
+      insert into public.bars (name, sort_order, event_id)
+      values (v_bar.name, v_bar.sort_order, v_event_id)
+      returning id into v_new_bar_id;
+
+      insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, station_id, sort_order, is_active)
+      select v_new_bar_id, p.name, p.price_gross, p.tax_rate, p.deposit_type_id,
+             (
+               select ns.id
+               from public.production_stations os
+               join public.production_stations ns on ns.event_id = v_event_id and ns.name = os.name
+               where os.id = p.station_id
+               limit 1
+             ),
+             p.sort_order, p.is_active
+      from public.products p
+      where p.bar_id = v_bar.id;
+    end loop;
+  end if;
+
+  return v_event_id;
+end;
+$$;
+
+-- create_order: + Stations-Tickets
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+  end loop;
+
+  v_gross := round(v_gross, 2);
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select p.tax_rate, sum(round(p.price_gross * (l->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.tax_rate
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    p_payment_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2), p.tax_rate
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb)
+  to anon, authenticated;
@@ -0,0 +1,169 @@
+-- ====== Schichten ======
+-- Eine Schicht gehört zu einem Gerät (= Kassenlade) und startet mit einem Wechselgeld-Anfangsbestand.
+-- Zur Schicht zählen alle Bons dieses Geräts zwischen opened_at und closed_at (auch offline erfasste:
+-- maßgeblich ist created_at am Gerät). Beim Schließen wird die Lade nach Stückelung gezählt und mit dem
+-- Soll-Bestand verglichen; der Abschluss (report) bleibt gespeichert und ist im Admin-Bereich abrufbar.
+
+create table if not exists public.shifts (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id),
+  bar_id uuid references public.bars (id) on delete set null,
+  device_id text not null,
+  staff_id uuid not null references public.staff (id),
+  staff_name text not null,
+  opened_at timestamptz not null default now(),
+  opening_float numeric(10, 2) not null default 0 check (opening_float >= 0),
+  closed_at timestamptz,
+  closed_by_staff_id uuid references public.staff (id),
+  closed_by_name text,
+  denominations jsonb, -- { "50": 3, "0.5": 12, … } = Stück je Nennwert
+  counted_cash numeric(10, 2),
+  expected_cash numeric(10, 2),
+  difference numeric(10, 2),
+  report jsonb,
+  note text
+);
+
+-- Pro Gerät höchstens eine offene Schicht
+create unique index if not exists shifts_one_open_per_device on public.shifts (device_id) where closed_at is null;
+create index if not exists shifts_event_idx on public.shifts (event_id, opened_at desc);
+create index if not exists orders_device_created_idx on public.orders (device_id, created_at);
+
+-- Schichtberichte können gedruckt werden
+alter table public.print_jobs drop constraint if exists print_jobs_kind_check;
+alter table public.print_jobs add constraint print_jobs_kind_check check (kind in ('receipt', 'ticket', 'report'));
+
+-- Zahlen einer Schicht (offene Schicht: bis jetzt)
+create or replace function public.shift_summary(p_shift_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with s as (
+    select * from public.shifts where id = p_shift_id
+  ),
+  o as (
+    select o.*
+    from public.orders o, s
+    where o.device_id = s.device_id
+      and o.event_id = s.event_id
+      and o.created_at >= s.opened_at
+      and (s.closed_at is null or o.created_at < s.closed_at)
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  d as (
+    select
+      coalesce(sum(od.issued * od.value_snapshot), 0) as issued,
+      coalesce(sum(od.returned * od.value_snapshot), 0) as returned
+    from public.order_deposits od
+    join o on o.id = od.order_id
+    where o.payment_method = 'cash' and o.rksv_receipt_type = 'standard'
+  )
+  select jsonb_build_object(
+    'opening_float', s.opening_float,
+    'receipts', (select count(*) from o where o.rksv_receipt_type = 'standard'),
+    'cash_sales', (select coalesce(sum(o.gross_total), 0) from o where o.payment_method = 'cash' and o.rksv_receipt_type = 'standard'),
+    'card_sales', (select coalesce(sum(o.gross_total + coalesce(o.deposit_total, 0)), 0) from o where o.payment_method = 'sumup' and o.rksv_receipt_type = 'standard'),
+    'deposit_issued', round(d.issued, 2),
+    'deposit_returned', round(d.returned, 2),
+    'storno_count', (select count(*) from o where o.rksv_receipt_type = 'storno'),
+    'storno_cash', (select coalesce(sum(o.gross_total + coalesce(o.deposit_total, 0)), 0) from o where o.payment_method = 'cash' and o.rksv_receipt_type = 'storno'),
+    'expected_cash', round(s.opening_float + (select coalesce(sum(o.gross_total + coalesce(o.deposit_total, 0)), 0) from o where o.payment_method = 'cash'), 2)
+  )
+  from s, d;
+$$;
+
+grant execute on function public.shift_summary(uuid) to anon, authenticated;
+
+create or replace function public.open_shift(
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_opening_float numeric
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+begin
+  select s.id, s.name into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+  if p_opening_float is null or p_opening_float < 0 then
+    raise exception 'Ungültiger Anfangsbestand.';
+  end if;
+  if exists (select 1 from public.shifts s where s.device_id = p_device_id and s.closed_at is null) then
+    raise exception 'Auf diesem Gerät ist bereits eine Schicht offen.';
+  end if;
+
+  return query
+    insert into public.shifts (event_id, bar_id, device_id, staff_id, staff_name, opening_float)
+    values (p_event_id, p_bar_id, p_device_id, v_staff.id, v_staff.name, round(p_opening_float, 2))
+    returning *;
+end;
+$$;
+
+grant execute on function public.open_shift(uuid, uuid, text, uuid, numeric) to anon, authenticated;
+
+-- Schicht schließen: Zählung speichern, Soll/Ist-Differenz + Abschluss festschreiben
+create or replace function public.close_shift(
+  p_shift_id uuid,
+  p_staff_id uuid,
+  p_denominations jsonb,
+  p_note text default null
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_counted numeric;
+  v_summary jsonb;
+begin
+  select s.id, s.name into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+  if p_denominations is null or jsonb_typeof(p_denominations) <> 'object' then
+    raise exception 'Ungültige Zählung.';
+  end if;
+
+  select round(coalesce(sum(d.key::numeric * d.value::integer), 0), 2)
+    into v_counted
+  from jsonb_each_text(p_denominations) d;
+
+  update public.shifts
+     set closed_at = now(),
+         closed_by_staff_id = v_staff.id,
+         closed_by_name = v_staff.name
+   where id = p_shift_id
+     and closed_at is null;
+  if not found then
+    raise exception 'Schicht nicht gefunden oder bereits geschlossen.';
+  end if;
+
+  v_summary := public.shift_summary(p_shift_id);
+
+  return query
+    update public.shifts
+       set denominations = p_denominations,
+           counted_cash = v_counted,
+           expected_cash = (v_summary->>'expected_cash')::numeric,
+           difference = v_counted - (v_summary->>'expected_cash')::numeric,
+           report = v_summary,
+           note = nullif(trim(coalesce(p_note, '')), '')
+     where id = p_shift_id
+    returning *;
+end;
+$$;
+
+grant execute on function public.close_shift(uuid, uuid, jsonb, text) to anon, authenticated;
@@ -0,0 +1,184 @@
+-- ====== X/Z-Berichte ======
+-- Auswertung für einen beliebigen Zeitraum, gruppiert nach Bar, Gerät, Kassier, Zahlungsart und Stunde.
+-- Ein Geschäftstag läuft von day_cutoff (z.B. 06:00) bis day_cutoff am Folgetag – ein Fest nach Mitternacht
+-- zählt so noch zum Vortag.
+-- Maßgeblich ist created_at des Belegs: Verkaufsbelege zählen im Zeitraum ihres Verkaufs (auch wenn sie
+-- später storniert werden), Stornobelege (negativ) im Zeitraum des Stornos. So bleibt ein Z-Bericht gültig.
+-- X-Bericht = Zwischenstand (beliebig oft), Z-Bericht = Abschluss: fortlaufend nummeriert, unveränderbar,
+-- Zeiträume dürfen sich nicht überschneiden.
+
+alter table public.events add column if not exists day_cutoff time not null default '06:00';
+
+create table if not exists public.z_reports (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id),
+  z_no integer not null,
+  period_from timestamptz not null,
+  period_to timestamptz not null,
+  created_at timestamptz not null default now(),
+  created_by_staff_id uuid references public.staff (id),
+  created_by_name text,
+  data jsonb not null,
+  unique (event_id, z_no),
+  check (period_to > period_from)
+);
+
+-- Z-Berichte sind unveränderbar
+create or replace function public.z_reports_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Z-Berichte können nicht geändert oder gelöscht werden.';
+end;
+$$;
+
+drop trigger if exists z_reports_no_change on public.z_reports;
+create trigger z_reports_no_change
+before update or delete on public.z_reports
+for each row execute function public.z_reports_immutable();
+
+create or replace function public.set_event_day_cutoff(p_staff_id uuid, p_event_id uuid, p_cutoff time)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_admin(p_staff_id);
+
+  update public.events set day_cutoff = coalesce(p_cutoff, '06:00') where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_day_cutoff(uuid, uuid, time) to anon, authenticated;
+
+-- Zahlen eines Zeitraums [p_from, p_to); Beträge nach Storno (Stornobelege sind negativ)
+create or replace function public.sales_report(p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with o as (
+    select
+      o.*,
+      coalesce(o.deposit_total, 0) as deposit,
+      (o.rksv_receipt_type = 'storno') as is_storno
+    from public.orders o
+    where o.event_id = p_event_id
+      and o.created_at >= p_from
+      and o.created_at < p_to
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  grouped as (
+    select
+      g.dim,
+      g.key,
+      min(g.label) as label,
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      round(sum(o.gross_total), 2) as gross,
+      round(sum(o.deposit), 2) as deposit,
+      round(sum(o.gross_total + o.deposit), 2) as total
+    from o
+    left join public.bars b on b.id = o.bar_id
+    cross join lateral (
+      values
+        ('bar', coalesce(o.bar_id::text, ''), coalesce(b.name, '—')),
+        ('device', coalesce(o.device_id, ''), coalesce(left(o.device_id, 8), '—')),
+        ('cashier', coalesce(o.cashier_staff_id::text, ''), coalesce(o.cashier_name_snapshot, '—')),
+        ('payment', o.payment_method, case o.payment_method when 'cash' then 'Bar' when 'sumup' then 'Karte (SumUp)' else o.payment_method end),
+        ('hour', to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'YYYY-MM-DD"T"HH24:00'),
+                 to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'DD.MM. HH24:00'))
+    ) as g (dim, key, label)
+    group by g.dim, g.key
+  ),
+  taxes as (
+    select t.tax_rate, sum(t.gross) as gross, sum(t.net) as net, sum(t.tax) as tax
+    from public.order_tax_lines t
+    join o on o.id = t.order_id
+    group by t.tax_rate
+  ),
+  totals as (
+    select
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      coalesce(round(sum(o.gross_total), 2), 0) as gross,
+      coalesce(round(sum(o.net_total), 2), 0) as net,
+      coalesce(round(sum(o.tax_total), 2), 0) as tax,
+      coalesce(round(sum(o.deposit), 2), 0) as deposit,
+      coalesce(round(sum(o.gross_total + o.deposit), 2), 0) as total
+    from o
+  )
+  select jsonb_build_object(
+    'event_id', p_event_id,
+    'from', p_from,
+    'to', p_to,
+    'receipts', t.receipts,
+    'storno_count', t.storno_count,
+    'storno_amount', t.storno_amount,
+    'gross', t.gross,
+    'net', t.net,
+    'tax', t.tax,
+    'deposit', t.deposit,
+    'total', t.total,
+    'taxes', coalesce((select jsonb_agg(jsonb_build_object('tax_rate', x.tax_rate, 'gross', x.gross, 'net', x.net, 'tax', x.tax) order by x.tax_rate desc) from taxes x), '[]'::jsonb),
+    'by_bar', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'bar'), '[]'::jsonb),
+    'by_device', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'device'), '[]'::jsonb),
+    'by_cashier', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'cashier'), '[]'::jsonb),
+    'by_payment', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'payment'), '[]'::jsonb),
+    'by_hour', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.key) from grouped g where g.dim = 'hour'), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+grant execute on function public.sales_report(uuid, timestamptz, timestamptz) to anon, authenticated;
+
+-- Z-Bericht festschreiben (nur Admin, Zeitraum muss abgeschlossen sein und darf keinen Z-Bericht überschneiden)
+create or replace function public.create_z_report(p_staff_id uuid, p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns setof public.z_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_no integer;
+begin
+  perform public.assert_admin(p_staff_id);
+  select s.id, s.name into v_staff from public.staff s where s.id = p_staff_id;
+
+  if p_from is null or p_to is null or p_to <= p_from then
+    raise exception 'Ungültiger Zeitraum.';
+  end if;
+  if p_to > now() then
+    raise exception 'Der Zeitraum ist noch nicht abgeschlossen – dafür gibt es den X-Bericht.';
+  end if;
+
+  -- eine Nummernfolge je Event
+  perform pg_advisory_xact_lock(hashtext('z_report:' || p_event_id::text));
+
+  if exists (
+    select 1 from public.z_reports z
+    where z.event_id = p_event_id and z.period_from < p_to and z.period_to > p_from
+  ) then
+    raise exception 'Für diesen Zeitraum gibt es bereits einen Z-Bericht.';
+  end if;
+
+  select coalesce(max(z.z_no), 0) + 1 into v_no from public.z_reports z where z.event_id = p_event_id;
+
+  return query
+    insert into public.z_reports (event_id, z_no, period_from, period_to, created_by_staff_id, created_by_name, data)
+    values (p_event_id, v_no, p_from, p_to, v_staff.id, v_staff.name, public.sales_report(p_event_id, p_from, p_to))
+    returning *;
+end;
+$$;
+
+grant execute on function public.create_z_report(uuid, uuid, timestamptz, timestamptz) to anon, authenticated;
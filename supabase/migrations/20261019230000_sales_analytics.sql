@@ -0,0 +1,100 @@
+-- ====== Artikel-Auswertung ======
+-- Menge und Umsatz je Produkt und Bar, Stundenverlauf und Ø-Bon eines Events – in der DB aggregiert, damit die
+-- Admin-Ansicht auch bei zehntausenden order_items schnell bleibt (die Kassa lädt nur die fertigen Zahlen).
+-- Gezählt werden gültige Verkaufsbelege (stornierte Bons fallen heraus). Produkte werden über den Namen
+-- zusammengefasst: so bleiben Preisänderungen ein Produkt und der Vergleich mit einem früheren Event
+-- (geklonte Produkte = neue IDs) funktioniert.
+
+create index if not exists order_items_order_idx on public.order_items (order_id);
+create index if not exists orders_event_created_idx on public.orders (event_id, created_at);
+
+create or replace function public.sales_analytics(p_event_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with o as (
+    select o.id, o.bar_id, o.created_at, o.gross_total
+    from public.orders o
+    where o.event_id = p_event_id
+      and o.status = 'completed'
+      and o.rksv_receipt_type = 'standard'
+  ),
+  i as (
+    select i.name_snapshot as name, i.qty, i.line_total_gross, o.bar_id
+    from public.order_items i
+    join o on o.id = i.order_id
+  ),
+  products as (
+    select i.name, sum(i.qty) as qty, round(sum(i.line_total_gross), 2) as revenue
+    from i
+    group by i.name
+  ),
+  bar_products as (
+    select i.bar_id, i.name, sum(i.qty) as qty, round(sum(i.line_total_gross), 2) as revenue
+    from i
+    group by i.bar_id, i.name
+  ),
+  bar_items as (
+    select i.bar_id, sum(i.qty) as qty
+    from i
+    group by i.bar_id
+  ),
+  bars as (
+    select
+      o.bar_id,
+      coalesce(min(b.name), '—') as name,
+      count(*) as receipts,
+      round(sum(o.gross_total), 2) as revenue
+    from o
+    left join public.bars b on b.id = o.bar_id
+    group by o.bar_id
+  ),
+  hours as (
+    select
+      extract(hour from o.created_at at time zone 'Europe/Vienna')::integer as hour,
+      count(*) as receipts,
+      round(sum(o.gross_total), 2) as revenue
+    from o
+    group by 1
+  ),
+  totals as (
+    select
+      (select count(*) from o) as receipts,
+      (select coalesce(round(sum(o.gross_total), 2), 0) from o) as revenue,
+      (select coalesce(sum(i.qty), 0) from i) as items
+  )
+  select jsonb_build_object(
+    'event_id', p_event_id,
+    'receipts', t.receipts,
+    'revenue', t.revenue,
+    'items', t.items,
+    'avg_basket', coalesce(round(t.revenue / nullif(t.receipts, 0), 2), 0),
+    'avg_items', coalesce(round(t.items::numeric / nullif(t.receipts, 0), 2), 0),
+    'products', coalesce((select jsonb_agg(to_jsonb(p) order by p.revenue desc, p.name) from products p), '[]'::jsonb),
+    'bars', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'bar_id', b.bar_id,
+          'name', b.name,
+          'receipts', b.receipts,
+          'revenue', b.revenue,
+          'qty', coalesce((select bi.qty from bar_items bi where bi.bar_id is not distinct from b.bar_id), 0),
+          'products', coalesce((
+            select jsonb_agg(jsonb_build_object('name', bp.name, 'qty', bp.qty, 'revenue', bp.revenue) order by bp.revenue desc, bp.name)
+            from bar_products bp
+            where bp.bar_id is not distinct from b.bar_id
+          ), '[]'::jsonb)
+        )
+        order by b.revenue desc
+      )
+      from bars b
+    ), '[]'::jsonb),
+    'hours', coalesce((select jsonb_agg(to_jsonb(h) order by h.hour) from hours h), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+grant execute on function public.sales_analytics(uuid) to anon, authenticated;
@@ -0,0 +1,649 @@
+-- ====== Geteilte Zahlungen ======
+-- Ein Bon kann mit mehreren Zahlungen beglichen werden (z.B. 20 € bar, Rest mit Karte). Maßgeblich für Lade,
+-- Schichtabschluss und Berichte sind ab jetzt die Zahlungen in order_payments; orders.payment_method ist nur
+-- noch die Zusammenfassung ('cash', 'sumup' oder 'split'). Stornos negieren die Zahlungen des Originals.
+
+create table if not exists public.order_payments (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  method text not null check (method in ('cash', 'sumup')),
+  amount numeric(10, 2) not null,
+  card_provider text,
+  card_transaction_id text,
+  sort_order integer not null default 1
+);
+
+create index if not exists order_payments_order_idx on public.order_payments (order_id);
+
+alter table public.orders drop constraint if exists orders_payment_method_check;
+alter table public.orders add constraint orders_payment_method_check check (payment_method in ('cash', 'sumup', 'split'));
+
+-- Bisherige Bons: eine Zahlung über den ganzen Betrag
+insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id)
+select o.id, o.payment_method, round(o.gross_total + coalesce(o.deposit_total, 0), 2), o.card_provider, o.card_transaction_id
+from public.orders o
+where o.rksv_receipt_type in ('standard', 'storno')
+  and o.payment_method in ('cash', 'sumup')
+  and not exists (select 1 from public.order_payments p where p.order_id = o.id);
+
+drop function if exists public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb);
+
+-- create_order: + Zahlungen (mehrere je Bon)
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+  end loop;
+
+  v_gross := round(v_gross, 2);
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select p.tax_rate, sum(round(p.price_gross * (l->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.tax_rate
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1)
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2), p.tax_rate
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb)
+  to anon, authenticated;
+
+-- create_storno: + Zahlungen
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_original.payment_method, 'completed',
+    -v_original.gross_total, v_original.tax_rate, -v_original.tax_total, -v_original.net_total,
+    -coalesce(v_original.deposit_total, 0),
+    false, false,
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, i.product_id, i.name_snapshot, i.unit_price_gross, -i.qty, -i.line_total_gross, i.tax_rate
+  from public.order_items i
+  where i.order_id = v_original.id;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, d.deposit_type_id, d.name_snapshot, d.value_snapshot, -d.issued, -d.returned
+  from public.order_deposits d
+  where d.order_id = v_original.id;
+
+  -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+  insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+  select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+  from public.order_payments p
+  where p.order_id = v_original.id;
+
+  update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+
+  insert into public.voids (order_id, voided_by, reason)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''));
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           -v_original.gross_total, -v_original.tax_total, -v_original.net_total, -coalesce(v_original.deposit_total, 0),
+           round(-v_original.gross_total - coalesce(v_original.deposit_total, 0), 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb) to anon, authenticated;
+
+-- Schicht: Bar/Karte aus den Zahlungen statt aus orders.payment_method (Pfand und Storno stecken in den Beträgen)
+create or replace function public.shift_summary(p_shift_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with s as (
+    select * from public.shifts where id = p_shift_id
+  ),
+  o as (
+    select o.*
+    from public.orders o, s
+    where o.device_id = s.device_id
+      and o.event_id = s.event_id
+      and o.created_at >= s.opened_at
+      and (s.closed_at is null or o.created_at < s.closed_at)
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  p as (
+    select o.rksv_receipt_type, op.method, op.amount
+    from public.order_payments op
+    join o on o.id = op.order_id
+  ),
+  d as (
+    select
+      coalesce(sum(od.issued * od.value_snapshot), 0) as issued,
+      coalesce(sum(od.returned * od.value_snapshot), 0) as returned
+    from public.order_deposits od
+    join o on o.id = od.order_id
+    where o.rksv_receipt_type = 'standard'
+  )
+  select jsonb_build_object(
+    'opening_float', s.opening_float,
+    'receipts', (select count(*) from o where o.rksv_receipt_type = 'standard'),
+    'cash_sales', (select coalesce(sum(p.amount), 0) from p where p.method = 'cash' and p.rksv_receipt_type = 'standard'),
+    'card_sales', (select coalesce(sum(p.amount), 0) from p where p.method = 'sumup' and p.rksv_receipt_type = 'standard'),
+    'deposit_issued', round(d.issued, 2),
+    'deposit_returned', round(d.returned, 2),
+    'storno_count', (select count(*) from o where o.rksv_receipt_type = 'storno'),
+    'storno_cash', (select coalesce(sum(p.amount), 0) from p where p.method = 'cash' and p.rksv_receipt_type = 'storno'),
+    'expected_cash', round(s.opening_float + (select coalesce(sum(p.amount), 0) from p where p.method = 'cash'), 2)
+  )
+  from s, d;
+$$;
+
+grant execute on function public.shift_summary(uuid) to anon, authenticated;
+
+-- Bericht: Zahlungsarten aus order_payments
+create or replace function public.sales_report(p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with o as (
+    select
+      o.*,
+      coalesce(o.deposit_total, 0) as deposit,
+      (o.rksv_receipt_type = 'storno') as is_storno
+    from public.orders o
+    where o.event_id = p_event_id
+      and o.created_at >= p_from
+      and o.created_at < p_to
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  grouped as (
+    select
+      g.dim,
+      g.key,
+      min(g.label) as label,
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      round(sum(o.gross_total), 2) as gross,
+      round(sum(o.deposit), 2) as deposit,
+      round(sum(o.gross_total + o.deposit), 2) as total
+    from o
+    left join public.bars b on b.id = o.bar_id
+    cross join lateral (
+      values
+        ('bar', coalesce(o.bar_id::text, ''), coalesce(b.name, '—')),
+        ('device', coalesce(o.device_id, ''), coalesce(left(o.device_id, 8), '—')),
+        ('cashier', coalesce(o.cashier_staff_id::text, ''), coalesce(o.cashier_name_snapshot, '—')),
+        ('hour', to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'YYYY-MM-DD"T"HH24:00'),
+                 to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'DD.MM. HH24:00'))
+    ) as g (dim, key, label)
+    group by g.dim, g.key
+  ),
+  -- Zahlungsarten aus den Zahlungen (ein geteilter Bon zählt bei beiden); Waren/Pfand sind je Zahlung nicht aufteilbar
+  payments as (
+    select
+      p.method as key,
+      case p.method when 'cash' then 'Bar' when 'sumup' then 'Karte (SumUp)' else p.method end as label,
+      count(distinct o.id) filter (where not o.is_storno) as receipts,
+      count(distinct o.id) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(p.amount) filter (where o.is_storno), 2), 0) as storno_amount,
+      null::numeric as gross,
+      null::numeric as deposit,
+      round(sum(p.amount), 2) as total
+    from o
+    join public.order_payments p on p.order_id = o.id
+    group by p.method
+  ),
+  taxes as (
+    select t.tax_rate, sum(t.gross) as gross, sum(t.net) as net, sum(t.tax) as tax
+    from public.order_tax_lines t
+    join o on o.id = t.order_id
+    group by t.tax_rate
+  ),
+  totals as (
+    select
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      coalesce(round(sum(o.gross_total), 2), 0) as gross,
+      coalesce(round(sum(o.net_total), 2), 0) as net,
+      coalesce(round(sum(o.tax_total), 2), 0) as tax,
+      coalesce(round(sum(o.deposit), 2), 0) as deposit,
+      coalesce(round(sum(o.gross_total + o.deposit), 2), 0) as total
+    from o
+  )
+  select jsonb_build_object(
+    'event_id', p_event_id,
+    'from', p_from,
+    'to', p_to,
+    'receipts', t.receipts,
+    'storno_count', t.storno_count,
+    'storno_amount', t.storno_amount,
+    'gross', t.gross,
+    'net', t.net,
+    'tax', t.tax,
+    'deposit', t.deposit,
+    'total', t.total,
+    'taxes', coalesce((select jsonb_agg(jsonb_build_object('tax_rate', x.tax_rate, 'gross', x.gross, 'net', x.net, 'tax', x.tax) order by x.tax_rate desc) from taxes x), '[]'::jsonb),
+    'by_bar', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'bar'), '[]'::jsonb),
+    'by_device', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'device'), '[]'::jsonb),
+    'by_cashier', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'cashier'), '[]'::jsonb),
+    'by_payment', coalesce((select jsonb_agg(to_jsonb(x) order by x.label) from payments x), '[]'::jsonb),
+    'by_hour', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.key) from grouped g where g.dim = 'hour'), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+grant execute on function public.sales_report(uuid, timestamptz, timestamptz) to anon, authenticated;
@@ -0,0 +1,352 @@
+-- ====== Gegeben / Rückgeld ======
+-- Bei Barzahlung kann die Kassa den vom Kunden gegebenen Betrag erfassen; Rückgeld = Gegeben − Bar-Anteil.
+-- Beides wird am Bon gespeichert (Nachvollziehbarkeit bei Differenzen in der Lade).
+
+alter table public.orders add column if not exists cash_tendered numeric(10, 2);
+alter table public.orders add column if not exists cash_change numeric(10, 2);
+
+drop function if exists public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb);
+
+-- create_order: + gegebener Betrag (Bar)
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null,
+  p_cash_tendered numeric default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+  v_cash numeric;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+  end loop;
+
+  v_gross := round(v_gross, 2);
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select p.tax_rate, sum(round(p.price_gross * (l->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.tax_rate
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Gegeben/Rückgeld: nur zum Bar-Anteil, der Kunde muss mindestens diesen Betrag gegeben haben
+  if p_cash_tendered is not null then
+    select round(sum((x->>'amount')::numeric), 2) into v_cash
+    from jsonb_array_elements(v_payments) x
+    where x->>'method' = 'cash';
+    if v_is_null_receipt or v_cash is null or v_cash <= 0 then
+      raise exception 'Gegebener Betrag nur bei Barzahlung.';
+    end if;
+    if round(p_cash_tendered, 2) < v_cash then
+      raise exception 'Gegeben (%) ist weniger als der Bar-Betrag (%).', round(p_cash_tendered, 2), v_cash;
+    end if;
+  end if;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id,
+    cash_tendered, cash_change
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    round(p_cash_tendered, 2),
+    case when p_cash_tendered is not null then round(p_cash_tendered - v_cash, 2) end
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2), p.tax_rate
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric)
+  to anon, authenticated;
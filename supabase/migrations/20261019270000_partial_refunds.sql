@@ -0,0 +1,421 @@
+-- ====== Teil-Storno / Rückerstattung ======
+-- Aus einem Verkaufsbon können einzelne Positionen (Menge) und ausgegebenes Pfand zurückgenommen werden.
+-- Jede Rückerstattung ist ein eigener, negativer Storno-Beleg mit eigener Bon-Nummer, der auf das Original
+-- verweist (storno_of_order_id). Das Original bleibt unverändert; erst wenn alles zurückgenommen ist, wird es
+-- als storniert markiert. Berichte summieren Verkaufs- und Storno-Belege und rechnen Rückerstattungen so netto.
+
+-- Mehrere Stornos je Original: jeder Storno-Beleg bekommt seine eigene Zeile mit Grund
+alter table public.voids drop constraint if exists voids_order_id_key;
+alter table public.voids add column if not exists storno_order_id uuid references public.orders (id);
+
+update public.voids v
+   set storno_order_id = s.id
+  from public.orders s
+ where s.storno_of_order_id = v.order_id
+   and s.rksv_receipt_type = 'storno'
+   and v.storno_order_id is null;
+
+drop function if exists public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb);
+
+-- create_storno: + Auswahl von Positionen/Pfand, Erstattungsart und Druck.
+-- p_lines = [{product_id, qty}], p_deposits = [{deposit_type_id, qty}] (Stück ausgegebenes Pfand).
+-- Ohne beides: alles, was am Original noch offen ist (kompletter Storno).
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null,
+  p_lines jsonb default null,
+  p_deposits jsonb default null,
+  p_refund_method text default null,
+  p_print boolean default false,
+  p_print_payload text default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+  v_items jsonb; -- noch offene Positionen des Originals
+  v_deps jsonb; -- noch offenes Pfand des Originals
+  v_lines jsonb; -- zurückgenommene Positionen
+  v_ref_deps jsonb; -- zurückgenommenes Pfand
+  v_whole boolean; -- erster und kompletter Storno: Zahlungen exakt negieren
+  v_method text;
+  v_gross numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_done boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+  if (p_lines is not null and jsonb_typeof(p_lines) <> 'array') or (p_deposits is not null and jsonb_typeof(p_deposits) <> 'array') then
+    raise exception 'Ungültige Storno-Auswahl.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Offene Mengen: Original abzüglich früherer Stornos (deren Mengen sind negativ)
+  select coalesce(jsonb_agg(x), '[]') into v_items
+  from (
+    select
+      i.product_id,
+      min(i.name_snapshot) as name,
+      min(i.unit_price_gross) as unit_price,
+      min(i.tax_rate) as tax_rate,
+      sum(i.qty) + coalesce((
+        select sum(ri.qty)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as remaining
+    from public.order_items i
+    where i.order_id = v_original.id
+    group by i.product_id
+  ) x
+  where x.remaining > 0;
+
+  select coalesce(jsonb_agg(x), '[]') into v_deps
+  from (
+    select
+      d.deposit_type_id,
+      min(d.name_snapshot) as name,
+      min(d.value_snapshot) as value,
+      sum(d.issued) + coalesce((
+        select sum(rd.issued)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as issued,
+      sum(d.returned) + coalesce((
+        select sum(rd.returned)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as returned
+    from public.order_deposits d
+    where d.order_id = v_original.id
+    group by d.deposit_type_id
+  ) x
+  where x.issued <> 0 or x.returned <> 0;
+
+  if p_lines is null and p_deposits is null then
+    -- Alles Offene
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', r->'remaining')), '[]') into v_lines
+    from jsonb_array_elements(v_items) r;
+    v_ref_deps := v_deps;
+  else
+    if exists (
+      select 1
+      from (
+        select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_lines, '[]')) l
+        group by 1
+      ) l
+      left join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id
+      where l.qty is null or l.qty < 1 or l.qty > coalesce((r->>'remaining')::integer, 0)
+    ) then
+      raise exception 'Ungültige Menge: mehr zurückgenommen als am Bon noch offen ist.';
+    end if;
+    if exists (
+      select 1
+      from (
+        select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+        group by 1
+      ) d
+      left join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id
+      where d.qty is null or d.qty < 1 or d.qty > coalesce((r->>'issued')::integer, 0)
+    ) then
+      raise exception 'Ungültiges Pfand: mehr zurückgenommen als ausgegeben.';
+    end if;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', l.qty)), '[]') into v_lines
+    from (
+      select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_lines, '[]')) l
+      group by 1
+    ) l
+    join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('issued', d.qty, 'returned', 0)), '[]') into v_ref_deps
+    from (
+      select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+      group by 1
+    ) d
+    join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id;
+  end if;
+
+  if jsonb_array_length(v_lines) = 0 and jsonb_array_length(v_ref_deps) = 0 then
+    raise exception 'Nichts zu stornieren.';
+  end if;
+
+  -- Beträge (gleiche Rundung wie create_order / order_tax_lines), negativ
+  select -coalesce(sum(round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2)), 0) into v_gross
+  from jsonb_array_elements(v_lines) r;
+
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, -sum(round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(v_lines) r
+      group by 1
+    ) g
+  ) t;
+
+  select -round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2) into v_deposit
+  from jsonb_array_elements(v_ref_deps) r;
+
+  -- Erstattung: beim ersten kompletten Storno wie bezahlt, sonst eine Zahlung (Standard: Zahlungsart des Originals, geteilt → bar)
+  v_whole := p_lines is null and p_deposits is null
+    and not exists (select 1 from public.orders s where s.storno_of_order_id = v_original.id);
+  v_method := case
+    when v_whole then v_original.payment_method
+    else coalesce(p_refund_method, case when v_original.payment_method = 'split' then 'cash' else v_original.payment_method end)
+  end;
+  if not v_whole and v_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Erstattungsart: %', v_method;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    false, coalesce(p_print, false),
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, -(r->>'qty')::integer,
+         -round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2), (r->>'tax_rate')::numeric
+  from jsonb_array_elements(v_lines) r;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, -(r->>'issued')::integer, -(r->>'returned')::integer
+  from jsonb_array_elements(v_ref_deps) r;
+
+  if v_whole then
+    -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+    from public.order_payments p
+    where p.order_id = v_original.id;
+  elsif round(v_gross + v_deposit, 2) <> 0 then
+    insert into public.order_payments (order_id, method, amount, sort_order)
+    values (p_idempotency_key, v_method, round(v_gross + v_deposit, 2), 1);
+  end if;
+
+  -- Alles zurückgenommen → Original gilt als storniert (Inhalt bleibt unverändert)
+  v_done := (select coalesce(sum((r->>'remaining')::integer), 0) from jsonb_array_elements(v_items) r)
+              = (select coalesce(sum((r->>'qty')::integer), 0) from jsonb_array_elements(v_lines) r)
+        and (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_deps) r)
+              = (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_ref_deps) r);
+  if v_done then
+    update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+  end if;
+
+  insert into public.voids (order_id, voided_by, reason, storno_order_id)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''), p_idempotency_key);
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (v_original.event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text)
+  to anon, authenticated;
+
+-- Artikel-Auswertung: Storno-Belege mitrechnen, damit Teil-Stornos netto eingehen
+-- (ein komplett stornierter Bon ergibt zusammen mit seinem Storno 0)
+create or replace function public.sales_analytics(p_event_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with o as (
+    select o.id, o.bar_id, o.created_at, o.gross_total, o.rksv_receipt_type, o.status
+    from public.orders o
+    where o.event_id = p_event_id
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  i as (
+    select i.name_snapshot as name, i.qty, i.line_total_gross, o.bar_id
+    from public.order_items i
+    join o on o.id = i.order_id
+  ),
+  products as (
+    select i.name, sum(i.qty) as qty, round(sum(i.line_total_gross), 2) as revenue
+    from i
+    group by i.name
+    having sum(i.qty) <> 0 or round(sum(i.line_total_gross), 2) <> 0
+  ),
+  bar_products as (
+    select i.bar_id, i.name, sum(i.qty) as qty, round(sum(i.line_total_gross), 2) as revenue
+    from i
+    group by i.bar_id, i.name
+    having sum(i.qty) <> 0 or round(sum(i.line_total_gross), 2) <> 0
+  ),
+  bar_items as (
+    select i.bar_id, sum(i.qty) as qty
+    from i
+    group by i.bar_id
+  ),
+  bars as (
+    select
+      o.bar_id,
+      coalesce(min(b.name), '—') as name,
+      count(*) filter (where o.rksv_receipt_type = 'standard' and o.status = 'completed') as receipts,
+      round(sum(o.gross_total), 2) as revenue
+    from o
+    left join public.bars b on b.id = o.bar_id
+    group by o.bar_id
+  ),
+  hours as (
+    select
+      extract(hour from o.created_at at time zone 'Europe/Vienna')::integer as hour,
+      count(*) filter (where o.rksv_receipt_type = 'standard' and o.status = 'completed') as receipts,
+      round(sum(o.gross_total), 2) as revenue
+    from o
+    group by 1
+  ),
+  totals as (
+    select
+      (select count(*) from o where o.rksv_receipt_type = 'standard' and o.status = 'completed') as receipts,
+      (select coalesce(round(sum(o.gross_total), 2), 0) from o) as revenue,
+      (select coalesce(sum(i.qty), 0) from i) as items
+  )
+  select jsonb_build_object(
+    'event_id', p_event_id,
+    'receipts', t.receipts,
+    'revenue', t.revenue,
+    'items', t.items,
+    'avg_basket', coalesce(round(t.revenue / nullif(t.receipts, 0), 2), 0),
+    'avg_items', coalesce(round(t.items::numeric / nullif(t.receipts, 0), 2), 0),
+    'products', coalesce((select jsonb_agg(to_jsonb(p) order by p.revenue desc, p.name) from products p), '[]'::jsonb),
+    'bars', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'bar_id', b.bar_id,
+          'name', b.name,
+          'receipts', b.receipts,
+          'revenue', b.revenue,
+          'qty', coalesce((select bi.qty from bar_items bi where bi.bar_id is not distinct from b.bar_id), 0),
+          'products', coalesce((
+            select jsonb_agg(jsonb_build_object('name', bp.name, 'qty', bp.qty, 'revenue', bp.revenue) order by bp.revenue desc, bp.name)
+            from bar_products bp
+            where bp.bar_id is not distinct from b.bar_id
+          ), '[]'::jsonb)
+        )
+        order by b.revenue desc
+      )
+      from bars b
+    ), '[]'::jsonb),
+    'hours', coalesce((select jsonb_agg(to_jsonb(h) order by h.hour) from hours h), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+grant execute on function public.sales_analytics(uuid) to anon, authenticated;
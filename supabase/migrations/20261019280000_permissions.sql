@@ -0,0 +1,1142 @@
+-- ====== Berechtigungen ======
+-- Statt nur staff/admin: benannte Berechtigungen je Rolle (Kassier, Schichtleiter, Kassenwart, Admin …).
+-- staff.role verweist auf roles.key; welche Rolle was darf, steht in role_permissions und ist im Admin-Bereich
+-- änderbar. Die RPCs prüfen die Berechtigung des übergebenen Mitarbeiters selbst (assert_permission), damit ein
+-- manipulierter Client nichts freischalten kann; die Kassa blendet nur aus, was ohnehin abgelehnt würde.
+--
+-- Berechtigungen:
+--   void_own_last   eigenen letzten Bon stornieren      void_any         beliebigen Bon stornieren
+--   reprint         Bon nachdrucken                     view_reports     Berichte, Abschlüsse, Export, RKSV/DEP
+--   give_discounts  Rabatte geben                       adjust_deposit   Pfand-Buchungen über dem Event-Limit
+--   manage_catalog  Sortiment, Bars, Drucker, Events    manage_staff     Mitarbeiter und Rollen
+
+create table if not exists public.roles (
+  key text primary key,
+  label text not null,
+  sort_order integer not null default 0
+);
+
+create table if not exists public.role_permissions (
+  role text not null references public.roles (key) on update cascade on delete cascade,
+  permission text not null check (
+    permission in ('void_own_last', 'void_any', 'reprint', 'view_reports', 'give_discounts', 'adjust_deposit', 'manage_catalog', 'manage_staff')
+  ),
+  primary key (role, permission)
+);
+
+alter table public.roles enable row level security;
+alter table public.role_permissions enable row level security;
+drop policy if exists roles_read on public.roles;
+create policy roles_read on public.roles for select using (true);
+drop policy if exists role_permissions_read on public.role_permissions;
+create policy role_permissions_read on public.role_permissions for select using (true);
+grant select on public.roles, public.role_permissions to anon, authenticated;
+
+insert into public.roles (key, label, sort_order) values
+  ('staff', 'Kassier', 10),
+  ('shift_lead', 'Schichtleiter', 20),
+  ('treasurer', 'Kassenwart', 30),
+  ('admin', 'Admin', 40)
+on conflict (key) do nothing;
+
+insert into public.role_permissions (role, permission) values
+  ('staff', 'void_own_last'),
+  ('shift_lead', 'void_own_last'), ('shift_lead', 'void_any'), ('shift_lead', 'reprint'),
+  ('shift_lead', 'give_discounts'), ('shift_lead', 'adjust_deposit'),
+  ('treasurer', 'void_own_last'), ('treasurer', 'void_any'), ('treasurer', 'reprint'),
+  ('treasurer', 'view_reports'), ('treasurer', 'adjust_deposit'),
+  ('admin', 'void_own_last'), ('admin', 'void_any'), ('admin', 'reprint'), ('admin', 'view_reports'),
+  ('admin', 'give_discounts'), ('admin', 'adjust_deposit'), ('admin', 'manage_catalog'), ('admin', 'manage_staff')
+on conflict do nothing;
+
+-- Bisher: Check auf 'staff' | 'admin' → jetzt jede angelegte Rolle
+alter table public.staff drop constraint if exists staff_role_check;
+alter table public.staff drop constraint if exists staff_role_fkey;
+alter table public.staff add constraint staff_role_fkey foreign key (role) references public.roles (key) on update cascade;
+
+-- Pfand-Buchungen je Bon ohne adjust_deposit (Wert in €, null = kein Limit)
+alter table public.events add column if not exists deposit_adjust_limit numeric(8, 2) default 10;
+
+create or replace function public.has_permission(p_staff_id uuid, p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.staff s
+    join public.role_permissions rp on rp.role = s.role
+    where s.id = p_staff_id and rp.permission = p_permission
+  );
+$$;
+
+grant execute on function public.has_permission(uuid, text) to anon, authenticated;
+
+create or replace function public.assert_permission(p_staff_id uuid, p_permission text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission(p_staff_id, p_permission) then
+    raise exception 'Keine Berechtigung (%).', p_permission;
+  end if;
+  -- für log_product_price()
+  perform set_config('festkassa.staff_id', p_staff_id::text, true);
+end;
+$$;
+
+-- Admin = Mitarbeiter- und Rollenverwaltung (alte Aufrufer)
+create or replace function public.assert_admin(p_staff_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+end;
+$$;
+
+-- Berechtigungen eines Mitarbeiters (nach dem PIN-Check)
+create or replace function public.staff_permissions(p_staff_id uuid)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(rp.permission order by rp.permission), '{}')
+  from public.staff s
+  join public.role_permissions rp on rp.role = s.role
+  where s.id = p_staff_id;
+$$;
+
+grant execute on function public.staff_permissions(uuid) to anon, authenticated;
+
+-- Rolle anlegen/ändern samt Berechtigungen
+create or replace function public.save_role(p_staff_id uuid, p_key text, p_label text, p_permissions text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  if coalesce(trim(p_key), '') = '' or coalesce(trim(p_label), '') = '' then
+    raise exception 'Rolle braucht Schlüssel und Bezeichnung.';
+  end if;
+
+  insert into public.roles (key, label, sort_order)
+  values (trim(p_key), trim(p_label), coalesce((select max(sort_order) from public.roles), 0) + 10)
+  on conflict (key) do update set label = excluded.label;
+
+  delete from public.role_permissions rp where rp.role = trim(p_key);
+  insert into public.role_permissions (role, permission)
+  select distinct trim(p_key), x from unnest(coalesce(p_permissions, '{}')) x;
+
+  -- Niemand darf sich aussperren: mindestens ein Mitarbeiter muss Rollen weiter verwalten können
+  if not exists (
+    select 1 from public.staff s join public.role_permissions rp on rp.role = s.role where rp.permission = 'manage_staff'
+  ) then
+    raise exception 'Mindestens ein Mitarbeiter muss die Berechtigung „Mitarbeiter verwalten“ behalten.';
+  end if;
+end;
+$$;
+
+grant execute on function public.save_role(uuid, text, text, text[]) to anon, authenticated;
+
+-- Nachdruck nur mit Berechtigung (bisher schrieb die Kassa direkt in print_jobs)
+create or replace function public.reprint_receipt(p_staff_id uuid, p_order_id uuid, p_payload text, p_document jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'reprint');
+
+  insert into public.print_jobs (event_id, order_id, payload, document, status)
+  select o.event_id, o.id, coalesce(p_payload, ''), p_document, 'queued'
+  from public.orders o
+  where o.id = p_order_id;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.reprint_receipt(uuid, uuid, text, jsonb) to anon, authenticated;
+
+-- ====== Bisherige Admin-RPCs: Berechtigung statt Admin-Rolle ======
+
+create or replace function public.catalog_save_bar(p_staff_id uuid, p_id uuid, p_event_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+
+  if p_id is null then
+    insert into public.bars (event_id, name, sort_order)
+    values (p_event_id, trim(p_name), coalesce((select max(b.sort_order) + 10 from public.bars b where b.event_id = p_event_id), 10))
+    returning id into v_id;
+  else
+    update public.bars set name = trim(p_name) where id = p_id returning id into v_id;
+    if v_id is null then
+      raise exception 'Bar nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_bar(uuid, uuid, uuid, text) to anon, authenticated;
+
+create or replace function public.catalog_reorder(p_staff_id uuid, p_table text, p_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_table = 'bars' then
+    update public.bars b set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where b.id = x.id;
+  elsif p_table = 'products' then
+    update public.products p set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where p.id = x.id;
+  else
+    raise exception 'Unbekannte Tabelle: %', p_table;
+  end if;
+end;
+$$;
+
+grant execute on function public.catalog_reorder(uuid, text, uuid[]) to anon, authenticated;
+
+create or replace function public.catalog_save_product(
+  p_staff_id uuid,
+  p_id uuid,
+  p_bar_id uuid,
+  p_name text,
+  p_price_gross numeric,
+  p_tax_rate numeric,
+  p_deposit_type_id uuid,
+  p_is_active boolean default true,
+  p_station_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_price_gross is null or p_price_gross < 0 then
+    raise exception 'Ungültiger Preis.';
+  end if;
+  if p_station_id is not null and not exists (
+    select 1 from public.production_stations s join public.bars b on b.event_id = s.event_id
+    where s.id = p_station_id and b.id = p_bar_id
+  ) then
+    raise exception 'Station gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, station_id, sort_order, is_active)
+    values (
+      p_bar_id, trim(p_name), round(p_price_gross, 2), p_tax_rate, p_deposit_type_id, p_station_id,
+      coalesce((select max(p.sort_order) + 10 from public.products p where p.bar_id = p_bar_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.products
+       set name = trim(p_name),
+           price_gross = round(p_price_gross, 2),
+           tax_rate = p_tax_rate,
+           deposit_type_id = p_deposit_type_id,
+           station_id = p_station_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Produkt nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_product(uuid, uuid, uuid, text, numeric, numeric, uuid, boolean, uuid) to anon, authenticated;
+
+create or replace function public.printer_save(
+  p_staff_id uuid,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_bar_ids uuid[],
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if exists (
+    select 1 from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+    left join public.bars b on b.id = x.bar_id
+    where b.event_id is distinct from p_event_id
+  ) then
+    raise exception 'Bar gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.printers (event_id, name, is_active)
+    values (p_event_id, trim(p_name), coalesce(p_is_active, true))
+    returning id into v_id;
+  else
+    update public.printers
+       set name = trim(p_name),
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Drucker nicht gefunden.';
+    end if;
+    delete from public.printer_bars where printer_id = v_id;
+  end if;
+
+  insert into public.printer_bars (printer_id, bar_id)
+  select v_id, x.bar_id from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+  on conflict do nothing;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.printer_save(uuid, uuid, uuid, text, uuid[], boolean) to anon, authenticated;
+
+create or replace function public.station_save(
+  p_staff_id uuid,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_printer_id uuid,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_printer_id is not null and not exists (select 1 from public.printers p where p.id = p_printer_id and p.event_id = p_event_id) then
+    raise exception 'Drucker gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.production_stations (event_id, name, printer_id, sort_order, is_active)
+    values (
+      p_event_id, trim(p_name), p_printer_id,
+      coalesce((select max(s.sort_order) + 10 from public.production_stations s where s.event_id = p_event_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.production_stations
+       set name = trim(p_name),
+           printer_id = p_printer_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Station nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.station_save(uuid, uuid, uuid, text, uuid, boolean) to anon, authenticated;
+
+create or replace function public.set_event_day_cutoff(p_staff_id uuid, p_event_id uuid, p_cutoff time)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'view_reports');
+
+  update public.events set day_cutoff = coalesce(p_cutoff, '06:00') where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_day_cutoff(uuid, uuid, time) to anon, authenticated;
+
+create or replace function public.create_z_report(p_staff_id uuid, p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns setof public.z_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_no integer;
+begin
+  perform public.assert_permission(p_staff_id, 'view_reports');
+  select s.id, s.name into v_staff from public.staff s where s.id = p_staff_id;
+
+  if p_from is null or p_to is null or p_to <= p_from then
+    raise exception 'Ungültiger Zeitraum.';
+  end if;
+  if p_to > now() then
+    raise exception 'Der Zeitraum ist noch nicht abgeschlossen – dafür gibt es den X-Bericht.';
+  end if;
+
+  -- eine Nummernfolge je Event
+  perform pg_advisory_xact_lock(hashtext('z_report:' || p_event_id::text));
+
+  if exists (
+    select 1 from public.z_reports z
+    where z.event_id = p_event_id and z.period_from < p_to and z.period_to > p_from
+  ) then
+    raise exception 'Für diesen Zeitraum gibt es bereits einen Z-Bericht.';
+  end if;
+
+  select coalesce(max(z.z_no), 0) + 1 into v_no from public.z_reports z where z.event_id = p_event_id;
+
+  return query
+    insert into public.z_reports (event_id, z_no, period_from, period_to, created_by_staff_id, created_by_name, data)
+    values (p_event_id, v_no, p_from, p_to, v_staff.id, v_staff.name, public.sales_report(p_event_id, p_from, p_to))
+    returning *;
+end;
+$$;
+
+grant execute on function public.create_z_report(uuid, uuid, timestamptz, timestamptz) to anon, authenticated;
+
+-- ====== Storno: eigener letzter Bon vs. beliebiger Bon ======
+
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null,
+  p_lines jsonb default null,
+  p_deposits jsonb default null,
+  p_refund_method text default null,
+  p_print boolean default false,
+  p_print_payload text default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+  v_items jsonb; -- noch offene Positionen des Originals
+  v_deps jsonb; -- noch offenes Pfand des Originals
+  v_lines jsonb; -- zurückgenommene Positionen
+  v_ref_deps jsonb; -- zurückgenommenes Pfand
+  v_whole boolean; -- erster und kompletter Storno: Zahlungen exakt negieren
+  v_method text;
+  v_gross numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_done boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+  if (p_lines is not null and jsonb_typeof(p_lines) <> 'array') or (p_deposits is not null and jsonb_typeof(p_deposits) <> 'array') then
+    raise exception 'Ungültige Storno-Auswahl.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Eigener letzter Bon (dieses Gerät, danach kein Verkauf mehr): void_own_last, sonst void_any
+  if not public.has_permission(p_staff_id, 'void_any') and not (
+    public.has_permission(p_staff_id, 'void_own_last')
+    and v_original.cashier_staff_id = p_staff_id
+    and v_original.device_id = p_device_id
+    and not exists (
+      select 1 from public.orders n
+      where n.event_id = v_original.event_id
+        and n.device_id = v_original.device_id
+        and n.rksv_receipt_type = 'standard'
+        and n.created_at > v_original.created_at
+    )
+  ) then
+    raise exception 'Keine Berechtigung: Storno dieses Bons.';
+  end if;
+
+  -- Offene Mengen: Original abzüglich früherer Stornos (deren Mengen sind negativ)
+  select coalesce(jsonb_agg(x), '[]') into v_items
+  from (
+    select
+      i.product_id,
+      min(i.name_snapshot) as name,
+      min(i.unit_price_gross) as unit_price,
+      min(i.tax_rate) as tax_rate,
+      sum(i.qty) + coalesce((
+        select sum(ri.qty)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as remaining
+    from public.order_items i
+    where i.order_id = v_original.id
+    group by i.product_id
+  ) x
+  where x.remaining > 0;
+
+  select coalesce(jsonb_agg(x), '[]') into v_deps
+  from (
+    select
+      d.deposit_type_id,
+      min(d.name_snapshot) as name,
+      min(d.value_snapshot) as value,
+      sum(d.issued) + coalesce((
+        select sum(rd.issued)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as issued,
+      sum(d.returned) + coalesce((
+        select sum(rd.returned)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as returned
+    from public.order_deposits d
+    where d.order_id = v_original.id
+    group by d.deposit_type_id
+  ) x
+  where x.issued <> 0 or x.returned <> 0;
+
+  if p_lines is null and p_deposits is null then
+    -- Alles Offene
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', r->'remaining')), '[]') into v_lines
+    from jsonb_array_elements(v_items) r;
+    v_ref_deps := v_deps;
+  else
+    if exists (
+      select 1
+      from (
+        select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_lines, '[]')) l
+        group by 1
+      ) l
+      left join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id
+      where l.qty is null or l.qty < 1 or l.qty > coalesce((r->>'remaining')::integer, 0)
+    ) then
+      raise exception 'Ungültige Menge: mehr zurückgenommen als am Bon noch offen ist.';
+    end if;
+    if exists (
+      select 1
+      from (
+        select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+        group by 1
+      ) d
+      left join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id
+      where d.qty is null or d.qty < 1 or d.qty > coalesce((r->>'issued')::integer, 0)
+    ) then
+      raise exception 'Ungültiges Pfand: mehr zurückgenommen als ausgegeben.';
+    end if;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', l.qty)), '[]') into v_lines
+    from (
+      select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_lines, '[]')) l
+      group by 1
+    ) l
+    join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('issued', d.qty, 'returned', 0)), '[]') into v_ref_deps
+    from (
+      select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+      group by 1
+    ) d
+    join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id;
+  end if;
+
+  if jsonb_array_length(v_lines) = 0 and jsonb_array_length(v_ref_deps) = 0 then
+    raise exception 'Nichts zu stornieren.';
+  end if;
+
+  -- Beträge (gleiche Rundung wie create_order / order_tax_lines), negativ
+  select -coalesce(sum(round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2)), 0) into v_gross
+  from jsonb_array_elements(v_lines) r;
+
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, -sum(round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(v_lines) r
+      group by 1
+    ) g
+  ) t;
+
+  select -round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2) into v_deposit
+  from jsonb_array_elements(v_ref_deps) r;
+
+  -- Erstattung: beim ersten kompletten Storno wie bezahlt, sonst eine Zahlung (Standard: Zahlungsart des Originals, geteilt → bar)
+  v_whole := p_lines is null and p_deposits is null
+    and not exists (select 1 from public.orders s where s.storno_of_order_id = v_original.id);
+  v_method := case
+    when v_whole then v_original.payment_method
+    else coalesce(p_refund_method, case when v_original.payment_method = 'split' then 'cash' else v_original.payment_method end)
+  end;
+  if not v_whole and v_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Erstattungsart: %', v_method;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    false, coalesce(p_print, false),
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, -(r->>'qty')::integer,
+         -round((r->>'unit_price')::numeric * (r->>'qty')::integer, 2), (r->>'tax_rate')::numeric
+  from jsonb_array_elements(v_lines) r;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, -(r->>'issued')::integer, -(r->>'returned')::integer
+  from jsonb_array_elements(v_ref_deps) r;
+
+  if v_whole then
+    -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+    from public.order_payments p
+    where p.order_id = v_original.id;
+  elsif round(v_gross + v_deposit, 2) <> 0 then
+    insert into public.order_payments (order_id, method, amount, sort_order)
+    values (p_idempotency_key, v_method, round(v_gross + v_deposit, 2), 1);
+  end if;
+
+  -- Alles zurückgenommen → Original gilt als storniert (Inhalt bleibt unverändert)
+  v_done := (select coalesce(sum((r->>'remaining')::integer), 0) from jsonb_array_elements(v_items) r)
+              = (select coalesce(sum((r->>'qty')::integer), 0) from jsonb_array_elements(v_lines) r)
+        and (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_deps) r)
+              = (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_ref_deps) r);
+  if v_done then
+    update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+  end if;
+
+  insert into public.voids (order_id, voided_by, reason, storno_order_id)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''), p_idempotency_key);
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (v_original.event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text)
+  to anon, authenticated;
+
+-- ====== Checkout: Pfand-Buchungen über dem Limit ======
+
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null,
+  p_cash_tendered numeric default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+  v_cash numeric;
+  v_deposit_limit numeric;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Manuelle Pfand-Buchungen über dem Limit des Events nur mit Berechtigung
+  select e.deposit_adjust_limit into v_deposit_limit from public.events e where e.id = p_event_id;
+  if v_deposit_limit is not null
+     and (
+       select coalesce(sum(abs((d->>'qty')::integer) * t.value), 0) + abs(coalesce(p_deposit_adjust, 0))
+       from jsonb_array_elements(p_deposits) d
+       join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+     ) > v_deposit_limit
+     and not public.has_permission(p_staff_id, 'adjust_deposit') then
+    raise exception 'Keine Berechtigung: Pfand-Buchungen über % € je Bon.', v_deposit_limit;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+
+    v_gross := v_gross + round(v_line.price_gross * v_line.qty, 2);
+  end loop;
+
+  v_gross := round(v_gross, 2);
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select p.tax_rate, sum(round(p.price_gross * (l->>'qty')::integer, 2)) as gross
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.tax_rate
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Gegeben/Rückgeld: nur zum Bar-Anteil, der Kunde muss mindestens diesen Betrag gegeben haben
+  if p_cash_tendered is not null then
+    select round(sum((x->>'amount')::numeric), 2) into v_cash
+    from jsonb_array_elements(v_payments) x
+    where x->>'method' = 'cash';
+    if v_is_null_receipt or v_cash is null or v_cash <= 0 then
+      raise exception 'Gegebener Betrag nur bei Barzahlung.';
+    end if;
+    if round(p_cash_tendered, 2) < v_cash then
+      raise exception 'Gegeben (%) ist weniger als der Bar-Betrag (%).', round(p_cash_tendered, 2), v_cash;
+    end if;
+  end if;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id,
+    cash_tendered, cash_change
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    round(p_cash_tendered, 2),
+    case when p_cash_tendered is not null then round(p_cash_tendered - v_cash, 2) end
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate)
+  select p_idempotency_key, p.id, p.name, p.price_gross, (l->>'qty')::integer, round(p.price_gross * (l->>'qty')::integer, 2), p.tax_rate
+  from jsonb_array_elements(p_lines) l
+  join public.products p on p.id = (l->>'product_id')::uuid;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric)
+  to anon, authenticated;
@@ -0,0 +1,376 @@
+-- ====== Mitarbeiter-Verwaltung + PIN-Schutz ======
+-- Mitarbeiter anlegen/bearbeiten/deaktivieren und PINs setzen geht jetzt über den Admin-Bereich (manage_staff).
+-- PINs werden wie bisher nur als bcrypt-Hash (pgcrypto) in staff.pin_hash gespeichert – gehasht wird in der DB,
+-- die Kassa schickt den PIN nur zum Prüfen/Setzen.
+--
+-- Schutz gegen Durchprobieren: jeder PIN-Check wird in pin_attempts protokolliert (Gerät + Fingerabdruck des
+-- eingegebenen PINs, HMAC mit geheimem Pepper). Zu viele Fehlversuche in kurzer Zeit sperren das Gerät bzw.
+-- den PIN für eine Weile (pin_lockouts) und erzeugen eine Admin-Benachrichtigung. Während der Sperre wird
+-- der PIN gar nicht erst geprüft; check_staff_pin meldet "locked" statt "wrong".
+
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.staff add column if not exists pin_hash text;
+alter table public.staff alter column pin_hash drop not null; -- neue Mitarbeiter bekommen den PIN erst nach dem Anlegen
+alter table public.staff add column if not exists is_active boolean not null default true;
+alter table public.staff add column if not exists last_login_at timestamptz;
+alter table public.staff add column if not exists pin_changed_at timestamptz;
+
+-- Grenzwerte + Pepper (eine Zeile, nur für security-definer-Funktionen lesbar)
+create table if not exists public.pin_security (
+  id boolean primary key default true check (id),
+  max_device_failures integer not null default 5,
+  max_pin_failures integer not null default 10,
+  failure_window interval not null default '15 minutes',
+  lockout_duration interval not null default '15 minutes',
+  pepper text not null default encode(extensions.gen_random_bytes(32), 'hex')
+);
+insert into public.pin_security (id) values (true) on conflict do nothing;
+alter table public.pin_security enable row level security;
+
+create table if not exists public.pin_attempts (
+  id bigint generated always as identity primary key,
+  device_id text,
+  pin_fingerprint text not null,
+  staff_id uuid references public.staff (id),
+  success boolean not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists pin_attempts_device_idx on public.pin_attempts (device_id, created_at);
+create index if not exists pin_attempts_pin_idx on public.pin_attempts (pin_fingerprint, created_at);
+alter table public.pin_attempts enable row level security;
+
+create table if not exists public.pin_lockouts (
+  kind text not null check (kind in ('device', 'pin')),
+  key text not null,
+  locked_until timestamptz not null,
+  failures integer not null,
+  created_at timestamptz not null default now(),
+  primary key (kind, key)
+);
+alter table public.pin_lockouts enable row level security;
+
+create table if not exists public.admin_notifications (
+  id bigint generated always as identity primary key,
+  kind text not null,
+  message text not null,
+  device_id text,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+alter table public.admin_notifications enable row level security;
+
+-- Deaktivierte Mitarbeiter haben keine Berechtigungen mehr
+create or replace function public.has_permission(p_staff_id uuid, p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.staff s
+    join public.role_permissions rp on rp.role = s.role
+    where s.id = p_staff_id and s.is_active and rp.permission = p_permission
+  );
+$$;
+
+create or replace function public.staff_permissions(p_staff_id uuid)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(rp.permission order by rp.permission), '{}')
+  from public.staff s
+  join public.role_permissions rp on rp.role = s.role
+  where s.id = p_staff_id and s.is_active;
+$$;
+
+-- Mindestens ein aktiver Mitarbeiter muss Mitarbeiter/Rollen verwalten können
+create or replace function public.assert_staff_admin_left()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.staff s join public.role_permissions rp on rp.role = s.role
+    where s.is_active and rp.permission = 'manage_staff'
+  ) then
+    raise exception 'Mindestens ein aktiver Mitarbeiter muss die Berechtigung „Mitarbeiter verwalten“ behalten.';
+  end if;
+end;
+$$;
+
+create or replace function public.save_role(p_staff_id uuid, p_key text, p_label text, p_permissions text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  if coalesce(trim(p_key), '') = '' or coalesce(trim(p_label), '') = '' then
+    raise exception 'Rolle braucht Schlüssel und Bezeichnung.';
+  end if;
+
+  insert into public.roles (key, label, sort_order)
+  values (trim(p_key), trim(p_label), coalesce((select max(sort_order) from public.roles), 0) + 10)
+  on conflict (key) do update set label = excluded.label;
+
+  delete from public.role_permissions rp where rp.role = trim(p_key);
+  insert into public.role_permissions (role, permission)
+  select distinct trim(p_key), x from unnest(coalesce(p_permissions, '{}')) x;
+
+  perform public.assert_staff_admin_left();
+end;
+$$;
+
+-- PIN-Check mit Sperre. status: ok | wrong | locked (bei locked ist locked_until gesetzt, id/name/role null)
+drop function if exists public.check_staff_pin(text);
+
+create or replace function public.check_staff_pin(pin_input text, p_device_id text default null)
+returns table (id uuid, name text, role text, status text, locked_until timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  v_cfg public.pin_security%rowtype;
+  v_fp text;
+  v_staff record;
+  v_until timestamptz;
+  v_failures integer;
+begin
+  select * into v_cfg from public.pin_security where id;
+  v_fp := encode(hmac(coalesce(pin_input, ''), v_cfg.pepper, 'sha256'), 'hex');
+
+  -- Gesperrt? Dann wird der PIN gar nicht geprüft
+  select max(l.locked_until) into v_until
+  from public.pin_lockouts l
+  where l.locked_until > now()
+    and ((l.kind = 'device' and l.key = p_device_id) or (l.kind = 'pin' and l.key = v_fp));
+  if v_until is not null then
+    return query select null::uuid, null::text, null::text, 'locked'::text, v_until;
+    return;
+  end if;
+
+  select s.id, s.name, s.role into v_staff
+  from public.staff s
+  where s.is_active and s.pin_hash is not null and s.pin_hash = crypt(pin_input, s.pin_hash)
+  limit 1;
+
+  insert into public.pin_attempts (device_id, pin_fingerprint, staff_id, success)
+  values (p_device_id, v_fp, v_staff.id, v_staff.id is not null);
+
+  if v_staff.id is not null then
+    update public.staff s set last_login_at = now() where s.id = v_staff.id;
+    return query select v_staff.id, v_staff.name::text, v_staff.role::text, 'ok'::text, null::timestamptz;
+    return;
+  end if;
+
+  -- Fehlversuche im Zeitfenster (seit dem letzten Erfolg an diesem Gerät) → ggf. Gerät sperren
+  if p_device_id is not null then
+    select count(*) into v_failures
+    from public.pin_attempts a
+    where a.device_id = p_device_id
+      and not a.success
+      and a.created_at > now() - v_cfg.failure_window
+      and a.created_at > coalesce((select max(b.created_at) from public.pin_attempts b where b.device_id = p_device_id and b.success), '-infinity');
+    if v_failures >= v_cfg.max_device_failures then
+      v_until := now() + v_cfg.lockout_duration;
+      insert into public.pin_lockouts (kind, key, locked_until, failures) values ('device', p_device_id, v_until, v_failures)
+      on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+      insert into public.admin_notifications (kind, message, device_id)
+      values ('device_locked', format('Gerät %s nach %s falschen PINs bis %s gesperrt.', left(p_device_id, 8), v_failures,
+              to_char(v_until at time zone 'Europe/Vienna', 'HH24:MI')), p_device_id);
+    end if;
+  end if;
+
+  -- Derselbe falsche PIN auf mehreren Geräten → PIN sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where a.pin_fingerprint = v_fp and not a.success and a.created_at > now() - v_cfg.failure_window;
+  if v_failures >= v_cfg.max_pin_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('pin', v_fp, now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('pin_locked', format('Ein PIN wurde %s-mal falsch probiert und ist vorübergehend gesperrt.', v_failures), p_device_id);
+  end if;
+
+  return query select null::uuid, null::text, null::text, case when v_until is null then 'wrong' else 'locked' end, v_until;
+end;
+$$;
+
+grant execute on function public.check_staff_pin(text, text) to anon, authenticated;
+
+-- ====== Verwaltung (manage_staff) ======
+
+create or replace function public.staff_list(p_staff_id uuid)
+returns table (id uuid, name text, role text, is_active boolean, has_pin boolean, last_login_at timestamptz, pin_changed_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  return query
+    select s.id, s.name::text, s.role::text, s.is_active, s.pin_hash is not null, s.last_login_at, s.pin_changed_at
+    from public.staff s
+    order by s.is_active desc, s.name;
+end;
+$$;
+
+grant execute on function public.staff_list(uuid) to anon, authenticated;
+
+-- Mitarbeiter anlegen (p_id null) oder ändern
+create or replace function public.staff_save(p_staff_id uuid, p_id uuid, p_name text, p_role text, p_is_active boolean)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Name fehlt.';
+  end if;
+  if not exists (select 1 from public.roles r where r.key = p_role) then
+    raise exception 'Unbekannte Rolle: %', p_role;
+  end if;
+  if p_id = p_staff_id and not coalesce(p_is_active, true) then
+    raise exception 'Du kannst dich nicht selbst deaktivieren.';
+  end if;
+
+  if p_id is null then
+    insert into public.staff (name, role, is_active) values (trim(p_name), p_role, coalesce(p_is_active, true))
+    returning staff.id into v_id;
+  else
+    update public.staff s set name = trim(p_name), role = p_role, is_active = coalesce(p_is_active, true)
+     where s.id = p_id
+    returning s.id into v_id;
+    if v_id is null then
+      raise exception 'Mitarbeiter nicht gefunden.';
+    end if;
+  end if;
+
+  perform public.assert_staff_admin_left();
+  return v_id;
+end;
+$$;
+
+grant execute on function public.staff_save(uuid, uuid, text, text, boolean) to anon, authenticated;
+
+-- PIN setzen (p_pin) oder neu würfeln (p_pin null → Rückgabe einmalig an die Kassa). 4–8 Ziffern, eindeutig.
+create or replace function public.staff_set_pin(p_staff_id uuid, p_id uuid, p_pin text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_pin text := nullif(trim(coalesce(p_pin, '')), '');
+  v_try integer := 0;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  if not exists (select 1 from public.staff s where s.id = p_id) then
+    raise exception 'Mitarbeiter nicht gefunden.';
+  end if;
+  if v_pin is not null and v_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'PIN muss aus 4 bis 8 Ziffern bestehen.';
+  end if;
+
+  loop
+    if p_pin is null then
+      v_pin := lpad((floor(random() * 1000000))::integer::text, 6, '0');
+    end if;
+    exit when not exists (
+      select 1 from public.staff s
+      where s.id <> p_id and s.pin_hash is not null and s.pin_hash = crypt(v_pin, s.pin_hash)
+    );
+    if p_pin is not null then
+      raise exception 'Dieser PIN ist schon vergeben.';
+    end if;
+    v_try := v_try + 1;
+    if v_try > 20 then
+      raise exception 'Kein freier PIN gefunden.';
+    end if;
+  end loop;
+
+  update public.staff s set pin_hash = crypt(v_pin, gen_salt('bf')), pin_changed_at = now() where s.id = p_id;
+
+  return case when p_pin is null then v_pin end;
+end;
+$$;
+
+grant execute on function public.staff_set_pin(uuid, uuid, text) to anon, authenticated;
+
+-- Aktive Sperren + ungelesene Hinweise
+create or replace function public.pin_security_status(p_staff_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+
+  return jsonb_build_object(
+    'lockouts', coalesce((
+      select jsonb_agg(jsonb_build_object('kind', l.kind, 'key', l.key, 'locked_until', l.locked_until, 'failures', l.failures) order by l.locked_until desc)
+      from public.pin_lockouts l
+      where l.locked_until > now()
+    ), '[]'::jsonb),
+    'notifications', coalesce((
+      select jsonb_agg(jsonb_build_object('id', n.id, 'kind', n.kind, 'message', n.message, 'device_id', n.device_id, 'created_at', n.created_at) order by n.created_at desc)
+      from public.admin_notifications n
+      where n.read_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.pin_security_status(uuid) to anon, authenticated;
+
+create or replace function public.pin_unlock(p_staff_id uuid, p_kind text, p_key text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+  delete from public.pin_lockouts l where l.kind = p_kind and l.key = p_key;
+end;
+$$;
+
+grant execute on function public.pin_unlock(uuid, text, text) to anon, authenticated;
+
+create or replace function public.admin_notifications_read(p_staff_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_staff');
+  update public.admin_notifications n set read_at = now() where n.read_at is null;
+end;
+$$;
+
+grant execute on function public.admin_notifications_read(uuid) to anon, authenticated;
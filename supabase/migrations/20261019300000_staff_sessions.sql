@@ -0,0 +1,118 @@
+-- ====== Kassier-Sitzungen + Auto-Sperre ======
+-- Ein Login erzeugt eine Sitzung mit Ablaufzeit (staff_sessions). Das Gerät merkt sich nur das Token;
+-- Name/Rolle/Berechtigungen holt es beim Start über staff_session() – eine abgelaufene, beendete Sitzung
+-- oder ein deaktivierter Mitarbeiter führt zurück zum Sperrbildschirm.
+-- Nach events.auto_lock_minutes ohne Eingabe sperrt die Kassa; der Warenkorb bleibt, der nächste PIN übernimmt.
+
+alter table public.events add column if not exists auto_lock_minutes integer default 5 check (auto_lock_minutes is null or auto_lock_minutes >= 0);
+
+create table if not exists public.staff_sessions (
+  token text primary key default encode(extensions.gen_random_bytes(24), 'hex'),
+  staff_id uuid not null references public.staff (id),
+  device_id text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '12 hours',
+  ended_at timestamptz
+);
+create index if not exists staff_sessions_staff_idx on public.staff_sessions (staff_id, created_at);
+alter table public.staff_sessions enable row level security;
+
+-- PIN prüfen (inkl. Sperre, siehe check_staff_pin) und bei Erfolg eine Sitzung anlegen
+create or replace function public.start_staff_session(pin_input text, p_device_id text default null)
+returns table (id uuid, name text, role text, status text, locked_until timestamptz, token text, expires_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_check record;
+  v_session public.staff_sessions%rowtype;
+begin
+  select * into v_check from public.check_staff_pin(pin_input, p_device_id);
+
+  if v_check.status is distinct from 'ok' then
+    return query select null::uuid, null::text, null::text, coalesce(v_check.status, 'wrong'), v_check.locked_until, null::text, null::timestamptz;
+    return;
+  end if;
+
+  insert into public.staff_sessions (staff_id, device_id) values (v_check.id, p_device_id)
+  returning * into v_session;
+
+  return query select v_check.id, v_check.name, v_check.role, 'ok'::text, null::timestamptz, v_session.token, v_session.expires_at;
+end;
+$$;
+
+grant execute on function public.start_staff_session(text, text) to anon, authenticated;
+
+-- Gültige Sitzung → Mitarbeiter; sonst keine Zeile
+create or replace function public.staff_session(p_token text)
+returns table (id uuid, name text, role text, expires_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.id, s.name::text, s.role::text, ss.expires_at
+  from public.staff_sessions ss
+  join public.staff s on s.id = ss.staff_id
+  where ss.token = p_token
+    and ss.ended_at is null
+    and ss.expires_at > now()
+    and s.is_active;
+$$;
+
+grant execute on function public.staff_session(text) to anon, authenticated;
+
+create or replace function public.end_staff_session(p_token text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.staff_sessions set ended_at = now() where token = p_token and ended_at is null;
+$$;
+
+grant execute on function public.end_staff_session(text) to anon, authenticated;
+
+-- Deaktivieren beendet alle offenen Sitzungen des Mitarbeiters
+create or replace function public.end_sessions_of_inactive_staff()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not new.is_active and old.is_active then
+    update public.staff_sessions set ended_at = now() where staff_id = new.id and ended_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists staff_end_sessions on public.staff;
+create trigger staff_end_sessions
+after update of is_active on public.staff
+for each row execute function public.end_sessions_of_inactive_staff();
+
+create or replace function public.set_event_auto_lock(p_staff_id uuid, p_event_id uuid, p_minutes integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if p_minutes is not null and p_minutes < 0 then
+    raise exception 'Ungültige Sperrzeit.';
+  end if;
+
+  update public.events set auto_lock_minutes = nullif(p_minutes, 0) where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_auto_lock(uuid, uuid, integer) to anon, authenticated;
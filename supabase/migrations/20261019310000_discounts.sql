@@ -0,0 +1,945 @@
+-- ====== Rabatte, Freigetränke, Preis-Überschreibungen ======
+-- Rabatt je Position oder auf den ganzen Bon: Prozent, fixer Betrag, neuer Stückpreis (nur Position) oder gratis.
+-- Jeder Rabatt braucht einen Grund aus discount_reasons (je Event, z.B. "Helfergetränk", "Sponsor", "Feuerwehr 10 %").
+-- Geben darf ihn, wer give_discounts hat – oder ein Kassier mit Freigabe (PIN) eines solchen Mitarbeiters.
+--
+-- Der Bon-Rabatt wird anteilig auf die Positionen verteilt; order_items.line_total_gross ist ab jetzt der
+-- rabattierte Betrag, die USt wird davon gerechnet. Wie viel Rabatt in einer Position steckt, steht in
+-- order_items.discount_amount; je gewährtem Rabatt (Grund, Art, Betrag) eine Zeile in order_discounts.
+
+create table if not exists public.discount_reasons (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  name text not null,
+  kind text not null default 'percent' check (kind in ('percent', 'amount', 'price', 'free')),
+  value numeric(10, 2) not null default 0,
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+create index if not exists discount_reasons_event_idx on public.discount_reasons (event_id, sort_order);
+
+alter table public.discount_reasons enable row level security;
+drop policy if exists discount_reasons_read on public.discount_reasons;
+create policy discount_reasons_read on public.discount_reasons for select using (true);
+grant select on public.discount_reasons to anon, authenticated;
+
+alter table public.order_items add column if not exists discount_amount numeric(10, 2) not null default 0;
+alter table public.orders add column if not exists discount_total numeric(10, 2) not null default 0;
+alter table public.orders add column if not exists discount_granted_by uuid references public.staff (id);
+
+create table if not exists public.order_discounts (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  product_id uuid, -- null = Rabatt auf den ganzen Bon
+  reason_id uuid references public.discount_reasons (id) on delete set null,
+  reason_snapshot text not null,
+  kind text not null check (kind in ('percent', 'amount', 'price', 'free')),
+  value numeric(10, 2) not null default 0,
+  amount numeric(10, 2) not null
+);
+create index if not exists order_discounts_order_idx on public.order_discounts (order_id);
+
+-- Rabatt in € auf einen Betrag (Position: Stückpreis × Menge), nie mehr als der Betrag – wie discountAmount() in der Kassa
+create or replace function public.discount_amount(p_gross numeric, p_discount jsonb, p_qty integer default 1)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_discount is null or jsonb_typeof(p_discount) <> 'object' or p_gross <= 0 then 0
+    else least(p_gross, greatest(0, round(
+      case p_discount->>'kind'
+        when 'free' then p_gross
+        when 'percent' then p_gross * (p_discount->>'value')::numeric / 100
+        when 'amount' then (p_discount->>'value')::numeric
+        when 'price' then p_gross - round((p_discount->>'value')::numeric * p_qty, 2)
+        else 0
+      end, 2)))
+  end;
+$$;
+
+create or replace function public.discount_reason_save(
+  p_staff_id uuid,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_kind text,
+  p_value numeric,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_permission(p_staff_id, 'manage_catalog');
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Bitte einen Grund eingeben.';
+  end if;
+  if p_kind is null or p_kind not in ('percent', 'amount', 'price', 'free') then
+    raise exception 'Ungültige Rabatt-Art: %', p_kind;
+  end if;
+  if p_kind <> 'free' and (p_value is null or p_value < 0 or (p_kind = 'percent' and p_value > 100)) then
+    raise exception 'Ungültiger Rabatt-Wert.';
+  end if;
+
+  if p_id is null then
+    insert into public.discount_reasons (event_id, name, kind, value, is_active, sort_order)
+    values (p_event_id, trim(p_name), p_kind, coalesce(p_value, 0), coalesce(p_is_active, true),
+            coalesce((select max(r.sort_order) from public.discount_reasons r where r.event_id = p_event_id), 0) + 10)
+    returning id into v_id;
+  else
+    update public.discount_reasons r
+       set name = trim(p_name), kind = p_kind, value = coalesce(p_value, 0), is_active = coalesce(p_is_active, true)
+     where r.id = p_id
+    returning r.id into v_id;
+    if v_id is null then
+      raise exception 'Rabatt-Grund nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.discount_reason_save(uuid, uuid, uuid, text, text, numeric, boolean) to anon, authenticated;
+
+-- Rabatte je Grund und Kassier. Komplett stornierte Bons zählen nicht mehr.
+create or replace function public.discount_report(p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with d as (
+    select d.reason_snapshot as reason, coalesce(o.cashier_name_snapshot, '—') as cashier, d.order_id, d.amount
+    from public.order_discounts d
+    join public.orders o on o.id = d.order_id
+    where o.event_id = p_event_id
+      and o.rksv_receipt_type = 'standard'
+      and o.status <> 'voided'
+      and o.created_at >= p_from
+      and o.created_at < p_to
+  )
+  select jsonb_build_object(
+    'from', p_from,
+    'to', p_to,
+    'count', (select count(*) from d),
+    'amount', (select coalesce(sum(amount), 0) from d),
+    'rows', coalesce((
+      select jsonb_agg(jsonb_build_object('reason', g.reason, 'cashier', g.cashier, 'receipts', g.receipts, 'count', g.cnt, 'amount', g.amount)
+                       order by g.reason, g.amount desc)
+      from (
+        select reason, cashier, count(distinct order_id) as receipts, count(*) as cnt, sum(amount) as amount
+        from d
+        group by reason, cashier
+      ) g
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.discount_report(uuid, timestamptz, timestamptz) to anon, authenticated;
+
+-- ====== create_order: + Rabatte ======
+
+drop function if exists public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric);
+
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null,
+  p_cash_tendered numeric default null,
+  p_discount jsonb default null,
+  p_discount_staff_id uuid default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+  v_cash numeric;
+  v_deposit_limit numeric;
+  v_discounts jsonb; -- alle Rabatte (Positionen + Bon) zur Prüfung
+  v_items jsonb; -- Positionen mit Rabatt-Anteilen, in der Reihenfolge von p_lines
+  v_subtotal numeric;
+  v_order_discount numeric := 0;
+  v_last integer;
+  v_discount_total numeric;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Rabatte: Grund muss zum Event gehören, Berechtigung hat der Kassier oder wer den Rabatt freigegeben hat
+  if p_discount is not null and jsonb_typeof(p_discount) <> 'object' then
+    raise exception 'Ungültiger Rabatt.';
+  end if;
+  select coalesce(jsonb_agg(x.d), '[]') into v_discounts
+  from (
+    select l->'discount' as d from jsonb_array_elements(p_lines) l where jsonb_typeof(l->'discount') = 'object'
+    union all
+    select p_discount where p_discount is not null
+  ) x;
+
+  if jsonb_array_length(v_discounts) > 0 then
+    if v_is_null_receipt then
+      raise exception 'Nullbelege dürfen keine Rabatte enthalten.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      left join public.discount_reasons r on r.id = (d->>'reason_id')::uuid and r.event_id = p_event_id and r.is_active
+      where r.id is null
+    ) then
+      raise exception 'Rabatt ohne gültigen Grund.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      where d->>'kind' is null
+         or d->>'kind' not in ('percent', 'amount', 'price', 'free')
+         or (d->>'kind' <> 'free' and ((d->>'value') is null or (d->>'value')::numeric < 0))
+         or (d->>'kind' = 'percent' and (d->>'value')::numeric > 100)
+    ) or p_discount->>'kind' = 'price' then
+      raise exception 'Ungültiger Rabatt.';
+    end if;
+    if not public.has_permission(coalesce(p_discount_staff_id, p_staff_id), 'give_discounts') then
+      raise exception 'Keine Berechtigung: Rabatte.';
+    end if;
+  end if;
+
+  -- Manuelle Pfand-Buchungen über dem Limit des Events nur mit Berechtigung
+  select e.deposit_adjust_limit into v_deposit_limit from public.events e where e.id = p_event_id;
+  if v_deposit_limit is not null
+     and (
+       select coalesce(sum(abs((d->>'qty')::integer) * t.value), 0) + abs(coalesce(p_deposit_adjust, 0))
+       from jsonb_array_elements(p_deposits) d
+       join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+     ) > v_deposit_limit
+     and not public.has_permission(p_staff_id, 'adjust_deposit') then
+    raise exception 'Keine Berechtigung: Pfand-Buchungen über % € je Bon.', v_deposit_limit;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+  end loop;
+
+  -- Rabatte je Position, dann Bon-Rabatt anteilig verteilen (Rest auf die letzte Position mit Betrag),
+  -- damit die USt vom rabattierten Betrag gerechnet wird – gleich wie allocateDiscount() in der Kassa
+  select coalesce(jsonb_agg(to_jsonb(x) order by x.n), '[]') into v_items
+  from (
+    select t.n::integer as n, p.id as product_id, p.name, p.price_gross as unit_price, (t.l->>'qty')::integer as qty, p.tax_rate,
+           round(p.price_gross * (t.l->>'qty')::integer, 2) as gross,
+           case when jsonb_typeof(t.l->'discount') = 'object' then t.l->'discount' end as discount,
+           public.discount_amount(round(p.price_gross * (t.l->>'qty')::integer, 2), t.l->'discount', (t.l->>'qty')::integer) as line_discount
+    from jsonb_array_elements(p_lines) with ordinality as t (l, n)
+    join public.products p on p.id = (t.l->>'product_id')::uuid
+  ) x;
+
+  select coalesce(sum((r->>'gross')::numeric - (r->>'line_discount')::numeric), 0) into v_subtotal
+  from jsonb_array_elements(v_items) r;
+  v_order_discount := public.discount_amount(v_subtotal, p_discount);
+
+  select max((r->>'n')::integer) into v_last
+  from jsonb_array_elements(v_items) r
+  where (r->>'gross')::numeric - (r->>'line_discount')::numeric > 0;
+
+  select coalesce(jsonb_agg(y.r || jsonb_build_object('order_share', y.share, 'total', y.after - y.share) order by y.n), '[]') into v_items
+  from (
+    select s.r, s.n, s.after,
+           case when s.n = v_last then v_order_discount - sum(s.share) over () + s.share else s.share end as share
+    from (
+      select r, (r->>'n')::integer as n, (r->>'gross')::numeric - (r->>'line_discount')::numeric as after,
+             case
+               when (r->>'n')::integer = v_last or v_subtotal <= 0 or (r->>'gross')::numeric - (r->>'line_discount')::numeric <= 0 then 0
+               else round(v_order_discount * ((r->>'gross')::numeric - (r->>'line_discount')::numeric) / v_subtotal, 2)
+             end as share
+      from jsonb_array_elements(v_items) r
+    ) s
+  ) y;
+
+  select round(coalesce(sum((r->>'total')::numeric), 0), 2), round(coalesce(sum((r->>'gross')::numeric - (r->>'total')::numeric), 0), 2)
+    into v_gross, v_discount_total
+  from jsonb_array_elements(v_items) r;
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, sum((r->>'total')::numeric) as gross
+      from jsonb_array_elements(v_items) r
+      group by 1
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Gegeben/Rückgeld: nur zum Bar-Anteil, der Kunde muss mindestens diesen Betrag gegeben haben
+  if p_cash_tendered is not null then
+    select round(sum((x->>'amount')::numeric), 2) into v_cash
+    from jsonb_array_elements(v_payments) x
+    where x->>'method' = 'cash';
+    if v_is_null_receipt or v_cash is null or v_cash <= 0 then
+      raise exception 'Gegebener Betrag nur bei Barzahlung.';
+    end if;
+    if round(p_cash_tendered, 2) < v_cash then
+      raise exception 'Gegeben (%) ist weniger als der Bar-Betrag (%).', round(p_cash_tendered, 2), v_cash;
+    end if;
+  end if;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id,
+    cash_tendered, cash_change,
+    discount_total, discount_granted_by
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    round(p_cash_tendered, 2),
+    case when p_cash_tendered is not null then round(p_cash_tendered - v_cash, 2) end,
+    v_discount_total,
+    case when jsonb_array_length(v_discounts) > 0 then coalesce(p_discount_staff_id, p_staff_id) end
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, (r->>'qty')::integer,
+         (r->>'total')::numeric, (r->>'tax_rate')::numeric, (r->>'line_discount')::numeric + (r->>'order_share')::numeric
+  from jsonb_array_elements(v_items) r
+  order by (r->>'n')::integer;
+
+  insert into public.order_discounts (order_id, product_id, reason_id, reason_snapshot, kind, value, amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, dr.id, dr.name, r->'discount'->>'kind', coalesce((r->'discount'->>'value')::numeric, 0),
+         (r->>'line_discount')::numeric
+  from jsonb_array_elements(v_items) r
+  join public.discount_reasons dr on dr.id = (r->'discount'->>'reason_id')::uuid
+  where (r->>'line_discount')::numeric > 0
+  union all
+  select p_idempotency_key, null, dr.id, dr.name, p_discount->>'kind', coalesce((p_discount->>'value')::numeric, 0), v_order_discount
+  from public.discount_reasons dr
+  where dr.id = (p_discount->>'reason_id')::uuid and v_order_discount > 0;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric, jsonb, uuid)
+  to anon, authenticated;
+
+-- ====== create_storno: Beträge aus dem rabattierten Bon ======
+
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_staff_id uuid,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null,
+  p_lines jsonb default null,
+  p_deposits jsonb default null,
+  p_refund_method text default null,
+  p_print boolean default false,
+  p_print_payload text default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+  v_items jsonb; -- noch offene Positionen des Originals
+  v_deps jsonb; -- noch offenes Pfand des Originals
+  v_lines jsonb; -- zurückgenommene Positionen
+  v_ref_deps jsonb; -- zurückgenommenes Pfand
+  v_whole boolean; -- erster und kompletter Storno: Zahlungen exakt negieren
+  v_method text;
+  v_gross numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_done boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+  if (p_lines is not null and jsonb_typeof(p_lines) <> 'array') or (p_deposits is not null and jsonb_typeof(p_deposits) <> 'array') then
+    raise exception 'Ungültige Storno-Auswahl.';
+  end if;
+
+  select s.id, s.name, s.role into v_staff from public.staff s where s.id = p_staff_id;
+  if not found then
+    raise exception 'Unbekannter Mitarbeiter: %', p_staff_id;
+  end if;
+
+  -- Eigener letzter Bon (dieses Gerät, danach kein Verkauf mehr): void_own_last, sonst void_any
+  if not public.has_permission(p_staff_id, 'void_any') and not (
+    public.has_permission(p_staff_id, 'void_own_last')
+    and v_original.cashier_staff_id = p_staff_id
+    and v_original.device_id = p_device_id
+    and not exists (
+      select 1 from public.orders n
+      where n.event_id = v_original.event_id
+        and n.device_id = v_original.device_id
+        and n.rksv_receipt_type = 'standard'
+        and n.created_at > v_original.created_at
+    )
+  ) then
+    raise exception 'Keine Berechtigung: Storno dieses Bons.';
+  end if;
+
+  -- Offene Mengen: Original abzüglich früherer Stornos (deren Mengen sind negativ)
+  select coalesce(jsonb_agg(x), '[]') into v_items
+  from (
+    select
+      i.product_id,
+      min(i.name_snapshot) as name,
+      min(i.unit_price_gross) as unit_price,
+      min(i.tax_rate) as tax_rate,
+      sum(i.qty) as sold,
+      sum(i.line_total_gross) as line_total,
+      sum(i.discount_amount) as discount,
+      sum(i.line_total_gross) + coalesce((
+        select sum(ri.line_total_gross)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as open_total,
+      sum(i.qty) + coalesce((
+        select sum(ri.qty)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as remaining
+    from public.order_items i
+    where i.order_id = v_original.id
+    group by i.product_id
+  ) x
+  where x.remaining > 0;
+
+  select coalesce(jsonb_agg(x), '[]') into v_deps
+  from (
+    select
+      d.deposit_type_id,
+      min(d.name_snapshot) as name,
+      min(d.value_snapshot) as value,
+      sum(d.issued) + coalesce((
+        select sum(rd.issued)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as issued,
+      sum(d.returned) + coalesce((
+        select sum(rd.returned)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as returned
+    from public.order_deposits d
+    where d.order_id = v_original.id
+    group by d.deposit_type_id
+  ) x
+  where x.issued <> 0 or x.returned <> 0;
+
+  if p_lines is null and p_deposits is null then
+    -- Alles Offene
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', r->'remaining')), '[]') into v_lines
+    from jsonb_array_elements(v_items) r;
+    v_ref_deps := v_deps;
+  else
+    if exists (
+      select 1
+      from (
+        select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_lines, '[]')) l
+        group by 1
+      ) l
+      left join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id
+      where l.qty is null or l.qty < 1 or l.qty > coalesce((r->>'remaining')::integer, 0)
+    ) then
+      raise exception 'Ungültige Menge: mehr zurückgenommen als am Bon noch offen ist.';
+    end if;
+    if exists (
+      select 1
+      from (
+        select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+        group by 1
+      ) d
+      left join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id
+      where d.qty is null or d.qty < 1 or d.qty > coalesce((r->>'issued')::integer, 0)
+    ) then
+      raise exception 'Ungültiges Pfand: mehr zurückgenommen als ausgegeben.';
+    end if;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', l.qty)), '[]') into v_lines
+    from (
+      select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_lines, '[]')) l
+      group by 1
+    ) l
+    join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('issued', d.qty, 'returned', 0)), '[]') into v_ref_deps
+    from (
+      select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+      group by 1
+    ) d
+    join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id;
+  end if;
+
+  if jsonb_array_length(v_lines) = 0 and jsonb_array_length(v_ref_deps) = 0 then
+    raise exception 'Nichts zu stornieren.';
+  end if;
+
+  -- Betrag je Position aus dem (rabattierten) Bon-Betrag: anteilig, der letzte Rest exakt
+  select coalesce(jsonb_agg(r || jsonb_build_object(
+           'amount', case
+             when (r->>'qty')::integer = (r->>'remaining')::integer then (r->>'open_total')::numeric
+             else round((r->>'line_total')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+           end,
+           'discount', round((r->>'discount')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+         )), '[]')
+    into v_lines
+  from jsonb_array_elements(v_lines) r;
+
+  -- Beträge (gleiche Rundung wie create_order / order_tax_lines), negativ
+  select -coalesce(sum((r->>'amount')::numeric), 0) into v_gross
+  from jsonb_array_elements(v_lines) r;
+
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, -sum((r->>'amount')::numeric) as gross
+      from jsonb_array_elements(v_lines) r
+      group by 1
+    ) g
+  ) t;
+
+  select -round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2) into v_deposit
+  from jsonb_array_elements(v_ref_deps) r;
+
+  -- Erstattung: beim ersten kompletten Storno wie bezahlt, sonst eine Zahlung (Standard: Zahlungsart des Originals, geteilt → bar)
+  v_whole := p_lines is null and p_deposits is null
+    and not exists (select 1 from public.orders s where s.storno_of_order_id = v_original.id);
+  v_method := case
+    when v_whole then v_original.payment_method
+    else coalesce(p_refund_method, case when v_original.payment_method = 'split' then 'cash' else v_original.payment_method end)
+  end;
+  if not v_whole and v_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Erstattungsart: %', v_method;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    false, coalesce(p_print, false),
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, -(r->>'qty')::integer,
+         -(r->>'amount')::numeric, (r->>'tax_rate')::numeric, -(r->>'discount')::numeric
+  from jsonb_array_elements(v_lines) r;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, -(r->>'issued')::integer, -(r->>'returned')::integer
+  from jsonb_array_elements(v_ref_deps) r;
+
+  if v_whole then
+    -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+    from public.order_payments p
+    where p.order_id = v_original.id;
+  elsif round(v_gross + v_deposit, 2) <> 0 then
+    insert into public.order_payments (order_id, method, amount, sort_order)
+    values (p_idempotency_key, v_method, round(v_gross + v_deposit, 2), 1);
+  end if;
+
+  -- Alles zurückgenommen → Original gilt als storniert (Inhalt bleibt unverändert)
+  v_done := (select coalesce(sum((r->>'remaining')::integer), 0) from jsonb_array_elements(v_items) r)
+              = (select coalesce(sum((r->>'qty')::integer), 0) from jsonb_array_elements(v_lines) r)
+        and (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_deps) r)
+              = (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_ref_deps) r);
+  if v_done then
+    update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+  end if;
+
+  insert into public.voids (order_id, voided_by, reason, storno_order_id)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''), p_idempotency_key);
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (v_original.event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text)
+  to anon, authenticated;
@@ -0,0 +1,1157 @@
+-- ====== Server-geprüfte Sitzungen ======
+-- Bisher kam der Mitarbeiter als p_staff_id vom Client – eine UUID, die jeder auslesen und mitschicken kann.
+-- Jetzt übergibt die Kassa nur noch das Sitzungs-Token (start_staff_session); die RPCs holen den Mitarbeiter
+-- selbst über session_staff() und lehnen abgelaufene oder beendete Sitzungen ab.
+--
+-- Bons aus der Outbox kommen evtl. erst nach Stunden an: dort zählt, ob die Sitzung zum Zeitpunkt des Bons
+-- (p_created_at) gültig war, nicht beim Übertragen.
+
+-- Mitarbeiter zur Sitzung; p_at = Zeitpunkt, zu dem die Sitzung gültig gewesen sein muss (ohne Angabe: jetzt)
+create or replace function public.session_staff(p_session text, p_at timestamptz default null)
+returns table (id uuid, name text, role text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_at timestamptz := coalesce(p_at, now());
+begin
+  return query
+    select s.id, s.name::text, s.role::text
+    from public.staff_sessions ss
+    join public.staff s on s.id = ss.staff_id
+    where ss.token = p_session
+      and ss.created_at <= v_at + interval '5 minutes' -- Uhr des Geräts darf etwas nachgehen
+      and ss.expires_at > v_at
+      and (ss.ended_at is null or ss.ended_at > v_at)
+      and (p_at is not null or s.is_active);
+  if not found then
+    raise exception 'Sitzung abgelaufen oder beendet – bitte neu einloggen.';
+  end if;
+end;
+$$;
+
+-- Wie assert_permission, aber für den Mitarbeiter der Sitzung; liefert dessen ID
+create or replace function public.assert_session_permission(p_session text, p_permission text)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  select s.id into v_id from public.session_staff(p_session) s;
+  perform public.assert_permission(v_id, p_permission);
+  return v_id;
+end;
+$$;
+
+-- ====== create_order: Kassier + Rabatt-Freigabe aus Sitzungen ======
+
+drop function if exists public.create_order(uuid, uuid, uuid, text, uuid, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric, jsonb, uuid);
+
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_session text,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null,
+  p_cash_tendered numeric default null,
+  p_discount jsonb default null,
+  p_discount_session text default null -- Sitzung dessen, der den Rabatt freigegeben hat (PIN), falls nicht der Kassier
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_approver uuid;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+  v_cash numeric;
+  v_deposit_limit numeric;
+  v_discounts jsonb; -- alle Rabatte (Positionen + Bon) zur Prüfung
+  v_items jsonb; -- Positionen mit Rabatt-Anteilen, in der Reihenfolge von p_lines
+  v_subtotal numeric;
+  v_order_discount numeric := 0;
+  v_last integer;
+  v_discount_total numeric;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  -- Kassier (und ggf. Rabatt-Freigabe) aus der Sitzung, die beim Bonieren gültig war
+  select * into v_staff from public.session_staff(p_session, coalesce(p_created_at, now()));
+  if p_discount_session is not null then
+    select s.id into v_approver from public.session_staff(p_discount_session, coalesce(p_created_at, now())) s;
+  end if;
+
+  -- Rabatte: Grund muss zum Event gehören, Berechtigung hat der Kassier oder wer den Rabatt freigegeben hat
+  if p_discount is not null and jsonb_typeof(p_discount) <> 'object' then
+    raise exception 'Ungültiger Rabatt.';
+  end if;
+  select coalesce(jsonb_agg(x.d), '[]') into v_discounts
+  from (
+    select l->'discount' as d from jsonb_array_elements(p_lines) l where jsonb_typeof(l->'discount') = 'object'
+    union all
+    select p_discount where p_discount is not null
+  ) x;
+
+  if jsonb_array_length(v_discounts) > 0 then
+    if v_is_null_receipt then
+      raise exception 'Nullbelege dürfen keine Rabatte enthalten.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      left join public.discount_reasons r on r.id = (d->>'reason_id')::uuid and r.event_id = p_event_id and r.is_active
+      where r.id is null
+    ) then
+      raise exception 'Rabatt ohne gültigen Grund.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      where d->>'kind' is null
+         or d->>'kind' not in ('percent', 'amount', 'price', 'free')
+         or (d->>'kind' <> 'free' and ((d->>'value') is null or (d->>'value')::numeric < 0))
+         or (d->>'kind' = 'percent' and (d->>'value')::numeric > 100)
+    ) or p_discount->>'kind' = 'price' then
+      raise exception 'Ungültiger Rabatt.';
+    end if;
+    if not public.has_permission(coalesce(v_approver, v_staff.id), 'give_discounts') then
+      raise exception 'Keine Berechtigung: Rabatte.';
+    end if;
+  end if;
+
+  -- Manuelle Pfand-Buchungen über dem Limit des Events nur mit Berechtigung
+  select e.deposit_adjust_limit into v_deposit_limit from public.events e where e.id = p_event_id;
+  if v_deposit_limit is not null
+     and (
+       select coalesce(sum(abs((d->>'qty')::integer) * t.value), 0) + abs(coalesce(p_deposit_adjust, 0))
+       from jsonb_array_elements(p_deposits) d
+       join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+     ) > v_deposit_limit
+     and not public.has_permission(v_staff.id, 'adjust_deposit') then
+    raise exception 'Keine Berechtigung: Pfand-Buchungen über % € je Bon.', v_deposit_limit;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+  end loop;
+
+  -- Rabatte je Position, dann Bon-Rabatt anteilig verteilen (Rest auf die letzte Position mit Betrag),
+  -- damit die USt vom rabattierten Betrag gerechnet wird – gleich wie allocateDiscount() in der Kassa
+  select coalesce(jsonb_agg(to_jsonb(x) order by x.n), '[]') into v_items
+  from (
+    select t.n::integer as n, p.id as product_id, p.name, p.price_gross as unit_price, (t.l->>'qty')::integer as qty, p.tax_rate,
+           round(p.price_gross * (t.l->>'qty')::integer, 2) as gross,
+           case when jsonb_typeof(t.l->'discount') = 'object' then t.l->'discount' end as discount,
+           public.discount_amount(round(p.price_gross * (t.l->>'qty')::integer, 2), t.l->'discount', (t.l->>'qty')::integer) as line_discount
+    from jsonb_array_elements(p_lines) with ordinality as t (l, n)
+    join public.products p on p.id = (t.l->>'product_id')::uuid
+  ) x;
+
+  select coalesce(sum((r->>'gross')::numeric - (r->>'line_discount')::numeric), 0) into v_subtotal
+  from jsonb_array_elements(v_items) r;
+  v_order_discount := public.discount_amount(v_subtotal, p_discount);
+
+  select max((r->>'n')::integer) into v_last
+  from jsonb_array_elements(v_items) r
+  where (r->>'gross')::numeric - (r->>'line_discount')::numeric > 0;
+
+  select coalesce(jsonb_agg(y.r || jsonb_build_object('order_share', y.share, 'total', y.after - y.share) order by y.n), '[]') into v_items
+  from (
+    select s.r, s.n, s.after,
+           case when s.n = v_last then v_order_discount - sum(s.share) over () + s.share else s.share end as share
+    from (
+      select r, (r->>'n')::integer as n, (r->>'gross')::numeric - (r->>'line_discount')::numeric as after,
+             case
+               when (r->>'n')::integer = v_last or v_subtotal <= 0 or (r->>'gross')::numeric - (r->>'line_discount')::numeric <= 0 then 0
+               else round(v_order_discount * ((r->>'gross')::numeric - (r->>'line_discount')::numeric) / v_subtotal, 2)
+             end as share
+      from jsonb_array_elements(v_items) r
+    ) s
+  ) y;
+
+  select round(coalesce(sum((r->>'total')::numeric), 0), 2), round(coalesce(sum((r->>'gross')::numeric - (r->>'total')::numeric), 0), 2)
+    into v_gross, v_discount_total
+  from jsonb_array_elements(v_items) r;
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, sum((r->>'total')::numeric) as gross
+      from jsonb_array_elements(v_items) r
+      group by 1
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Gegeben/Rückgeld: nur zum Bar-Anteil, der Kunde muss mindestens diesen Betrag gegeben haben
+  if p_cash_tendered is not null then
+    select round(sum((x->>'amount')::numeric), 2) into v_cash
+    from jsonb_array_elements(v_payments) x
+    where x->>'method' = 'cash';
+    if v_is_null_receipt or v_cash is null or v_cash <= 0 then
+      raise exception 'Gegebener Betrag nur bei Barzahlung.';
+    end if;
+    if round(p_cash_tendered, 2) < v_cash then
+      raise exception 'Gegeben (%) ist weniger als der Bar-Betrag (%).', round(p_cash_tendered, 2), v_cash;
+    end if;
+  end if;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id,
+    cash_tendered, cash_change,
+    discount_total, discount_granted_by
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    coalesce(p_created_at, now()),
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    round(p_cash_tendered, 2),
+    case when p_cash_tendered is not null then round(p_cash_tendered - v_cash, 2) end,
+    v_discount_total,
+    case when jsonb_array_length(v_discounts) > 0 then coalesce(v_approver, v_staff.id) end
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, (r->>'qty')::integer,
+         (r->>'total')::numeric, (r->>'tax_rate')::numeric, (r->>'line_discount')::numeric + (r->>'order_share')::numeric
+  from jsonb_array_elements(v_items) r
+  order by (r->>'n')::integer;
+
+  insert into public.order_discounts (order_id, product_id, reason_id, reason_snapshot, kind, value, amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, dr.id, dr.name, r->'discount'->>'kind', coalesce((r->'discount'->>'value')::numeric, 0),
+         (r->>'line_discount')::numeric
+  from jsonb_array_elements(v_items) r
+  join public.discount_reasons dr on dr.id = (r->'discount'->>'reason_id')::uuid
+  where (r->>'line_discount')::numeric > 0
+  union all
+  select p_idempotency_key, null, dr.id, dr.name, p_discount->>'kind', coalesce((p_discount->>'value')::numeric, 0), v_order_discount
+  from public.discount_reasons dr
+  where dr.id = (p_discount->>'reason_id')::uuid and v_order_discount > 0;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', coalesce(p_created_at, now()),
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, text, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric, jsonb, text)
+  to anon, authenticated;
+
+-- ====== create_storno: wer storniert, kommt aus der Sitzung ======
+
+drop function if exists public.create_storno(uuid, uuid, text, uuid, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text);
+
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_session text,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null,
+  p_lines jsonb default null,
+  p_deposits jsonb default null,
+  p_refund_method text default null,
+  p_print boolean default false,
+  p_print_payload text default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+  v_items jsonb; -- noch offene Positionen des Originals
+  v_deps jsonb; -- noch offenes Pfand des Originals
+  v_lines jsonb; -- zurückgenommene Positionen
+  v_ref_deps jsonb; -- zurückgenommenes Pfand
+  v_whole boolean; -- erster und kompletter Storno: Zahlungen exakt negieren
+  v_method text;
+  v_gross numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_done boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+  if (p_lines is not null and jsonb_typeof(p_lines) <> 'array') or (p_deposits is not null and jsonb_typeof(p_deposits) <> 'array') then
+    raise exception 'Ungültige Storno-Auswahl.';
+  end if;
+
+  select * into v_staff from public.session_staff(p_session, v_now);
+
+  -- Eigener letzter Bon (dieses Gerät, danach kein Verkauf mehr): void_own_last, sonst void_any
+  if not public.has_permission(v_staff.id, 'void_any') and not (
+    public.has_permission(v_staff.id, 'void_own_last')
+    and v_original.cashier_staff_id = v_staff.id
+    and v_original.device_id = p_device_id
+    and not exists (
+      select 1 from public.orders n
+      where n.event_id = v_original.event_id
+        and n.device_id = v_original.device_id
+        and n.rksv_receipt_type = 'standard'
+        and n.created_at > v_original.created_at
+    )
+  ) then
+    raise exception 'Keine Berechtigung: Storno dieses Bons.';
+  end if;
+
+  -- Offene Mengen: Original abzüglich früherer Stornos (deren Mengen sind negativ)
+  select coalesce(jsonb_agg(x), '[]') into v_items
+  from (
+    select
+      i.product_id,
+      min(i.name_snapshot) as name,
+      min(i.unit_price_gross) as unit_price,
+      min(i.tax_rate) as tax_rate,
+      sum(i.qty) as sold,
+      sum(i.line_total_gross) as line_total,
+      sum(i.discount_amount) as discount,
+      sum(i.line_total_gross) + coalesce((
+        select sum(ri.line_total_gross)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as open_total,
+      sum(i.qty) + coalesce((
+        select sum(ri.qty)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as remaining
+    from public.order_items i
+    where i.order_id = v_original.id
+    group by i.product_id
+  ) x
+  where x.remaining > 0;
+
+  select coalesce(jsonb_agg(x), '[]') into v_deps
+  from (
+    select
+      d.deposit_type_id,
+      min(d.name_snapshot) as name,
+      min(d.value_snapshot) as value,
+      sum(d.issued) + coalesce((
+        select sum(rd.issued)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as issued,
+      sum(d.returned) + coalesce((
+        select sum(rd.returned)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as returned
+    from public.order_deposits d
+    where d.order_id = v_original.id
+    group by d.deposit_type_id
+  ) x
+  where x.issued <> 0 or x.returned <> 0;
+
+  if p_lines is null and p_deposits is null then
+    -- Alles Offene
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', r->'remaining')), '[]') into v_lines
+    from jsonb_array_elements(v_items) r;
+    v_ref_deps := v_deps;
+  else
+    if exists (
+      select 1
+      from (
+        select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_lines, '[]')) l
+        group by 1
+      ) l
+      left join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id
+      where l.qty is null or l.qty < 1 or l.qty > coalesce((r->>'remaining')::integer, 0)
+    ) then
+      raise exception 'Ungültige Menge: mehr zurückgenommen als am Bon noch offen ist.';
+    end if;
+    if exists (
+      select 1
+      from (
+        select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+        group by 1
+      ) d
+      left join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id
+      where d.qty is null or d.qty < 1 or d.qty > coalesce((r->>'issued')::integer, 0)
+    ) then
+      raise exception 'Ungültiges Pfand: mehr zurückgenommen als ausgegeben.';
+    end if;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', l.qty)), '[]') into v_lines
+    from (
+      select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_lines, '[]')) l
+      group by 1
+    ) l
+    join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('issued', d.qty, 'returned', 0)), '[]') into v_ref_deps
+    from (
+      select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+      group by 1
+    ) d
+    join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id;
+  end if;
+
+  if jsonb_array_length(v_lines) = 0 and jsonb_array_length(v_ref_deps) = 0 then
+    raise exception 'Nichts zu stornieren.';
+  end if;
+
+  -- Betrag je Position aus dem (rabattierten) Bon-Betrag: anteilig, der letzte Rest exakt
+  select coalesce(jsonb_agg(r || jsonb_build_object(
+           'amount', case
+             when (r->>'qty')::integer = (r->>'remaining')::integer then (r->>'open_total')::numeric
+             else round((r->>'line_total')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+           end,
+           'discount', round((r->>'discount')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+         )), '[]')
+    into v_lines
+  from jsonb_array_elements(v_lines) r;
+
+  -- Beträge (gleiche Rundung wie create_order / order_tax_lines), negativ
+  select -coalesce(sum((r->>'amount')::numeric), 0) into v_gross
+  from jsonb_array_elements(v_lines) r;
+
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, -sum((r->>'amount')::numeric) as gross
+      from jsonb_array_elements(v_lines) r
+      group by 1
+    ) g
+  ) t;
+
+  select -round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2) into v_deposit
+  from jsonb_array_elements(v_ref_deps) r;
+
+  -- Erstattung: beim ersten kompletten Storno wie bezahlt, sonst eine Zahlung (Standard: Zahlungsart des Originals, geteilt → bar)
+  v_whole := p_lines is null and p_deposits is null
+    and not exists (select 1 from public.orders s where s.storno_of_order_id = v_original.id);
+  v_method := case
+    when v_whole then v_original.payment_method
+    else coalesce(p_refund_method, case when v_original.payment_method = 'split' then 'cash' else v_original.payment_method end)
+  end;
+  if not v_whole and v_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Erstattungsart: %', v_method;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    false, coalesce(p_print, false),
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, -(r->>'qty')::integer,
+         -(r->>'amount')::numeric, (r->>'tax_rate')::numeric, -(r->>'discount')::numeric
+  from jsonb_array_elements(v_lines) r;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, -(r->>'issued')::integer, -(r->>'returned')::integer
+  from jsonb_array_elements(v_ref_deps) r;
+
+  if v_whole then
+    -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+    from public.order_payments p
+    where p.order_id = v_original.id;
+  elsif round(v_gross + v_deposit, 2) <> 0 then
+    insert into public.order_payments (order_id, method, amount, sort_order)
+    values (p_idempotency_key, v_method, round(v_gross + v_deposit, 2), 1);
+  end if;
+
+  -- Alles zurückgenommen → Original gilt als storniert (Inhalt bleibt unverändert)
+  v_done := (select coalesce(sum((r->>'remaining')::integer), 0) from jsonb_array_elements(v_items) r)
+              = (select coalesce(sum((r->>'qty')::integer), 0) from jsonb_array_elements(v_lines) r)
+        and (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_deps) r)
+              = (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_ref_deps) r);
+  if v_done then
+    update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+  end if;
+
+  insert into public.voids (order_id, voided_by, reason, storno_order_id)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''), p_idempotency_key);
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (v_original.event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, text, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text)
+  to anon, authenticated;
+
+-- ====== Z-Bericht ======
+
+drop function if exists public.create_z_report(uuid, uuid, timestamptz, timestamptz);
+
+create or replace function public.create_z_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns setof public.z_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_no integer;
+begin
+  perform public.assert_session_permission(p_session, 'view_reports');
+  select * into v_staff from public.session_staff(p_session);
+
+  if p_from is null or p_to is null or p_to <= p_from then
+    raise exception 'Ungültiger Zeitraum.';
+  end if;
+  if p_to > now() then
+    raise exception 'Der Zeitraum ist noch nicht abgeschlossen – dafür gibt es den X-Bericht.';
+  end if;
+
+  -- eine Nummernfolge je Event
+  perform pg_advisory_xact_lock(hashtext('z_report:' || p_event_id::text));
+
+  if exists (
+    select 1 from public.z_reports z
+    where z.event_id = p_event_id and z.period_from < p_to and z.period_to > p_from
+  ) then
+    raise exception 'Für diesen Zeitraum gibt es bereits einen Z-Bericht.';
+  end if;
+
+  select coalesce(max(z.z_no), 0) + 1 into v_no from public.z_reports z where z.event_id = p_event_id;
+
+  return query
+    insert into public.z_reports (event_id, z_no, period_from, period_to, created_by_staff_id, created_by_name, data)
+    values (p_event_id, v_no, p_from, p_to, v_staff.id, v_staff.name, public.sales_report(p_event_id, p_from, p_to))
+    returning *;
+end;
+$$;
+
+grant execute on function public.create_z_report(text, uuid, timestamptz, timestamptz) to anon, authenticated;
+
+-- ====== Mitarbeiter-Verwaltung (manage_staff) ======
+
+drop function if exists public.staff_list(uuid);
+drop function if exists public.staff_save(uuid, uuid, text, text, boolean);
+drop function if exists public.staff_set_pin(uuid, uuid, text);
+drop function if exists public.pin_security_status(uuid);
+drop function if exists public.pin_unlock(uuid, text, text);
+drop function if exists public.admin_notifications_read(uuid);
+
+create or replace function public.staff_list(p_session text)
+returns table (id uuid, name text, role text, is_active boolean, has_pin boolean, last_login_at timestamptz, pin_changed_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  return query
+    select s.id, s.name::text, s.role::text, s.is_active, s.pin_hash is not null, s.last_login_at, s.pin_changed_at
+    from public.staff s
+    order by s.is_active desc, s.name;
+end;
+$$;
+
+grant execute on function public.staff_list(text) to anon, authenticated;
+
+-- Mitarbeiter anlegen (p_id null) oder ändern
+create or replace function public.staff_save(p_session text, p_id uuid, p_name text, p_role text, p_is_active boolean)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_admin uuid;
+  v_id uuid;
+begin
+  v_admin := public.assert_session_permission(p_session, 'manage_staff');
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Name fehlt.';
+  end if;
+  if not exists (select 1 from public.roles r where r.key = p_role) then
+    raise exception 'Unbekannte Rolle: %', p_role;
+  end if;
+  if p_id = v_admin and not coalesce(p_is_active, true) then
+    raise exception 'Du kannst dich nicht selbst deaktivieren.';
+  end if;
+
+  if p_id is null then
+    insert into public.staff (name, role, is_active) values (trim(p_name), p_role, coalesce(p_is_active, true))
+    returning staff.id into v_id;
+  else
+    update public.staff s set name = trim(p_name), role = p_role, is_active = coalesce(p_is_active, true)
+     where s.id = p_id
+    returning s.id into v_id;
+    if v_id is null then
+      raise exception 'Mitarbeiter nicht gefunden.';
+    end if;
+  end if;
+
+  perform public.assert_staff_admin_left();
+  return v_id;
+end;
+$$;
+
+grant execute on function public.staff_save(text, uuid, text, text, boolean) to anon, authenticated;
+
+-- PIN setzen (p_pin) oder neu würfeln (p_pin null → Rückgabe einmalig an die Kassa). 4–8 Ziffern, eindeutig.
+create or replace function public.staff_set_pin(p_session text, p_id uuid, p_pin text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_pin text := nullif(trim(coalesce(p_pin, '')), '');
+  v_try integer := 0;
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  if not exists (select 1 from public.staff s where s.id = p_id) then
+    raise exception 'Mitarbeiter nicht gefunden.';
+  end if;
+  if v_pin is not null and v_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'PIN muss aus 4 bis 8 Ziffern bestehen.';
+  end if;
+
+  loop
+    if p_pin is null then
+      v_pin := lpad((floor(random() * 1000000))::integer::text, 6, '0');
+    end if;
+    exit when not exists (
+      select 1 from public.staff s
+      where s.id <> p_id and s.pin_hash is not null and s.pin_hash = crypt(v_pin, s.pin_hash)
+    );
+    if p_pin is not null then
+      raise exception 'Dieser PIN ist schon vergeben.';
+    end if;
+    v_try := v_try + 1;
+    if v_try > 20 then
+      raise exception 'Kein freier PIN gefunden.';
+    end if;
+  end loop;
+
+  update public.staff s set pin_hash = crypt(v_pin, gen_salt('bf')), pin_changed_at = now() where s.id = p_id;
+
+  return case when p_pin is null then v_pin end;
+end;
+$$;
+
+grant execute on function public.staff_set_pin(text, uuid, text) to anon, authenticated;
+
+-- Aktive Sperren + ungelesene Hinweise
+create or replace function public.pin_security_status(p_session text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  return jsonb_build_object(
+    'lockouts', coalesce((
+      select jsonb_agg(jsonb_build_object('kind', l.kind, 'key', l.key, 'locked_until', l.locked_until, 'failures', l.failures) order by l.locked_until desc)
+      from public.pin_lockouts l
+      where l.locked_until > now()
+    ), '[]'::jsonb),
+    'notifications', coalesce((
+      select jsonb_agg(jsonb_build_object('id', n.id, 'kind', n.kind, 'message', n.message, 'device_id', n.device_id, 'created_at', n.created_at) order by n.created_at desc)
+      from public.admin_notifications n
+      where n.read_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.pin_security_status(text) to anon, authenticated;
+
+create or replace function public.pin_unlock(p_session text, p_kind text, p_key text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+  delete from public.pin_lockouts l where l.kind = p_kind and l.key = p_key;
+end;
+$$;
+
+grant execute on function public.pin_unlock(text, text, text) to anon, authenticated;
+
+create or replace function public.admin_notifications_read(p_session text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+  update public.admin_notifications n set read_at = now() where n.read_at is null;
+end;
+$$;
+
+grant execute on function public.admin_notifications_read(text) to anon, authenticated;
+
+-- ====== Schichten ======
+
+drop function if exists public.open_shift(uuid, uuid, text, uuid, numeric);
+drop function if exists public.close_shift(uuid, uuid, jsonb, text);
+
+create or replace function public.open_shift(
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_session text,
+  p_opening_float numeric
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+begin
+  select * into v_staff from public.session_staff(p_session);
+  if p_opening_float is null or p_opening_float < 0 then
+    raise exception 'Ungültiger Anfangsbestand.';
+  end if;
+  if exists (select 1 from public.shifts s where s.device_id = p_device_id and s.closed_at is null) then
+    raise exception 'Auf diesem Gerät ist bereits eine Schicht offen.';
+  end if;
+
+  return query
+    insert into public.shifts (event_id, bar_id, device_id, staff_id, staff_name, opening_float)
+    values (p_event_id, p_bar_id, p_device_id, v_staff.id, v_staff.name, round(p_opening_float, 2))
+    returning *;
+end;
+$$;
+
+grant execute on function public.open_shift(uuid, uuid, text, text, numeric) to anon, authenticated;
+
+-- Schicht schließen: Zählung speichern, Soll/Ist-Differenz + Abschluss festschreiben
+create or replace function public.close_shift(
+  p_shift_id uuid,
+  p_session text,
+  p_denominations jsonb,
+  p_note text default null
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_counted numeric;
+  v_summary jsonb;
+begin
+  select * into v_staff from public.session_staff(p_session);
+  if p_denominations is null or jsonb_typeof(p_denominations) <> 'object' then
+    raise exception 'Ungültige Zählung.';
+  end if;
+
+  select round(coalesce(sum(d.key::numeric * d.value::integer), 0), 2)
+    into v_counted
+  from jsonb_each_text(p_denominations) d;
+
+  update public.shifts
+     set closed_at = now(),
+         closed_by_staff_id = v_staff.id,
+         closed_by_name = v_staff.name
+   where id = p_shift_id
+     and closed_at is null;
+  if not found then
+    raise exception 'Schicht nicht gefunden oder bereits geschlossen.';
+  end if;
+
+  v_summary := public.shift_summary(p_shift_id);
+
+  return query
+    update public.shifts
+       set denominations = p_denominations,
+           counted_cash = v_counted,
+           expected_cash = (v_summary->>'expected_cash')::numeric,
+           difference = v_counted - (v_summary->>'expected_cash')::numeric,
+           report = v_summary,
+           note = nullif(trim(coalesce(p_note, '')), '')
+     where id = p_shift_id
+    returning *;
+end;
+$$;
+
+grant execute on function public.close_shift(uuid, text, jsonb, text) to anon, authenticated;
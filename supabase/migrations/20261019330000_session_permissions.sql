@@ -0,0 +1,539 @@
+-- ====== Berechtigungen über die Sitzung ======
+-- Alle Admin-RPCs nehmen statt p_staff_id das Sitzungs-Token und leiten den Mitarbeiter daraus ab
+-- (assert_session_permission, siehe session_auth). Eine mitgeschickte Mitarbeiter-UUID reicht nicht mehr.
+-- Dazu: anon/authenticated dürfen Tabellen nur noch lesen – geschrieben wird ausschließlich über die RPCs
+-- (security definer). Die Print-Bridge läuft mit dem Service-Key und ist davon nicht betroffen.
+
+drop function if exists public.save_role(uuid, text, text, text[]);
+
+create or replace function public.save_role(p_session text, p_key text, p_label text, p_permissions text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  if coalesce(trim(p_key), '') = '' or coalesce(trim(p_label), '') = '' then
+    raise exception 'Rolle braucht Schlüssel und Bezeichnung.';
+  end if;
+
+  insert into public.roles (key, label, sort_order)
+  values (trim(p_key), trim(p_label), coalesce((select max(sort_order) from public.roles), 0) + 10)
+  on conflict (key) do update set label = excluded.label;
+
+  delete from public.role_permissions rp where rp.role = trim(p_key);
+  insert into public.role_permissions (role, permission)
+  select distinct trim(p_key), x from unnest(coalesce(p_permissions, '{}')) x;
+
+  perform public.assert_staff_admin_left();
+end;
+$$;
+
+grant execute on function public.save_role(text, text, text, text[]) to anon, authenticated;
+
+drop function if exists public.reprint_receipt(uuid, uuid, text, jsonb);
+
+create or replace function public.reprint_receipt(p_session text, p_order_id uuid, p_payload text, p_document jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'reprint');
+
+  insert into public.print_jobs (event_id, order_id, payload, document, status)
+  select o.event_id, o.id, coalesce(p_payload, ''), p_document, 'queued'
+  from public.orders o
+  where o.id = p_order_id;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.reprint_receipt(text, uuid, text, jsonb) to anon, authenticated;
+
+drop function if exists public.catalog_save_bar(uuid, uuid, uuid, text);
+
+create or replace function public.catalog_save_bar(p_session text, p_id uuid, p_event_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+
+  if p_id is null then
+    insert into public.bars (event_id, name, sort_order)
+    values (p_event_id, trim(p_name), coalesce((select max(b.sort_order) + 10 from public.bars b where b.event_id = p_event_id), 10))
+    returning id into v_id;
+  else
+    update public.bars set name = trim(p_name) where id = p_id returning id into v_id;
+    if v_id is null then
+      raise exception 'Bar nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_bar(text, uuid, uuid, text) to anon, authenticated;
+
+drop function if exists public.catalog_reorder(uuid, text, uuid[]);
+
+create or replace function public.catalog_reorder(p_session text, p_table text, p_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_table = 'bars' then
+    update public.bars b set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where b.id = x.id;
+  elsif p_table = 'products' then
+    update public.products p set sort_order = x.ord * 10
+    from unnest(p_ids) with ordinality as x(id, ord)
+    where p.id = x.id;
+  else
+    raise exception 'Unbekannte Tabelle: %', p_table;
+  end if;
+end;
+$$;
+
+grant execute on function public.catalog_reorder(text, text, uuid[]) to anon, authenticated;
+
+drop function if exists public.catalog_save_product(uuid, uuid, uuid, text, numeric, numeric, uuid, boolean, uuid);
+
+create or replace function public.catalog_save_product(
+  p_session text,
+  p_id uuid,
+  p_bar_id uuid,
+  p_name text,
+  p_price_gross numeric,
+  p_tax_rate numeric,
+  p_deposit_type_id uuid,
+  p_is_active boolean default true,
+  p_station_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_price_gross is null or p_price_gross < 0 then
+    raise exception 'Ungültiger Preis.';
+  end if;
+  if p_station_id is not null and not exists (
+    select 1 from public.production_stations s join public.bars b on b.event_id = s.event_id
+    where s.id = p_station_id and b.id = p_bar_id
+  ) then
+    raise exception 'Station gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, station_id, sort_order, is_active)
+    values (
+      p_bar_id, trim(p_name), round(p_price_gross, 2), p_tax_rate, p_deposit_type_id, p_station_id,
+      coalesce((select max(p.sort_order) + 10 from public.products p where p.bar_id = p_bar_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.products
+       set name = trim(p_name),
+           price_gross = round(p_price_gross, 2),
+           tax_rate = p_tax_rate,
+           deposit_type_id = p_deposit_type_id,
+           station_id = p_station_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Produkt nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.catalog_save_product(text, uuid, uuid, text, numeric, numeric, uuid, boolean, uuid) to anon, authenticated;
+
+drop function if exists public.printer_save(uuid, uuid, uuid, text, uuid[], boolean);
+
+create or replace function public.printer_save(
+  p_session text,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_bar_ids uuid[],
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if exists (
+    select 1 from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+    left join public.bars b on b.id = x.bar_id
+    where b.event_id is distinct from p_event_id
+  ) then
+    raise exception 'Bar gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.printers (event_id, name, is_active)
+    values (p_event_id, trim(p_name), coalesce(p_is_active, true))
+    returning id into v_id;
+  else
+    update public.printers
+       set name = trim(p_name),
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Drucker nicht gefunden.';
+    end if;
+    delete from public.printer_bars where printer_id = v_id;
+  end if;
+
+  insert into public.printer_bars (printer_id, bar_id)
+  select v_id, x.bar_id from unnest(coalesce(p_bar_ids, '{}')) x(bar_id)
+  on conflict do nothing;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.printer_save(text, uuid, uuid, text, uuid[], boolean) to anon, authenticated;
+
+drop function if exists public.station_save(uuid, uuid, uuid, text, uuid, boolean);
+
+create or replace function public.station_save(
+  p_session text,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_printer_id uuid,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_printer_id is not null and not exists (select 1 from public.printers p where p.id = p_printer_id and p.event_id = p_event_id) then
+    raise exception 'Drucker gehört nicht zu diesem Event.';
+  end if;
+
+  if p_id is null then
+    insert into public.production_stations (event_id, name, printer_id, sort_order, is_active)
+    values (
+      p_event_id, trim(p_name), p_printer_id,
+      coalesce((select max(s.sort_order) + 10 from public.production_stations s where s.event_id = p_event_id), 10),
+      coalesce(p_is_active, true)
+    )
+    returning id into v_id;
+  else
+    update public.production_stations
+       set name = trim(p_name),
+           printer_id = p_printer_id,
+           is_active = coalesce(p_is_active, is_active)
+     where id = p_id and event_id = p_event_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Station nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.station_save(text, uuid, uuid, text, uuid, boolean) to anon, authenticated;
+
+drop function if exists public.set_event_day_cutoff(uuid, uuid, time);
+
+create or replace function public.set_event_day_cutoff(p_session text, p_event_id uuid, p_cutoff time)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'view_reports');
+
+  update public.events set day_cutoff = coalesce(p_cutoff, '06:00') where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_day_cutoff(text, uuid, time) to anon, authenticated;
+
+drop function if exists public.set_event_auto_lock(uuid, uuid, integer);
+
+create or replace function public.set_event_auto_lock(p_session text, p_event_id uuid, p_minutes integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_minutes is not null and p_minutes < 0 then
+    raise exception 'Ungültige Sperrzeit.';
+  end if;
+
+  update public.events set auto_lock_minutes = nullif(p_minutes, 0) where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_auto_lock(text, uuid, integer) to anon, authenticated;
+
+drop function if exists public.discount_reason_save(uuid, uuid, uuid, text, text, numeric, boolean);
+
+create or replace function public.discount_reason_save(
+  p_session text,
+  p_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_kind text,
+  p_value numeric,
+  p_is_active boolean default true
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Bitte einen Grund eingeben.';
+  end if;
+  if p_kind is null or p_kind not in ('percent', 'amount', 'price', 'free') then
+    raise exception 'Ungültige Rabatt-Art: %', p_kind;
+  end if;
+  if p_kind <> 'free' and (p_value is null or p_value < 0 or (p_kind = 'percent' and p_value > 100)) then
+    raise exception 'Ungültiger Rabatt-Wert.';
+  end if;
+
+  if p_id is null then
+    insert into public.discount_reasons (event_id, name, kind, value, is_active, sort_order)
+    values (p_event_id, trim(p_name), p_kind, coalesce(p_value, 0), coalesce(p_is_active, true),
+            coalesce((select max(r.sort_order) from public.discount_reasons r where r.event_id = p_event_id), 0) + 10)
+    returning id into v_id;
+  else
+    update public.discount_reasons r
+       set name = trim(p_name), kind = p_kind, value = coalesce(p_value, 0), is_active = coalesce(p_is_active, true)
+     where r.id = p_id
+    returning r.id into v_id;
+    if v_id is null then
+      raise exception 'Rabatt-Grund nicht gefunden.';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.discount_reason_save(text, uuid, uuid, text, text, numeric, boolean) to anon, authenticated;
+
+-- Events: bisher ganz ohne Prüfung
+drop function if exists public.create_event(text, date, date, text, uuid);
+
+create or replace function public.create_event(
+  p_session text,
+  p_name text,
+  p_starts_on date default null,
+  p_ends_on date default null,
+  p_location text default null,
+  p_clone_from uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event_id uuid;
+  v_bar record;
+  v_new_bar_id uuid;
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_name is null or length(trim(p_name)) = 0 then
+    raise exception 'Name fehlt.';
+  end if;
+  if p_starts_on is not null and p_ends_on is not null and p_ends_on < p_starts_on then
+    raise exception 'Ende liegt vor dem Beginn.';
+  end if;
+  if p_clone_from is not null and not exists (select 1 from public.events e where e.id = p_clone_from) then
+    raise exception 'Vorlage-Event nicht gefunden.';
+  end if;
+
+  insert into public.events (name, starts_on, ends_on, location, status)
+  values (trim(p_name), p_starts_on, p_ends_on, nullif(trim(coalesce(p_location, '')), ''), 'planned')
+  returning id into v_event_id;
+
+  -- Zähler für next_receipt(): Bon-Nummern beginnen je Event neu
+  insert into public.event_counters (event_id) values (v_event_id) on conflict do nothing;
+
+  if p_clone_from is not null then
+    insert into public.production_stations (event_id, name, sort_order, is_active)
+    select v_event_id, s.name, s.sort_order, s.is_active
+    from public.production_stations s
+    where s.event_id = p_clone_from;
+
+    for v_bar in select * from public.bars b where b.event_id = p_clone_from order by b.sort_order loop
+      insert into public.bars (name, sort_order, event_id)
+      values (v_bar.name, v_bar.sort_order, v_event_id)
+      returning id into v_new_bar_id;
+
+      insert into public.products (bar_id, name, price_gross, tax_rate, deposit_type_id, station_id, sort_order, is_active)
+      select v_new_bar_id, p.name, p.price_gross, p.tax_rate, p.deposit_type_id,
+             (
+               select ns.id
+               from public.production_stations os
+               join public.production_stations ns on ns.event_id = v_event_id and ns.name = os.name
+               where os.id = p.station_id
+               limit 1
+             ),
+             p.sort_order, p.is_active
+      from public.products p
+      where p.bar_id = v_bar.id;
+    end loop;
+  end if;
+
+  return v_event_id;
+end;
+$$;
+
+grant execute on function public.create_event(text, text, date, date, text, uuid) to anon, authenticated;
+
+drop function if exists public.set_event_status(uuid, text);
+
+create or replace function public.set_event_status(p_session text, p_event_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_catalog');
+
+  if p_status not in ('planned', 'active', 'closed') then
+    raise exception 'Ungültiger Status: %', p_status;
+  end if;
+
+  update public.events set status = p_status where id = p_event_id;
+  if not found then
+    raise exception 'Event nicht gefunden.';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_event_status(text, uuid, text) to anon, authenticated;
+
+-- Druckjob wiederholen: jeder angemeldete Mitarbeiter (Kassa: letzter Bon)
+drop function if exists public.retry_print_job(uuid, public.print_jobs.id%type);
+
+create or replace function public.retry_print_job(p_session text, p_job_id public.print_jobs.id%type)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.session_staff(p_session);
+
+  update public.print_jobs j
+     set status = 'queued',
+         attempts = 0,
+         next_attempt_at = null
+   where j.id = p_job_id
+     and j.status = 'failed';
+  if not found then
+    raise exception 'Druckjob nicht gefunden oder nicht fehlgeschlagen.';
+  end if;
+end;
+$$;
+
+grant execute on function public.retry_print_job to anon, authenticated;
+
+-- Text-Ausdruck ohne Bon (Schichtabschluss, X/Z-Bericht) – bisher direkter Insert in print_jobs
+create or replace function public.queue_print_job(p_session text, p_event_id uuid, p_bar_id uuid, p_kind text, p_payload text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.session_staff(p_session);
+
+  if p_kind is distinct from 'report' then
+    raise exception 'Ungültige Druckart: %', p_kind;
+  end if;
+  if coalesce(p_payload, '') = '' then
+    raise exception 'Nichts zu drucken.';
+  end if;
+
+  insert into public.print_jobs (event_id, printer_id, kind, payload, status)
+  values (p_event_id, case when p_bar_id is null then null else public.printer_for_bar(p_bar_id) end, p_kind, p_payload, 'queued');
+end;
+$$;
+
+grant execute on function public.queue_print_job(text, uuid, uuid, text, text) to anon, authenticated;
+
+-- ====== Keine direkten Schreibrechte mehr ======
+revoke insert, update, delete, truncate on all tables in schema public from anon, authenticated;
+alter default privileges in schema public revoke insert, update, delete, truncate on tables from anon, authenticated;
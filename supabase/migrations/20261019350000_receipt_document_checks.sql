@@ -0,0 +1,1021 @@
+-- ====== Beleg-Dokument prüfen ======
+-- Bon-Druck und digitaler Beleg kommen aus receipt_document, das die Kassa baut (Layout, Rabatt-Texte).
+-- Bisher wurde es ungeprüft gespeichert und gedruckt. Jetzt vergleicht create_order/create_storno jedes Feld
+-- mit den gebuchten Zeilen (orders, order_items, order_payments, order_deposits) und lehnt Abweichungen ab.
+-- Gedruckt wird nur noch mit geprüftem Dokument; Nachdrucke nehmen das gespeicherte.
+
+create or replace function public.assert_receipt_document(p_order_id uuid, p_doc jsonb)
+returns void
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_with_discount boolean;
+begin
+  select * into v_order from public.orders o where o.id = p_order_id;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+
+  if jsonb_typeof(p_doc) is distinct from 'object' or p_doc->>'version' is distinct from '1' then
+    raise exception 'Beleg-Dokument: unbekanntes Format.';
+  end if;
+  if p_doc->>'kind' is distinct from case v_order.rksv_receipt_type when 'standard' then 'sale' when 'storno' then 'storno' else 'null' end
+     or p_doc->>'receipt_no' is distinct from v_order.receipt_no
+     or (p_doc->>'created_at')::timestamptz is distinct from v_order.created_at
+     or p_doc->>'storno_of_receipt_no' is distinct from (select s.receipt_no from public.orders s where s.id = v_order.storno_of_order_id) then
+    raise exception 'Beleg-Dokument: Belegart, Nummer oder Zeitpunkt passt nicht zum Bon.';
+  end if;
+  -- Bar: aktueller Name oder (Storno) der Name am Original-Beleg
+  if (p_doc->>'bar_name' is distinct from (select b.name from public.bars b where b.id = v_order.bar_id)
+      and p_doc->>'bar_name' is distinct from (select s.receipt_document->>'bar_name' from public.orders s where s.id = v_order.storno_of_order_id))
+     or p_doc->'cashier'->>'name' is distinct from v_order.cashier_name_snapshot
+     or p_doc->'cashier'->>'role' is distinct from v_order.cashier_role_snapshot then
+    raise exception 'Beleg-Dokument: Bar oder Kassier passt nicht zum Bon.';
+  end if;
+  if p_doc->'rksv'->>'code' is distinct from v_order.rksv_qr
+     or p_doc->'rksv'->>'cash_register_id' is distinct from v_order.rksv_cash_register_id
+     or (p_doc->'rksv'->>'signature_failed')::boolean is distinct from v_order.rksv_signature_failed then
+    raise exception 'Beleg-Dokument: RKSV-Code passt nicht zum Bon.';
+  end if;
+  if p_doc->>'receipt_url' is not null
+     and (p_doc->>'receipt_url' !~ '^https?://[^/?#]+/r/' or right(p_doc->>'receipt_url', length(v_order.public_token) + 3) <> '/r/' || v_order.public_token) then
+    raise exception 'Beleg-Dokument: Beleg-Link passt nicht zum Bon.';
+  end if;
+
+  -- Summen
+  if (p_doc->>'gross_total')::numeric is distinct from v_order.gross_total
+     or (p_doc->>'deposit_total')::numeric is distinct from coalesce(v_order.deposit_total, 0)
+     or (p_doc->>'total')::numeric is distinct from round(v_order.gross_total + coalesce(v_order.deposit_total, 0), 2) then
+    raise exception 'Beleg-Dokument: Summe passt nicht zum Bon (%).', round(v_order.gross_total + coalesce(v_order.deposit_total, 0), 2);
+  end if;
+  if (
+    select coalesce(jsonb_agg(jsonb_build_array((t->>'tax_rate')::numeric, (t->>'gross')::numeric, (t->>'net')::numeric, (t->>'tax')::numeric) order by (t->>'tax_rate')::numeric), '[]')
+    from jsonb_array_elements(coalesce(p_doc->'taxes', '[]')) t
+  ) is distinct from (
+    select coalesce(jsonb_agg(jsonb_build_array(tl.tax_rate, tl.gross, tl.net, tl.tax) order by tl.tax_rate), '[]')
+    from public.order_tax_lines tl
+    where tl.order_id = p_order_id
+  ) then
+    raise exception 'Beleg-Dokument: Steuern passen nicht zum Bon.';
+  end if;
+
+  -- Zahlungen (fehlen bei Belegen vor den geteilten Zahlungen) und Gegeben/Rückgeld
+  if p_doc->>'payment_method' is distinct from v_order.payment_method then
+    raise exception 'Beleg-Dokument: Zahlungsart passt nicht zum Bon.';
+  end if;
+  if jsonb_typeof(p_doc->'payments') = 'array' and (
+    select coalesce(jsonb_agg(jsonb_build_array(x->>'method', round((x->>'amount')::numeric, 2)) order by x->>'method', (x->>'amount')::numeric), '[]')
+    from jsonb_array_elements(p_doc->'payments') x
+    where (x->>'amount')::numeric <> 0
+  ) is distinct from (
+    select coalesce(jsonb_agg(jsonb_build_array(p.method, p.amount) order by p.method, p.amount), '[]')
+    from public.order_payments p
+    where p.order_id = p_order_id and p.amount <> 0
+  ) then
+    raise exception 'Beleg-Dokument: Zahlungen passen nicht zum Bon.';
+  end if;
+  if case
+       when jsonb_typeof(p_doc->'cash') = 'object' then
+         (p_doc->'cash'->>'tendered')::numeric is distinct from v_order.cash_tendered
+         or (p_doc->'cash'->>'change')::numeric is distinct from v_order.cash_change
+       else v_order.cash_tendered is not null
+     end then
+    raise exception 'Beleg-Dokument: Gegeben/Rückgeld passt nicht zum Bon.';
+  end if;
+
+  -- Pfand je Art
+  if (
+    select coalesce(jsonb_agg(jsonb_build_array(d->>'deposit_type_id', d->>'name', (d->>'value')::numeric, (d->>'issued')::integer, (d->>'returned')::integer)
+                              order by d->>'deposit_type_id', d->>'name', (d->>'issued')::integer), '[]')
+    from jsonb_array_elements(coalesce(p_doc->'deposits', '[]')) d
+  ) is distinct from (
+    select coalesce(jsonb_agg(jsonb_build_array(od.deposit_type_id::text, od.name_snapshot, od.value_snapshot, od.issued, od.returned)
+                              order by od.deposit_type_id::text, od.name_snapshot, od.issued), '[]')
+    from public.order_deposits od
+    where od.order_id = p_order_id
+  ) then
+    raise exception 'Beleg-Dokument: Pfand passt nicht zum Bon.';
+  end if;
+
+  -- Positionen: Name, Menge, Preis und Steuersatz wie gebucht. Betrag im Dokument = vor dem Bon-Rabatt;
+  -- Positions-Rabatt + Bon-Rabatt-Anteil ergeben order_items.discount_amount, die Anteile zusammen den Bon-Rabatt.
+  -- Ohne Rabatt-Angaben (z.B. Teil-Storno) steht der gebuchte Betrag selbst im Dokument.
+  v_with_discount := jsonb_typeof(p_doc->'discount') = 'object'
+    or exists (select 1 from jsonb_array_elements(coalesce(p_doc->'lines', '[]')) l where jsonb_typeof(l->'discount') = 'object');
+
+  if exists (
+    with d as (
+      select l,
+             row_number() over (partition by l->>'name', (l->>'qty')::integer, (l->>'unit_price')::numeric, (l->>'tax_rate')::numeric order by (l->>'total')::numeric) as k
+      from jsonb_array_elements(coalesce(p_doc->'lines', '[]')) l
+    ),
+    i as (
+      select oi.*,
+             row_number() over (partition by oi.name_snapshot, oi.qty, oi.unit_price_gross, oi.tax_rate order by oi.line_total_gross + coalesce(oi.discount_amount, 0)) as k
+      from public.order_items oi
+      where oi.order_id = p_order_id
+    )
+    select 1
+    from d
+    full join i
+      on i.name_snapshot = d.l->>'name'
+     and i.qty = (d.l->>'qty')::integer
+     and i.unit_price_gross = (d.l->>'unit_price')::numeric
+     and i.tax_rate = (d.l->>'tax_rate')::numeric
+     and i.k = d.k
+    where d.l is null
+       or i.order_id is null
+       or case
+            when v_with_discount then
+              coalesce((d.l->'discount'->>'amount')::numeric, 0) + (d.l->>'total')::numeric - i.line_total_gross is distinct from coalesce(i.discount_amount, 0)
+            else (d.l->>'total')::numeric is distinct from i.line_total_gross
+          end
+  ) then
+    raise exception 'Beleg-Dokument: Positionen passen nicht zum Bon.';
+  end if;
+  if (
+    select coalesce(sum((l->>'total')::numeric), 0)
+    from jsonb_array_elements(coalesce(p_doc->'lines', '[]')) l
+  ) - coalesce((p_doc->'discount'->>'amount')::numeric, 0) is distinct from v_order.gross_total then
+    raise exception 'Beleg-Dokument: Bon-Rabatt passt nicht zum Bon.';
+  end if;
+end;
+$$;
+
+revoke execute on function public.assert_receipt_document(uuid, jsonb) from public, anon, authenticated;
+
+-- ====== create_order ======
+create or replace function public.create_order(
+  p_idempotency_key uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_session text,
+  p_payment_method text,
+  p_lines jsonb,
+  p_deposit_adjust numeric default 0,
+  p_print boolean default false,
+  p_print_payload text default null,
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_deposits jsonb default '[]',
+  p_receipt_document jsonb default null,
+  p_card_payment jsonb default null,
+  p_payments jsonb default null,
+  p_cash_tendered numeric default null,
+  p_discount jsonb default null,
+  p_discount_session text default null -- Sitzung dessen, der den Rabatt freigegeben hat (PIN), falls nicht der Kassier
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_staff record;
+  v_approver uuid;
+  v_line record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_gross numeric := 0;
+  v_deposit_rows jsonb;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_type text := coalesce(p_rksv->>'receipt_type', 'standard');
+  v_is_null_receipt boolean;
+  v_payments jsonb;
+  v_method text;
+  v_cash numeric;
+  v_deposit_limit numeric;
+  v_discounts jsonb; -- alle Rabatte (Positionen + Bon) zur Prüfung
+  v_items jsonb; -- Positionen mit Rabatt-Anteilen, in der Reihenfolge von p_lines
+  v_subtotal numeric;
+  v_order_discount numeric := 0;
+  v_last integer;
+  v_discount_total numeric;
+  v_created_at timestamptz := coalesce(p_created_at, now());
+  v_signed text[]; -- Beträge aus dem signierten RKSV-Code
+  v_expected numeric[];
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  -- Parallele Wiederholungen mit demselben Key warten aufeinander
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  if p_payment_method is null or p_payment_method not in ('cash', 'sumup', 'split') then
+    raise exception 'Ungültige Zahlungsart: %', p_payment_method;
+  end if;
+  if v_type not in ('standard', 'start', 'month', 'year', 'null') then
+    raise exception 'Ungültige Belegart: %', v_type;
+  end if;
+  v_is_null_receipt := v_type <> 'standard';
+
+  -- Offline bonierte Bons dürfen zurückliegen, aber nicht in der Zukunft oder Wochen alt sein
+  if v_created_at > now() + interval '5 minutes' or v_created_at < now() - interval '30 days' then
+    raise exception 'Ungültiger Bon-Zeitpunkt: %', v_created_at;
+  end if;
+
+  -- RKSV: signiert wurde am Gerät – Kasse, Bon-Nummer und Zeitpunkt müssen zu diesem Bon gehören
+  if p_rksv is null or coalesce(p_rksv->>'qr', '') = '' then
+    raise exception 'RKSV-Signatur fehlt.';
+  end if;
+  if p_rksv->>'cash_register_id' is distinct from p_device_id
+     or p_rksv->>'receipt_no' is distinct from p_receipt_no
+     or (p_rksv->>'created_at')::timestamptz is distinct from v_created_at then
+    raise exception 'RKSV-Beleg passt nicht zu diesem Bon.';
+  end if;
+
+  if p_card_payment is not null and (p_payment_method <> 'sumup' or coalesce(p_card_payment->>'transaction_id', '') = '') then
+    raise exception 'Ungültige Kartenzahlung.';
+  end if;
+  if p_payments is not null and jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is not null and (
+    jsonb_array_length(p_payments) = 0
+    or exists (
+      select 1 from jsonb_array_elements(p_payments) x
+      where x->>'method' is null or x->>'method' not in ('cash', 'sumup') or (x->>'amount') is null
+    )
+  ) then
+    raise exception 'Ungültige Zahlungen.';
+  end if;
+  if p_payments is null and p_payment_method = 'split' then
+    raise exception 'Geteilte Zahlung ohne Zahlungen.';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'Ungültige Positionen.';
+  end if;
+  if not v_is_null_receipt and jsonb_array_length(p_lines) = 0 then
+    raise exception 'Warenkorb ist leer.';
+  end if;
+  if v_is_null_receipt and jsonb_array_length(p_lines) > 0 then
+    raise exception 'Nullbelege dürfen keine Positionen enthalten.';
+  end if;
+  if p_deposits is null or jsonb_typeof(p_deposits) <> 'array' then
+    raise exception 'Ungültige Pfand-Buchungen.';
+  end if;
+  if v_is_null_receipt and (jsonb_array_length(p_deposits) > 0 or coalesce(p_deposit_adjust, 0) <> 0) then
+    raise exception 'Nullbelege dürfen kein Pfand enthalten.';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_deposits) d
+    left join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+    where t.id is null or (d->>'qty') is null
+  ) then
+    raise exception 'Unbekannte Pfandart.';
+  end if;
+
+  -- Kassier (und ggf. Rabatt-Freigabe) aus der Sitzung, die beim Bonieren gültig war
+  select * into v_staff from public.session_staff(p_session, v_created_at);
+  if p_discount_session is not null then
+    select s.id into v_approver from public.session_staff(p_discount_session, v_created_at) s;
+  end if;
+
+  -- Rabatte: Grund muss zum Event gehören, Berechtigung hat der Kassier oder wer den Rabatt freigegeben hat
+  if p_discount is not null and jsonb_typeof(p_discount) <> 'object' then
+    raise exception 'Ungültiger Rabatt.';
+  end if;
+  select coalesce(jsonb_agg(x.d), '[]') into v_discounts
+  from (
+    select l->'discount' as d from jsonb_array_elements(p_lines) l where jsonb_typeof(l->'discount') = 'object'
+    union all
+    select p_discount where p_discount is not null
+  ) x;
+
+  if jsonb_array_length(v_discounts) > 0 then
+    if v_is_null_receipt then
+      raise exception 'Nullbelege dürfen keine Rabatte enthalten.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      left join public.discount_reasons r on r.id = (d->>'reason_id')::uuid and r.event_id = p_event_id and r.is_active
+      where r.id is null
+    ) then
+      raise exception 'Rabatt ohne gültigen Grund.';
+    end if;
+    if exists (
+      select 1
+      from jsonb_array_elements(v_discounts) d
+      where d->>'kind' is null
+         or d->>'kind' not in ('percent', 'amount', 'price', 'free')
+         or (d->>'kind' <> 'free' and ((d->>'value') is null or (d->>'value')::numeric < 0))
+         or (d->>'kind' = 'percent' and (d->>'value')::numeric > 100)
+    ) or p_discount->>'kind' = 'price' then
+      raise exception 'Ungültiger Rabatt.';
+    end if;
+    if not public.has_permission(coalesce(v_approver, v_staff.id), 'give_discounts') then
+      raise exception 'Keine Berechtigung: Rabatte.';
+    end if;
+  end if;
+
+  -- Manuelle Pfand-Buchungen über dem Limit des Events nur mit Berechtigung
+  select e.deposit_adjust_limit into v_deposit_limit from public.events e where e.id = p_event_id;
+  if v_deposit_limit is not null
+     and (
+       select coalesce(sum(abs((d->>'qty')::integer) * t.value), 0) + abs(coalesce(p_deposit_adjust, 0))
+       from jsonb_array_elements(p_deposits) d
+       join public.deposit_types t on t.id = (d->>'deposit_type_id')::uuid
+     ) > v_deposit_limit
+     and not public.has_permission(v_staff.id, 'adjust_deposit') then
+    raise exception 'Keine Berechtigung: Pfand-Buchungen über % € je Bon.', v_deposit_limit;
+  end if;
+
+  -- Positionen prüfen + Summen aus products berechnen
+  for v_line in
+    select (l->>'product_id')::uuid as product_id, (l->>'qty')::integer as qty, p.name, p.price_gross, p.bar_id, p.tax_rate, p.is_active
+    from jsonb_array_elements(p_lines) l
+    left join public.products p on p.id = (l->>'product_id')::uuid
+  loop
+    if v_line.name is null then
+      raise exception 'Unbekanntes Produkt: %', v_line.product_id;
+    end if;
+    if v_line.bar_id <> p_bar_id then
+      raise exception 'Produkt % gehört nicht zu dieser Bar', v_line.name;
+    end if;
+    if not v_line.is_active then
+      raise exception 'Produkt % ist nicht mehr im Verkauf', v_line.name;
+    end if;
+    if v_line.qty is null or v_line.qty < 1 then
+      raise exception 'Ungültige Menge für %', v_line.name;
+    end if;
+    if v_line.tax_rate not in (0.20, 0.10, 0.13, 0, 0.19) then
+      raise exception 'Ungültiger Steuersatz für %', v_line.name;
+    end if;
+  end loop;
+
+  -- Rabatte je Position, dann Bon-Rabatt anteilig verteilen (Rest auf die letzte Position mit Betrag),
+  -- damit die USt vom rabattierten Betrag gerechnet wird – gleich wie allocateDiscount() in der Kassa
+  select coalesce(jsonb_agg(to_jsonb(x) order by x.n), '[]') into v_items
+  from (
+    select t.n::integer as n, p.id as product_id, p.name, p.price_gross as unit_price, (t.l->>'qty')::integer as qty, p.tax_rate,
+           round(p.price_gross * (t.l->>'qty')::integer, 2) as gross,
+           case when jsonb_typeof(t.l->'discount') = 'object' then t.l->'discount' end as discount,
+           public.discount_amount(round(p.price_gross * (t.l->>'qty')::integer, 2), t.l->'discount', (t.l->>'qty')::integer) as line_discount
+    from jsonb_array_elements(p_lines) with ordinality as t (l, n)
+    join public.products p on p.id = (t.l->>'product_id')::uuid
+  ) x;
+
+  select coalesce(sum((r->>'gross')::numeric - (r->>'line_discount')::numeric), 0) into v_subtotal
+  from jsonb_array_elements(v_items) r;
+  v_order_discount := public.discount_amount(v_subtotal, p_discount);
+
+  select max((r->>'n')::integer) into v_last
+  from jsonb_array_elements(v_items) r
+  where (r->>'gross')::numeric - (r->>'line_discount')::numeric > 0;
+
+  select coalesce(jsonb_agg(y.r || jsonb_build_object('order_share', y.share, 'total', y.after - y.share) order by y.n), '[]') into v_items
+  from (
+    select s.r, s.n, s.after,
+           case when s.n = v_last then v_order_discount - sum(s.share) over () + s.share else s.share end as share
+    from (
+      select r, (r->>'n')::integer as n, (r->>'gross')::numeric - (r->>'line_discount')::numeric as after,
+             case
+               when (r->>'n')::integer = v_last or v_subtotal <= 0 or (r->>'gross')::numeric - (r->>'line_discount')::numeric <= 0 then 0
+               else round(v_order_discount * ((r->>'gross')::numeric - (r->>'line_discount')::numeric) / v_subtotal, 2)
+             end as share
+      from jsonb_array_elements(v_items) r
+    ) s
+  ) y;
+
+  select round(coalesce(sum((r->>'total')::numeric), 0), 2), round(coalesce(sum((r->>'gross')::numeric - (r->>'total')::numeric), 0), 2)
+    into v_gross, v_discount_total
+  from jsonb_array_elements(v_items) r;
+
+  -- Netto/USt je Steuersatz (gleiche Rundung wie order_tax_lines und der Bon)
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, sum((r->>'total')::numeric) as gross
+      from jsonb_array_elements(v_items) r
+      group by 1
+    ) g
+  ) t;
+  -- Pfand je Art: automatisch aus den Produkten + manuelle Buchungen (positiv = Ausgabe, negativ = Rückgabe)
+  select coalesce(jsonb_agg(x order by x.sort_order), '[]')
+    into v_deposit_rows
+  from (
+    select t.id as deposit_type_id, t.name, t.value, t.sort_order,
+           coalesce(a.qty, 0) + greatest(coalesce(m.qty, 0), 0) as issued,
+           greatest(-coalesce(m.qty, 0), 0) as returned
+    from public.deposit_types t
+    left join (
+      select p.deposit_type_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(p_lines) l
+      join public.products p on p.id = (l->>'product_id')::uuid
+      group by p.deposit_type_id
+    ) a on a.deposit_type_id = t.id
+    left join (
+      select (d->>'deposit_type_id')::uuid as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(p_deposits) d
+      group by 1
+    ) m on m.deposit_type_id = t.id
+    where coalesce(a.qty, 0) <> 0 or coalesce(m.qty, 0) <> 0
+
+    union all
+
+    -- Pauschale Korrektur älterer Clients (vor den Pfandarten)
+    select null, 'Korrektur', abs(p_deposit_adjust), 2147483647,
+           case when p_deposit_adjust > 0 then 1 else 0 end,
+           case when p_deposit_adjust < 0 then 1 else 0 end
+    where coalesce(p_deposit_adjust, 0) <> 0
+  ) x;
+
+  select round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2)
+    into v_deposit
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Signierte Beträge (Normal, Ermäßigt-1, Ermäßigt-2, Null, Besonders) müssen zum gerechneten Bon passen;
+  -- Pfand zählt wie in der Kassa (rksvAmountsFromTaxLines) zum Nullsatz
+  v_signed := regexp_match(
+    p_rksv->>'qr',
+    '_(-?[0-9]+,[0-9]{2})_(-?[0-9]+,[0-9]{2})_(-?[0-9]+,[0-9]{2})_(-?[0-9]+,[0-9]{2})_(-?[0-9]+,[0-9]{2})_[^_]*_[^_]*_[^_]*_[^_]*$'
+  );
+  select array[
+           round(coalesce(sum((r->>'total')::numeric) filter (where (r->>'tax_rate')::numeric = 0.20), 0), 2),
+           round(coalesce(sum((r->>'total')::numeric) filter (where (r->>'tax_rate')::numeric = 0.10), 0), 2),
+           round(coalesce(sum((r->>'total')::numeric) filter (where (r->>'tax_rate')::numeric = 0.13), 0), 2),
+           round(coalesce(sum((r->>'total')::numeric) filter (where (r->>'tax_rate')::numeric = 0), 0) + v_deposit, 2),
+           round(coalesce(sum((r->>'total')::numeric) filter (where (r->>'tax_rate')::numeric = 0.19), 0), 2)
+         ]
+    into v_expected
+  from jsonb_array_elements(v_items) r;
+
+  if v_signed is null
+     or array(select replace(u.x, ',', '.')::numeric from unnest(v_signed) with ordinality u (x, n) order by u.n) <> v_expected then
+    raise exception 'Signierte Beträge passen nicht zum Bon (erwartet: %).', array_to_string(v_expected, ' / ');
+  end if;
+
+  -- Zahlungen: ohne Angabe eine Zahlung über den ganzen Betrag (Kassen vor den geteilten Zahlungen)
+  v_payments := coalesce(
+    p_payments,
+    jsonb_build_array(
+      jsonb_build_object(
+        'method', p_payment_method,
+        'amount', round(v_gross + v_deposit, 2),
+        'provider', p_card_payment->>'provider',
+        'transaction_id', p_card_payment->>'transaction_id'
+      )
+    )
+  );
+  if not v_is_null_receipt
+     and (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x) <> round(v_gross + v_deposit, 2) then
+    raise exception 'Zahlungen (%) ergeben nicht den Bon-Betrag (%).',
+      (select round(sum((x->>'amount')::numeric), 2) from jsonb_array_elements(v_payments) x), round(v_gross + v_deposit, 2);
+  end if;
+  select case when count(distinct x->>'method') = 1 then min(x->>'method') else 'split' end
+    into v_method
+  from jsonb_array_elements(v_payments) x;
+
+  -- Gegeben/Rückgeld: nur zum Bar-Anteil, der Kunde muss mindestens diesen Betrag gegeben haben
+  if p_cash_tendered is not null then
+    select round(sum((x->>'amount')::numeric), 2) into v_cash
+    from jsonb_array_elements(v_payments) x
+    where x->>'method' = 'cash';
+    if v_is_null_receipt or v_cash is null or v_cash <= 0 then
+      raise exception 'Gegebener Betrag nur bei Barzahlung.';
+    end if;
+    if round(p_cash_tendered, 2) < v_cash then
+      raise exception 'Gegeben (%) ist weniger als der Bar-Betrag (%).', round(p_cash_tendered, 2), v_cash;
+    end if;
+  end if;
+
+  -- Bon-Nummer: offline vorab reserviert oder jetzt frisch aus event_counters
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = p_event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(p_event_id) nr;
+    if v_receipt_no is null then
+      raise exception 'next_receipt() hat keine Bon-Nummer geliefert. Prüfe event_counters.';
+    end if;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    receipt_document, card_provider, card_transaction_id,
+    cash_tendered, cash_change,
+    discount_total, discount_granted_by
+  ) values (
+    p_idempotency_key, p_event_id, p_bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    true, coalesce(p_print, false),
+    v_created_at,
+    v_type, p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    p_receipt_document,
+    (select x->>'provider' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    (select x->>'transaction_id' from jsonb_array_elements(v_payments) x where x->>'method' = 'sumup' limit 1),
+    round(p_cash_tendered, 2),
+    case when p_cash_tendered is not null then round(p_cash_tendered - v_cash, 2) end,
+    v_discount_total,
+    case when jsonb_array_length(v_discounts) > 0 then coalesce(v_approver, v_staff.id) end
+  );
+
+  if not v_is_null_receipt then
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, x->>'method', round((x->>'amount')::numeric, 2), x->>'provider', x->>'transaction_id', n::integer
+    from jsonb_array_elements(v_payments) with ordinality as t (x, n);
+  end if;
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, (r->>'qty')::integer,
+         (r->>'total')::numeric, (r->>'tax_rate')::numeric, (r->>'line_discount')::numeric + (r->>'order_share')::numeric
+  from jsonb_array_elements(v_items) r
+  order by (r->>'n')::integer;
+
+  insert into public.order_discounts (order_id, product_id, reason_id, reason_snapshot, kind, value, amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, dr.id, dr.name, r->'discount'->>'kind', coalesce((r->'discount'->>'value')::numeric, 0),
+         (r->>'line_discount')::numeric
+  from jsonb_array_elements(v_items) r
+  join public.discount_reasons dr on dr.id = (r->'discount'->>'reason_id')::uuid
+  where (r->>'line_discount')::numeric > 0
+  union all
+  select p_idempotency_key, null, dr.id, dr.name, p_discount->>'kind', coalesce((p_discount->>'value')::numeric, 0), v_order_discount
+  from public.discount_reasons dr
+  where dr.id = (p_discount->>'reason_id')::uuid and v_order_discount > 0;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, (r->>'issued')::integer, (r->>'returned')::integer
+  from jsonb_array_elements(v_deposit_rows) r;
+
+  -- Beleg-Dokument muss zu den gebuchten Zeilen passen; gedruckt wird nur ein geprüftes
+  if p_receipt_document is not null then
+    perform public.assert_receipt_document(p_idempotency_key, p_receipt_document);
+  elsif coalesce(p_print, false) then
+    raise exception 'Bon-Druck ohne Beleg-Dokument.';
+  end if;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (p_event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  -- ✅ Bonierung: je betroffener Station ein Ticket, unabhängig davon, ob der Gast einen Bon will
+  insert into public.print_jobs (event_id, order_id, kind, station_id, printer_id, payload, document, status)
+  select p_event_id, p_idempotency_key, 'ticket', st.id, st.printer_id,
+         '*** ' || upper(st.name) || ' ***' || chr(10) ||
+           'Abholnummer: ' || v_short_no || chr(10) ||
+           b.name || chr(10) ||
+           string_agg(i.qty || 'x ' || i.name_snapshot, chr(10) order by p.sort_order, i.name_snapshot) || chr(10),
+         jsonb_build_object(
+           'version', 1,
+           'kind', 'ticket',
+           'station_name', st.name,
+           'bar_name', b.name,
+           'short_no', v_short_no,
+           'receipt_no', v_receipt_no,
+           'created_at', v_created_at,
+           'cashier', v_staff.name,
+           'lines', jsonb_agg(jsonb_build_object('qty', i.qty, 'name', i.name_snapshot) order by p.sort_order, i.name_snapshot)
+         ),
+         'queued'
+  from public.order_items i
+  join public.products p on p.id = i.product_id
+  join public.production_stations st on st.id = p.station_id and st.is_active
+  join public.bars b on b.id = p_bar_id
+  where i.order_id = p_idempotency_key
+  group by st.id, st.name, st.printer_id, st.sort_order, b.name
+  order by st.sort_order;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_order(uuid, uuid, uuid, text, text, text, jsonb, numeric, boolean, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, jsonb, numeric, jsonb, text)
+  to anon, authenticated;
+
+-- ====== create_storno ======
+create or replace function public.create_storno(
+  p_idempotency_key uuid,
+  p_original_order_id uuid,
+  p_device_id text,
+  p_session text,
+  p_voided_by text,
+  p_reason text default '',
+  p_receipt_no text default null,
+  p_public_token text default null,
+  p_created_at timestamptz default null,
+  p_rksv jsonb default null,
+  p_receipt_document jsonb default null,
+  p_lines jsonb default null,
+  p_deposits jsonb default null,
+  p_refund_method text default null,
+  p_print boolean default false,
+  p_print_payload text default null
+)
+returns table (
+  order_id uuid,
+  receipt_no text,
+  short_no integer,
+  public_token text,
+  receipt_url text,
+  gross numeric,
+  tax numeric,
+  net numeric,
+  deposit numeric,
+  total_payable numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_existing public.orders%rowtype;
+  v_original public.orders%rowtype;
+  v_staff record;
+  v_receipt_no text;
+  v_short_no integer;
+  v_token text;
+  v_now timestamptz := coalesce(p_created_at, now());
+  v_items jsonb; -- noch offene Positionen des Originals
+  v_deps jsonb; -- noch offenes Pfand des Originals
+  v_lines jsonb; -- zurückgenommene Positionen
+  v_ref_deps jsonb; -- zurückgenommenes Pfand
+  v_whole boolean; -- erster und kompletter Storno: Zahlungen exakt negieren
+  v_method text;
+  v_gross numeric;
+  v_net numeric;
+  v_tax numeric;
+  v_tax_rate numeric;
+  v_deposit numeric;
+  v_done boolean;
+begin
+  if p_idempotency_key is null then
+    raise exception 'Idempotenz-Key fehlt';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  select * into v_existing from public.orders o where o.id = p_idempotency_key;
+  if found then
+    return query
+      select v_existing.id, v_existing.receipt_no, v_existing.short_no, v_existing.public_token,
+             '/r/' || v_existing.public_token,
+             v_existing.gross_total, v_existing.tax_total, v_existing.net_total, v_existing.deposit_total,
+             round(v_existing.gross_total + coalesce(v_existing.deposit_total, 0), 2);
+    return;
+  end if;
+
+  select * into v_original from public.orders o where o.id = p_original_order_id for update;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_original.status = 'voided' then
+    raise exception 'Dieser Bon ist bereits storniert.';
+  end if;
+  if v_original.rksv_receipt_type <> 'standard' then
+    raise exception 'Nur Verkaufsbelege können storniert werden.';
+  end if;
+  if (p_lines is not null and jsonb_typeof(p_lines) <> 'array') or (p_deposits is not null and jsonb_typeof(p_deposits) <> 'array') then
+    raise exception 'Ungültige Storno-Auswahl.';
+  end if;
+
+  select * into v_staff from public.session_staff(p_session, v_now);
+
+  -- Eigener letzter Bon (dieses Gerät, danach kein Verkauf mehr): void_own_last, sonst void_any
+  if not public.has_permission(v_staff.id, 'void_any') and not (
+    public.has_permission(v_staff.id, 'void_own_last')
+    and v_original.cashier_staff_id = v_staff.id
+    and v_original.device_id = p_device_id
+    and not exists (
+      select 1 from public.orders n
+      where n.event_id = v_original.event_id
+        and n.device_id = v_original.device_id
+        and n.rksv_receipt_type = 'standard'
+        and n.created_at > v_original.created_at
+    )
+  ) then
+    raise exception 'Keine Berechtigung: Storno dieses Bons.';
+  end if;
+
+  -- Offene Mengen: Original abzüglich früherer Stornos (deren Mengen sind negativ)
+  select coalesce(jsonb_agg(x), '[]') into v_items
+  from (
+    select
+      i.product_id,
+      min(i.name_snapshot) as name,
+      min(i.unit_price_gross) as unit_price,
+      min(i.tax_rate) as tax_rate,
+      sum(i.qty) as sold,
+      sum(i.line_total_gross) as line_total,
+      sum(i.discount_amount) as discount,
+      sum(i.line_total_gross) + coalesce((
+        select sum(ri.line_total_gross)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as open_total,
+      sum(i.qty) + coalesce((
+        select sum(ri.qty)
+        from public.order_items ri
+        join public.orders ro on ro.id = ri.order_id
+        where ro.storno_of_order_id = v_original.id and ri.product_id is not distinct from i.product_id
+      ), 0) as remaining
+    from public.order_items i
+    where i.order_id = v_original.id
+    group by i.product_id
+  ) x
+  where x.remaining > 0;
+
+  select coalesce(jsonb_agg(x), '[]') into v_deps
+  from (
+    select
+      d.deposit_type_id,
+      min(d.name_snapshot) as name,
+      min(d.value_snapshot) as value,
+      sum(d.issued) + coalesce((
+        select sum(rd.issued)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as issued,
+      sum(d.returned) + coalesce((
+        select sum(rd.returned)
+        from public.order_deposits rd
+        join public.orders ro on ro.id = rd.order_id
+        where ro.storno_of_order_id = v_original.id and rd.deposit_type_id is not distinct from d.deposit_type_id
+      ), 0) as returned
+    from public.order_deposits d
+    where d.order_id = v_original.id
+    group by d.deposit_type_id
+  ) x
+  where x.issued <> 0 or x.returned <> 0;
+
+  if p_lines is null and p_deposits is null then
+    -- Alles Offene
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', r->'remaining')), '[]') into v_lines
+    from jsonb_array_elements(v_items) r;
+    v_ref_deps := v_deps;
+  else
+    if exists (
+      select 1
+      from (
+        select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_lines, '[]')) l
+        group by 1
+      ) l
+      left join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id
+      where l.qty is null or l.qty < 1 or l.qty > coalesce((r->>'remaining')::integer, 0)
+    ) then
+      raise exception 'Ungültige Menge: mehr zurückgenommen als am Bon noch offen ist.';
+    end if;
+    if exists (
+      select 1
+      from (
+        select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+        from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+        group by 1
+      ) d
+      left join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id
+      where d.qty is null or d.qty < 1 or d.qty > coalesce((r->>'issued')::integer, 0)
+    ) then
+      raise exception 'Ungültiges Pfand: mehr zurückgenommen als ausgegeben.';
+    end if;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('qty', l.qty)), '[]') into v_lines
+    from (
+      select l->>'product_id' as product_id, sum((l->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_lines, '[]')) l
+      group by 1
+    ) l
+    join jsonb_array_elements(v_items) r on r->>'product_id' = l.product_id;
+
+    select coalesce(jsonb_agg(r || jsonb_build_object('issued', d.qty, 'returned', 0)), '[]') into v_ref_deps
+    from (
+      select d->>'deposit_type_id' as deposit_type_id, sum((d->>'qty')::integer) as qty
+      from jsonb_array_elements(coalesce(p_deposits, '[]')) d
+      group by 1
+    ) d
+    join jsonb_array_elements(v_deps) r on r->>'deposit_type_id' = d.deposit_type_id;
+  end if;
+
+  if jsonb_array_length(v_lines) = 0 and jsonb_array_length(v_ref_deps) = 0 then
+    raise exception 'Nichts zu stornieren.';
+  end if;
+
+  -- Betrag je Position aus dem (rabattierten) Bon-Betrag: anteilig, der letzte Rest exakt
+  select coalesce(jsonb_agg(r || jsonb_build_object(
+           'amount', case
+             when (r->>'qty')::integer = (r->>'remaining')::integer then (r->>'open_total')::numeric
+             else round((r->>'line_total')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+           end,
+           'discount', round((r->>'discount')::numeric * (r->>'qty')::integer / (r->>'sold')::integer, 2)
+         )), '[]')
+    into v_lines
+  from jsonb_array_elements(v_lines) r;
+
+  -- Beträge (gleiche Rundung wie create_order / order_tax_lines), negativ
+  select -coalesce(sum((r->>'amount')::numeric), 0) into v_gross
+  from jsonb_array_elements(v_lines) r;
+
+  select coalesce(sum(t.net), 0), coalesce(sum(t.tax), 0), case when count(*) = 1 then min(t.tax_rate) end
+    into v_net, v_tax, v_tax_rate
+  from (
+    select g.tax_rate, round(g.gross / (1 + g.tax_rate), 2) as net, g.gross - round(g.gross / (1 + g.tax_rate), 2) as tax
+    from (
+      select (r->>'tax_rate')::numeric as tax_rate, -sum((r->>'amount')::numeric) as gross
+      from jsonb_array_elements(v_lines) r
+      group by 1
+    ) g
+  ) t;
+
+  select -round(coalesce(sum(((r->>'issued')::integer - (r->>'returned')::integer) * (r->>'value')::numeric), 0), 2) into v_deposit
+  from jsonb_array_elements(v_ref_deps) r;
+
+  -- Erstattung: beim ersten kompletten Storno wie bezahlt, sonst eine Zahlung (Standard: Zahlungsart des Originals, geteilt → bar)
+  v_whole := p_lines is null and p_deposits is null
+    and not exists (select 1 from public.orders s where s.storno_of_order_id = v_original.id);
+  v_method := case
+    when v_whole then v_original.payment_method
+    else coalesce(p_refund_method, case when v_original.payment_method = 'split' then 'cash' else v_original.payment_method end)
+  end;
+  if not v_whole and v_method not in ('cash', 'sumup') then
+    raise exception 'Ungültige Erstattungsart: %', v_method;
+  end if;
+
+  if p_receipt_no is not null then
+    update public.receipt_reservations r
+       set order_id = p_idempotency_key
+     where r.event_id = v_original.event_id
+       and r.receipt_no = p_receipt_no
+       and r.device_id = p_device_id
+       and r.order_id is null
+    returning r.short_no into v_short_no;
+
+    if not found then
+      raise exception 'Bon-Nummer % ist für dieses Gerät nicht (mehr) reserviert', p_receipt_no;
+    end if;
+    v_receipt_no := p_receipt_no;
+  else
+    select nr.receipt_no, nr.short_no into v_receipt_no, v_short_no from public.next_receipt(v_original.event_id) nr;
+  end if;
+
+  v_token := coalesce(nullif(p_public_token, ''), replace(gen_random_uuid()::text, '-', ''));
+
+  insert into public.orders (
+    id, event_id, bar_id, device_id,
+    cashier_user_id, cashier_staff_id, cashier_name_snapshot, cashier_role_snapshot,
+    receipt_no, short_no, public_token,
+    payment_method, status,
+    gross_total, tax_rate, tax_total, net_total,
+    deposit_total,
+    receipt_offered, receipt_printed,
+    created_at,
+    rksv_receipt_type, rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, rksv_signature_failed,
+    storno_of_order_id, receipt_document
+  ) values (
+    p_idempotency_key, v_original.event_id, v_original.bar_id, p_device_id,
+    null, v_staff.id, v_staff.name, v_staff.role,
+    v_receipt_no, v_short_no, v_token,
+    v_method, 'completed',
+    v_gross, v_tax_rate, v_tax, v_net,
+    v_deposit,
+    false, coalesce(p_print, false),
+    v_now,
+    'storno', p_rksv->>'cash_register_id', (p_rksv->>'seq')::integer, p_rksv->>'jws', p_rksv->>'qr',
+    coalesce((p_rksv->>'signature_failed')::boolean, false),
+    v_original.id, p_receipt_document
+  );
+
+  insert into public.order_items (order_id, product_id, name_snapshot, unit_price_gross, qty, line_total_gross, tax_rate, discount_amount)
+  select p_idempotency_key, (r->>'product_id')::uuid, r->>'name', (r->>'unit_price')::numeric, -(r->>'qty')::integer,
+         -(r->>'amount')::numeric, (r->>'tax_rate')::numeric, -(r->>'discount')::numeric
+  from jsonb_array_elements(v_lines) r;
+
+  insert into public.order_deposits (order_id, deposit_type_id, name_snapshot, value_snapshot, issued, returned)
+  select p_idempotency_key, (r->>'deposit_type_id')::uuid, r->>'name', (r->>'value')::numeric, -(r->>'issued')::integer, -(r->>'returned')::integer
+  from jsonb_array_elements(v_ref_deps) r;
+
+  if v_whole then
+    -- Zahlungen des Originals negiert (Bar-Anteil geht aus der Lade zurück)
+    insert into public.order_payments (order_id, method, amount, card_provider, card_transaction_id, sort_order)
+    select p_idempotency_key, p.method, -p.amount, p.card_provider, p.card_transaction_id, p.sort_order
+    from public.order_payments p
+    where p.order_id = v_original.id;
+  elsif round(v_gross + v_deposit, 2) <> 0 then
+    insert into public.order_payments (order_id, method, amount, sort_order)
+    values (p_idempotency_key, v_method, round(v_gross + v_deposit, 2), 1);
+  end if;
+
+  -- Alles zurückgenommen → Original gilt als storniert (Inhalt bleibt unverändert)
+  v_done := (select coalesce(sum((r->>'remaining')::integer), 0) from jsonb_array_elements(v_items) r)
+              = (select coalesce(sum((r->>'qty')::integer), 0) from jsonb_array_elements(v_lines) r)
+        and (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_deps) r)
+              = (select coalesce(sum(abs((r->>'issued')::integer) + abs((r->>'returned')::integer)), 0) from jsonb_array_elements(v_ref_deps) r);
+  if v_done then
+    update public.orders set status = 'voided', voided_at = v_now where id = v_original.id;
+  end if;
+
+  insert into public.voids (order_id, voided_by, reason, storno_order_id)
+  values (v_original.id, coalesce(p_voided_by, v_staff.role || ':' || v_staff.name), coalesce(p_reason, ''), p_idempotency_key);
+
+  if p_receipt_document is not null then
+    perform public.assert_receipt_document(p_idempotency_key, p_receipt_document);
+  elsif coalesce(p_print, false) then
+    raise exception 'Bon-Druck ohne Beleg-Dokument.';
+  end if;
+
+  if coalesce(p_print, false) then
+    insert into public.print_jobs (event_id, order_id, payload, document, status)
+    values (v_original.event_id, p_idempotency_key, coalesce(p_print_payload, ''), p_receipt_document, 'queued');
+  end if;
+
+  return query
+    select p_idempotency_key, v_receipt_no, v_short_no, v_token, '/r/' || v_token,
+           v_gross, v_tax, v_net, v_deposit, round(v_gross + v_deposit, 2);
+end;
+$$;
+
+grant execute on function public.create_storno(uuid, uuid, text, text, text, text, text, text, timestamptz, jsonb, jsonb, jsonb, jsonb, text, boolean, text)
+  to anon, authenticated;
+
+-- Nachdruck: gespeichertes Dokument; nur Bons aus der Zeit davor nehmen das der Kassa (geprüft)
+create or replace function public.reprint_receipt(p_session text, p_order_id uuid, p_payload text, p_document jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+begin
+  perform public.assert_session_permission(p_session, 'reprint');
+
+  select * into v_order from public.orders o where o.id = p_order_id;
+  if not found then
+    raise exception 'Bon nicht gefunden.';
+  end if;
+  if v_order.receipt_document is null then
+    perform public.assert_receipt_document(p_order_id, p_document);
+  end if;
+
+  insert into public.print_jobs (event_id, order_id, payload, document, status)
+  values (v_order.event_id, v_order.id, coalesce(p_payload, ''), coalesce(v_order.receipt_document, p_document), 'queued');
+end;
+$$;
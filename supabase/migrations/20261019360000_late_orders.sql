@@ -0,0 +1,150 @@
+-- ====== Nachträglich übertragene Bons nach einem Z-Bericht ======
+-- Offline-Bons kommen evtl. erst an, wenn ihr Zeitraum schon mit einem Z-Bericht abgeschlossen ist.
+-- Sie würden sonst in keinem Z-Bericht auftauchen und spätere X-Berichte über diesen Zeitraum verfälschen.
+-- Solche Bons behalten ihren (signierten) Zeitpunkt, werden aber für die Berichte mit orders.report_at
+-- in die nächste offene Periode gebucht (Zeitpunkt der Übertragung); der Admin bekommt einen Hinweis.
+
+alter table public.orders add column if not exists report_at timestamptz; -- nur bei nachträglich gebuchten Bons
+
+create or replace function public.book_late_order()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_z_no integer;
+begin
+  -- gleiche Sperre wie create_z_report: ein Bon ist entweder im Z-Bericht oder wird hier erkannt
+  perform pg_advisory_xact_lock_shared(hashtext('z_report:' || new.event_id::text));
+
+  select z.z_no into v_z_no
+  from public.z_reports z
+  where z.event_id = new.event_id
+    and new.created_at >= z.period_from
+    and new.created_at < z.period_to
+  order by z.z_no desc
+  limit 1;
+
+  if v_z_no is not null then
+    new.report_at := now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values (
+      'late_order',
+      format(
+        'Bon %s vom %s kam erst nach Z-Bericht Nr. %s an – er wird im nächsten Z-Bericht gebucht.',
+        new.receipt_no, to_char(new.created_at at time zone 'Europe/Vienna', 'DD.MM.YYYY HH24:MI'), v_z_no
+      ),
+      new.device_id
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_book_late on public.orders;
+create trigger orders_book_late
+before insert on public.orders
+for each row execute function public.book_late_order();
+
+-- Berichte nach Buchungszeitpunkt (report_at, sonst created_at); late_receipts = davon nachträglich gebucht
+create or replace function public.sales_report(p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with o as (
+    select
+      o.*,
+      coalesce(o.deposit_total, 0) as deposit,
+      (o.rksv_receipt_type = 'storno') as is_storno
+    from public.orders o
+    where o.event_id = p_event_id
+      and coalesce(o.report_at, o.created_at) >= p_from
+      and coalesce(o.report_at, o.created_at) < p_to
+      and o.rksv_receipt_type in ('standard', 'storno')
+  ),
+  grouped as (
+    select
+      g.dim,
+      g.key,
+      min(g.label) as label,
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      round(sum(o.gross_total), 2) as gross,
+      round(sum(o.deposit), 2) as deposit,
+      round(sum(o.gross_total + o.deposit), 2) as total
+    from o
+    left join public.bars b on b.id = o.bar_id
+    cross join lateral (
+      values
+        ('bar', coalesce(o.bar_id::text, ''), coalesce(b.name, '—')),
+        ('device', coalesce(o.device_id, ''), coalesce(left(o.device_id, 8), '—')),
+        ('cashier', coalesce(o.cashier_staff_id::text, ''), coalesce(o.cashier_name_snapshot, '—')),
+        ('hour', to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'YYYY-MM-DD"T"HH24:00'),
+                 to_char(date_trunc('hour', o.created_at at time zone 'Europe/Vienna'), 'DD.MM. HH24:00'))
+    ) as g (dim, key, label)
+    group by g.dim, g.key
+  ),
+  -- Zahlungsarten aus den Zahlungen (ein geteilter Bon zählt bei beiden); Waren/Pfand sind je Zahlung nicht aufteilbar
+  payments as (
+    select
+      p.method as key,
+      case p.method when 'cash' then 'Bar' when 'sumup' then 'Karte (SumUp)' else p.method end as label,
+      count(distinct o.id) filter (where not o.is_storno) as receipts,
+      count(distinct o.id) filter (where o.is_storno) as storno_count,
+      coalesce(round(sum(p.amount) filter (where o.is_storno), 2), 0) as storno_amount,
+      null::numeric as gross,
+      null::numeric as deposit,
+      round(sum(p.amount), 2) as total
+    from o
+    join public.order_payments p on p.order_id = o.id
+    group by p.method
+  ),
+  taxes as (
+    select t.tax_rate, sum(t.gross) as gross, sum(t.net) as net, sum(t.tax) as tax
+    from public.order_tax_lines t
+    join o on o.id = t.order_id
+    group by t.tax_rate
+  ),
+  totals as (
+    select
+      count(*) filter (where not o.is_storno) as receipts,
+      count(*) filter (where o.is_storno) as storno_count,
+      count(*) filter (where o.report_at is not null) as late_receipts,
+      coalesce(round(sum(o.gross_total + o.deposit) filter (where o.is_storno), 2), 0) as storno_amount,
+      coalesce(round(sum(o.gross_total), 2), 0) as gross,
+      coalesce(round(sum(o.net_total), 2), 0) as net,
+      coalesce(round(sum(o.tax_total), 2), 0) as tax,
+      coalesce(round(sum(o.deposit), 2), 0) as deposit,
+      coalesce(round(sum(o.gross_total + o.deposit), 2), 0) as total
+    from o
+  )
+  select jsonb_build_object(
+    'event_id', p_event_id,
+    'from', p_from,
+    'to', p_to,
+    'receipts', t.receipts,
+    'storno_count', t.storno_count,
+    'storno_amount', t.storno_amount,
+    'late_receipts', t.late_receipts,
+    'gross', t.gross,
+    'net', t.net,
+    'tax', t.tax,
+    'deposit', t.deposit,
+    'total', t.total,
+    'taxes', coalesce((select jsonb_agg(jsonb_build_object('tax_rate', x.tax_rate, 'gross', x.gross, 'net', x.net, 'tax', x.tax) order by x.tax_rate desc) from taxes x), '[]'::jsonb),
+    'by_bar', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'bar'), '[]'::jsonb),
+    'by_device', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'device'), '[]'::jsonb),
+    'by_cashier', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.label) from grouped g where g.dim = 'cashier'), '[]'::jsonb),
+    'by_payment', coalesce((select jsonb_agg(to_jsonb(x) order by x.label) from payments x), '[]'::jsonb),
+    'by_hour', coalesce((select jsonb_agg(to_jsonb(g) - 'dim' order by g.key) from grouped g where g.dim = 'hour'), '[]'::jsonb)
+  )
+  from totals t;
+$$;
+
+grant execute on function public.sales_report(uuid, timestamptz, timestamptz) to anon, authenticated;
@@ -0,0 +1,126 @@
+-- ====== Schicht offline öffnen ======
+-- Bisher brauchte "Schicht öffnen" eine Verbindung – ein Gerät, das offline startet, konnte nicht verkaufen.
+-- Jetzt legt die Kassa die Schicht lokal an (ID + Zeitpunkt vom Gerät) und überträgt sie über die Outbox
+-- vor den Bons dieser Schicht. open_shift ist dadurch idempotent; geprüft wird die Sitzung zum Zeitpunkt
+-- des Öffnens. Öffnen und Schließen braucht die neue Berechtigung manage_shift (alle bestehenden Rollen).
+
+alter table public.role_permissions drop constraint if exists role_permissions_permission_check;
+alter table public.role_permissions add constraint role_permissions_permission_check check (
+  permission in (
+    'void_own_last', 'void_any', 'reprint', 'view_reports', 'give_discounts', 'adjust_deposit', 'manage_catalog', 'manage_staff',
+    'manage_shift'
+  )
+);
+
+insert into public.role_permissions (role, permission)
+select r.key, 'manage_shift' from public.roles r
+on conflict do nothing;
+
+drop function if exists public.open_shift(uuid, uuid, text, text, numeric);
+
+create or replace function public.open_shift(
+  p_id uuid,
+  p_event_id uuid,
+  p_bar_id uuid,
+  p_device_id text,
+  p_session text,
+  p_opening_float numeric,
+  p_opened_at timestamptz default null
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_opened_at timestamptz := coalesce(p_opened_at, now());
+begin
+  if p_id is null then
+    raise exception 'Schicht-ID fehlt.';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(p_id::text));
+
+  -- Wiederholung aus der Outbox
+  if exists (select 1 from public.shifts s where s.id = p_id) then
+    return query select * from public.shifts s where s.id = p_id;
+    return;
+  end if;
+
+  if v_opened_at > now() + interval '5 minutes' or v_opened_at < now() - interval '30 days' then
+    raise exception 'Ungültiger Zeitpunkt: %', v_opened_at;
+  end if;
+
+  select * into v_staff from public.session_staff(p_session, v_opened_at);
+  perform public.assert_permission(v_staff.id, 'manage_shift');
+
+  if p_opening_float is null or p_opening_float < 0 then
+    raise exception 'Ungültiger Anfangsbestand.';
+  end if;
+  if exists (select 1 from public.shifts s where s.device_id = p_device_id and s.closed_at is null) then
+    raise exception 'Auf diesem Gerät ist bereits eine Schicht offen.';
+  end if;
+
+  return query
+    insert into public.shifts (id, event_id, bar_id, device_id, staff_id, staff_name, opened_at, opening_float)
+    values (p_id, p_event_id, p_bar_id, p_device_id, v_staff.id, v_staff.name, v_opened_at, round(p_opening_float, 2))
+    returning *;
+end;
+$$;
+
+grant execute on function public.open_shift(uuid, uuid, uuid, text, text, numeric, timestamptz) to anon, authenticated;
+
+-- Schicht schließen: wie bisher, plus Berechtigung
+create or replace function public.close_shift(
+  p_shift_id uuid,
+  p_session text,
+  p_denominations jsonb,
+  p_note text default null
+)
+returns setof public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff record;
+  v_counted numeric;
+  v_summary jsonb;
+begin
+  perform public.assert_session_permission(p_session, 'manage_shift');
+  select * into v_staff from public.session_staff(p_session);
+  if p_denominations is null or jsonb_typeof(p_denominations) <> 'object' then
+    raise exception 'Ungültige Zählung.';
+  end if;
+
+  select round(coalesce(sum(d.key::numeric * d.value::integer), 0), 2)
+    into v_counted
+  from jsonb_each_text(p_denominations) d;
+
+  update public.shifts
+     set closed_at = now(),
+         closed_by_staff_id = v_staff.id,
+         closed_by_name = v_staff.name
+   where id = p_shift_id
+     and closed_at is null;
+  if not found then
+    raise exception 'Schicht nicht gefunden oder bereits geschlossen.';
+  end if;
+
+  v_summary := public.shift_summary(p_shift_id);
+
+  return query
+    update public.shifts
+       set denominations = p_denominations,
+           counted_cash = v_counted,
+           expected_cash = (v_summary->>'expected_cash')::numeric,
+           difference = v_counted - (v_summary->>'expected_cash')::numeric,
+           report = v_summary,
+           note = nullif(trim(coalesce(p_note, '')), '')
+     where id = p_shift_id
+    returning *;
+end;
+$$;
+
+grant execute on function public.close_shift(uuid, text, jsonb, text) to anon, authenticated;
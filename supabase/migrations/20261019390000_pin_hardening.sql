@@ -0,0 +1,187 @@
+-- ====== PIN-Schutz nachgeschärft ======
+-- Lücken im PIN-Schutz:
+--   * Ohne p_device_id wurde gar kein Gerät gezählt; jetzt zählt so ein Versuch für das Gerät "unbekannt".
+--   * Die Zählung je PIN greift nicht, wenn man verschiedene PINs durchprobiert, und Geräte-IDs kann die Kassa
+--     beliebig wählen. Dazu kommt eine globale Grenze: zu viele Fehlversuche insgesamt (egal von welchem Gerät)
+--     sperren die PIN-Eingabe überall für lockout_duration.
+--   * PINs würfelt nur noch die DB (gen_random_bytes statt random()). Ein selbst gewählter PIN konnte mit
+--     „Dieser PIN ist schon vergeben“ verraten, dass ein anderer Mitarbeiter genau diesen PIN hat.
+--   * PINs laufen nach pin_max_age ab (null = nie); check_staff_pin meldet dann "expired" statt einer Sitzung,
+--     ein Admin muss einen neuen PIN erzeugen.
+
+alter table public.pin_security add column if not exists max_global_failures integer not null default 30;
+alter table public.pin_security add column if not exists pin_max_age interval default '180 days';
+
+alter table public.pin_lockouts drop constraint if exists pin_lockouts_kind_check;
+alter table public.pin_lockouts add constraint pin_lockouts_kind_check check (kind in ('device', 'pin', 'global'));
+
+-- Bestehende PINs ohne Datum: Ablauf zählt ab jetzt, sonst wären alle sofort abgelaufen
+update public.staff s set pin_changed_at = now() where s.pin_hash is not null and s.pin_changed_at is null;
+
+-- PIN-Check mit Sperre. status: ok | wrong | locked | expired (bei locked ist locked_until gesetzt, id/name/role null)
+create or replace function public.check_staff_pin(pin_input text, p_device_id text default null)
+returns table (id uuid, name text, role text, status text, locked_until timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  v_cfg public.pin_security%rowtype;
+  v_device text := coalesce(nullif(trim(p_device_id), ''), 'unbekannt');
+  v_fp text;
+  v_staff record;
+  v_until timestamptz;
+  v_failures integer;
+begin
+  select * into v_cfg from public.pin_security where id;
+  v_fp := encode(hmac(coalesce(pin_input, ''), v_cfg.pepper, 'sha256'), 'hex');
+
+  -- Gesperrt? Dann wird der PIN gar nicht geprüft
+  select max(l.locked_until) into v_until
+  from public.pin_lockouts l
+  where l.locked_until > now()
+    and ((l.kind = 'device' and l.key = v_device) or (l.kind = 'pin' and l.key = v_fp) or l.kind = 'global');
+  if v_until is not null then
+    return query select null::uuid, null::text, null::text, 'locked'::text, v_until;
+    return;
+  end if;
+
+  select s.id, s.name, s.role, s.pin_changed_at into v_staff
+  from public.staff s
+  where s.is_active and s.pin_hash is not null and s.pin_hash = crypt(pin_input, s.pin_hash)
+  limit 1;
+
+  insert into public.pin_attempts (device_id, pin_fingerprint, staff_id, success)
+  values (v_device, v_fp, v_staff.id, v_staff.id is not null);
+
+  if v_staff.id is not null then
+    if v_cfg.pin_max_age is not null and coalesce(v_staff.pin_changed_at, '-infinity') < now() - v_cfg.pin_max_age then
+      if not exists (
+        select 1 from public.admin_notifications n
+        where n.kind = 'pin_expired' and n.read_at is null and starts_with(n.message, v_staff.name || ':')
+      ) then
+        insert into public.admin_notifications (kind, message, device_id)
+        values ('pin_expired', format('%s: PIN abgelaufen – bitte neuen PIN erzeugen.', v_staff.name), v_device);
+      end if;
+      return query select null::uuid, null::text, null::text, 'expired'::text, null::timestamptz;
+      return;
+    end if;
+
+    update public.staff s set last_login_at = now() where s.id = v_staff.id;
+    return query select v_staff.id, v_staff.name::text, v_staff.role::text, 'ok'::text, null::timestamptz;
+    return;
+  end if;
+
+  -- Fehlversuche im Zeitfenster (seit dem letzten Erfolg an diesem Gerät) → ggf. Gerät sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where a.device_id = v_device
+    and not a.success
+    and a.created_at > now() - v_cfg.failure_window
+    and a.created_at > coalesce((select max(b.created_at) from public.pin_attempts b where b.device_id = v_device and b.success), '-infinity');
+  if v_failures >= v_cfg.max_device_failures then
+    v_until := now() + v_cfg.lockout_duration;
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('device', v_device, v_until, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('device_locked', format('Gerät %s nach %s falschen PINs bis %s gesperrt.', left(v_device, 8), v_failures,
+            to_char(v_until at time zone 'Europe/Vienna', 'HH24:MI')), v_device);
+  end if;
+
+  -- Derselbe falsche PIN auf mehreren Geräten → PIN sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where a.pin_fingerprint = v_fp and not a.success and a.created_at > now() - v_cfg.failure_window;
+  if v_failures >= v_cfg.max_pin_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('pin', v_fp, now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('pin_locked', format('Ein PIN wurde %s-mal falsch probiert und ist vorübergehend gesperrt.', v_failures), v_device);
+  end if;
+
+  -- Fehlversuche insgesamt (seit Ende der letzten globalen Sperre) → PIN-Eingabe überall sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where not a.success
+    and a.created_at > now() - v_cfg.failure_window
+    and a.created_at > coalesce((select l.locked_until from public.pin_lockouts l where l.kind = 'global'), '-infinity');
+  if v_failures >= v_cfg.max_global_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('global', 'alle', now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('global_locked', format('%s falsche PINs in kurzer Zeit – PIN-Eingabe auf allen Geräten bis %s gesperrt.', v_failures,
+            to_char((now() + v_cfg.lockout_duration) at time zone 'Europe/Vienna', 'HH24:MI')), v_device);
+  end if;
+
+  return query select null::uuid, null::text, null::text, case when v_until is null then 'wrong' else 'locked' end, v_until;
+end;
+$$;
+
+grant execute on function public.check_staff_pin(text, text) to anon, authenticated;
+
+-- ====== Verwaltung (manage_staff) ======
+
+drop function if exists public.staff_list(text);
+
+create or replace function public.staff_list(p_session text)
+returns table (id uuid, name text, role text, is_active boolean, has_pin boolean, last_login_at timestamptz, pin_changed_at timestamptz, pin_expires_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  return query
+    select s.id, s.name::text, s.role::text, s.is_active, s.pin_hash is not null, s.last_login_at, s.pin_changed_at,
+           case when s.pin_hash is not null then s.pin_changed_at + (select c.pin_max_age from public.pin_security c where c.id) end
+    from public.staff s
+    order by s.is_active desc, s.name;
+end;
+$$;
+
+grant execute on function public.staff_list(text) to anon, authenticated;
+
+-- Neuen PIN würfeln (6 Ziffern, eindeutig); Rückgabe einmalig an die Kassa
+drop function if exists public.staff_set_pin(text, uuid, text);
+
+create or replace function public.staff_set_pin(p_session text, p_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_pin text;
+  v_try integer := 0;
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+
+  if not exists (select 1 from public.staff s where s.id = p_id) then
+    raise exception 'Mitarbeiter nicht gefunden.';
+  end if;
+
+  loop
+    v_pin := lpad((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint % 1000000)::text, 6, '0');
+    exit when not exists (
+      select 1 from public.staff s
+      where s.id <> p_id and s.pin_hash is not null and s.pin_hash = crypt(v_pin, s.pin_hash)
+    );
+    v_try := v_try + 1;
+    if v_try > 20 then
+      raise exception 'Kein freier PIN gefunden.';
+    end if;
+  end loop;
+
+  update public.staff s set pin_hash = crypt(v_pin, gen_salt('bf')), pin_changed_at = now() where s.id = p_id;
+
+  return v_pin;
+end;
+$$;
+
+grant execute on function public.staff_set_pin(text, uuid) to anon, authenticated;
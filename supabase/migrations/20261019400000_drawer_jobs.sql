@@ -0,0 +1,44 @@
+-- ====== Kassenlade je Verkauf ======
+-- Die Lade ging bisher nur mit dem gedruckten Bon auf: Verkäufe ohne Bon (Gast will keinen) öffneten sie gar nicht.
+-- Jetzt legt jede Zahlungszeile mit Bar-Anteil (Verkauf oder Storno, auch bei geteilter Zahlung) einen eigenen
+-- Job kind = 'drawer' an, den die Bridge des Bar-Druckers ohne Papier ausführt. Bons öffnen die Lade nicht mehr.
+-- Nachgereichte Offline-Bons (älter als 2 Minuten) öffnen die Lade nicht, die Zahlung ist da längst erledigt.
+
+alter table public.print_jobs drop constraint if exists print_jobs_kind_check;
+alter table public.print_jobs add constraint print_jobs_kind_check check (kind in ('receipt', 'ticket', 'report', 'drawer'));
+
+create or replace function public.queue_drawer_job()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order record;
+begin
+  if new.method <> 'cash' or new.amount = 0 then
+    return new;
+  end if;
+
+  select o.event_id, o.created_at into v_order from public.orders o where o.id = new.order_id;
+  if v_order.created_at < now() - interval '2 minutes' then
+    return new;
+  end if;
+
+  -- eine Lade-Öffnung je Bon, auch wenn mehrere Bar-Zeilen gebucht werden
+  if exists (select 1 from public.print_jobs j where j.order_id = new.order_id and j.kind = 'drawer') then
+    return new;
+  end if;
+
+  -- Drucker bestimmt print_jobs_route (Drucker der Bar, sonst Standarddrucker des Events)
+  insert into public.print_jobs (event_id, order_id, kind, payload, status)
+  values (v_order.event_id, new.order_id, 'drawer', '', 'queued');
+
+  return new;
+end;
+$$;
+
+drop trigger if exists order_payments_drawer on public.order_payments;
+create trigger order_payments_drawer
+after insert on public.order_payments
+for each row execute function public.queue_drawer_job();
@@ -0,0 +1,100 @@
+-- ====== Abgelehnte Belege bleiben in der Signaturkette ======
+-- Lehnt create_order/create_storno einen Outbox-Eintrag ab, legt die Kassa ihn lokal ab und überträgt die Bons
+-- dahinter. Der Beleg ist aber schon signiert und in der Kette der Kasse: ohne ihn hätte der DEP eine Lücke.
+-- record_rejected_receipt() speichert den signierten Beleg (ohne Buchung) samt Grund, der DEP-Export liest
+-- Bons und abgelehnte Belege gemeinsam aus dep_receipts, und der Admin bekommt einen Hinweis.
+-- Wird der Beleg später doch gebucht (erneut senden), zählt nur noch die Buchung.
+
+create table if not exists public.rejected_receipts (
+  id uuid primary key, -- Idempotenz-Key = orders.id, falls der Beleg später doch gebucht wird
+  event_id uuid references public.events (id),
+  device_id text not null,
+  rpc text not null check (rpc in ('create_order', 'create_storno')),
+  receipt_no text,
+  rksv_cash_register_id text not null,
+  rksv_seq integer,
+  rksv_jws text not null,
+  rksv_qr text,
+  created_at timestamptz not null, -- signierter Zeitpunkt
+  params jsonb not null, -- RPC-Parameter ohne Sitzungs-Token
+  error text not null,
+  rejected_at timestamptz not null default now()
+);
+
+create index if not exists rejected_receipts_register_idx on public.rejected_receipts (rksv_cash_register_id, rksv_seq);
+
+-- Nur über record_rejected_receipt() und dep_receipts
+alter table public.rejected_receipts enable row level security;
+
+-- RPC: public.record_rejected_receipt(p_rpc text, p_params jsonb, p_error text)
+-- Die Sitzung im Eintrag muss zum Bon-Zeitpunkt gültig gewesen sein, die Kasse registriert.
+create or replace function public.record_rejected_receipt(p_rpc text, p_params jsonb, p_error text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rksv jsonb := p_params->'p_rksv';
+  v_id uuid := (p_params->>'p_idempotency_key')::uuid;
+  v_at timestamptz;
+  v_event_id uuid;
+begin
+  if p_rpc is null or p_rpc not in ('create_order', 'create_storno') or v_id is null then
+    raise exception 'Ungültiger Outbox-Eintrag.';
+  end if;
+  if v_rksv is null or coalesce(v_rksv->>'jws', '') = '' then
+    raise exception 'Abgelehnter Bon ohne RKSV-Signatur.';
+  end if;
+  if v_rksv->>'cash_register_id' is distinct from p_params->>'p_device_id'
+     or not exists (select 1 from public.rksv_cash_registers r where r.cash_register_id = v_rksv->>'cash_register_id') then
+    raise exception 'Unbekannte Kasse: %', v_rksv->>'cash_register_id';
+  end if;
+
+  v_at := (v_rksv->>'created_at')::timestamptz;
+  perform 1 from public.session_staff(p_params->>'p_session', v_at);
+
+  -- Inzwischen doch gebucht (z.B. paralleles Nachsenden) → nichts zu tun
+  if exists (select 1 from public.orders o where o.id = v_id) then
+    return;
+  end if;
+
+  v_event_id := coalesce(
+    (p_params->>'p_event_id')::uuid,
+    (select o.event_id from public.orders o where o.id = (p_params->>'p_original_order_id')::uuid)
+  );
+
+  insert into public.rejected_receipts (
+    id, event_id, device_id, rpc, receipt_no,
+    rksv_cash_register_id, rksv_seq, rksv_jws, rksv_qr, created_at,
+    params, error
+  ) values (
+    v_id, v_event_id, p_params->>'p_device_id', p_rpc, v_rksv->>'receipt_no',
+    v_rksv->>'cash_register_id', (v_rksv->>'seq')::integer, v_rksv->>'jws', v_rksv->>'qr', v_at,
+    p_params - 'p_session' - 'p_discount_session', coalesce(p_error, '')
+  )
+  on conflict (id) do update set error = excluded.error, rejected_at = now();
+
+  insert into public.admin_notifications (kind, message, device_id)
+  values (
+    'receipt_rejected',
+    format('Bon %s von Kasse %s wurde abgelehnt und nicht gebucht (%s). Er bleibt im DEP, bitte prüfen.',
+           v_rksv->>'receipt_no', left(p_params->>'p_device_id', 8), p_error),
+    p_params->>'p_device_id'
+  );
+end;
+$$;
+
+grant execute on function public.record_rejected_receipt(text, jsonb, text) to anon, authenticated;
+
+-- Alle signierten Belege für den DEP: gebuchte Bons + abgelehnte, die (noch) nicht gebucht sind
+create or replace view public.dep_receipts as
+  select o.id, o.event_id, o.rksv_cash_register_id, o.rksv_seq, o.rksv_jws, o.created_at, false as rejected
+  from public.orders o
+  where o.rksv_jws is not null
+  union all
+  select r.id, r.event_id, r.rksv_cash_register_id, r.rksv_seq, r.rksv_jws, r.created_at, true
+  from public.rejected_receipts r
+  where not exists (select 1 from public.orders o where o.id = r.id);
+
+grant select on public.dep_receipts to anon, authenticated;
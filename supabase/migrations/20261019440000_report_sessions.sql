@@ -0,0 +1,79 @@
+-- ====== Berichte nur mit Sitzung ======
+-- sales_report, discount_report, sales_analytics und shift_summary waren ohne Sitzung für anon aufrufbar –
+-- "Berichte ansehen" prüfte nur die Kassa. Die bisherigen Funktionen bleiben für interne Aufrufe
+-- (create_z_report, close_shift), sind aber nicht mehr öffentlich; die Kassa ruft die Varianten mit p_session.
+
+revoke execute on function public.sales_report(uuid, timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.discount_report(uuid, timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.sales_analytics(uuid) from public, anon, authenticated;
+revoke execute on function public.shift_summary(uuid) from public, anon, authenticated;
+
+create or replace function public.sales_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'view_reports');
+  return public.sales_report(p_event_id, p_from, p_to);
+end;
+$$;
+
+grant execute on function public.sales_report(text, uuid, timestamptz, timestamptz) to anon, authenticated;
+
+create or replace function public.discount_report(p_session text, p_event_id uuid, p_from timestamptz, p_to timestamptz)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'view_reports');
+  return public.discount_report(p_event_id, p_from, p_to);
+end;
+$$;
+
+grant execute on function public.discount_report(text, uuid, timestamptz, timestamptz) to anon, authenticated;
+
+create or replace function public.sales_analytics(p_session text, p_event_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'view_reports');
+  return public.sales_analytics(p_event_id);
+end;
+$$;
+
+grant execute on function public.sales_analytics(text, uuid) to anon, authenticated;
+
+-- Schicht-Abrechnung: eigene Schicht, sonst manage_shift oder view_reports
+create or replace function public.shift_summary(p_session text, p_shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_staff_id uuid;
+begin
+  select s.id into v_staff_id from public.session_staff(p_session) s;
+
+  if not exists (select 1 from public.shifts sh where sh.id = p_shift_id and sh.staff_id = v_staff_id)
+     and not public.has_permission(v_staff_id, 'manage_shift')
+     and not public.has_permission(v_staff_id, 'view_reports') then
+    raise exception 'Keine Berechtigung: fremde Schicht.';
+  end if;
+
+  return public.shift_summary(p_shift_id);
+end;
+$$;
+
+grant execute on function public.shift_summary(text, uuid) to anon, authenticated;
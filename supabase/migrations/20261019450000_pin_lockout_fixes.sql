@@ -0,0 +1,150 @@
+-- ====== PIN-Sperren: kein Aussperren des Admins, kein Sofort-Wiedersperren ======
+--   * check_staff_pin ist für anon freigegeben: 30 falsche PINs von irgendwem sperrten bisher die PIN-Eingabe
+--     auf allen Kassen, auch für den Admin. Während der globalen Sperre kommen Mitarbeiter mit manage_staff
+--     jetzt noch durch (Geräte- und PIN-Sperren gelten für sie weiter), alle anderen bekommen "locked".
+--   * pin_unlock löschte die Sperre; die Zählung begann dann wieder bei allen Fehlversuchen im Zeitfenster und
+--     der nächste falsche PIN sperrte sofort erneut. Jetzt endet die Sperre nur, und gezählt wird ab ihrem Ende.
+--   * PINs laufen standardmäßig nicht mehr ab (pin_max_age null): läuft der PIN des letzten Admins zwischen zwei
+--     Festen ab, könnte sonst niemand mehr einen neuen PIN erzeugen.
+
+alter table public.pin_security alter column pin_max_age set default null;
+update public.pin_security c set pin_max_age = null where c.pin_max_age = interval '180 days';
+
+-- PIN-Check mit Sperre. status: ok | wrong | locked | expired (bei locked ist locked_until gesetzt, id/name/role null)
+create or replace function public.check_staff_pin(pin_input text, p_device_id text default null)
+returns table (id uuid, name text, role text, status text, locked_until timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  v_cfg public.pin_security%rowtype;
+  v_device text := coalesce(nullif(trim(p_device_id), ''), 'unbekannt');
+  v_fp text;
+  v_staff record;
+  v_until timestamptz;
+  v_global timestamptz;
+  v_allowed boolean;
+  v_failures integer;
+begin
+  select * into v_cfg from public.pin_security where id;
+  v_fp := encode(hmac(coalesce(pin_input, ''), v_cfg.pepper, 'sha256'), 'hex');
+
+  -- Gerät oder PIN gesperrt? Dann wird der PIN gar nicht geprüft
+  select max(l.locked_until) into v_until
+  from public.pin_lockouts l
+  where l.locked_until > now()
+    and ((l.kind = 'device' and l.key = v_device) or (l.kind = 'pin' and l.key = v_fp));
+  if v_until is not null then
+    return query select null::uuid, null::text, null::text, 'locked'::text, v_until;
+    return;
+  end if;
+
+  -- Globale Sperre: nur wer manage_staff hat, kommt noch durch – sonst könnte jeder anonyme Aufrufer
+  -- mit ein paar falschen PINs auch den Admin aussperren, der die Sperre aufheben soll
+  select l.locked_until into v_global from public.pin_lockouts l where l.kind = 'global' and l.locked_until > now();
+
+  select s.id, s.name, s.role, s.pin_changed_at into v_staff
+  from public.staff s
+  where s.is_active and s.pin_hash is not null and s.pin_hash = crypt(pin_input, s.pin_hash)
+  limit 1;
+
+  v_allowed := v_staff.id is not null and (v_global is null or public.has_permission(v_staff.id, 'manage_staff'));
+
+  insert into public.pin_attempts (device_id, pin_fingerprint, staff_id, success)
+  values (v_device, v_fp, v_staff.id, v_allowed);
+
+  if v_allowed then
+    if v_cfg.pin_max_age is not null and coalesce(v_staff.pin_changed_at, '-infinity') < now() - v_cfg.pin_max_age then
+      if not exists (
+        select 1 from public.admin_notifications n
+        where n.kind = 'pin_expired' and n.read_at is null and starts_with(n.message, v_staff.name || ':')
+      ) then
+        insert into public.admin_notifications (kind, message, device_id)
+        values ('pin_expired', format('%s: PIN abgelaufen – bitte neuen PIN erzeugen.', v_staff.name), v_device);
+      end if;
+      return query select null::uuid, null::text, null::text, 'expired'::text, null::timestamptz;
+      return;
+    end if;
+
+    update public.staff s set last_login_at = now() where s.id = v_staff.id;
+    return query select v_staff.id, v_staff.name::text, v_staff.role::text, 'ok'::text, null::timestamptz;
+    return;
+  end if;
+
+  -- Richtiger PIN während der globalen Sperre: gleiche Antwort wie ein falscher
+  if v_staff.id is not null then
+    return query select null::uuid, null::text, null::text, 'locked'::text, v_global;
+    return;
+  end if;
+  v_until := v_global;
+
+  -- Fehlversuche im Zeitfenster (seit dem letzten Erfolg an diesem Gerät und dem Ende seiner letzten Sperre) → ggf. Gerät sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where a.device_id = v_device
+    and not a.success
+    and a.created_at > now() - v_cfg.failure_window
+    and a.created_at > coalesce((select max(b.created_at) from public.pin_attempts b where b.device_id = v_device and b.success), '-infinity')
+    and a.created_at > coalesce((select l.locked_until from public.pin_lockouts l where l.kind = 'device' and l.key = v_device), '-infinity');
+  if v_failures >= v_cfg.max_device_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('device', v_device, now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('device_locked', format('Gerät %s nach %s falschen PINs bis %s gesperrt.', left(v_device, 8), v_failures,
+            to_char((now() + v_cfg.lockout_duration) at time zone 'Europe/Vienna', 'HH24:MI')), v_device);
+  end if;
+
+  -- Derselbe falsche PIN auf mehreren Geräten (seit Ende seiner letzten Sperre) → PIN sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where a.pin_fingerprint = v_fp
+    and not a.success
+    and a.created_at > now() - v_cfg.failure_window
+    and a.created_at > coalesce((select l.locked_until from public.pin_lockouts l where l.kind = 'pin' and l.key = v_fp), '-infinity');
+  if v_failures >= v_cfg.max_pin_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('pin', v_fp, now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('pin_locked', format('Ein PIN wurde %s-mal falsch probiert und ist vorübergehend gesperrt.', v_failures), v_device);
+  end if;
+
+  -- Fehlversuche insgesamt (seit Ende der letzten globalen Sperre) → PIN-Eingabe überall sperren
+  select count(*) into v_failures
+  from public.pin_attempts a
+  where not a.success
+    and a.created_at > now() - v_cfg.failure_window
+    and a.created_at > coalesce((select l.locked_until from public.pin_lockouts l where l.kind = 'global'), '-infinity');
+  if v_failures >= v_cfg.max_global_failures then
+    v_until := greatest(v_until, now() + v_cfg.lockout_duration);
+    insert into public.pin_lockouts (kind, key, locked_until, failures) values ('global', 'alle', now() + v_cfg.lockout_duration, v_failures)
+    on conflict (kind, key) do update set locked_until = excluded.locked_until, failures = excluded.failures, created_at = now();
+    insert into public.admin_notifications (kind, message, device_id)
+    values ('global_locked', format('%s falsche PINs in kurzer Zeit – PIN-Eingabe auf allen Geräten bis %s gesperrt.', v_failures,
+            to_char((now() + v_cfg.lockout_duration) at time zone 'Europe/Vienna', 'HH24:MI')), v_device);
+  end if;
+
+  return query select null::uuid, null::text, null::text, case when v_until is null then 'wrong' else 'locked' end, v_until;
+end;
+$$;
+
+grant execute on function public.check_staff_pin(text, text) to anon, authenticated;
+
+-- Aufheben = Sperre jetzt enden lassen; die Zeile bleibt, damit die Zählung erst ab hier neu beginnt
+-- (gelöscht zählten die Fehlversuche davor wieder mit und der nächste falsche PIN sperrte sofort erneut)
+create or replace function public.pin_unlock(p_session text, p_kind text, p_key text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_session_permission(p_session, 'manage_staff');
+  update public.pin_lockouts l set locked_until = least(l.locked_until, now()) where l.kind = p_kind and l.key = p_key;
+end;
+$$;
+
+grant execute on function public.pin_unlock(text, text, text) to anon, authenticated;
@@ -0,0 +1,27 @@
+-- ====== Sitzungen verlängern ======
+-- Entsperren geht offline nur mit einer noch gültigen Sitzung (PIN-Prüfung am Gerät). Damit eine Sitzung nicht
+-- ausgerechnet während eines WLAN-Ausfalls abläuft, verlängert die Kassa sie, solange sie online ist:
+-- jeweils auf 12 Stunden ab jetzt, höchstens bis 24 Stunden nach dem Login.
+
+create or replace function public.renew_staff_session(p_token text)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expires timestamptz;
+begin
+  update public.staff_sessions ss
+     set expires_at = greatest(ss.expires_at, least(now() + interval '12 hours', ss.created_at + interval '24 hours'))
+   where ss.token = p_token
+     and ss.ended_at is null
+     and ss.expires_at > now()
+     and exists (select 1 from public.staff s where s.id = ss.staff_id and s.is_active)
+  returning ss.expires_at into v_expires;
+
+  return v_expires; -- null = Sitzung abgelaufen, beendet oder Mitarbeiter deaktiviert
+end;
+$$;
+
+grant execute on function public.renew_staff_session(text) to anon, authenticated;